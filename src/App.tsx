@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import type { ChangeEvent, DragEvent } from "react";
+import type { ChangeEvent, DragEvent, MouseEvent, PointerEvent } from "react";
 import type {
   BitExtractionOptions,
   DecodedImage,
@@ -8,28 +8,109 @@ import type {
   ExtractionBitOrder,
   ExtractionBytePackOrder,
   ExtractionChannelOrder,
+  ExtractionRegion,
   ExtractionScanOrder,
+  KeyedPixelOrderGenerator,
+  KeyedSeedType,
   PlaneSpec,
 } from "./types";
+import type { AutoScanHit } from "./utils/autoScan";
+import {
+  buildHeatmapLegendGradient,
+  computeBitEntropyMap,
+  getBitEntropyCellAt,
+  heatmapColor,
+  type BitEntropyMetric,
+} from "./utils/bitEntropy";
+import {
+  analyzeChiSquare,
+  type ChiSquareChannelSeries,
+} from "./utils/chiSquare";
+import { runAnalysis } from "./analysisClient";
+import type {
+  CarvedBitPlaneStream,
+  CarvedDctStream,
+} from "./utils/analysisTasks";
 import {
   buildPlaneSpecs,
-  extractBitPlane,
-  extractBitPlaneStream,
-  extractCombinedBitPlanes,
+  formatBitSequence,
+  orderSelectedPlanes,
+  parseBitSequence,
+  resolveExtractionRegion,
+  resolvePixelSelection,
 } from "./utils/bitPlane";
 import {
   formatByteCountWithHuman,
   formatBytes,
   formatCommaGroupedInteger,
 } from "./utils/format";
-import { buildHexDump } from "./utils/hexDump";
+import { buildHexDump, type HexDumpView } from "./utils/hexDump";
 import { decodeImageFile } from "./utils/image";
 import {
-  detectCarvedPayloads,
+  analyzeLsbSteganalysis,
+  estimateEmbeddedBytes,
+} from "./utils/lsbSteganalysis";
+import {
   type CarvedPayload,
+  type CarvedPayloadKind,
 } from "./utils/payloadCarving";
+import {
+  type DctCoefficientOrder,
+  type DctStreamOptions,
+  type JpegCoefficientDecodeResult,
+  type JpegCoefficients,
+} from "./utils/jpegDct";
+import { analyzeJpegQuantization } from "./utils/jpegQuantization";
+import { computeErrorLevelImage, recompressAsJpeg } from "./utils/errorLevel";
+import {
+  transformViewImageData,
+  type ViewTransformMode,
+} from "./utils/viewTransform";
+import {
+  DCT_HISTOGRAM_RANGE,
+  type JpegSteganalysis,
+} from "./utils/jpegSteganalysis";
+import { inspectGifBlocks, type GifBlock } from "./utils/gifBlocks";
+import { isIntegerSeed } from "./utils/keyedPixelOrder";
+import { inspectJpegSegments, type JpegSegment } from "./utils/jpegSegments";
+import {
+  sliceNestedPayload,
+  type NestedCarvedPayload,
+} from "./utils/nestedCarving";
+import { inspectPngChunks } from "./utils/pngChunks";
+import {
+  findUnaccountedRegions,
+  type UnaccountedRegion,
+  type UnaccountedRegionKind,
+} from "./utils/unaccountedRegions";
+import {
+  analyzePalette,
+  buildPaletteIndexImageData,
+  type PaletteEntry,
+  type PaletteImage,
+  type PaletteIndexOrder,
+} from "./utils/paletteImage";
+import { isAbortError } from "./utils/workerPool";
+import {
+  listZipEntries,
+  type ZipEncryption,
+  type ZipEntry,
+} from "./utils/zipArchive";
 
 const PLANE_SPECS = buildPlaneSpecs();
+// Palette index images store the index in every color channel; index bit N is
+// read through red plane N.
+const PALETTE_INDEX_PLANES = PLANE_SPECS.filter(
+  (plane) => plane.channel === "r",
+);
+const PALETTE_FORMATS = new Set(["image/gif", "image/png", "image/bmp"]);
+const PALETTE_ORDER_OPTIONS: Array<{
+  value: PaletteIndexOrder;
+  label: string;
+}> = [
+  { value: "index", label: "Palette index" },
+  { value: "luminance", label: "Luminance rank (EzStego)" },
+];
 const CHANNEL_ROWS: PlaneSpec["channelLabel"][] = [
   "Red",
   "Green",
@@ -38,6 +119,28 @@ const CHANNEL_ROWS: PlaneSpec["channelLabel"][] = [
 ];
 const HEX_DUMP_MAX_BYTES = 8192;
 const PAYLOAD_SCAN_MAX_BYTES = 4 * 1024 * 1024;
+const CARVING_DEPTH_OPTIONS = [0, 1, 2, 3, 4, 5];
+const DEFAULT_CARVING_DEPTH = 2;
+// Carved kinds that decodeImageFile can open as a new session.
+const OPENABLE_PAYLOAD_KINDS = new Set<CarvedPayloadKind>([
+  "png",
+  "jpeg",
+  "gif",
+  "webp",
+  "bmp",
+  "tiff",
+]);
+// ZIP entry extensions that decodeImageFile can open, with their MIME types.
+const OPENABLE_ZIP_ENTRY_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  bmp: "image/bmp",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+};
 const DEFAULT_EXTRACTION_OPTIONS: BitExtractionOptions = {
   scanOrder: "row-major",
   channelOrder: "rgba",
@@ -49,6 +152,19 @@ const SCAN_ORDER_OPTIONS: Array<{ value: ExtractionScanOrder; label: string }> =
   [
     { value: "row-major", label: "Horizontal (row-major)" },
     { value: "column-major", label: "Vertical (column-major)" },
+    {
+      value: "row-major-reversed",
+      label: "Horizontal reversed (last pixel first)",
+    },
+    {
+      value: "column-major-reversed",
+      label: "Vertical reversed (last pixel first)",
+    },
+    { value: "bottom-up", label: "Bottom-up rows (BMP-style)" },
+    { value: "serpentine", label: "Serpentine (zigzag rows)" },
+    { value: "spiral-in", label: "Spiral inward (clockwise)" },
+    { value: "hilbert", label: "Hilbert curve" },
+    { value: "block-8x8", label: "8x8 blocks" },
   ];
 
 const CHANNEL_ORDER_OPTIONS: Array<{
@@ -74,15 +190,72 @@ const BYTE_PACK_OPTIONS: Array<{
   { value: "lsb-first", label: "Byte LSB first" },
 ];
 
-type AnalyzerTab = "view" | "bit-planes" | "exif" | "trailing-data";
-type ViewMode =
-  | "original"
-  | "xor"
-  | "high-contrast"
-  | "grayscale"
-  | "red-channel"
-  | "green-channel"
-  | "blue-channel";
+type StreamSource = "bit-planes" | "dct-coefficients" | "palette-indices";
+
+const DEFAULT_DCT_STREAM_OPTIONS: DctStreamOptions = {
+  order: "mcu",
+  includeDc: true,
+  bytePackOrder: "msb-first",
+};
+
+const DCT_ORDER_OPTIONS: Array<{ value: DctCoefficientOrder; label: string }> =
+  [
+    { value: "mcu", label: "MCU interleaved (encoding order)" },
+    { value: "component", label: "Component by component" },
+  ];
+
+const KEYED_ORDER_OPTIONS: Array<{
+  value: KeyedPixelOrderGenerator;
+  label: string;
+}> = [
+  { value: "java-random", label: "Java Random (Collections.shuffle)" },
+  { value: "python-random", label: "Python random.shuffle (MT19937)" },
+  { value: "c-rand-lcg", label: "C rand() LCG" },
+];
+
+const KEYED_SEED_TYPE_OPTIONS: Array<{ value: KeyedSeedType; label: string }> =
+  [
+    { value: "string", label: "String" },
+    { value: "integer", label: "Integer" },
+  ];
+
+const ENTROPY_BLOCK_SIZE_OPTIONS = [4, 8, 16, 32, 64];
+const ENTROPY_METRIC_OPTIONS: Array<{
+  value: BitEntropyMetric;
+  label: string;
+}> = [
+  { value: "entropy", label: "Shannon entropy" },
+  { value: "ones-ratio", label: "Ones ratio" },
+];
+const HEATMAP_LEGEND_GRADIENT = buildHeatmapLegendGradient();
+
+const CHI_SQUARE_PLOT_WIDTH = 400;
+const CHI_SQUARE_PLOT_HEIGHT = 140;
+const DCT_HISTOGRAM_PLOT_WIDTH = 400;
+const DCT_HISTOGRAM_PLOT_HEIGHT = 140;
+const DCT_FREQUENCY_OPTIONS = Array.from({ length: 64 }, (_, frequency) => ({
+  value: frequency,
+  label: `(${Math.floor(frequency / 8)},${frequency % 8})${frequency === 0 ? " DC" : ""}`,
+}));
+const ANALYSIS_CHANNEL_STYLES: Record<
+  ChiSquareChannelSeries["channel"],
+  { label: string; color: string }
+> = {
+  r: { label: "Red", color: "#dc2626" },
+  g: { label: "Green", color: "#16a34a" },
+  b: { label: "Blue", color: "#2563eb" },
+  a: { label: "Alpha", color: "#6b7280" },
+};
+
+type AnalyzerTab =
+  | "view"
+  | "bit-planes"
+  | "steganalysis"
+  | "exif"
+  | "structure"
+  | "palette"
+  | "trailing-data";
+type ViewMode = ViewTransformMode | "ela";
 
 const VIEW_MODE_OPTIONS: Array<{ value: ViewMode; label: string }> = [
   { value: "original", label: "Original" },
@@ -92,12 +265,20 @@ const VIEW_MODE_OPTIONS: Array<{ value: ViewMode; label: string }> = [
   { value: "red-channel", label: "Red channel focus" },
   { value: "green-channel", label: "Green channel focus" },
   { value: "blue-channel", label: "Blue channel focus" },
+  { value: "random-colors", label: "Random color map" },
+  { value: "ela", label: "Error Level Analysis (ELA)" },
 ];
+const DEFAULT_ELA_QUALITY = 90;
+const DEFAULT_ELA_SCALE = 20;
+const DEFAULT_COLOR_MAP_SEED = 0x2545f491;
 
 const ANALYZER_TABS: Array<{ id: AnalyzerTab; label: string }> = [
   { id: "view", label: "View" },
   { id: "exif", label: "Exif" },
+  { id: "structure", label: "Structure" },
   { id: "bit-planes", label: "Bit-Plane" },
+  { id: "steganalysis", label: "Steganalysis" },
+  { id: "palette", label: "Palette" },
   { id: "trailing-data", label: "Trailing data" },
 ];
 
@@ -107,6 +288,7 @@ const EXIF_GROUP_ORDER: ExifGroup[] = [
   "gps",
   "interop",
   "ifd1",
+  "png-text",
 ];
 const EXIF_GROUP_LABELS: Record<ExifGroup, string> = {
   ifd0: "Image (IFD0)",
@@ -114,6 +296,13 @@ const EXIF_GROUP_LABELS: Record<ExifGroup, string> = {
   gps: "GPS",
   interop: "Interop",
   ifd1: "Thumbnail (IFD1)",
+  "png-text": "PNG Text Chunks",
+};
+
+const UNACCOUNTED_REGION_LABELS: Record<UnaccountedRegionKind, string> = {
+  leading: "Leading data",
+  gap: "Interstitial gap",
+  padding: "Padding anomaly",
 };
 
 function getExifSourceLabel(
@@ -122,6 +311,9 @@ function getExifSourceLabel(
   if (source === "exifr") {
     return "exifr";
   }
+  if (source === "png-text") {
+    return "PNG text";
+  }
   return source;
 }
 
@@ -130,18 +322,62 @@ function buildGoogleMapsEmbedUrl(location: ExifLocation): string {
   return `https://www.google.com/maps?q=${encodeURIComponent(coordinates)}&z=15&output=embed`;
 }
 
+function buildRegionNamePart(region: ExtractionRegion | null): string {
+  return region
+    ? `_roi-${region.x}-${region.y}-${region.width}x${region.height}`
+    : "";
+}
+
+function buildPixelSelectionNamePart(options: BitExtractionOptions): string {
+  const selection = resolvePixelSelection(options);
+  const parts = [
+    selection.offset > 0 ? `off${selection.offset}` : "",
+    selection.stride > 1 ? `step${selection.stride}` : "",
+    selection.skip > 0 ? `take${selection.take}skip${selection.skip}` : "",
+    options.pixelOrderKey ? `keyed-${options.pixelOrderKey.generator}` : "",
+  ].filter((part) => part.length > 0);
+  return parts.length > 0 ? `_${parts.join("_")}` : "";
+}
+
 function buildExtractionDownloadName(
   sourceFileName: string,
   selectedPlanes: PlaneSpec[],
   options: BitExtractionOptions,
+  region: ExtractionRegion | null,
 ): string {
   const baseName = sourceFileName.replace(/\.[^.]+$/, "") || "image";
-  const selectionPart =
-    selectedPlanes.length === 1
+  const selectionPart = options.bitSequence?.length
+    ? `seq-${options.bitSequence.join("").replace(/-/g, "")}`
+    : selectedPlanes.length === 1
       ? selectedPlanes[0].id
       : `${selectedPlanes.length}planes`;
 
-  return `${baseName}_${selectionPart}_${options.scanOrder}_${options.channelOrder}_${options.bitOrder}_${options.bytePackOrder}.bin`;
+  return `${baseName}_${selectionPart}_${options.scanOrder}_${options.channelOrder}_${options.bitOrder}_${options.bytePackOrder}${buildRegionNamePart(region)}${buildPixelSelectionNamePart(options)}.bin`;
+}
+
+function buildDctStreamDownloadName(
+  sourceFileName: string,
+  options: DctStreamOptions,
+): string {
+  const baseName = sourceFileName.replace(/\.[^.]+$/, "") || "image";
+  return `${baseName}_dct_${options.order}${options.includeDc ? "" : "_ac"}_${options.bytePackOrder}.bin`;
+}
+
+function formatPaletteColor(entry: PaletteEntry): string {
+  return `#${[entry.red, entry.green, entry.blue]
+    .map((value) => value.toString(16).padStart(2, "0"))
+    .join("")}`;
+}
+
+function buildPaletteStreamDownloadName(
+  sourceFileName: string,
+  planes: PlaneSpec[],
+  order: PaletteIndexOrder,
+  options: BitExtractionOptions,
+): string {
+  const baseName = sourceFileName.replace(/\.[^.]+$/, "") || "image";
+  const bits = planes.map((plane) => plane.bitPosition).join("");
+  return `${baseName}_palette-${order}_bits${bits}_${options.scanOrder}_${options.bitOrder}_${options.bytePackOrder}${buildPixelSelectionNamePart(options)}.bin`;
 }
 
 function buildTrailingDataDownloadName(sourceFileName: string): string {
@@ -149,13 +385,41 @@ function buildTrailingDataDownloadName(sourceFileName: string): string {
   return `${baseName}_trailing.bin`;
 }
 
+function buildUnaccountedRegionDownloadName(
+  sourceFileName: string,
+  region: UnaccountedRegion,
+): string {
+  const baseName = sourceFileName.replace(/\.[^.]+$/, "") || "image";
+  const offsetPart = region.offset.toString(16).toUpperCase().padStart(8, "0");
+  return `${baseName}_${region.kind}_${offsetPart}.bin`;
+}
+
+function buildJpegSegmentDownloadName(
+  sourceFileName: string,
+  segment: JpegSegment,
+): string {
+  const baseName = sourceFileName.replace(/\.[^.]+$/, "") || "image";
+  const offsetPart = segment.offset.toString(16).toUpperCase().padStart(8, "0");
+  return `${baseName}_segment_${segment.name}_${offsetPart}.bin`;
+}
+
+function buildGifBlockDownloadName(
+  sourceFileName: string,
+  block: GifBlock,
+): string {
+  const baseName = sourceFileName.replace(/\.[^.]+$/, "") || "image";
+  const offsetPart = block.offset.toString(16).toUpperCase().padStart(8, "0");
+  const namePart = block.name.replace(/[^A-Za-z0-9]+/g, "-");
+  return `${baseName}_block_${namePart}_${offsetPart}.bin`;
+}
+
 function formatHexOffset(offset: number): string {
   return `0x${offset.toString(16).toUpperCase()}`;
 }
 
 function buildCarvedPayloadDownloadName(
   sourceFileName: string,
-  sourceLabel: "bitstream" | "trailing",
+  sourceLabel: string,
   payload: CarvedPayload,
   absoluteStartOffset?: number,
 ): string {
@@ -168,77 +432,97 @@ function buildCarvedPayloadDownloadName(
   return `${baseName}_${sourceLabel}_${payload.kind}_${offsetPart}.${payload.extension}`;
 }
 
-function transformViewImageData(
-  imageData: ImageData,
-  mode: ViewMode,
-): ImageData {
-  if (mode === "original") {
-    return new ImageData(
-      new Uint8ClampedArray(imageData.data),
-      imageData.width,
-      imageData.height,
-    );
+function getZipEntryImageType(entry: ZipEntry): string | null {
+  const extension = /\.([^./]+)$/.exec(entry.name)?.[1].toLowerCase();
+  return (extension && OPENABLE_ZIP_ENTRY_TYPES[extension]) || null;
+}
+
+// Carved name without its extension, then the entry's own file name.
+function buildZipEntryDownloadName(
+  carvedPayloadName: string,
+  entry: ZipEntry,
+): string {
+  const entryName =
+    entry.name.split("/").filter(Boolean).pop() ?? `entry-${entry.index}`;
+  return `${carvedPayloadName.replace(/\.[^.]+$/, "")}_${entryName}`;
+}
+
+function getCanvasPixelPoint(
+  canvas: HTMLCanvasElement,
+  clientX: number,
+  clientY: number,
+): { x: number; y: number } | null {
+  const bounds = canvas.getBoundingClientRect();
+  if (bounds.width === 0 || bounds.height === 0) {
+    return null;
   }
 
-  const source = imageData.data;
-  const output = new Uint8ClampedArray(source.length);
-
-  for (let index = 0; index < source.length; index += 4) {
-    const red = source[index];
-    const green = source[index + 1];
-    const blue = source[index + 2];
-    const alpha = source[index + 3];
-
-    if (mode === "xor") {
-      output[index] = 255 - red;
-      output[index + 1] = 255 - green;
-      output[index + 2] = 255 - blue;
-      output[index + 3] = alpha;
-      continue;
-    }
+  return {
+    x: Math.min(
+      canvas.width - 1,
+      Math.max(
+        0,
+        Math.floor(((clientX - bounds.left) * canvas.width) / bounds.width),
+      ),
+    ),
+    y: Math.min(
+      canvas.height - 1,
+      Math.max(
+        0,
+        Math.floor(((clientY - bounds.top) * canvas.height) / bounds.height),
+      ),
+    ),
+  };
+}
 
-    if (mode === "high-contrast") {
-      const luminance = red * 0.299 + green * 0.587 + blue * 0.114;
-      const value = luminance >= 128 ? 255 : 0;
-      output[index] = value;
-      output[index + 1] = value;
-      output[index + 2] = value;
-      output[index + 3] = alpha;
-      continue;
-    }
+function buildRegionFromCorners(
+  start: { x: number; y: number },
+  end: { x: number; y: number },
+): ExtractionRegion {
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x) + 1,
+    height: Math.abs(end.y - start.y) + 1,
+  };
+}
 
-    if (mode === "grayscale") {
-      const value = Math.round(red * 0.299 + green * 0.587 + blue * 0.114);
-      output[index] = value;
-      output[index + 1] = value;
-      output[index + 2] = value;
-      output[index + 3] = alpha;
-      continue;
-    }
+function buildChiSquarePolylinePoints(series: ChiSquareChannelSeries): string {
+  const points = series.samples.map((sample) => {
+    const x = sample.scanFraction * CHI_SQUARE_PLOT_WIDTH;
+    const y = (1 - sample.probability) * CHI_SQUARE_PLOT_HEIGHT;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+  return [`0,${CHI_SQUARE_PLOT_HEIGHT}`, ...points].join(" ");
+}
 
-    if (mode === "red-channel") {
-      output[index] = red;
-      output[index + 1] = 0;
-      output[index + 2] = 0;
-      output[index + 3] = alpha;
-      continue;
-    }
+function formatEmbeddingRate(rate: number | undefined): string {
+  return rate === undefined ? "n/a" : `${(rate * 100).toFixed(1)}%`;
+}
 
-    if (mode === "green-channel") {
-      output[index] = 0;
-      output[index + 1] = green;
-      output[index + 2] = 0;
-      output[index + 3] = alpha;
-      continue;
-    }
+interface BitPlaneCarvingView {
+  bytes: Uint8Array;
+  payloads: NestedCarvedPayload[];
+  scannedBytes: number;
+  totalBytes: number;
+  isScanTruncated: boolean;
+}
 
-    output[index] = 0;
-    output[index + 1] = 0;
-    output[index + 2] = blue;
-    output[index + 3] = alpha;
-  }
+interface TrailingCarvingView extends BitPlaneCarvingView {
+  startOffset: number;
+}
+
+type CarvingSource = "bit-planes" | "trailing";
+
+const ZIP_ENCRYPTION_LABELS: Record<ZipEncryption, string> = {
+  none: "None",
+  zipcrypto: "ZipCrypto",
+  aes: "AES",
+  strong: "Strong encryption",
+};
 
-  return new ImageData(output, imageData.width, imageData.height);
+function formatProgress(fraction: number): string {
+  return `${Math.round(Math.min(1, Math.max(0, fraction)) * 100)}%`;
 }
 
 function App() {
@@ -256,9 +540,99 @@ function App() {
   const [activeTab, setActiveTab] = useState<AnalyzerTab>("view");
   const [skipLeadingNullBytes, setSkipLeadingNullBytes] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>("original");
+  const [elaQuality, setElaQuality] = useState(DEFAULT_ELA_QUALITY);
+  const [elaScale, setElaScale] = useState(DEFAULT_ELA_SCALE);
+  const [colorMapSeed, setColorMapSeed] = useState(DEFAULT_COLOR_MAP_SEED);
+  const [elaRecompression, setElaRecompression] = useState<{
+    source: ImageData;
+    quality: number;
+    result: ImageData | null;
+    error: string | null;
+  } | null>(null);
+  const [showEntropyOverlay, setShowEntropyOverlay] = useState(false);
+  const [entropyMetric, setEntropyMetric] =
+    useState<BitEntropyMetric>("entropy");
+  const [entropyBlockSize, setEntropyBlockSize] = useState(16);
+  const [entropyOverlayOpacity, setEntropyOverlayOpacity] = useState(0.65);
+  const [entropySelectionPoint, setEntropySelectionPoint] = useState<{
+    x: number;
+    y: number;
+  } | null>(null);
+  const [hexDumpView, setHexDumpView] = useState<
+    (HexDumpView & { detail: string }) | null
+  >(null);
+  const [streamSource, setStreamSource] = useState<StreamSource>("bit-planes");
+  const [dctStreamOptions, setDctStreamOptions] = useState<DctStreamOptions>(
+    DEFAULT_DCT_STREAM_OPTIONS,
+  );
+  const [jpegCoefficients, setJpegCoefficients] = useState<{
+    result: JpegCoefficientDecodeResult | null;
+    error: string | null;
+  } | null>(null);
+  const [coefficientDecodeProgress, setCoefficientDecodeProgress] = useState<
+    number | null
+  >(null);
+  const [jpegSteganalysisResult, setJpegSteganalysisResult] = useState<{
+    coefficients: JpegCoefficients;
+    analysis: JpegSteganalysis;
+  } | null>(null);
+  const [jpegSteganalysisProgress, setJpegSteganalysisProgress] = useState<
+    number | null
+  >(null);
+  const [dctHistogramFrequency, setDctHistogramFrequency] = useState(1);
+  const [paletteImage, setPaletteImage] = useState<{
+    result: PaletteImage | null;
+    error: string | null;
+  } | null>(null);
+  const [paletteIndexOrder, setPaletteIndexOrder] =
+    useState<PaletteIndexOrder>("index");
+  const [paletteIndexBits, setPaletteIndexBits] = useState<number[]>([1]);
+  const [paletteRenderProgress, setPaletteRenderProgress] = useState<
+    number | null
+  >(null);
+  const [bitPlanePayloadCarving, setBitPlanePayloadCarving] =
+    useState<BitPlaneCarvingView | null>(null);
+  const [bitPlaneCarvingProgress, setBitPlaneCarvingProgress] = useState<
+    number | null
+  >(null);
+  const [trailingPayloadCarving, setTrailingPayloadCarving] =
+    useState<TrailingCarvingView | null>(null);
+  const [carvingDepth, setCarvingDepth] = useState(DEFAULT_CARVING_DEPTH);
+  // The carved ZIP whose central directory is listed, if any.
+  const [zipListingTarget, setZipListingTarget] = useState<{
+    source: CarvingSource;
+    payloadId: string;
+  } | null>(null);
+  const [zipEntryError, setZipEntryError] = useState<string | null>(null);
+  const [extractingZipEntryIndex, setExtractingZipEntryIndex] = useState<
+    number | null
+  >(null);
+  // Files of the sessions a carved payload was opened from, outermost first.
+  const [parentSessionFiles, setParentSessionFiles] = useState<File[]>([]);
+  const [planeRenderProgress, setPlaneRenderProgress] = useState<number | null>(
+    null,
+  );
+  const [downloadProgress, setDownloadProgress] = useState<number | null>(null);
+  const [bitSequenceText, setBitSequenceText] = useState("");
+  const [bitSequenceError, setBitSequenceError] = useState<string | null>(null);
+  const [regionDraft, setRegionDraft] = useState<ExtractionRegion | null>(null);
+  const [autoScanIncludeAlpha, setAutoScanIncludeAlpha] = useState(false);
+  const [autoScanProgress, setAutoScanProgress] = useState<number | null>(null);
+  const [autoScanResult, setAutoScanResult] = useState<{
+    imageData: ImageData;
+    hits: AutoScanHit[];
+  } | null>(null);
 
   const planeCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const paletteCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const viewCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const entropyCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const regionCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const regionDragStartRef = useRef<{ x: number; y: number } | null>(null);
+  const downloadControllerRef = useRef<AbortController | null>(null);
+  const autoScanControllerRef = useRef<AbortController | null>(null);
+  const zipEntryControllerRef = useRef<AbortController | null>(null);
+  const sessionFileRef = useRef<File | null>(null);
   const planeStripRef = useRef<HTMLDivElement | null>(null);
 
   const selectedPlaneSet = useMemo(
@@ -289,6 +663,18 @@ function App() {
     activeFrame?.imageData ?? decoded?.imageData ?? null;
   const activeFrameDurationMs = activeFrame?.durationMs ?? null;
 
+  const extractionRegion = useMemo(() => {
+    if (!analysisImageData || !extractionOptions.region) {
+      return null;
+    }
+
+    return resolveExtractionRegion(
+      extractionOptions.region,
+      analysisImageData.width,
+      analysisImageData.height,
+    );
+  }, [analysisImageData, extractionOptions.region]);
+
   const selectionLabel = useMemo(() => {
     if (selectedPlanes.length === 0) {
       return "No selection";
@@ -299,47 +685,431 @@ function App() {
     return `${selectedPlanes.length} planes combined`;
   }, [selectedPlanes]);
 
-  const hexDumpView = useMemo(() => {
-    if (!analysisImageData || selectedPlanes.length === 0) {
+  const hasExtractionPlanes =
+    selectedPlanes.length > 0 || Boolean(extractionOptions.bitSequence?.length);
+
+  const isDctStream =
+    streamSource === "dct-coefficients" && decoded?.format === "image/jpeg";
+  const dctCoefficients = jpegCoefficients?.result?.coefficients ?? null;
+
+  const paletteResult = paletteImage?.result ?? null;
+  const paletteAnalysis = useMemo(
+    () => (paletteResult ? analyzePalette(paletteResult) : null),
+    [paletteResult],
+  );
+  const paletteIndexImageData = useMemo(
+    () =>
+      paletteResult && paletteAnalysis
+        ? buildPaletteIndexImageData(
+            paletteResult,
+            paletteIndexOrder,
+            paletteAnalysis.luminanceOrder,
+          )
+        : null,
+    [paletteAnalysis, paletteIndexOrder, paletteResult],
+  );
+  // GIF frames smaller than the logical screen cannot stand in for the
+  // composited frame pixel for pixel.
+  const paletteIndexImageMatchesFrame =
+    paletteIndexImageData !== null &&
+    paletteIndexImageData.width === analysisImageData?.width &&
+    paletteIndexImageData.height === analysisImageData.height;
+  const paletteIndexPlanes = useMemo(
+    () =>
+      PALETTE_INDEX_PLANES.filter((plane) =>
+        paletteIndexBits.includes(plane.bitPosition),
+      ),
+    [paletteIndexBits],
+  );
+  const isPaletteStream =
+    streamSource === "palette-indices" && paletteIndexImageData !== null;
+
+  // Pixel-based streams read either the decoded RGBA pixels or the palette
+  // index image; both go through the same bit-plane extraction tasks.
+  const streamImageData = isPaletteStream
+    ? paletteIndexImageData
+    : analysisImageData;
+  const streamPlanes = isPaletteStream ? paletteIndexPlanes : selectedPlanes;
+  const pixelOrderSeedError =
+    extractionOptions.pixelOrderKey?.seedType === "integer" &&
+    !isIntegerSeed(extractionOptions.pixelOrderKey.seed)
+      ? "Integer seeds must be whole numbers."
+      : null;
+  const streamOptions = useMemo(() => {
+    // An unfinished integer seed leaves the scan order alone until it parses.
+    const options = pixelOrderSeedError
+      ? { ...extractionOptions, pixelOrderKey: null }
+      : extractionOptions;
+    return isPaletteStream ? { ...options, bitSequence: null } : options;
+  }, [extractionOptions, isPaletteStream, pixelOrderSeedError]);
+  const hasStreamPlanes = isPaletteStream
+    ? paletteIndexPlanes.length > 0
+    : hasExtractionPlanes;
+  const hasStreamInput = isDctStream
+    ? dctCoefficients !== null
+    : hasStreamPlanes;
+
+  const unaccountedRegions = useMemo(() => {
+    if (!decoded?.sourceBytes) {
+      return [];
+    }
+    return findUnaccountedRegions(decoded.sourceBytes, decoded.format);
+  }, [decoded]);
+
+  const pngStructure = useMemo(() => {
+    if (decoded?.format !== "image/png" || !decoded.sourceBytes) {
       return null;
     }
+    return inspectPngChunks(decoded.sourceBytes);
+  }, [decoded]);
 
-    const extracted = extractBitPlaneStream(
-      analysisImageData,
-      selectedPlanes,
-      extractionOptions,
-      HEX_DUMP_MAX_BYTES,
-    );
-    const hexDump = buildHexDump(
-      extracted.bytes,
-      extracted.totalBytes,
-      extracted.totalBits,
+  const jpegStructure = useMemo(() => {
+    if (decoded?.format !== "image/jpeg" || !decoded.sourceBytes) {
+      return null;
+    }
+    return inspectJpegSegments(decoded.sourceBytes);
+  }, [decoded]);
+
+  const gifStructure = useMemo(() => {
+    if (decoded?.format !== "image/gif" || !decoded.sourceBytes) {
+      return null;
+    }
+    return inspectGifBlocks(decoded.sourceBytes);
+  }, [decoded]);
+
+  const structureItemCount = pngStructure
+    ? pngStructure.chunks.length
+    : jpegStructure
+      ? jpegStructure.segments.length
+      : gifStructure
+        ? gifStructure.blocks.length
+        : null;
+
+  const reportTaskError = useCallback((taskError: unknown) => {
+    if (isAbortError(taskError)) {
+      return;
+    }
+    setError(
+      taskError instanceof Error ? taskError.message : "Analysis task failed.",
     );
-    return {
-      ...hexDump,
-      bitsPerPixel: extracted.bitsPerPixel,
+  }, []);
+
+  useEffect(() => {
+    if (decoded?.format !== "image/jpeg" || !decoded.sourceBytes) {
+      setJpegCoefficients(null);
+      setCoefficientDecodeProgress(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    setJpegCoefficients(null);
+    setCoefficientDecodeProgress(0);
+    runAnalysis(
+      { kind: "jpeg-coefficients", bytes: decoded.sourceBytes },
+      {
+        signal: controller.signal,
+        onProgress: setCoefficientDecodeProgress,
+      },
+    )
+      .then((result) => {
+        setJpegCoefficients({ result, error: null });
+        setCoefficientDecodeProgress(null);
+      })
+      .catch((taskError: unknown) => {
+        if (isAbortError(taskError)) {
+          return;
+        }
+        setJpegCoefficients({
+          result: null,
+          error:
+            taskError instanceof Error
+              ? taskError.message
+              : "Unable to decode DCT coefficients.",
+        });
+        setCoefficientDecodeProgress(null);
+      });
+
+    return () => controller.abort();
+  }, [decoded]);
+
+  useEffect(() => {
+    if (!decoded?.sourceBytes || !PALETTE_FORMATS.has(decoded.format)) {
+      setPaletteImage(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    runAnalysis(
+      {
+        kind: "palette-image",
+        bytes: decoded.sourceBytes,
+        frameIndex: decoded.format === "image/gif" ? clampedFrameIndex : 0,
+      },
+      { signal: controller.signal },
+    )
+      .then((result) => setPaletteImage({ result, error: null }))
+      .catch((taskError: unknown) => {
+        if (isAbortError(taskError)) {
+          return;
+        }
+        setPaletteImage({
+          result: null,
+          error:
+            taskError instanceof Error
+              ? taskError.message
+              : "Unable to decode palette indices.",
+        });
+      });
+
+    return () => controller.abort();
+  }, [clampedFrameIndex, decoded]);
+
+  useEffect(() => {
+    if (isDctStream) {
+      if (!dctCoefficients) {
+        setHexDumpView(null);
+        return;
+      }
+
+      const controller = new AbortController();
+      runAnalysis(
+        {
+          kind: "dct-stream",
+          coefficients: dctCoefficients,
+          options: dctStreamOptions,
+          maxBytes: HEX_DUMP_MAX_BYTES,
+        },
+        { signal: controller.signal },
+      )
+        .then((extracted) => {
+          setHexDumpView({
+            ...buildHexDump(
+              extracted.bytes,
+              extracted.totalBytes,
+              extracted.totalBits,
+            ),
+            detail: `Usable coefficients: ${extracted.totalBits.toLocaleString()} of ${extracted.totalCoefficients.toLocaleString()}`,
+          });
+        })
+        .catch(reportTaskError);
+
+      return () => controller.abort();
+    }
+
+    if (!streamImageData || !hasStreamPlanes) {
+      setHexDumpView(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    runAnalysis(
+      {
+        kind: "bit-plane-stream",
+        imageData: streamImageData,
+        planes: streamPlanes,
+        options: streamOptions,
+        maxBytes: HEX_DUMP_MAX_BYTES,
+      },
+      { signal: controller.signal },
+    )
+      .then((extracted) => {
+        setHexDumpView({
+          ...buildHexDump(
+            extracted.bytes,
+            extracted.totalBytes,
+            extracted.totalBits,
+          ),
+          detail: `${isPaletteStream ? "Index bits" : "Bits"} per pixel: ${extracted.bitsPerPixel.toLocaleString()}`,
+        });
+      })
+      .catch(reportTaskError);
+
+    return () => controller.abort();
+  }, [
+    dctCoefficients,
+    dctStreamOptions,
+    hasStreamPlanes,
+    isDctStream,
+    isPaletteStream,
+    reportTaskError,
+    streamImageData,
+    streamOptions,
+    streamPlanes,
+  ]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const taskOptions = {
+      signal: controller.signal,
+      onProgress: setBitPlaneCarvingProgress,
     };
-  }, [analysisImageData, extractionOptions, selectedPlanes]);
+    let carving: Promise<CarvedBitPlaneStream | CarvedDctStream> | null = null;
+    if (isDctStream) {
+      if (dctCoefficients) {
+        carving = runAnalysis(
+          {
+            kind: "carve-dct-stream",
+            coefficients: dctCoefficients,
+            options: dctStreamOptions,
+            maxBytes: PAYLOAD_SCAN_MAX_BYTES,
+            maxDepth: carvingDepth,
+          },
+          taskOptions,
+        );
+      }
+    } else if (streamImageData && hasStreamPlanes) {
+      carving = runAnalysis(
+        {
+          kind: "carve-bit-plane-stream",
+          imageData: streamImageData,
+          planes: streamPlanes,
+          options: streamOptions,
+          maxBytes: PAYLOAD_SCAN_MAX_BYTES,
+          maxDepth: carvingDepth,
+        },
+        taskOptions,
+      );
+    }
 
-  const bitPlanePayloadCarving = useMemo(() => {
-    if (!analysisImageData || selectedPlanes.length === 0) {
+    if (!carving) {
+      setBitPlanePayloadCarving(null);
+      setBitPlaneCarvingProgress(null);
+      return;
+    }
+
+    setBitPlaneCarvingProgress(0);
+    carving
+      .then((carved) => {
+        setBitPlanePayloadCarving({
+          bytes: carved.bytes,
+          payloads: carved.payloads,
+          scannedBytes: carved.bytes.length,
+          totalBytes: carved.totalBytes,
+          isScanTruncated: carved.bytes.length < carved.totalBytes,
+        });
+        setBitPlaneCarvingProgress(null);
+      })
+      .catch(reportTaskError);
+
+    return () => controller.abort();
+  }, [
+    carvingDepth,
+    dctCoefficients,
+    dctStreamOptions,
+    hasStreamPlanes,
+    isDctStream,
+    reportTaskError,
+    streamImageData,
+    streamOptions,
+    streamPlanes,
+  ]);
+
+  const entropyMap = useMemo(() => {
+    if (
+      activeTab !== "view" ||
+      !showEntropyOverlay ||
+      !analysisImageData ||
+      selectedPlanes.length === 0
+    ) {
       return null;
     }
 
-    const extracted = extractBitPlaneStream(
+    return computeBitEntropyMap(
       analysisImageData,
       selectedPlanes,
-      extractionOptions,
-      PAYLOAD_SCAN_MAX_BYTES,
+      entropyBlockSize,
     );
-    return {
-      bytes: extracted.bytes,
-      payloads: detectCarvedPayloads(extracted.bytes),
-      scannedBytes: extracted.bytes.length,
-      totalBytes: extracted.totalBytes,
-      isScanTruncated: extracted.bytes.length < extracted.totalBytes,
+  }, [
+    activeTab,
+    analysisImageData,
+    entropyBlockSize,
+    selectedPlanes,
+    showEntropyOverlay,
+  ]);
+
+  const selectedEntropyCell = useMemo(() => {
+    if (!entropyMap || !entropySelectionPoint) {
+      return null;
+    }
+
+    return getBitEntropyCellAt(
+      entropyMap,
+      entropySelectionPoint.x,
+      entropySelectionPoint.y,
+    );
+  }, [entropyMap, entropySelectionPoint]);
+
+  const chiSquareAnalysis = useMemo(() => {
+    if (activeTab !== "bit-planes" || !analysisImageData) {
+      return null;
+    }
+
+    return analyzeChiSquare(analysisImageData, extractionOptions.scanOrder);
+  }, [activeTab, analysisImageData, extractionOptions.scanOrder]);
+
+  const autoScanHits =
+    autoScanResult && autoScanResult.imageData === analysisImageData
+      ? autoScanResult.hits
+      : null;
+
+  const lsbSteganalysis = useMemo(() => {
+    if (activeTab !== "steganalysis" || !analysisImageData) {
+      return null;
+    }
+
+    return analyzeLsbSteganalysis(analysisImageData);
+  }, [activeTab, analysisImageData]);
+
+  const jpegSteganalysis =
+    jpegSteganalysisResult &&
+    jpegSteganalysisResult.coefficients === dctCoefficients
+      ? jpegSteganalysisResult.analysis
+      : null;
+
+  // Calibration re-compresses the whole image, so only run it on demand and
+  // keep the result while the same coefficients stay loaded.
+  useEffect(() => {
+    if (
+      activeTab !== "steganalysis" ||
+      !dctCoefficients ||
+      jpegSteganalysisResult?.coefficients === dctCoefficients
+    ) {
+      return;
+    }
+
+    const controller = new AbortController();
+    setJpegSteganalysisProgress(0);
+    runAnalysis(
+      { kind: "jpeg-steganalysis", coefficients: dctCoefficients },
+      {
+        signal: controller.signal,
+        onProgress: setJpegSteganalysisProgress,
+      },
+    )
+      .then((analysis) => {
+        setJpegSteganalysisResult({
+          coefficients: dctCoefficients,
+          analysis,
+        });
+        setJpegSteganalysisProgress(null);
+      })
+      .catch(reportTaskError);
+
+    return () => {
+      controller.abort();
+      setJpegSteganalysisProgress(null);
     };
-  }, [analysisImageData, extractionOptions, selectedPlanes]);
+  }, [activeTab, dctCoefficients, jpegSteganalysisResult, reportTaskError]);
+
+  const dctHistogram =
+    jpegSteganalysis?.histograms[dctHistogramFrequency] ?? null;
+  const dctHistogramMaxCount = dctHistogram
+    ? Math.max(
+        1,
+        ...dctHistogram.counts,
+        ...(dctHistogram.calibratedCounts ?? []),
+      )
+    : 1;
 
   const exifGroups = useMemo(() => {
     if (!decoded?.exif?.entries.length) {
@@ -355,6 +1125,23 @@ function App() {
 
   const exifLocation = decoded?.exif?.location ?? null;
 
+  const jpegQuantization = useMemo(() => {
+    if (decoded?.format !== "image/jpeg" || !decoded.sourceBytes) {
+      return null;
+    }
+
+    return analyzeJpegQuantization(decoded.sourceBytes);
+  }, [decoded]);
+
+  const cameraMake =
+    decoded?.exif?.entries.find((entry) => entry.tagName === "Make")?.value ??
+    null;
+  // Known (software) tables in a file whose Exif names a camera suggest a
+  // re-save.
+  const softwareTablesName = cameraMake
+    ? (jpegQuantization?.match?.name ?? null)
+    : null;
+
   const exifMapEmbedUrl = useMemo(() => {
     if (!exifLocation) {
       return null;
@@ -400,47 +1187,73 @@ function App() {
     );
   }, [trailingDataView]);
 
-  const trailingPayloadCarving = useMemo(() => {
+  useEffect(() => {
     if (!trailingDataView) {
-      return null;
+      setTrailingPayloadCarving(null);
+      return;
     }
 
     const scannedBytes = trailingDataView.bytes.slice(
       0,
       PAYLOAD_SCAN_MAX_BYTES,
     );
-    return {
-      bytes: scannedBytes,
-      payloads: detectCarvedPayloads(scannedBytes),
-      scannedBytes: scannedBytes.length,
-      totalBytes: trailingDataView.byteLength,
-      startOffset: trailingDataView.startOffset,
-      isScanTruncated: scannedBytes.length < trailingDataView.byteLength,
-    };
-  }, [trailingDataView]);
+    const controller = new AbortController();
+    runAnalysis(
+      { kind: "carve-bytes", bytes: scannedBytes, maxDepth: carvingDepth },
+      { signal: controller.signal },
+    )
+      .then((payloads) => {
+        setTrailingPayloadCarving({
+          bytes: scannedBytes,
+          payloads,
+          scannedBytes: scannedBytes.length,
+          totalBytes: trailingDataView.byteLength,
+          startOffset: trailingDataView.startOffset,
+          isScanTruncated: scannedBytes.length < trailingDataView.byteLength,
+        });
+      })
+      .catch(reportTaskError);
+
+    return () => controller.abort();
+  }, [carvingDepth, reportTaskError, trailingDataView]);
 
   const resetState = useCallback(() => {
+    sessionFileRef.current = null;
+    setParentSessionFiles([]);
+    setZipListingTarget(null);
     setDecoded(null);
     setActiveFrameIndex(0);
     setSelectedPlaneIds([PLANE_SPECS[0].id]);
     setActivePlaneId(PLANE_SPECS[0].id);
     setActiveTab("view");
     setViewMode("original");
+    setStreamSource("bit-planes");
+    setEntropySelectionPoint(null);
+    setAutoScanResult(null);
+    setJpegSteganalysisResult(null);
+    setExtractionOptions((current) => ({ ...current, region: null }));
     setError(null);
   }, []);
 
-  const handleFile = useCallback(async (file: File) => {
+  const loadFile = useCallback(async (file: File) => {
+    sessionFileRef.current = file;
     setError(null);
     setIsLoading(true);
 
     try {
       const result = await decodeImageFile(file);
       setDecoded(result);
+      setZipListingTarget(null);
       setActiveFrameIndex(0);
       setSelectedPlaneIds([PLANE_SPECS[0].id]);
       setActivePlaneId(PLANE_SPECS[0].id);
       setActiveTab("view");
       setViewMode("original");
+      setStreamSource("bit-planes");
+      setEntropySelectionPoint(null);
+      setAutoScanResult(null);
+      setJpegSteganalysisResult(null);
+      setExtractionOptions((current) => ({ ...current, region: null }));
     } catch (loadError) {
       const message =
         loadError instanceof Error
@@ -453,11 +1266,42 @@ function App() {
       setActivePlaneId(PLANE_SPECS[0].id);
       setActiveTab("view");
       setViewMode("original");
+      setStreamSource("bit-planes");
     } finally {
       setIsLoading(false);
     }
   }, []);
 
+  const handleFile = useCallback(
+    async (file: File) => {
+      setParentSessionFiles([]);
+      await loadFile(file);
+    },
+    [loadFile],
+  );
+
+  // Opens carved bytes as a new session, keeping the current file so the
+  // user can step back out.
+  const openCarvedPayloadSession = useCallback(
+    (payloadBytes: Uint8Array<ArrayBuffer>, mimeType: string, name: string) => {
+      const parentFile = sessionFileRef.current;
+      if (parentFile) {
+        setParentSessionFiles((current) => [...current, parentFile]);
+      }
+      void loadFile(new File([payloadBytes], name, { type: mimeType }));
+    },
+    [loadFile],
+  );
+
+  const returnToParentSession = useCallback(() => {
+    const parentFile = parentSessionFiles[parentSessionFiles.length - 1];
+    if (!parentFile) {
+      return;
+    }
+    setParentSessionFiles((current) => current.slice(0, -1));
+    void loadFile(parentFile);
+  }, [loadFile, parentSessionFiles]);
+
   const handleInput = useCallback(
     async (event: ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0];
@@ -483,6 +1327,14 @@ function App() {
     [handleFile],
   );
 
+  const togglePaletteIndexBit = useCallback((bitPosition: number) => {
+    setPaletteIndexBits((current) =>
+      current.includes(bitPosition)
+        ? current.filter((bit) => bit !== bitPosition)
+        : [...current, bitPosition].sort((left, right) => left - right),
+    );
+  }, []);
+
   const togglePlaneSelection = useCallback((planeId: string) => {
     setActivePlaneId(planeId);
     setSelectedPlaneIds((currentSelection) => {
@@ -508,42 +1360,158 @@ function App() {
     [activePlaneIndex],
   );
 
+  const startAutoScan = useCallback(async () => {
+    if (!analysisImageData) {
+      return;
+    }
+
+    autoScanControllerRef.current?.abort();
+    const controller = new AbortController();
+    autoScanControllerRef.current = controller;
+    setAutoScanProgress(0);
+
+    try {
+      const hits = await runAnalysis(
+        {
+          kind: "auto-scan",
+          imageData: analysisImageData,
+          planes: PLANE_SPECS,
+          options: { includeAlpha: autoScanIncludeAlpha },
+        },
+        { signal: controller.signal, onProgress: setAutoScanProgress },
+      );
+      setAutoScanResult({ imageData: analysisImageData, hits });
+    } catch (scanError) {
+      reportTaskError(scanError);
+    } finally {
+      if (autoScanControllerRef.current === controller) {
+        autoScanControllerRef.current = null;
+        setAutoScanProgress(null);
+      }
+    }
+  }, [analysisImageData, autoScanIncludeAlpha, reportTaskError]);
+
+  const cancelAutoScan = useCallback(() => {
+    autoScanControllerRef.current?.abort();
+  }, []);
+
+  // A scan of the previous image or frame is no longer useful.
+  useEffect(
+    () => () => autoScanControllerRef.current?.abort(),
+    [analysisImageData],
+  );
+
+  const applyAutoScanHit = useCallback((hit: AutoScanHit) => {
+    setSelectedPlaneIds(hit.planeIds);
+    setActivePlaneId(hit.planeIds[0] ?? PLANE_SPECS[0].id);
+    setExtractionOptions(hit.options);
+    setBitSequenceText("");
+    setBitSequenceError(null);
+  }, []);
+
   const resetPlaneSelection = useCallback(() => {
     setActivePlaneId(PLANE_SPECS[0].id);
     setSelectedPlaneIds([PLANE_SPECS[0].id]);
   }, []);
 
-  const downloadHexDumpData = useCallback(() => {
-    if (!decoded || !analysisImageData || selectedPlanes.length === 0) {
+  const downloadHexDumpData = useCallback(async () => {
+    if (!decoded || !hasStreamInput) {
       return;
     }
 
-    const extracted = extractBitPlaneStream(
-      analysisImageData,
-      selectedPlanes,
-      extractionOptions,
-      Number.MAX_SAFE_INTEGER,
-    );
-    const payload = new Uint8Array(extracted.bytes.byteLength);
-    payload.set(extracted.bytes);
-    const blob = new Blob([payload], { type: "application/octet-stream" });
-    const objectUrl = URL.createObjectURL(blob);
+    downloadControllerRef.current?.abort();
+    const controller = new AbortController();
+    downloadControllerRef.current = controller;
+    setDownloadProgress(0);
+    const taskOptions = {
+      signal: controller.signal,
+      onProgress: setDownloadProgress,
+    };
 
     try {
-      const anchor = document.createElement("a");
-      anchor.href = objectUrl;
-      anchor.download = buildExtractionDownloadName(
-        decoded.filename,
-        selectedPlanes,
-        extractionOptions,
-      );
-      document.body.append(anchor);
-      anchor.click();
-      anchor.remove();
+      const extracted =
+        isDctStream && dctCoefficients
+          ? await runAnalysis(
+              {
+                kind: "dct-stream",
+                coefficients: dctCoefficients,
+                options: dctStreamOptions,
+                maxBytes: Number.MAX_SAFE_INTEGER,
+              },
+              taskOptions,
+            )
+          : streamImageData
+            ? await runAnalysis(
+                {
+                  kind: "bit-plane-stream",
+                  imageData: streamImageData,
+                  planes: streamPlanes,
+                  options: streamOptions,
+                  maxBytes: Number.MAX_SAFE_INTEGER,
+                },
+                taskOptions,
+              )
+            : null;
+      if (!extracted) {
+        return;
+      }
+      const payload = new Uint8Array(extracted.bytes.byteLength);
+      payload.set(extracted.bytes);
+      const blob = new Blob([payload], { type: "application/octet-stream" });
+      const objectUrl = URL.createObjectURL(blob);
+
+      try {
+        const anchor = document.createElement("a");
+        anchor.href = objectUrl;
+        anchor.download = isDctStream
+          ? buildDctStreamDownloadName(decoded.filename, dctStreamOptions)
+          : isPaletteStream
+            ? buildPaletteStreamDownloadName(
+                decoded.filename,
+                streamPlanes,
+                paletteIndexOrder,
+                streamOptions,
+              )
+            : buildExtractionDownloadName(
+                decoded.filename,
+                selectedPlanes,
+                extractionOptions,
+                extractionRegion,
+              );
+        document.body.append(anchor);
+        anchor.click();
+        anchor.remove();
+      } finally {
+        URL.revokeObjectURL(objectUrl);
+      }
+    } catch (downloadError) {
+      reportTaskError(downloadError);
     } finally {
-      URL.revokeObjectURL(objectUrl);
+      if (downloadControllerRef.current === controller) {
+        downloadControllerRef.current = null;
+        setDownloadProgress(null);
+      }
     }
-  }, [analysisImageData, decoded, extractionOptions, selectedPlanes]);
+  }, [
+    dctCoefficients,
+    dctStreamOptions,
+    decoded,
+    extractionOptions,
+    extractionRegion,
+    hasStreamInput,
+    isDctStream,
+    isPaletteStream,
+    paletteIndexOrder,
+    reportTaskError,
+    selectedPlanes,
+    streamImageData,
+    streamOptions,
+    streamPlanes,
+  ]);
+
+  const cancelHexDumpDownload = useCallback(() => {
+    downloadControllerRef.current?.abort();
+  }, []);
 
   const downloadTrailingData = useCallback(() => {
     if (!decoded || !trailingDataView || trailingDataView.byteLength === 0) {
@@ -567,79 +1535,632 @@ function App() {
     }
   }, [decoded, trailingDataView]);
 
+  const bitPlaneCarvingSourceLabel = isDctStream
+    ? "dct"
+    : isPaletteStream
+      ? `palette-${paletteIndexOrder}`
+      : `bitstream${buildRegionNamePart(extractionRegion)}`;
+
   const downloadBitPlaneCarvedPayload = useCallback(
-    (payload: CarvedPayload) => {
+    (payload: NestedCarvedPayload) => {
+      if (!decoded || !bitPlanePayloadCarving) {
+        return;
+      }
+
+      const carvedBytes = sliceNestedPayload(
+        bitPlanePayloadCarving.bytes,
+        payload,
+      );
+      if (carvedBytes.length === 0) {
+        return;
+      }
+
+      const blob = new Blob([carvedBytes], { type: payload.mimeType });
+      const objectUrl = URL.createObjectURL(blob);
+
+      try {
+        const anchor = document.createElement("a");
+        anchor.href = objectUrl;
+        anchor.download = buildCarvedPayloadDownloadName(
+          decoded.filename,
+          bitPlaneCarvingSourceLabel,
+          payload,
+        );
+        document.body.append(anchor);
+        anchor.click();
+        anchor.remove();
+      } finally {
+        URL.revokeObjectURL(objectUrl);
+      }
+    },
+    [bitPlaneCarvingSourceLabel, bitPlanePayloadCarving, decoded],
+  );
+
+  const openBitPlaneCarvedPayload = useCallback(
+    (payload: NestedCarvedPayload) => {
       if (!decoded || !bitPlanePayloadCarving) {
         return;
       }
 
-      const carvedBytes = bitPlanePayloadCarving.bytes.slice(
-        payload.startOffset,
-        payload.endOffset,
+      openCarvedPayloadSession(
+        sliceNestedPayload(bitPlanePayloadCarving.bytes, payload),
+        payload.mimeType,
+        buildCarvedPayloadDownloadName(
+          decoded.filename,
+          bitPlaneCarvingSourceLabel,
+          payload,
+        ),
+      );
+    },
+    [
+      bitPlaneCarvingSourceLabel,
+      bitPlanePayloadCarving,
+      decoded,
+      openCarvedPayloadSession,
+    ],
+  );
+
+  const downloadUnaccountedRegion = useCallback(
+    (region: UnaccountedRegion) => {
+      if (!decoded?.sourceBytes) {
+        return;
+      }
+
+      const body = decoded.sourceBytes.slice(region.offset, region.endOffset);
+      const blob = new Blob([body], { type: "application/octet-stream" });
+      const objectUrl = URL.createObjectURL(blob);
+
+      try {
+        const anchor = document.createElement("a");
+        anchor.href = objectUrl;
+        anchor.download = buildUnaccountedRegionDownloadName(
+          decoded.filename,
+          region,
+        );
+        document.body.append(anchor);
+        anchor.click();
+        anchor.remove();
+      } finally {
+        URL.revokeObjectURL(objectUrl);
+      }
+    },
+    [decoded],
+  );
+
+  const downloadJpegSegment = useCallback(
+    (segment: JpegSegment) => {
+      if (!decoded?.sourceBytes || segment.dataLength === 0) {
+        return;
+      }
+
+      const body = decoded.sourceBytes.slice(
+        segment.dataOffset,
+        segment.dataOffset + segment.dataLength,
+      );
+      const blob = new Blob([body], { type: "application/octet-stream" });
+      const objectUrl = URL.createObjectURL(blob);
+
+      try {
+        const anchor = document.createElement("a");
+        anchor.href = objectUrl;
+        anchor.download = buildJpegSegmentDownloadName(
+          decoded.filename,
+          segment,
+        );
+        document.body.append(anchor);
+        anchor.click();
+        anchor.remove();
+      } finally {
+        URL.revokeObjectURL(objectUrl);
+      }
+    },
+    [decoded],
+  );
+
+  const downloadGifBlock = useCallback(
+    (block: GifBlock) => {
+      if (!decoded?.sourceBytes) {
+        return;
+      }
+
+      const blob = new Blob(
+        [decoded.sourceBytes.slice(block.offset, block.endOffset)],
+        { type: "application/octet-stream" },
+      );
+      const objectUrl = URL.createObjectURL(blob);
+
+      try {
+        const anchor = document.createElement("a");
+        anchor.href = objectUrl;
+        anchor.download = buildGifBlockDownloadName(decoded.filename, block);
+        document.body.append(anchor);
+        anchor.click();
+        anchor.remove();
+      } finally {
+        URL.revokeObjectURL(objectUrl);
+      }
+    },
+    [decoded],
+  );
+
+  const downloadTrailingCarvedPayload = useCallback(
+    (payload: NestedCarvedPayload) => {
+      if (!decoded || !trailingPayloadCarving) {
+        return;
+      }
+
+      const carvedBytes = sliceNestedPayload(
+        trailingPayloadCarving.bytes,
+        payload,
+      );
+      if (carvedBytes.length === 0) {
+        return;
+      }
+
+      const blob = new Blob([carvedBytes], { type: payload.mimeType });
+      const objectUrl = URL.createObjectURL(blob);
+      const absoluteStartOffset =
+        trailingPayloadCarving.startOffset + payload.startOffset;
+
+      try {
+        const anchor = document.createElement("a");
+        anchor.href = objectUrl;
+        anchor.download = buildCarvedPayloadDownloadName(
+          decoded.filename,
+          "trailing",
+          payload,
+          absoluteStartOffset,
+        );
+        document.body.append(anchor);
+        anchor.click();
+        anchor.remove();
+      } finally {
+        URL.revokeObjectURL(objectUrl);
+      }
+    },
+    [decoded, trailingPayloadCarving],
+  );
+
+  const openTrailingCarvedPayload = useCallback(
+    (payload: NestedCarvedPayload) => {
+      if (!decoded || !trailingPayloadCarving) {
+        return;
+      }
+
+      openCarvedPayloadSession(
+        sliceNestedPayload(trailingPayloadCarving.bytes, payload),
+        payload.mimeType,
+        buildCarvedPayloadDownloadName(
+          decoded.filename,
+          "trailing",
+          payload,
+          trailingPayloadCarving.startOffset + payload.startOffset,
+        ),
+      );
+    },
+    [decoded, openCarvedPayloadSession, trailingPayloadCarving],
+  );
+
+  const zipListing = useMemo(() => {
+    if (!zipListingTarget) {
+      return null;
+    }
+    const carving =
+      zipListingTarget.source === "trailing"
+        ? trailingPayloadCarving
+        : bitPlanePayloadCarving;
+    const payload = carving?.payloads.find(
+      (candidate) => candidate.id === zipListingTarget.payloadId,
+    );
+    if (!carving || !payload) {
+      return null;
+    }
+    const bytes = (payload.zipEntry?.bytes ?? carving.bytes).subarray(
+      payload.startOffset,
+      payload.endOffset,
+    );
+    return {
+      ...zipListingTarget,
+      payload,
+      bytes,
+      archive: listZipEntries(bytes),
+    };
+  }, [bitPlanePayloadCarving, trailingPayloadCarving, zipListingTarget]);
+
+  const toggleZipListing = useCallback(
+    (source: CarvingSource, payload: CarvedPayload) => {
+      setZipEntryError(null);
+      setZipListingTarget((current) =>
+        current?.source === source && current.payloadId === payload.id
+          ? null
+          : { source, payloadId: payload.id },
       );
-      if (carvedBytes.length === 0) {
+    },
+    [],
+  );
+
+  // A new listing (or new carving results) cancels a pending extraction.
+  useEffect(() => () => zipEntryControllerRef.current?.abort(), [zipListing]);
+
+  // Extracts on a worker, then downloads the entry or opens it as a session.
+  const extractZipListingEntry = useCallback(
+    async (entry: ZipEntry, action: "download" | "open") => {
+      if (!decoded || !zipListing) {
         return;
       }
 
-      const blob = new Blob([carvedBytes], { type: payload.mimeType });
-      const objectUrl = URL.createObjectURL(blob);
+      zipEntryControllerRef.current?.abort();
+      const controller = new AbortController();
+      zipEntryControllerRef.current = controller;
+      setZipEntryError(null);
+      setExtractingZipEntryIndex(entry.index);
 
       try {
-        const anchor = document.createElement("a");
-        anchor.href = objectUrl;
-        anchor.download = buildCarvedPayloadDownloadName(
-          decoded.filename,
-          "bitstream",
-          payload,
+        const contents = await runAnalysis(
+          {
+            kind: "extract-zip-entry",
+            bytes: zipListing.bytes,
+            entry,
+          },
+          { signal: controller.signal },
         );
-        document.body.append(anchor);
-        anchor.click();
-        anchor.remove();
+        const carvedPayloadName =
+          zipListing.source === "trailing"
+            ? buildCarvedPayloadDownloadName(
+                decoded.filename,
+                "trailing",
+                zipListing.payload,
+                (trailingPayloadCarving?.startOffset ?? 0) +
+                  zipListing.payload.startOffset,
+              )
+            : buildCarvedPayloadDownloadName(
+                decoded.filename,
+                bitPlaneCarvingSourceLabel,
+                zipListing.payload,
+              );
+        const entryFileName = buildZipEntryDownloadName(
+          carvedPayloadName,
+          entry,
+        );
+        const entryType = getZipEntryImageType(entry);
+        if (action === "open" && entryType) {
+          openCarvedPayloadSession(contents.slice(), entryType, entryFileName);
+          return;
+        }
+
+        const blob = new Blob([contents.slice()], {
+          type: "application/octet-stream",
+        });
+        const objectUrl = URL.createObjectURL(blob);
+
+        try {
+          const anchor = document.createElement("a");
+          anchor.href = objectUrl;
+          anchor.download = entryFileName;
+          document.body.append(anchor);
+          anchor.click();
+          anchor.remove();
+        } finally {
+          URL.revokeObjectURL(objectUrl);
+        }
+      } catch (extractError) {
+        if (!isAbortError(extractError)) {
+          setZipEntryError(
+            extractError instanceof Error
+              ? extractError.message
+              : "Unable to extract this entry.",
+          );
+        }
       } finally {
-        URL.revokeObjectURL(objectUrl);
+        if (zipEntryControllerRef.current === controller) {
+          zipEntryControllerRef.current = null;
+          setExtractingZipEntryIndex(null);
+        }
       }
     },
-    [bitPlanePayloadCarving, decoded],
+    [
+      bitPlaneCarvingSourceLabel,
+      decoded,
+      openCarvedPayloadSession,
+      trailingPayloadCarving,
+      zipListing,
+    ],
   );
 
-  const downloadTrailingCarvedPayload = useCallback(
-    (payload: CarvedPayload) => {
-      if (!decoded || !trailingPayloadCarving) {
+  const renderZipListing = (source: CarvingSource, payload: CarvedPayload) => {
+    if (zipListing?.source !== source || zipListing.payload.id !== payload.id) {
+      return null;
+    }
+    const { archive } = zipListing;
+    if (!archive) {
+      return (
+        <p className="mt-2 text-[11px] text-ink/60">
+          No readable central directory in this payload.
+        </p>
+      );
+    }
+
+    return (
+      <div className="mt-2 border-t border-clay pt-2">
+        <p className="text-[11px] text-ink/60">
+          {archive.entries.length.toLocaleString()} of{" "}
+          {archive.declaredEntryCount.toLocaleString()} entries
+          {archive.isZip64 ? " | ZIP64" : ""}
+          {archive.isTruncated ? " | central directory truncated" : ""}
+          {archive.comment ? ` | Comment: ${archive.comment}` : ""}
+        </p>
+        {zipEntryError ? (
+          <p className="mt-1 text-[11px] text-red-700">{zipEntryError}</p>
+        ) : null}
+        <table className="mt-1 w-full text-left font-mono text-[11px] text-ink/75">
+          <thead className="text-ink/60">
+            <tr>
+              <th className="py-1 pr-2 font-medium">Name</th>
+              <th className="py-1 pr-2 font-medium">Size</th>
+              <th className="py-1 pr-2 font-medium">Packed</th>
+              <th className="py-1 pr-2 font-medium">CRC-32</th>
+              <th className="py-1 pr-2 font-medium">Method</th>
+              <th className="py-1 pr-2 font-medium">Encryption</th>
+              <th className="py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {archive.entries.map((entry) => (
+              <tr key={entry.index} className="border-t border-clay/60">
+                <td className="break-all py-1 pr-2 text-ink">{entry.name}</td>
+                <td className="whitespace-nowrap py-1 pr-2">
+                  {formatBytes(entry.uncompressedSize)}
+                </td>
+                <td className="whitespace-nowrap py-1 pr-2">
+                  {formatBytes(entry.compressedSize)}
+                </td>
+                <td className="py-1 pr-2">
+                  {entry.crc32.toString(16).toUpperCase().padStart(8, "0")}
+                </td>
+                <td className="whitespace-nowrap py-1 pr-2">
+                  {entry.methodName}
+                </td>
+                <td className="whitespace-nowrap py-1 pr-2">
+                  {ZIP_ENCRYPTION_LABELS[entry.encryption]}
+                  {entry.aesKeyBits ? `-${entry.aesKeyBits}` : ""}
+                </td>
+                <td className="whitespace-nowrap py-1 text-right">
+                  {entry.isDirectory ? null : (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          void extractZipListingEntry(entry, "download")
+                        }
+                        disabled={
+                          !entry.isExtractable ||
+                          extractingZipEntryIndex === entry.index
+                        }
+                        className="rounded-lg border border-clay px-2 py-1 text-[11px] font-medium text-ink transition hover:border-accent hover:text-accent disabled:cursor-not-allowed disabled:opacity-45"
+                      >
+                        {extractingZipEntryIndex === entry.index
+                          ? "Extracting..."
+                          : "Extract"}
+                      </button>
+                      {getZipEntryImageType(entry) ? (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            void extractZipListingEntry(entry, "open")
+                          }
+                          disabled={
+                            !entry.isExtractable ||
+                            isLoading ||
+                            extractingZipEntryIndex === entry.index
+                          }
+                          className="ml-1 rounded-lg border border-clay px-2 py-1 text-[11px] font-medium text-ink transition hover:border-accent hover:text-accent disabled:cursor-not-allowed disabled:opacity-45"
+                        >
+                          Open
+                        </button>
+                      ) : null}
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  const selectEntropyCell = useCallback(
+    (event: MouseEvent<HTMLCanvasElement>) => {
+      const canvas = event.currentTarget;
+      const bounds = canvas.getBoundingClientRect();
+      if (bounds.width === 0 || bounds.height === 0) {
         return;
       }
 
-      const carvedBytes = trailingPayloadCarving.bytes.slice(
-        payload.startOffset,
-        payload.endOffset,
+      setEntropySelectionPoint({
+        x: Math.floor(
+          ((event.clientX - bounds.left) * canvas.width) / bounds.width,
+        ),
+        y: Math.floor(
+          ((event.clientY - bounds.top) * canvas.height) / bounds.height,
+        ),
+      });
+    },
+    [],
+  );
+
+  // Hands the inspected block to the hex dump, carving and download ROI.
+  const selectEntropyCellRegion = useCallback(() => {
+    if (!selectedEntropyCell) {
+      return;
+    }
+
+    const { x, y, width, height } = selectedEntropyCell;
+    setExtractionOptions((current) => ({
+      ...current,
+      region: { x, y, width, height },
+    }));
+  }, [selectedEntropyCell]);
+
+  const beginRegionDrag = useCallback(
+    (event: PointerEvent<HTMLCanvasElement>) => {
+      const point = getCanvasPixelPoint(
+        event.currentTarget,
+        event.clientX,
+        event.clientY,
       );
-      if (carvedBytes.length === 0) {
+      if (!point) {
         return;
       }
 
-      const blob = new Blob([carvedBytes], { type: payload.mimeType });
-      const objectUrl = URL.createObjectURL(blob);
-      const absoluteStartOffset =
-        trailingPayloadCarving.startOffset + payload.startOffset;
+      event.currentTarget.setPointerCapture(event.pointerId);
+      regionDragStartRef.current = point;
+      setRegionDraft(buildRegionFromCorners(point, point));
+    },
+    [],
+  );
 
-      try {
-        const anchor = document.createElement("a");
-        anchor.href = objectUrl;
-        anchor.download = buildCarvedPayloadDownloadName(
-          decoded.filename,
-          "trailing",
-          payload,
-          absoluteStartOffset,
-        );
-        document.body.append(anchor);
-        anchor.click();
-        anchor.remove();
-      } finally {
-        URL.revokeObjectURL(objectUrl);
+  const updateRegionDrag = useCallback(
+    (event: PointerEvent<HTMLCanvasElement>) => {
+      const start = regionDragStartRef.current;
+      const point = getCanvasPixelPoint(
+        event.currentTarget,
+        event.clientX,
+        event.clientY,
+      );
+      if (!start || !point) {
+        return;
       }
+
+      setRegionDraft(buildRegionFromCorners(start, point));
     },
-    [decoded, trailingPayloadCarving],
+    [],
+  );
+
+  const endRegionDrag = useCallback(
+    (event: PointerEvent<HTMLCanvasElement>) => {
+      const start = regionDragStartRef.current;
+      const point = getCanvasPixelPoint(
+        event.currentTarget,
+        event.clientX,
+        event.clientY,
+      );
+      regionDragStartRef.current = null;
+      setRegionDraft(null);
+      if (!start || !point) {
+        return;
+      }
+
+      // A plain click (no drag) clears the region instead of selecting 1px.
+      const region =
+        start.x === point.x && start.y === point.y
+          ? null
+          : buildRegionFromCorners(start, point);
+      setExtractionOptions((current) => ({ ...current, region }));
+    },
+    [],
+  );
+
+  const updateBitSequence = useCallback((text: string) => {
+    const parsed = parseBitSequence(text);
+    setBitSequenceText(text);
+    setBitSequenceError(parsed.error);
+    if (!parsed.error) {
+      setExtractionOptions((current) => ({
+        ...current,
+        bitSequence: parsed.planeIds.length > 0 ? parsed.planeIds : null,
+      }));
+    }
+  }, []);
+
+  const updatePixelSelectionField = useCallback(
+    (field: "offset" | "stride" | "take" | "skip", value: string) => {
+      const parsed = Math.max(0, Number.parseInt(value, 10) || 0);
+      setExtractionOptions((current) => {
+        if (field === "offset") {
+          return { ...current, pixelOffset: parsed };
+        }
+        if (field === "stride") {
+          return { ...current, pixelStride: Math.max(1, parsed) };
+        }
+        return {
+          ...current,
+          pixelPattern: {
+            take: current.pixelPattern?.take ?? 1,
+            skip: current.pixelPattern?.skip ?? 0,
+            [field]: parsed,
+          },
+        };
+      });
+    },
+    [],
   );
 
+  const updateRegionField = useCallback(
+    (field: keyof ExtractionRegion, value: string) => {
+      if (!analysisImageData) {
+        return;
+      }
+
+      const parsed = Number.parseInt(value, 10);
+      setExtractionOptions((current) => ({
+        ...current,
+        region: {
+          ...(current.region ?? {
+            x: 0,
+            y: 0,
+            width: analysisImageData.width,
+            height: analysisImageData.height,
+          }),
+          [field]: Number.isFinite(parsed) ? parsed : 0,
+        },
+      }));
+    },
+    [analysisImageData],
+  );
+
+  const isElaCurrent =
+    elaRecompression?.source === analysisImageData &&
+    elaRecompression.quality === elaQuality;
+  const elaRecompressedImage = isElaCurrent ? elaRecompression.result : null;
+  const elaError = isElaCurrent ? elaRecompression.error : null;
+
+  useEffect(() => {
+    if (viewMode !== "ela" || !analysisImageData) {
+      return;
+    }
+
+    let isCancelled = false;
+    recompressAsJpeg(analysisImageData, elaQuality / 100)
+      .then((result) => {
+        if (!isCancelled) {
+          setElaRecompression({
+            source: analysisImageData,
+            quality: elaQuality,
+            result,
+            error: null,
+          });
+        }
+      })
+      .catch((recompressError: unknown) => {
+        if (!isCancelled) {
+          setElaRecompression({
+            source: analysisImageData,
+            quality: elaQuality,
+            result: null,
+            error:
+              recompressError instanceof Error
+                ? recompressError.message
+                : "Unable to re-encode the image as JPEG.",
+          });
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [analysisImageData, elaQuality, viewMode]);
+
   const cycleViewMode = useCallback((step: 1 | -1) => {
     setViewMode((current) => {
       const currentIndex = VIEW_MODE_OPTIONS.findIndex(
@@ -686,14 +2207,88 @@ function App() {
       return;
     }
 
-    const transformedImageData = transformViewImageData(
-      analysisImageData,
-      viewMode,
-    );
+    let transformedImageData: ImageData;
+    if (viewMode === "ela") {
+      if (!elaRecompressedImage) {
+        context.clearRect(0, 0, canvas.width, canvas.height);
+        return;
+      }
+      transformedImageData = computeErrorLevelImage(
+        analysisImageData,
+        elaRecompressedImage,
+        elaScale,
+      );
+    } else {
+      // Palette images are mapped by index so that entries sharing an RGB
+      // value (S-Tools style duplicates) still get different colors.
+      transformedImageData = transformViewImageData(
+        viewMode === "random-colors" &&
+          paletteIndexImageMatchesFrame &&
+          paletteIndexImageData
+          ? paletteIndexImageData
+          : analysisImageData,
+        viewMode,
+        colorMapSeed,
+      );
+    }
     canvas.width = transformedImageData.width;
     canvas.height = transformedImageData.height;
     context.putImageData(transformedImageData, 0, 0);
-  }, [activeTab, analysisImageData, viewMode]);
+  }, [
+    activeTab,
+    analysisImageData,
+    colorMapSeed,
+    elaRecompressedImage,
+    elaScale,
+    paletteIndexImageData,
+    paletteIndexImageMatchesFrame,
+    viewMode,
+  ]);
+
+  useEffect(() => {
+    if (!entropyCanvasRef.current || !entropyMap) {
+      return;
+    }
+
+    const canvas = entropyCanvasRef.current;
+    const context = canvas.getContext("2d");
+    if (!context) {
+      return;
+    }
+
+    canvas.width = entropyMap.width;
+    canvas.height = entropyMap.height;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+
+    const values =
+      entropyMetric === "entropy" ? entropyMap.entropy : entropyMap.onesRatio;
+    for (let row = 0; row < entropyMap.rows; row += 1) {
+      for (let column = 0; column < entropyMap.columns; column += 1) {
+        const [red, green, blue] = heatmapColor(
+          values[row * entropyMap.columns + column],
+        );
+        context.fillStyle = `rgb(${red}, ${green}, ${blue})`;
+        context.fillRect(
+          column * entropyMap.blockSize,
+          row * entropyMap.blockSize,
+          entropyMap.blockSize,
+          entropyMap.blockSize,
+        );
+      }
+    }
+
+    if (selectedEntropyCell) {
+      const lineWidth = Math.max(1, Math.round(entropyMap.width / 400));
+      context.strokeStyle = "#ffffff";
+      context.lineWidth = lineWidth;
+      context.strokeRect(
+        selectedEntropyCell.x + lineWidth / 2,
+        selectedEntropyCell.y + lineWidth / 2,
+        selectedEntropyCell.width - lineWidth,
+        selectedEntropyCell.height - lineWidth,
+      );
+    }
+  }, [entropyMap, entropyMetric, selectedEntropyCell]);
 
   useEffect(() => {
     if (!planeCanvasRef.current) {
@@ -708,18 +2303,99 @@ function App() {
 
     if (!analysisImageData || selectedPlanes.length === 0) {
       context.clearRect(0, 0, canvas.width, canvas.height);
+      setPlaneRenderProgress(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    setPlaneRenderProgress(0);
+    runAnalysis(
+      {
+        kind: "bit-plane",
+        imageData: analysisImageData,
+        planes: selectedPlanes,
+      },
+      { signal: controller.signal, onProgress: setPlaneRenderProgress },
+    )
+      .then((planeImageData) => {
+        canvas.width = planeImageData.width;
+        canvas.height = planeImageData.height;
+        context.putImageData(planeImageData, 0, 0);
+        setPlaneRenderProgress(null);
+      })
+      .catch(reportTaskError);
+
+    return () => controller.abort();
+  }, [activeTab, analysisImageData, reportTaskError, selectedPlanes]);
+
+  useEffect(() => {
+    const canvas = paletteCanvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) {
+      return;
+    }
+
+    if (!paletteIndexImageData || paletteIndexPlanes.length === 0) {
+      context.clearRect(0, 0, canvas.width, canvas.height);
+      setPaletteRenderProgress(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    setPaletteRenderProgress(0);
+    runAnalysis(
+      {
+        kind: "bit-plane",
+        imageData: paletteIndexImageData,
+        planes: paletteIndexPlanes,
+      },
+      { signal: controller.signal, onProgress: setPaletteRenderProgress },
+    )
+      .then((planeImageData) => {
+        canvas.width = planeImageData.width;
+        canvas.height = planeImageData.height;
+        context.putImageData(planeImageData, 0, 0);
+        setPaletteRenderProgress(null);
+      })
+      .catch(reportTaskError);
+
+    return () => controller.abort();
+  }, [activeTab, paletteIndexImageData, paletteIndexPlanes, reportTaskError]);
+
+  useEffect(() => {
+    if (!regionCanvasRef.current || !analysisImageData) {
+      return;
+    }
+
+    const canvas = regionCanvasRef.current;
+    const context = canvas.getContext("2d");
+    if (!context) {
+      return;
+    }
+
+    canvas.width = analysisImageData.width;
+    canvas.height = analysisImageData.height;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+
+    const region = regionDraft ?? extractionRegion;
+    if (!region || region.width === 0 || region.height === 0) {
       return;
     }
 
-    const planeImageData =
-      selectedPlanes.length === 1
-        ? extractBitPlane(analysisImageData, selectedPlanes[0])
-        : extractCombinedBitPlanes(analysisImageData, selectedPlanes);
+    context.fillStyle = "rgba(25, 32, 42, 0.55)";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.clearRect(region.x, region.y, region.width, region.height);
 
-    canvas.width = planeImageData.width;
-    canvas.height = planeImageData.height;
-    context.putImageData(planeImageData, 0, 0);
-  }, [activeTab, analysisImageData, selectedPlanes]);
+    const lineWidth = Math.max(1, Math.round(canvas.width / 400));
+    context.strokeStyle = "#0b7f63";
+    context.lineWidth = lineWidth;
+    context.strokeRect(
+      region.x - lineWidth / 2,
+      region.y - lineWidth / 2,
+      region.width + lineWidth,
+      region.height + lineWidth,
+    );
+  }, [activeTab, analysisImageData, extractionRegion, regionDraft]);
 
   useEffect(() => {
     if (!planeStripRef.current) {
@@ -842,6 +2518,28 @@ function App() {
                   ).toLocaleString()}
                 </dd>
 
+                {jpegQuantization ? (
+                  <>
+                    <dt className="text-ink/70">JPEG quality</dt>
+                    <dd className="text-right font-mono text-xs text-ink">
+                      {jpegQuantization.components.length > 0
+                        ? jpegQuantization.components
+                            .map((component) =>
+                              component.estimate
+                                ? `${component.estimate.isExact ? "" : "~"}${component.estimate.quality}`
+                                : "?",
+                            )
+                            .join(" / ")
+                        : "n/a"}
+                    </dd>
+
+                    <dt className="text-ink/70">Tables</dt>
+                    <dd className="text-right text-xs font-medium text-ink">
+                      {jpegQuantization.match?.name ?? "Not in database"}
+                    </dd>
+                  </>
+                ) : null}
+
                 <dt className="text-ink/70">Total planes</dt>
                 <dd className="text-right font-medium text-ink">
                   {PLANE_SPECS.length}
@@ -856,6 +2554,33 @@ function App() {
               <p className="mt-4 text-sm text-ink/70">No image loaded.</p>
             )}
 
+            {parentSessionFiles.length > 0 ? (
+              <div className="mt-4 flex items-center justify-between gap-3 rounded-xl border border-clay bg-paper/30 p-3">
+                <p className="min-w-0 truncate text-xs text-ink/70">
+                  Carved from{" "}
+                  {parentSessionFiles.map((file) => file.name).join(" > ")}
+                </p>
+                <button
+                  type="button"
+                  onClick={returnToParentSession}
+                  disabled={isLoading}
+                  className="shrink-0 rounded-lg border border-clay px-3 py-2 text-xs font-medium text-ink transition hover:border-accent hover:text-accent disabled:cursor-not-allowed disabled:opacity-45"
+                >
+                  Back to parent
+                </button>
+              </div>
+            ) : null}
+
+            {jpegQuantization ? (
+              <p
+                className={`mt-3 text-xs ${softwareTablesName ? "text-red-700" : "text-ink/60"}`}
+              >
+                {softwareTablesName
+                  ? `Exif names a camera (${cameraMake}) but the quantization tables are ${softwareTablesName} tables, which camera firmware does not use: the file was probably re-saved by software.`
+                  : "Quality is the closest IJG (libjpeg) scaling per component; ~ marks tables that are not an exact IJG match."}
+              </p>
+            ) : null}
+
             {decoded && totalFrames > 1 ? (
               <div className="mt-4 rounded-xl border border-clay bg-paper/30 p-3">
                 <div className="flex items-center justify-between gap-2">
@@ -1004,13 +2729,202 @@ function App() {
                   </div>
                 </div>
 
+                {viewMode === "random-colors" && decoded ? (
+                  <div className="mb-4 flex flex-wrap items-center gap-3 rounded-xl border border-clay bg-paper/35 p-3">
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setColorMapSeed(Math.floor(Math.random() * 0x100000000))
+                      }
+                      className="rounded-lg border border-clay px-3 py-2 text-xs font-medium text-ink transition hover:border-accent hover:text-accent"
+                    >
+                      Reshuffle colors
+                    </button>
+                    <p className="text-xs text-ink/70">
+                      Every distinct{" "}
+                      {paletteIndexImageMatchesFrame
+                        ? "palette index"
+                        : "RGBA value"}{" "}
+                      gets its own random color, so regions drawn in two nearly
+                      identical colors separate.
+                    </p>
+                  </div>
+                ) : null}
+
+                {viewMode === "ela" && decoded ? (
+                  <div className="mb-4 rounded-xl border border-clay bg-paper/35 p-3">
+                    <div className="flex flex-wrap items-center gap-3">
+                      <label className="flex items-center gap-2 text-xs font-medium uppercase tracking-[0.08em] text-ink/65">
+                        <span>JPEG quality</span>
+                        <input
+                          type="range"
+                          min={50}
+                          max={100}
+                          step={1}
+                          value={elaQuality}
+                          onChange={(event) =>
+                            setElaQuality(Number(event.target.value))
+                          }
+                          className="accent-accent"
+                        />
+                        <span className="w-8 font-mono normal-case tracking-normal text-ink">
+                          {elaQuality}
+                        </span>
+                      </label>
+                      <label className="flex items-center gap-2 text-xs font-medium uppercase tracking-[0.08em] text-ink/65">
+                        <span>Scale</span>
+                        <input
+                          type="range"
+                          min={1}
+                          max={50}
+                          step={1}
+                          value={elaScale}
+                          onChange={(event) =>
+                            setElaScale(Number(event.target.value))
+                          }
+                          className="accent-accent"
+                        />
+                        <span className="w-8 font-mono normal-case tracking-normal text-ink">
+                          x{elaScale}
+                        </span>
+                      </label>
+                    </div>
+                    <p
+                      className={`mt-2 text-xs ${elaError ? "text-red-700" : "text-ink/70"}`}
+                    >
+                      {elaError
+                        ? `ELA unavailable: ${elaError}`
+                        : elaRecompressedImage
+                          ? "Bright areas changed most when re-saved at this quality; regions edited after the last save usually stand out from uniformly dark, already-compressed areas."
+                          : "Re-encoding the frame as JPEG..."}
+                    </p>
+                  </div>
+                ) : null}
+
+                <div className="mb-4 rounded-xl border border-clay bg-paper/35 p-3">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <label className="inline-flex items-center gap-2 text-xs font-medium text-ink/80">
+                      <input
+                        type="checkbox"
+                        checked={showEntropyOverlay}
+                        onChange={(event) =>
+                          setShowEntropyOverlay(event.target.checked)
+                        }
+                        disabled={!decoded}
+                        className="h-4 w-4 rounded border-clay text-accent focus:ring-accent disabled:opacity-45"
+                      />
+                      <span>LSB entropy overlay</span>
+                    </label>
+                    <label className="flex items-center gap-2 text-xs font-medium uppercase tracking-[0.08em] text-ink/65">
+                      <span>Metric</span>
+                      <select
+                        value={entropyMetric}
+                        onChange={(event) =>
+                          setEntropyMetric(
+                            event.target.value as BitEntropyMetric,
+                          )
+                        }
+                        disabled={!decoded || !showEntropyOverlay}
+                        className="rounded-md border border-clay bg-white px-2 py-1 text-[11px] normal-case tracking-normal text-ink disabled:opacity-50"
+                      >
+                        {ENTROPY_METRIC_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="flex items-center gap-2 text-xs font-medium uppercase tracking-[0.08em] text-ink/65">
+                      <span>Block</span>
+                      <select
+                        value={entropyBlockSize}
+                        onChange={(event) => {
+                          setEntropyBlockSize(Number(event.target.value));
+                          setEntropySelectionPoint(null);
+                        }}
+                        disabled={!decoded || !showEntropyOverlay}
+                        className="rounded-md border border-clay bg-white px-2 py-1 text-[11px] normal-case tracking-normal text-ink disabled:opacity-50"
+                      >
+                        {ENTROPY_BLOCK_SIZE_OPTIONS.map((size) => (
+                          <option key={size} value={size}>
+                            {size}x{size} px
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="flex items-center gap-2 text-xs font-medium uppercase tracking-[0.08em] text-ink/65">
+                      <span>Opacity</span>
+                      <input
+                        type="range"
+                        min={0.1}
+                        max={1}
+                        step={0.05}
+                        value={entropyOverlayOpacity}
+                        onChange={(event) =>
+                          setEntropyOverlayOpacity(Number(event.target.value))
+                        }
+                        disabled={!decoded || !showEntropyOverlay}
+                        className="accent-accent disabled:opacity-50"
+                      />
+                    </label>
+                  </div>
+                  {showEntropyOverlay && decoded ? (
+                    <div className="mt-3 grid gap-3 text-xs text-ink/70 md:grid-cols-[16rem_1fr] md:items-center">
+                      <div>
+                        <div
+                          className="h-2 w-full rounded-full"
+                          style={{ background: HEATMAP_LEGEND_GRADIENT }}
+                        />
+                        <div className="mt-1 flex justify-between font-mono text-[10px] text-ink/60">
+                          <span>0</span>
+                          <span>
+                            {entropyMetric === "entropy"
+                              ? "0.5 bit"
+                              : "50% ones"}
+                          </span>
+                          <span>1</span>
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p>
+                          {selectedPlanes.length === 0
+                            ? "Select bit planes in the Bit-Plane tab to build the heatmap."
+                            : selectedEntropyCell
+                              ? `Block (${selectedEntropyCell.column}, ${selectedEntropyCell.row}) at x=${selectedEntropyCell.x}, y=${selectedEntropyCell.y}, ${selectedEntropyCell.width}x${selectedEntropyCell.height} px | entropy ${selectedEntropyCell.entropy.toFixed(3)} | ones ${(selectedEntropyCell.onesRatio * 100).toFixed(1)}%`
+                              : `Planes: ${selectedPlanes.map((plane) => plane.label).join(", ")}. Click a block to inspect it.`}
+                        </p>
+                        {selectedEntropyCell ? (
+                          <button
+                            type="button"
+                            onClick={selectEntropyCellRegion}
+                            className="rounded-md border border-clay px-2 py-1 text-[11px] font-medium text-ink transition hover:border-accent hover:text-accent"
+                          >
+                            Use block as region
+                          </button>
+                        ) : null}
+                      </div>
+                    </div>
+                  ) : null}
+                </div>
+
                 <div className="overflow-auto rounded-xl border border-clay bg-white p-2">
                   {decoded ? (
-                    <canvas
-                      ref={viewCanvasRef}
-                      className="pixelated block h-auto w-full max-w-full rounded-md bg-black/5"
-                      aria-label={`Image view mode: ${VIEW_MODE_OPTIONS.find((option) => option.value === viewMode)?.label ?? "Original"}`}
-                    />
+                    <div className="relative">
+                      <canvas
+                        ref={viewCanvasRef}
+                        className="pixelated block h-auto w-full max-w-full rounded-md bg-black/5"
+                        aria-label={`Image view mode: ${VIEW_MODE_OPTIONS.find((option) => option.value === viewMode)?.label ?? "Original"}`}
+                      />
+                      {entropyMap ? (
+                        <canvas
+                          ref={entropyCanvasRef}
+                          onClick={selectEntropyCell}
+                          style={{ opacity: entropyOverlayOpacity }}
+                          className="pixelated absolute inset-0 h-full w-full cursor-crosshair rounded-md"
+                          aria-label="LSB entropy heatmap overlay"
+                        />
+                      ) : null}
+                    </div>
                   ) : (
                     <div className="grid h-48 place-items-center text-sm text-ink/60">
                       Upload an image to inspect view modes.
@@ -1130,22 +3044,37 @@ function App() {
                     ) : (
                       <p className="mb-3 text-xs text-ink/60">
                         Preview is rendered at native pixel resolution (no CSS
-                        downsampling).
+                        downsampling). Drag to restrict extraction to a region.
                       </p>
                     )}
+                    {planeRenderProgress !== null ? (
+                      <p className="mb-3 text-xs text-ink/60">
+                        Rendering… {formatProgress(planeRenderProgress)}
+                      </p>
+                    ) : null}
                     <div className="overflow-auto rounded-xl border border-clay bg-white p-2">
                       {decoded ? (
-                        <canvas
-                          ref={planeCanvasRef}
-                          className="pixelated block h-auto w-full max-w-full rounded-md bg-black/5"
-                          aria-label={
-                            selectedPlanes.length > 1
-                              ? "Visualized combined bit planes"
-                              : selectedPlanes.length === 1
-                                ? `Visualized ${selectedPlanes[0].label} bit plane`
-                                : "No bit plane selected"
-                          }
-                        />
+                        <div className="relative">
+                          <canvas
+                            ref={planeCanvasRef}
+                            className="pixelated block h-auto w-full max-w-full rounded-md bg-black/5"
+                            aria-label={
+                              selectedPlanes.length > 1
+                                ? "Visualized combined bit planes"
+                                : selectedPlanes.length === 1
+                                  ? `Visualized ${selectedPlanes[0].label} bit plane`
+                                  : "No bit plane selected"
+                            }
+                          />
+                          <canvas
+                            ref={regionCanvasRef}
+                            onPointerDown={beginRegionDrag}
+                            onPointerMove={updateRegionDrag}
+                            onPointerUp={endRegionDrag}
+                            className="pixelated absolute inset-0 h-full w-full cursor-crosshair touch-none rounded-md"
+                            aria-label="Extraction region selector"
+                          />
+                        </div>
                       ) : (
                         <div className="grid h-40 place-items-center text-sm text-ink/60">
                           Upload an image to render bit-planes.
@@ -1159,104 +3088,481 @@ function App() {
                       <h3 className="text-base font-semibold text-ink">
                         Hex Dump
                       </h3>
-                      <button
-                        type="button"
-                        onClick={downloadHexDumpData}
-                        disabled={!decoded || selectedPlanes.length === 0}
-                        className="rounded-lg border border-clay px-3 py-2 text-xs font-medium text-ink transition hover:border-accent hover:text-accent disabled:cursor-not-allowed disabled:opacity-45"
-                      >
-                        Download
-                      </button>
-                    </div>
-                    <div className="mb-3 grid gap-2 sm:grid-cols-2">
-                      <label className="flex flex-col gap-1 text-[11px] font-medium uppercase tracking-[0.08em] text-ink/65">
-                        <span>Scan Order</span>
-                        <select
-                          value={extractionOptions.scanOrder}
-                          onChange={(event) =>
-                            setExtractionOptions((current) => ({
-                              ...current,
-                              scanOrder: event.target
-                                .value as ExtractionScanOrder,
-                            }))
-                          }
-                          disabled={!decoded}
-                          className="rounded-md border border-clay bg-white px-2 py-1 text-[11px] normal-case tracking-normal text-ink disabled:opacity-50"
-                        >
-                          {SCAN_ORDER_OPTIONS.map((option) => (
-                            <option key={option.value} value={option.value}>
-                              {option.label}
-                            </option>
-                          ))}
-                        </select>
-                      </label>
-
-                      <label className="flex flex-col gap-1 text-[11px] font-medium uppercase tracking-[0.08em] text-ink/65">
-                        <span>Channel Order</span>
-                        <select
-                          value={extractionOptions.channelOrder}
-                          onChange={(event) =>
-                            setExtractionOptions((current) => ({
-                              ...current,
-                              channelOrder: event.target
-                                .value as ExtractionChannelOrder,
-                            }))
+                      <div className="flex items-center gap-2">
+                        {downloadProgress !== null ? (
+                          <button
+                            type="button"
+                            onClick={cancelHexDumpDownload}
+                            className="rounded-lg border border-clay px-3 py-2 text-xs font-medium text-ink transition hover:border-accent hover:text-accent"
+                          >
+                            Cancel
+                          </button>
+                        ) : null}
+                        <button
+                          type="button"
+                          onClick={() => void downloadHexDumpData()}
+                          disabled={
+                            !decoded ||
+                            !hasStreamInput ||
+                            downloadProgress !== null
                           }
-                          disabled={!decoded}
-                          className="rounded-md border border-clay bg-white px-2 py-1 text-[11px] normal-case tracking-normal text-ink disabled:opacity-50"
+                          className="rounded-lg border border-clay px-3 py-2 text-xs font-medium text-ink transition hover:border-accent hover:text-accent disabled:cursor-not-allowed disabled:opacity-45"
                         >
-                          {CHANNEL_ORDER_OPTIONS.map((option) => (
-                            <option key={option.value} value={option.value}>
-                              {option.label}
-                            </option>
-                          ))}
-                        </select>
-                      </label>
-
-                      <label className="flex flex-col gap-1 text-[11px] font-medium uppercase tracking-[0.08em] text-ink/65">
-                        <span>Bit Order</span>
+                          {downloadProgress !== null
+                            ? `Extracting ${formatProgress(downloadProgress)}`
+                            : "Download"}
+                        </button>
+                      </div>
+                    </div>
+                    {decoded?.format === "image/jpeg" || paletteResult ? (
+                      <label className="mb-3 flex flex-col gap-1 text-[11px] font-medium uppercase tracking-[0.08em] text-ink/65">
+                        <span>Stream Source</span>
                         <select
-                          value={extractionOptions.bitOrder}
+                          value={streamSource}
                           onChange={(event) =>
-                            setExtractionOptions((current) => ({
-                              ...current,
-                              bitOrder: event.target
-                                .value as ExtractionBitOrder,
-                            }))
+                            setStreamSource(event.target.value as StreamSource)
                           }
-                          disabled={!decoded}
-                          className="rounded-md border border-clay bg-white px-2 py-1 text-[11px] normal-case tracking-normal text-ink disabled:opacity-50"
+                          className="rounded-md border border-clay bg-white px-2 py-1 text-[11px] normal-case tracking-normal text-ink"
                         >
-                          {BIT_ORDER_OPTIONS.map((option) => (
-                            <option key={option.value} value={option.value}>
-                              {option.label}
+                          <option value="bit-planes">Pixel bit planes</option>
+                          {decoded?.format === "image/jpeg" ? (
+                            <option value="dct-coefficients">
+                              DCT coefficient LSBs (JSteg-style)
                             </option>
-                          ))}
+                          ) : null}
+                          {paletteResult ? (
+                            <option value="palette-indices">
+                              Palette index bits
+                            </option>
+                          ) : null}
                         </select>
                       </label>
+                    ) : null}
+                    {isPaletteStream ? (
+                      <p className="mb-3 text-xs text-ink/60">
+                        Reading index bits{" "}
+                        {paletteIndexPlanes
+                          .map((plane) => plane.bitPosition)
+                          .join(", ") || "(none)"}{" "}
+                        in{" "}
+                        {paletteIndexOrder === "luminance"
+                          ? "luminance-rank"
+                          : "palette-index"}{" "}
+                        order; choose them on the Palette tab.
+                      </p>
+                    ) : null}
+                    {isDctStream ? (
+                      <div className="mb-3 grid gap-2 sm:grid-cols-2">
+                        <label className="flex flex-col gap-1 text-[11px] font-medium uppercase tracking-[0.08em] text-ink/65">
+                          <span>Coefficient Order</span>
+                          <select
+                            value={dctStreamOptions.order}
+                            onChange={(event) =>
+                              setDctStreamOptions((current) => ({
+                                ...current,
+                                order: event.target
+                                  .value as DctCoefficientOrder,
+                              }))
+                            }
+                            className="rounded-md border border-clay bg-white px-2 py-1 text-[11px] normal-case tracking-normal text-ink"
+                          >
+                            {DCT_ORDER_OPTIONS.map((option) => (
+                              <option key={option.value} value={option.value}>
+                                {option.label}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                        <label className="flex flex-col gap-1 text-[11px] font-medium uppercase tracking-[0.08em] text-ink/65">
+                          <span>Byte Packing</span>
+                          <select
+                            value={dctStreamOptions.bytePackOrder}
+                            onChange={(event) =>
+                              setDctStreamOptions((current) => ({
+                                ...current,
+                                bytePackOrder: event.target
+                                  .value as ExtractionBytePackOrder,
+                              }))
+                            }
+                            className="rounded-md border border-clay bg-white px-2 py-1 text-[11px] normal-case tracking-normal text-ink"
+                          >
+                            {BYTE_PACK_OPTIONS.map((option) => (
+                              <option key={option.value} value={option.value}>
+                                {option.label}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                        <label className="inline-flex items-center gap-2 text-xs text-ink/75 sm:col-span-2">
+                          <input
+                            type="checkbox"
+                            checked={dctStreamOptions.includeDc}
+                            onChange={(event) =>
+                              setDctStreamOptions((current) => ({
+                                ...current,
+                                includeDc: event.target.checked,
+                              }))
+                            }
+                          />
+                          Include DC coefficients (coefficients equal to 0 or 1
+                          are always skipped)
+                        </label>
+                      </div>
+                    ) : (
+                      <>
+                        <div className="mb-3 grid gap-2 sm:grid-cols-2">
+                          <label className="flex flex-col gap-1 text-[11px] font-medium uppercase tracking-[0.08em] text-ink/65">
+                            <span>Scan Order</span>
+                            <select
+                              value={extractionOptions.scanOrder}
+                              onChange={(event) =>
+                                setExtractionOptions((current) => ({
+                                  ...current,
+                                  scanOrder: event.target
+                                    .value as ExtractionScanOrder,
+                                }))
+                              }
+                              disabled={
+                                !decoded ||
+                                Boolean(extractionOptions.pixelOrderKey)
+                              }
+                              className="rounded-md border border-clay bg-white px-2 py-1 text-[11px] normal-case tracking-normal text-ink disabled:opacity-50"
+                            >
+                              {SCAN_ORDER_OPTIONS.map((option) => (
+                                <option key={option.value} value={option.value}>
+                                  {option.label}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
 
-                      <label className="flex flex-col gap-1 text-[11px] font-medium uppercase tracking-[0.08em] text-ink/65">
-                        <span>Byte Packing</span>
-                        <select
-                          value={extractionOptions.bytePackOrder}
-                          onChange={(event) =>
-                            setExtractionOptions((current) => ({
-                              ...current,
-                              bytePackOrder: event.target
-                                .value as ExtractionBytePackOrder,
-                            }))
-                          }
-                          disabled={!decoded}
-                          className="rounded-md border border-clay bg-white px-2 py-1 text-[11px] normal-case tracking-normal text-ink disabled:opacity-50"
-                        >
-                          {BYTE_PACK_OPTIONS.map((option) => (
-                            <option key={option.value} value={option.value}>
-                              {option.label}
-                            </option>
+                          <label className="flex flex-col gap-1 text-[11px] font-medium uppercase tracking-[0.08em] text-ink/65">
+                            <span>Channel Order</span>
+                            <select
+                              value={extractionOptions.channelOrder}
+                              onChange={(event) =>
+                                setExtractionOptions((current) => ({
+                                  ...current,
+                                  channelOrder: event.target
+                                    .value as ExtractionChannelOrder,
+                                }))
+                              }
+                              disabled={
+                                !decoded ||
+                                Boolean(extractionOptions.bitSequence?.length)
+                              }
+                              className="rounded-md border border-clay bg-white px-2 py-1 text-[11px] normal-case tracking-normal text-ink disabled:opacity-50"
+                            >
+                              {CHANNEL_ORDER_OPTIONS.map((option) => (
+                                <option key={option.value} value={option.value}>
+                                  {option.label}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+
+                          <label className="flex flex-col gap-1 text-[11px] font-medium uppercase tracking-[0.08em] text-ink/65">
+                            <span>Bit Order</span>
+                            <select
+                              value={extractionOptions.bitOrder}
+                              onChange={(event) =>
+                                setExtractionOptions((current) => ({
+                                  ...current,
+                                  bitOrder: event.target
+                                    .value as ExtractionBitOrder,
+                                }))
+                              }
+                              disabled={
+                                !decoded ||
+                                Boolean(extractionOptions.bitSequence?.length)
+                              }
+                              className="rounded-md border border-clay bg-white px-2 py-1 text-[11px] normal-case tracking-normal text-ink disabled:opacity-50"
+                            >
+                              {BIT_ORDER_OPTIONS.map((option) => (
+                                <option key={option.value} value={option.value}>
+                                  {option.label}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+
+                          <label className="flex flex-col gap-1 text-[11px] font-medium uppercase tracking-[0.08em] text-ink/65">
+                            <span>Byte Packing</span>
+                            <select
+                              value={extractionOptions.bytePackOrder}
+                              onChange={(event) =>
+                                setExtractionOptions((current) => ({
+                                  ...current,
+                                  bytePackOrder: event.target
+                                    .value as ExtractionBytePackOrder,
+                                }))
+                              }
+                              disabled={!decoded}
+                              className="rounded-md border border-clay bg-white px-2 py-1 text-[11px] normal-case tracking-normal text-ink disabled:opacity-50"
+                            >
+                              {BYTE_PACK_OPTIONS.map((option) => (
+                                <option key={option.value} value={option.value}>
+                                  {option.label}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                        </div>
+                        <div className="mb-3 grid grid-cols-[repeat(4,minmax(0,1fr))_auto] items-end gap-2">
+                          {(
+                            [
+                              ["x", "X"],
+                              ["y", "Y"],
+                              ["width", "Width"],
+                              ["height", "Height"],
+                            ] as const
+                          ).map(([field, label]) => (
+                            <label
+                              key={field}
+                              className="flex flex-col gap-1 text-[11px] font-medium uppercase tracking-[0.08em] text-ink/65"
+                            >
+                              <span>{label}</span>
+                              <input
+                                type="number"
+                                min={0}
+                                value={
+                                  extractionRegion
+                                    ? extractionRegion[field]
+                                    : ""
+                                }
+                                placeholder={
+                                  analysisImageData
+                                    ? String(
+                                        field === "width"
+                                          ? analysisImageData.width
+                                          : field === "height"
+                                            ? analysisImageData.height
+                                            : 0,
+                                      )
+                                    : ""
+                                }
+                                onChange={(event) =>
+                                  updateRegionField(field, event.target.value)
+                                }
+                                disabled={!decoded}
+                                className="w-full rounded-md border border-clay bg-white px-2 py-1 font-mono text-[11px] normal-case tracking-normal text-ink disabled:opacity-50"
+                              />
+                            </label>
                           ))}
-                        </select>
-                      </label>
-                    </div>
+                          <button
+                            type="button"
+                            onClick={() =>
+                              setExtractionOptions((current) => ({
+                                ...current,
+                                region: null,
+                              }))
+                            }
+                            disabled={!extractionOptions.region}
+                            className="rounded-md border border-clay px-2 py-1 text-[11px] font-medium text-ink transition hover:border-accent hover:text-accent disabled:cursor-not-allowed disabled:opacity-45"
+                          >
+                            Full image
+                          </button>
+                        </div>
+                        <div className="mb-3">
+                          <label className="flex flex-col gap-1 text-[11px] font-medium uppercase tracking-[0.08em] text-ink/65">
+                            <span>Bit Sequence Per Pixel</span>
+                            <div className="flex gap-2">
+                              <input
+                                type="text"
+                                value={bitSequenceText}
+                                placeholder="e.g. R1,R2,G1,B1,B2,B3 (overrides planes and orders)"
+                                onChange={(event) =>
+                                  updateBitSequence(event.target.value)
+                                }
+                                disabled={!decoded}
+                                className="min-w-0 flex-1 rounded-md border border-clay bg-white px-2 py-1 font-mono text-[11px] normal-case tracking-normal text-ink disabled:opacity-50"
+                              />
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  updateBitSequence(
+                                    formatBitSequence(
+                                      orderSelectedPlanes(selectedPlanes, {
+                                        ...extractionOptions,
+                                        bitSequence: null,
+                                      }),
+                                    ),
+                                  )
+                                }
+                                disabled={
+                                  !decoded || selectedPlanes.length === 0
+                                }
+                                className="rounded-md border border-clay px-2 py-1 text-[11px] font-medium normal-case tracking-normal text-ink transition hover:border-accent hover:text-accent disabled:cursor-not-allowed disabled:opacity-45"
+                              >
+                                From selection
+                              </button>
+                            </div>
+                          </label>
+                          {bitSequenceError ? (
+                            <p className="mt-1 text-[11px] text-red-700">
+                              {bitSequenceError}
+                            </p>
+                          ) : null}
+                        </div>
+                        <div className="mb-3 grid gap-2 sm:grid-cols-2">
+                          <label className="flex flex-col gap-1 text-[11px] font-medium uppercase tracking-[0.08em] text-ink/65">
+                            <span>Keyed Pixel Order</span>
+                            <select
+                              value={
+                                extractionOptions.pixelOrderKey?.generator ?? ""
+                              }
+                              onChange={(event) => {
+                                const generator = event.target.value as
+                                  | KeyedPixelOrderGenerator
+                                  | "";
+                                setExtractionOptions((current) => ({
+                                  ...current,
+                                  pixelOrderKey: generator
+                                    ? {
+                                        generator,
+                                        seed: current.pixelOrderKey?.seed ?? "",
+                                        seedType:
+                                          current.pixelOrderKey?.seedType ??
+                                          "string",
+                                      }
+                                    : null,
+                                }));
+                              }}
+                              disabled={!decoded}
+                              className="rounded-md border border-clay bg-white px-2 py-1 text-[11px] normal-case tracking-normal text-ink disabled:opacity-50"
+                            >
+                              <option value="">Off (use scan order)</option>
+                              {KEYED_ORDER_OPTIONS.map((option) => (
+                                <option key={option.value} value={option.value}>
+                                  {option.label}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                          <label className="flex flex-col gap-1 text-[11px] font-medium uppercase tracking-[0.08em] text-ink/65">
+                            <span>Seed / Password</span>
+                            <div className="flex gap-1">
+                              <input
+                                type="text"
+                                value={
+                                  extractionOptions.pixelOrderKey?.seed ?? ""
+                                }
+                                placeholder={
+                                  extractionOptions.pixelOrderKey?.seedType ===
+                                  "integer"
+                                    ? "Integer seed"
+                                    : "Password"
+                                }
+                                onChange={(event) => {
+                                  const seed = event.target.value;
+                                  setExtractionOptions((current) =>
+                                    current.pixelOrderKey
+                                      ? {
+                                          ...current,
+                                          pixelOrderKey: {
+                                            ...current.pixelOrderKey,
+                                            seed,
+                                          },
+                                        }
+                                      : current,
+                                  );
+                                }}
+                                disabled={
+                                  !decoded || !extractionOptions.pixelOrderKey
+                                }
+                                className="min-w-0 flex-1 rounded-md border border-clay bg-white px-2 py-1 font-mono text-[11px] normal-case tracking-normal text-ink disabled:opacity-50"
+                              />
+                              <select
+                                aria-label="Seed type"
+                                value={
+                                  extractionOptions.pixelOrderKey?.seedType ??
+                                  "string"
+                                }
+                                onChange={(event) => {
+                                  const seedType = event.target
+                                    .value as KeyedSeedType;
+                                  setExtractionOptions((current) =>
+                                    current.pixelOrderKey
+                                      ? {
+                                          ...current,
+                                          pixelOrderKey: {
+                                            ...current.pixelOrderKey,
+                                            seedType,
+                                          },
+                                        }
+                                      : current,
+                                  );
+                                }}
+                                disabled={
+                                  !decoded || !extractionOptions.pixelOrderKey
+                                }
+                                className="rounded-md border border-clay bg-white px-2 py-1 text-[11px] normal-case tracking-normal text-ink disabled:opacity-50"
+                              >
+                                {KEYED_SEED_TYPE_OPTIONS.map((option) => (
+                                  <option
+                                    key={option.value}
+                                    value={option.value}
+                                  >
+                                    {option.label}
+                                  </option>
+                                ))}
+                              </select>
+                            </div>
+                            {pixelOrderSeedError ? (
+                              <span className="normal-case tracking-normal text-red-700">
+                                {pixelOrderSeedError}
+                              </span>
+                            ) : null}
+                          </label>
+                        </div>
+                        <div className="mb-3 grid grid-cols-4 gap-2">
+                          {(
+                            [
+                              [
+                                "offset",
+                                "Start pixel",
+                                extractionOptions.pixelOffset ?? 0,
+                              ],
+                              [
+                                "stride",
+                                "Pixel step",
+                                extractionOptions.pixelStride ?? 1,
+                              ],
+                              [
+                                "take",
+                                "Take",
+                                extractionOptions.pixelPattern?.take ?? 1,
+                              ],
+                              [
+                                "skip",
+                                "Skip",
+                                extractionOptions.pixelPattern?.skip ?? 0,
+                              ],
+                            ] as const
+                          ).map(([field, label, value]) => (
+                            <label
+                              key={field}
+                              className="flex flex-col gap-1 text-[11px] font-medium uppercase tracking-[0.08em] text-ink/65"
+                            >
+                              <span>{label}</span>
+                              <input
+                                type="number"
+                                min={field === "stride" ? 1 : 0}
+                                value={value}
+                                onChange={(event) =>
+                                  updatePixelSelectionField(
+                                    field,
+                                    event.target.value,
+                                  )
+                                }
+                                disabled={!decoded}
+                                className="w-full rounded-md border border-clay bg-white px-2 py-1 font-mono text-[11px] normal-case tracking-normal text-ink disabled:opacity-50"
+                              />
+                            </label>
+                          ))}
+                        </div>
+                      </>
+                    )}
                     {hexDumpView ? (
                       <div className="mb-3 grid grid-cols-2 gap-2 text-xs text-ink/70">
                         <p>
@@ -1265,10 +3571,7 @@ function App() {
                         <p className="text-right">
                           Total bytes: {hexDumpView.totalBytes.toLocaleString()}
                         </p>
-                        <p>
-                          Bits per pixel:{" "}
-                          {hexDumpView.bitsPerPixel.toLocaleString()}
-                        </p>
+                        <p>{hexDumpView.detail}</p>
                         <p className="text-right">
                           {hexDumpView.isTruncated
                             ? "Truncated preview"
@@ -1284,6 +3587,14 @@ function App() {
                         <pre className="font-mono text-[11px] leading-relaxed text-ink/90">
                           {hexDumpView.text}
                         </pre>
+                      ) : isDctStream ? (
+                        <div className="grid h-40 place-items-center text-sm text-ink/60">
+                          {jpegCoefficients?.error
+                            ? `DCT coefficients unavailable: ${jpegCoefficients.error}`
+                            : coefficientDecodeProgress !== null
+                              ? `Decoding DCT coefficients… ${formatProgress(coefficientDecodeProgress)}`
+                              : "No usable coefficients."}
+                        </div>
                       ) : decoded ? (
                         <div className="grid h-40 place-items-center text-sm text-ink/60">
                           No bit plane selected. Select one or more planes to
@@ -1301,13 +3612,39 @@ function App() {
                         <h4 className="text-sm font-semibold text-ink">
                           Payload Carving
                         </h4>
-                        <span className="rounded-full bg-accentSoft px-2 py-1 font-mono text-[11px] uppercase tracking-[0.08em] text-accent">
-                          {bitPlanePayloadCarving
-                            ? `${bitPlanePayloadCarving.payloads.length} match${bitPlanePayloadCarving.payloads.length === 1 ? "" : "es"}`
-                            : "0 matches"}
-                        </span>
+                        <div className="flex items-center gap-2">
+                          <label className="inline-flex items-center gap-2 text-xs text-ink/75">
+                            Nesting depth
+                            <select
+                              value={carvingDepth}
+                              onChange={(event) =>
+                                setCarvingDepth(Number(event.target.value))
+                              }
+                              className="rounded-md border border-clay bg-white px-2 py-1 text-xs text-ink"
+                            >
+                              {CARVING_DEPTH_OPTIONS.map((depth) => (
+                                <option key={depth} value={depth}>
+                                  {depth}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                          <span className="rounded-full bg-accentSoft px-2 py-1 font-mono text-[11px] uppercase tracking-[0.08em] text-accent">
+                            {bitPlanePayloadCarving
+                              ? `${bitPlanePayloadCarving.payloads.length} match${bitPlanePayloadCarving.payloads.length === 1 ? "" : "es"}`
+                              : "0 matches"}
+                          </span>
+                        </div>
                       </div>
 
+                      {decoded &&
+                      hasStreamInput &&
+                      bitPlaneCarvingProgress !== null ? (
+                        <p className="mb-2 text-xs text-ink/65">
+                          Scanning… {formatProgress(bitPlaneCarvingProgress)}
+                        </p>
+                      ) : null}
+
                       {bitPlanePayloadCarving &&
                       bitPlanePayloadCarving.isScanTruncated ? (
                         <p className="mb-2 text-xs text-ink/65">
@@ -1322,10 +3659,13 @@ function App() {
                         <p className="text-sm text-ink/60">
                           Upload an image to carve candidate payloads.
                         </p>
-                      ) : selectedPlanes.length === 0 ? (
+                      ) : !hasStreamInput ? (
                         <p className="text-sm text-ink/60">
-                          Select one or more planes to carve detected payload
-                          signatures.
+                          {isDctStream
+                            ? jpegCoefficients?.error
+                              ? "DCT coefficients could not be decoded."
+                              : "Decoding DCT coefficients…"
+                            : "Select one or more planes to carve detected payload signatures."}
                         </p>
                       ) : !bitPlanePayloadCarving ||
                         bitPlanePayloadCarving.payloads.length === 0 ? (
@@ -1337,6 +3677,7 @@ function App() {
                         <div className="max-h-60 space-y-2 overflow-auto pr-1">
                           {bitPlanePayloadCarving.payloads.map((payload) => {
                             const endsAtScanBoundary =
+                              payload.zipEntry === null &&
                               bitPlanePayloadCarving.isScanTruncated &&
                               payload.endOffset ===
                                 bitPlanePayloadCarving.scannedBytes;
@@ -1345,6 +3686,9 @@ function App() {
                               <article
                                 key={payload.id}
                                 className="rounded-lg border border-clay bg-white px-3 py-2"
+                                style={{
+                                  marginLeft: `${payload.depth * 1.25}rem`,
+                                }}
                               >
                                 <div className="flex items-start justify-between gap-3">
                                   <div>
@@ -1359,6 +3703,12 @@ function App() {
                                       {payload.endOffset.toLocaleString()} (
                                       {formatHexOffset(payload.endOffset)})
                                     </p>
+                                    {payload.zipEntry ? (
+                                      <p className="text-[11px] text-ink/60">
+                                        In ZIP entry {payload.zipEntry.name};
+                                        offsets are within the extracted entry.
+                                      </p>
+                                    ) : null}
                                     <p className="text-[11px] text-ink/60">
                                       Signature: {payload.signature} | Method:{" "}
                                       {payload.strategy}
@@ -1369,17 +3719,54 @@ function App() {
                                         ? " (may be scan-truncated)"
                                         : ""}
                                     </p>
+                                    {payload.isDepthLimited ? (
+                                      <p className="text-[11px] text-ink/60">
+                                        Contains further payloads below the
+                                        nesting depth limit.
+                                      </p>
+                                    ) : null}
+                                  </div>
+                                  <div className="flex shrink-0 flex-col gap-2">
+                                    <button
+                                      type="button"
+                                      onClick={() =>
+                                        downloadBitPlaneCarvedPayload(payload)
+                                      }
+                                      className="rounded-lg border border-clay px-3 py-2 text-xs font-medium text-ink transition hover:border-accent hover:text-accent"
+                                    >
+                                      Carve
+                                    </button>
+                                    {OPENABLE_PAYLOAD_KINDS.has(
+                                      payload.kind,
+                                    ) ? (
+                                      <button
+                                        type="button"
+                                        onClick={() =>
+                                          openBitPlaneCarvedPayload(payload)
+                                        }
+                                        disabled={isLoading}
+                                        className="rounded-lg border border-clay px-3 py-2 text-xs font-medium text-ink transition hover:border-accent hover:text-accent disabled:cursor-not-allowed disabled:opacity-45"
+                                      >
+                                        Open
+                                      </button>
+                                    ) : null}
+                                    {payload.kind === "zip" ? (
+                                      <button
+                                        type="button"
+                                        onClick={() =>
+                                          toggleZipListing(
+                                            "bit-planes",
+                                            payload,
+                                          )
+                                        }
+                                        className="rounded-lg border border-clay px-3 py-2 text-xs font-medium text-ink transition hover:border-accent hover:text-accent"
+                                      >
+                                        Entries
+                                      </button>
+                                    ) : null}
                                   </div>
-                                  <button
-                                    type="button"
-                                    onClick={() =>
-                                      downloadBitPlaneCarvedPayload(payload)
-                                    }
-                                    className="rounded-lg border border-clay px-3 py-2 text-xs font-medium text-ink transition hover:border-accent hover:text-accent"
-                                  >
-                                    Carve
-                                  </button>
                                 </div>
+                                {renderZipListing("bit-planes", payload)}
                               </article>
                             );
                           })}
@@ -1388,7 +3775,786 @@ function App() {
                     </div>
                   </article>
                 </section>
+
+                <section className="rounded-2xl border border-clay bg-white/95 p-5 shadow-panel">
+                  <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+                    <div>
+                      <h3 className="text-base font-semibold text-ink">
+                        Chi-square LSB Analysis
+                      </h3>
+                      <p className="text-xs text-ink/70">
+                        Embedding probability over the first part of the scan
+                        (Westfeld-Pfitzmann pairs-of-values test). Follows the
+                        Hex Dump scan order:{" "}
+                        {SCAN_ORDER_OPTIONS.find(
+                          (option) =>
+                            option.value === extractionOptions.scanOrder,
+                        )?.label ?? extractionOptions.scanOrder}
+                        .
+                      </p>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-3">
+                      {chiSquareAnalysis?.series.map((series) => (
+                        <span
+                          key={series.channel}
+                          className="inline-flex items-center gap-1 text-xs text-ink/75"
+                        >
+                          <span
+                            className="inline-block h-2 w-4 rounded-sm"
+                            style={{
+                              backgroundColor:
+                                ANALYSIS_CHANNEL_STYLES[series.channel].color,
+                            }}
+                          />
+                          {ANALYSIS_CHANNEL_STYLES[series.channel].label}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+
+                  {chiSquareAnalysis ? (
+                    <div className="grid gap-4 lg:grid-cols-[2fr_1fr]">
+                      <div className="rounded-xl border border-clay bg-white p-2">
+                        <svg
+                          viewBox={`-28 -8 ${CHI_SQUARE_PLOT_WIDTH + 36} ${CHI_SQUARE_PLOT_HEIGHT + 28}`}
+                          className="h-auto w-full"
+                          role="img"
+                          aria-label="Chi-square embedding probability by scan position"
+                        >
+                          {[0, 0.5, 1].map((probability) => {
+                            const y =
+                              (1 - probability) * CHI_SQUARE_PLOT_HEIGHT;
+                            return (
+                              <g key={probability}>
+                                <line
+                                  x1={0}
+                                  x2={CHI_SQUARE_PLOT_WIDTH}
+                                  y1={y}
+                                  y2={y}
+                                  stroke="#e8e1d2"
+                                  strokeDasharray={
+                                    probability === 0 ? undefined : "4 4"
+                                  }
+                                />
+                                <text
+                                  x={-6}
+                                  y={y + 3}
+                                  textAnchor="end"
+                                  className="fill-current text-[9px] text-ink/60"
+                                >
+                                  {probability.toFixed(1)}
+                                </text>
+                              </g>
+                            );
+                          })}
+                          {[0, 0.25, 0.5, 0.75, 1].map((fraction) => (
+                            <text
+                              key={fraction}
+                              x={fraction * CHI_SQUARE_PLOT_WIDTH}
+                              y={CHI_SQUARE_PLOT_HEIGHT + 14}
+                              textAnchor="middle"
+                              className="fill-current text-[9px] text-ink/60"
+                            >
+                              {`${Math.round(fraction * 100)}%`}
+                            </text>
+                          ))}
+                          {chiSquareAnalysis.series.map((series) => (
+                            <polyline
+                              key={series.channel}
+                              points={buildChiSquarePolylinePoints(series)}
+                              fill="none"
+                              stroke={
+                                ANALYSIS_CHANNEL_STYLES[series.channel].color
+                              }
+                              strokeWidth={1.5}
+                              strokeLinejoin="round"
+                            />
+                          ))}
+                        </svg>
+                      </div>
+                      <div className="rounded-xl border border-clay bg-white px-4 py-3 text-sm text-ink/80">
+                        {chiSquareAnalysis.series.map((series) => {
+                          const finalSample =
+                            series.samples[series.samples.length - 1];
+                          return (
+                            <p key={series.channel} className="leading-6">
+                              <span className="inline-block w-16 font-medium text-ink">
+                                {ANALYSIS_CHANNEL_STYLES[series.channel].label}:
+                              </span>
+                              <span className="font-mono text-xs text-ink">
+                                {series.estimatedPayloadFraction > 0
+                                  ? `embedded through ~${(series.estimatedPayloadFraction * 100).toFixed(0)}% (${formatCommaGroupedInteger(series.estimatedPayloadFraction * chiSquareAnalysis.totalPixels)} px)`
+                                  : "no sequential embedding"}
+                                {finalSample
+                                  ? ` | p(full)=${finalSample.probability.toFixed(3)}`
+                                  : ""}
+                              </span>
+                            </p>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="grid h-32 place-items-center rounded-xl border border-clay bg-white text-sm text-ink/60">
+                      Upload an image to run the chi-square test.
+                    </div>
+                  )}
+                </section>
+
+                <section className="rounded-2xl border border-clay bg-white/95 p-5 shadow-panel">
+                  <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+                    <div>
+                      <h3 className="text-base font-semibold text-ink">
+                        Auto Scan
+                      </h3>
+                      <p className="text-xs text-ink/70">
+                        Tries every channel subset, low-bit group, scan order,
+                        bit order and byte packing (like zsteg) and ranks the
+                        extracted streams by leading text, file signatures and
+                        byte structure.
+                      </p>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-3">
+                      <label className="inline-flex items-center gap-2 text-xs text-ink/75">
+                        <input
+                          type="checkbox"
+                          checked={autoScanIncludeAlpha}
+                          onChange={(event) =>
+                            setAutoScanIncludeAlpha(event.target.checked)
+                          }
+                          disabled={!decoded || autoScanProgress !== null}
+                        />
+                        Include alpha
+                      </label>
+                      {autoScanProgress !== null ? (
+                        <button
+                          type="button"
+                          onClick={cancelAutoScan}
+                          className="rounded-lg border border-clay px-3 py-2 text-sm font-medium text-ink transition hover:border-accent hover:text-accent"
+                        >
+                          Cancel
+                        </button>
+                      ) : null}
+                      <button
+                        type="button"
+                        className="rounded-lg border border-clay px-3 py-2 text-sm font-medium text-ink transition hover:border-accent hover:text-accent disabled:cursor-not-allowed disabled:opacity-45"
+                        onClick={() => void startAutoScan()}
+                        disabled={
+                          !analysisImageData || autoScanProgress !== null
+                        }
+                      >
+                        {autoScanProgress !== null
+                          ? `Scanning ${formatProgress(autoScanProgress)}`
+                          : "Run auto scan"}
+                      </button>
+                    </div>
+                  </div>
+
+                  {!autoScanHits ? (
+                    <div className="grid h-24 place-items-center rounded-xl border border-clay bg-white text-sm text-ink/60">
+                      {decoded
+                        ? "Run the scan to rank candidate extraction settings."
+                        : "Upload an image to scan extraction settings."}
+                    </div>
+                  ) : autoScanHits.length === 0 ? (
+                    <div className="grid h-24 place-items-center rounded-xl border border-clay bg-white text-sm text-ink/60">
+                      No candidate produced text, a known signature or
+                      structured data.
+                    </div>
+                  ) : (
+                    <div className="max-h-96 overflow-auto rounded-xl border border-clay bg-white">
+                      <table className="w-full text-left text-sm">
+                        <thead className="font-mono text-[11px] uppercase tracking-[0.08em] text-ink/65">
+                          <tr>
+                            <th className="px-4 py-2 font-medium">Settings</th>
+                            <th className="px-4 py-2 font-medium">Score</th>
+                            <th className="px-4 py-2 font-medium">Findings</th>
+                            <th className="px-4 py-2 font-medium">Preview</th>
+                            <th className="px-4 py-2 font-medium" />
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-clay/40">
+                          {autoScanHits.map((hit) => (
+                            <tr key={hit.id}>
+                              <td className="whitespace-nowrap px-4 py-2 font-mono text-xs text-ink">
+                                {hit.label}
+                              </td>
+                              <td className="px-4 py-2 font-mono text-xs text-ink">
+                                {hit.score.toFixed(2)}
+                              </td>
+                              <td className="px-4 py-2 text-xs text-ink/75">
+                                {hit.reasons.join("; ")}
+                              </td>
+                              <td className="max-w-xs truncate px-4 py-2 font-mono text-xs text-ink">
+                                {hit.preview}
+                              </td>
+                              <td className="px-4 py-2 text-right">
+                                <button
+                                  type="button"
+                                  className="rounded-lg border border-clay px-2 py-1 text-xs font-medium text-ink transition hover:border-accent hover:text-accent"
+                                  onClick={() => applyAutoScanHit(hit)}
+                                >
+                                  Apply
+                                </button>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </section>
               </div>
+            ) : activeTab === "steganalysis" ? (
+              <section className="rounded-2xl border border-clay bg-white/95 p-5 shadow-panel">
+                <div className="mb-4">
+                  <h2 className="text-lg font-semibold text-ink">
+                    Steganalysis
+                  </h2>
+                  <p className="text-xs text-ink/70">
+                    Estimates the fraction of pixels carrying LSB-embedded
+                    message bits per channel. Unlike the chi-square test, RS and
+                    Sample Pair Analysis also detect randomly scattered
+                    embedding.
+                  </p>
+                </div>
+
+                {!decoded || !lsbSteganalysis ? (
+                  <div className="grid h-48 place-items-center rounded-xl border border-clay bg-white text-sm text-ink/60">
+                    Upload an image to estimate embedded payload length.
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    <article className="overflow-hidden rounded-xl border border-clay bg-white">
+                      <header className="border-b border-clay/80 bg-paper/60 px-4 py-2">
+                        <h3 className="font-mono text-xs uppercase tracking-[0.16em] text-ink/75">
+                          LSB Embedding Rate
+                        </h3>
+                      </header>
+                      <div className="overflow-auto">
+                        <table className="w-full text-left text-sm">
+                          <thead className="font-mono text-[11px] uppercase tracking-[0.08em] text-ink/65">
+                            <tr>
+                              <th className="px-4 py-2 font-medium">Channel</th>
+                              <th className="px-4 py-2 font-medium">
+                                RS estimate
+                              </th>
+                              <th className="px-4 py-2 font-medium">
+                                SPA estimate
+                              </th>
+                              <th className="px-4 py-2 font-medium">
+                                Est. payload
+                              </th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-clay/40">
+                            {lsbSteganalysis.channels.map((entry) => {
+                              const rates = [
+                                entry.rs?.embeddingRate,
+                                entry.samplePair?.embeddingRate,
+                              ].filter(
+                                (rate): rate is number => rate !== undefined,
+                              );
+                              const meanRate =
+                                rates.length > 0
+                                  ? rates.reduce((sum, rate) => sum + rate, 0) /
+                                    rates.length
+                                  : 0;
+
+                              return (
+                                <tr key={entry.channel}>
+                                  <td className="px-4 py-2 font-medium text-ink">
+                                    {
+                                      ANALYSIS_CHANNEL_STYLES[entry.channel]
+                                        .label
+                                    }
+                                  </td>
+                                  <td className="px-4 py-2 font-mono text-xs text-ink">
+                                    {formatEmbeddingRate(
+                                      entry.rs?.embeddingRate,
+                                    )}
+                                  </td>
+                                  <td className="px-4 py-2 font-mono text-xs text-ink">
+                                    {formatEmbeddingRate(
+                                      entry.samplePair?.embeddingRate,
+                                    )}
+                                  </td>
+                                  <td className="px-4 py-2 font-mono text-xs text-ink">
+                                    {formatByteCountWithHuman(
+                                      estimateEmbeddedBytes(
+                                        meanRate,
+                                        lsbSteganalysis.pixelCount,
+                                      ),
+                                    )}
+                                  </td>
+                                </tr>
+                              );
+                            })}
+                          </tbody>
+                        </table>
+                      </div>
+                    </article>
+                    <p className="text-xs text-ink/60">
+                      Rates are the estimated share of{" "}
+                      {formatCommaGroupedInteger(lsbSteganalysis.pixelCount)}{" "}
+                      pixels whose LSB carries message bits. Payload size
+                      averages both estimators and assumes one bit per pixel per
+                      channel. Estimates below ~3% are within the noise of
+                      typical cover images.
+                    </p>
+                    {decoded.format === "image/jpeg" ? (
+                      <article className="overflow-hidden rounded-xl border border-clay bg-white">
+                        <header className="border-b border-clay/80 bg-paper/60 px-4 py-2">
+                          <h3 className="font-mono text-xs uppercase tracking-[0.16em] text-ink/75">
+                            JPEG DCT Steganalysis
+                          </h3>
+                        </header>
+                        {!jpegSteganalysis ? (
+                          <div className="grid h-32 place-items-center px-4 text-sm text-ink/60">
+                            {jpegCoefficients?.error
+                              ? `DCT coefficients unavailable: ${jpegCoefficients.error}`
+                              : jpegSteganalysisProgress !== null
+                                ? `Analysing DCT coefficients… ${formatProgress(jpegSteganalysisProgress)}`
+                                : "Decoding DCT coefficients…"}
+                          </div>
+                        ) : (
+                          <div className="space-y-4 p-4">
+                            <div className="overflow-auto rounded-xl border border-clay">
+                              <table className="w-full text-left text-sm">
+                                <thead className="font-mono text-[11px] uppercase tracking-[0.08em] text-ink/65">
+                                  <tr>
+                                    <th className="px-4 py-2 font-medium">
+                                      Detector
+                                    </th>
+                                    <th className="px-4 py-2 font-medium">
+                                      Score
+                                    </th>
+                                    <th className="px-4 py-2 font-medium">
+                                      Est. payload
+                                    </th>
+                                    <th className="px-4 py-2 font-medium">
+                                      Detail
+                                    </th>
+                                  </tr>
+                                </thead>
+                                <tbody className="divide-y divide-clay/40">
+                                  {jpegSteganalysis.detectors.map(
+                                    (detector) => (
+                                      <tr key={detector.method}>
+                                        <td className="px-4 py-2 font-medium text-ink">
+                                          {detector.label}
+                                          {detector.isLikely ? (
+                                            <span className="ml-2 rounded-full bg-red-50 px-2 py-0.5 font-mono text-[10px] uppercase tracking-wider text-red-700">
+                                              Likely
+                                            </span>
+                                          ) : null}
+                                        </td>
+                                        <td className="px-4 py-2 font-mono text-xs text-ink">
+                                          {detector.score.toFixed(3)}
+                                        </td>
+                                        <td className="px-4 py-2 font-mono text-xs text-ink">
+                                          {formatByteCountWithHuman(
+                                            detector.estimatedBytes,
+                                          )}
+                                        </td>
+                                        <td className="px-4 py-2 text-xs text-ink/75">
+                                          {detector.detail}
+                                        </td>
+                                      </tr>
+                                    ),
+                                  )}
+                                </tbody>
+                              </table>
+                            </div>
+
+                            <div>
+                              <div className="mb-2 flex flex-wrap items-center justify-between gap-3">
+                                <label className="flex items-center gap-2 text-xs text-ink/75">
+                                  Frequency (row,col)
+                                  <select
+                                    className="rounded-lg border border-clay bg-white px-2 py-1 font-mono text-xs text-ink"
+                                    value={dctHistogramFrequency}
+                                    onChange={(event) =>
+                                      setDctHistogramFrequency(
+                                        Number(event.target.value),
+                                      )
+                                    }
+                                  >
+                                    {DCT_FREQUENCY_OPTIONS.map((option) => (
+                                      <option
+                                        key={option.value}
+                                        value={option.value}
+                                      >
+                                        {option.label}
+                                      </option>
+                                    ))}
+                                  </select>
+                                </label>
+                                <div className="flex flex-wrap items-center gap-3 text-xs text-ink/75">
+                                  <span className="inline-flex items-center gap-1">
+                                    <span className="inline-block h-2 w-4 rounded-sm bg-accent" />
+                                    Image
+                                  </span>
+                                  {dctHistogram?.calibratedCounts ? (
+                                    <span className="inline-flex items-center gap-1">
+                                      <span className="inline-block h-0.5 w-4 bg-ink" />
+                                      Calibrated cover estimate
+                                    </span>
+                                  ) : null}
+                                </div>
+                              </div>
+                              {dctHistogram ? (
+                                <div className="rounded-xl border border-clay bg-white p-2">
+                                  <svg
+                                    viewBox={`-8 -8 ${DCT_HISTOGRAM_PLOT_WIDTH + 16} ${DCT_HISTOGRAM_PLOT_HEIGHT + 28}`}
+                                    className="h-auto w-full"
+                                    role="img"
+                                    aria-label="DCT coefficient histogram for the selected frequency"
+                                  >
+                                    {dctHistogram.counts.map((count, bin) => {
+                                      const slot =
+                                        DCT_HISTOGRAM_PLOT_WIDTH /
+                                        dctHistogram.counts.length;
+                                      const height =
+                                        (count / dctHistogramMaxCount) *
+                                        DCT_HISTOGRAM_PLOT_HEIGHT;
+                                      const value = bin - DCT_HISTOGRAM_RANGE;
+                                      return (
+                                        <g key={bin}>
+                                          <rect
+                                            x={bin * slot + 1}
+                                            y={
+                                              DCT_HISTOGRAM_PLOT_HEIGHT - height
+                                            }
+                                            width={slot - 2}
+                                            height={height}
+                                            className="fill-current text-accent"
+                                            opacity={0.75}
+                                          >
+                                            <title>{`${value}: ${formatCommaGroupedInteger(count)}`}</title>
+                                          </rect>
+                                          {value % 4 === 0 ? (
+                                            <text
+                                              x={(bin + 0.5) * slot}
+                                              y={DCT_HISTOGRAM_PLOT_HEIGHT + 14}
+                                              textAnchor="middle"
+                                              className="fill-current text-[9px] text-ink/60"
+                                            >
+                                              {value}
+                                            </text>
+                                          ) : null}
+                                        </g>
+                                      );
+                                    })}
+                                    {dctHistogram.calibratedCounts ? (
+                                      <polyline
+                                        points={dctHistogram.calibratedCounts
+                                          .map((count, bin) => {
+                                            const x =
+                                              ((bin + 0.5) *
+                                                DCT_HISTOGRAM_PLOT_WIDTH) /
+                                              dctHistogram.counts.length;
+                                            const y =
+                                              DCT_HISTOGRAM_PLOT_HEIGHT -
+                                              (count / dctHistogramMaxCount) *
+                                                DCT_HISTOGRAM_PLOT_HEIGHT;
+                                            return `${x.toFixed(1)},${y.toFixed(1)}`;
+                                          })
+                                          .join(" ")}
+                                        fill="none"
+                                        stroke="#1f2937"
+                                        strokeWidth={1.5}
+                                        strokeLinejoin="round"
+                                      />
+                                    ) : null}
+                                    <line
+                                      x1={0}
+                                      x2={DCT_HISTOGRAM_PLOT_WIDTH}
+                                      y1={DCT_HISTOGRAM_PLOT_HEIGHT}
+                                      y2={DCT_HISTOGRAM_PLOT_HEIGHT}
+                                      stroke="#e8e1d2"
+                                    />
+                                  </svg>
+                                </div>
+                              ) : null}
+                            </div>
+                            <p className="text-xs text-ink/60">
+                              Histograms and the F5/OutGuess detectors use{" "}
+                              {formatCommaGroupedInteger(
+                                jpegSteganalysis.blockCount,
+                              )}{" "}
+                              blocks of component {jpegSteganalysis.componentId}
+                              ; JSteg capacity counts{" "}
+                              {formatCommaGroupedInteger(
+                                jpegSteganalysis.usableCoefficientCount,
+                              )}{" "}
+                              coefficients other than 0 and 1. The calibrated
+                              estimate crops 4 pixels and recompresses with the
+                              same quantization table to approximate the cover.
+                            </p>
+                          </div>
+                        )}
+                      </article>
+                    ) : null}
+                  </div>
+                )}
+              </section>
+            ) : activeTab === "palette" ? (
+              <section className="rounded-2xl border border-clay bg-white/95 p-5 shadow-panel">
+                <div className="mb-4">
+                  <h2 className="text-lg font-semibold text-ink">Palette</h2>
+                  <p className="text-xs text-ink/70">
+                    Raw palette indices of GIF frames, indexed-color PNGs and
+                    palettized BMPs. Palette tools such as EzStego and S-Tools
+                    embed in the index bits rather than in the RGB values.
+                  </p>
+                </div>
+
+                {!decoded || !PALETTE_FORMATS.has(decoded.format) ? (
+                  <div className="grid h-48 place-items-center rounded-xl border border-clay bg-white text-sm text-ink/60">
+                    Upload a GIF, indexed-color PNG or palettized BMP to inspect
+                    its palette.
+                  </div>
+                ) : !paletteImage ? (
+                  <div className="grid h-48 place-items-center rounded-xl border border-clay bg-white text-sm text-ink/60">
+                    Decoding palette indices…
+                  </div>
+                ) : !paletteResult || !paletteAnalysis ? (
+                  <div className="grid h-48 place-items-center rounded-xl border border-clay bg-white px-4 text-center text-sm text-ink/60">
+                    {paletteImage.error
+                      ? `Palette indices unavailable: ${paletteImage.error}`
+                      : "This image stores direct color, not palette indices."}
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    <dl className="grid gap-2 text-sm sm:grid-cols-4">
+                      <div>
+                        <dt className="text-ink/70">Index size</dt>
+                        <dd className="font-mono text-ink">
+                          {paletteResult.width} x {paletteResult.height}
+                        </dd>
+                      </div>
+                      <div>
+                        <dt className="text-ink/70">Palette entries</dt>
+                        <dd className="font-mono text-ink">
+                          {paletteResult.paletteSize}
+                        </dd>
+                      </div>
+                      <div>
+                        <dt className="text-ink/70">Used entries</dt>
+                        <dd className="font-mono text-ink">
+                          {paletteAnalysis.usedCount}
+                        </dd>
+                      </div>
+                      <div>
+                        <dt className="text-ink/70">Transparent index</dt>
+                        <dd className="font-mono text-ink">
+                          {paletteResult.transparentIndex ?? "None"}
+                        </dd>
+                      </div>
+                    </dl>
+
+                    <article className="overflow-hidden rounded-xl border border-clay bg-white">
+                      <header className="border-b border-clay/80 bg-paper/60 px-4 py-2">
+                        <h3 className="font-mono text-xs uppercase tracking-[0.16em] text-ink/75">
+                          Palette by Luminance
+                        </h3>
+                      </header>
+                      <div className="flex flex-wrap gap-1.5 p-4">
+                        {paletteAnalysis.luminanceOrder.map((paletteIndex) => {
+                          const entry = paletteAnalysis.entries[paletteIndex];
+                          const color = formatPaletteColor(entry);
+                          return (
+                            <div
+                              key={paletteIndex}
+                              title={`#${paletteIndex} ${color} · ${entry.count.toLocaleString()} px`}
+                              className={`flex w-12 flex-col items-center gap-0.5 ${
+                                entry.count === 0 ? "opacity-40" : ""
+                              }`}
+                            >
+                              <span
+                                className="block h-8 w-8 rounded border border-clay"
+                                style={{ backgroundColor: color }}
+                              />
+                              <span className="font-mono text-[10px] text-ink/70">
+                                {paletteIndex}
+                              </span>
+                            </div>
+                          );
+                        })}
+                      </div>
+                      <p className="border-t border-clay/60 px-4 py-2 text-xs text-ink/60">
+                        Darkest to brightest; faded entries are unused. Hover
+                        for the color and pixel count.
+                      </p>
+                    </article>
+
+                    <article className="overflow-hidden rounded-xl border border-clay bg-white">
+                      <header className="border-b border-clay/80 bg-paper/60 px-4 py-2">
+                        <h3 className="font-mono text-xs uppercase tracking-[0.16em] text-ink/75">
+                          Near-Duplicate Colors
+                        </h3>
+                      </header>
+                      {paletteAnalysis.nearDuplicates.length === 0 ? (
+                        <p className="px-4 py-3 text-sm text-ink/60">
+                          No palette entries within RGB distance 8 of each
+                          other.
+                        </p>
+                      ) : (
+                        <>
+                          <div className="max-h-72 overflow-auto">
+                            <table className="w-full text-left text-sm">
+                              <thead className="font-mono text-[11px] uppercase tracking-[0.08em] text-ink/65">
+                                <tr>
+                                  <th className="px-4 py-2 font-medium">
+                                    Entries
+                                  </th>
+                                  <th className="px-4 py-2 font-medium">
+                                    Colors
+                                  </th>
+                                  <th className="px-4 py-2 font-medium">
+                                    Distance
+                                  </th>
+                                  <th className="px-4 py-2 font-medium">
+                                    Pixels
+                                  </th>
+                                </tr>
+                              </thead>
+                              <tbody className="divide-y divide-clay/40">
+                                {paletteAnalysis.nearDuplicates.map((pair) => {
+                                  const first =
+                                    paletteAnalysis.entries[pair.first];
+                                  const second =
+                                    paletteAnalysis.entries[pair.second];
+                                  return (
+                                    <tr key={`${pair.first}-${pair.second}`}>
+                                      <td className="px-4 py-2 font-mono text-xs text-ink">
+                                        #{pair.first} / #{pair.second}
+                                      </td>
+                                      <td className="px-4 py-2">
+                                        <span className="inline-flex items-center gap-1 font-mono text-xs text-ink/75">
+                                          <span
+                                            className="inline-block h-4 w-4 rounded border border-clay"
+                                            style={{
+                                              backgroundColor:
+                                                formatPaletteColor(first),
+                                            }}
+                                          />
+                                          <span
+                                            className="inline-block h-4 w-4 rounded border border-clay"
+                                            style={{
+                                              backgroundColor:
+                                                formatPaletteColor(second),
+                                            }}
+                                          />
+                                          {formatPaletteColor(first)}{" "}
+                                          {formatPaletteColor(second)}
+                                        </span>
+                                      </td>
+                                      <td className="px-4 py-2 font-mono text-xs text-ink">
+                                        {pair.distance.toFixed(1)}
+                                      </td>
+                                      <td className="px-4 py-2 font-mono text-xs text-ink">
+                                        {first.count.toLocaleString()} /{" "}
+                                        {second.count.toLocaleString()}
+                                      </td>
+                                    </tr>
+                                  );
+                                })}
+                              </tbody>
+                            </table>
+                          </div>
+                          <p className="border-t border-red-200 bg-red-50 px-4 py-2 text-xs text-red-700">
+                            Visually identical entries that are both in use are
+                            typical of palette embedding, which flips pixels
+                            between paired colors.
+                            {paletteAnalysis.isNearDuplicateListTruncated
+                              ? " Only the first 256 pairs are listed."
+                              : ""}
+                          </p>
+                        </>
+                      )}
+                    </article>
+
+                    <article className="overflow-hidden rounded-xl border border-clay bg-white">
+                      <header className="flex flex-wrap items-center justify-between gap-2 border-b border-clay/80 bg-paper/60 px-4 py-2">
+                        <h3 className="font-mono text-xs uppercase tracking-[0.16em] text-ink/75">
+                          Index Bit Planes
+                        </h3>
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setStreamSource("palette-indices");
+                            setActiveTab("bit-planes");
+                          }}
+                          disabled={paletteIndexPlanes.length === 0}
+                          className="rounded-lg border border-clay px-3 py-1 text-xs font-medium text-ink transition hover:border-accent hover:text-accent disabled:cursor-not-allowed disabled:opacity-45"
+                        >
+                          Extract in Hex Dump
+                        </button>
+                      </header>
+                      <div className="space-y-3 p-4">
+                        <div className="flex flex-wrap items-end gap-4">
+                          <label className="flex flex-col gap-1 text-[11px] font-medium uppercase tracking-[0.08em] text-ink/65">
+                            <span>Index Order</span>
+                            <select
+                              value={paletteIndexOrder}
+                              onChange={(event) =>
+                                setPaletteIndexOrder(
+                                  event.target.value as PaletteIndexOrder,
+                                )
+                              }
+                              className="rounded-md border border-clay bg-white px-2 py-1 text-[11px] normal-case tracking-normal text-ink"
+                            >
+                              {PALETTE_ORDER_OPTIONS.map((option) => (
+                                <option key={option.value} value={option.value}>
+                                  {option.label}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                          <div className="flex flex-wrap gap-2">
+                            {PALETTE_INDEX_PLANES.map((plane) => (
+                              <button
+                                key={plane.id}
+                                type="button"
+                                title={`Index bit ${plane.bitPosition}`}
+                                onClick={() =>
+                                  togglePaletteIndexBit(plane.bitPosition)
+                                }
+                                className={`min-w-10 rounded-full border px-3 py-2 text-xs font-medium transition ${
+                                  paletteIndexBits.includes(plane.bitPosition)
+                                    ? "border-accent bg-accent text-white"
+                                    : "border-clay text-ink hover:border-accent hover:text-accent"
+                                }`}
+                              >
+                                {plane.bitPosition}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                        {paletteRenderProgress !== null ? (
+                          <p className="text-xs text-ink/60">
+                            Rendering… {formatProgress(paletteRenderProgress)}
+                          </p>
+                        ) : null}
+                        <div className="overflow-auto rounded-xl border border-clay bg-white p-2">
+                          <canvas
+                            ref={paletteCanvasRef}
+                            className="pixelated block h-auto w-full max-w-full rounded-md bg-black/5"
+                            aria-label="Visualized palette index bit planes"
+                          />
+                        </div>
+                        <p className="text-xs text-ink/60">
+                          Bit 1 in luminance-rank order is the EzStego embedding
+                          plane. GIF frames cover only their own rectangle,
+                          which may be smaller than the canvas.
+                        </p>
+                      </div>
+                    </article>
+                  </div>
+                )}
+              </section>
             ) : activeTab === "exif" ? (
               <section className="rounded-2xl border border-clay bg-white/95 p-5 shadow-panel">
                 <div className="mb-4 flex items-center justify-between gap-3">
@@ -1481,6 +4647,247 @@ function App() {
                   </div>
                 )}
               </section>
+            ) : activeTab === "structure" ? (
+              <section className="rounded-2xl border border-clay bg-white/95 p-5 shadow-panel">
+                <div className="mb-4 flex items-center justify-between gap-3">
+                  <h2 className="text-lg font-semibold text-ink">
+                    File Structure
+                  </h2>
+                  {structureItemCount !== null ? (
+                    <span className="rounded-full bg-accentSoft px-3 py-1 font-mono text-xs uppercase tracking-wider text-accent">
+                      {structureItemCount}{" "}
+                      {pngStructure
+                        ? "chunk"
+                        : gifStructure
+                          ? "block"
+                          : "segment"}
+                      {structureItemCount === 1 ? "" : "s"}
+                    </span>
+                  ) : null}
+                </div>
+
+                {!decoded ? (
+                  <div className="grid h-48 place-items-center rounded-xl border border-clay bg-white text-sm text-ink/60">
+                    Upload an image to inspect its container structure.
+                  </div>
+                ) : jpegStructure ? (
+                  <div className="space-y-4">
+                    {jpegStructure.warnings.length > 0 ? (
+                      <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+                        {jpegStructure.warnings.map((warning) => (
+                          <p key={warning}>{warning}</p>
+                        ))}
+                      </div>
+                    ) : null}
+                    {jpegStructure.segments.map((segment) => (
+                      <article
+                        key={`${segment.index}-${segment.offset}`}
+                        className="overflow-hidden rounded-xl border border-clay bg-white"
+                      >
+                        <header className="flex flex-wrap items-center justify-between gap-2 border-b border-clay/80 bg-paper/60 px-4 py-2">
+                          <h3 className="font-mono text-xs uppercase tracking-[0.16em] text-ink/75">
+                            #{segment.index} {segment.name}
+                            <span className="ml-2 normal-case tracking-normal text-ink/45">
+                              {segment.description}
+                            </span>
+                          </h3>
+                          {segment.dataLength > 0 ? (
+                            <button
+                              type="button"
+                              onClick={() => downloadJpegSegment(segment)}
+                              className="rounded-lg border border-clay px-3 py-1 text-xs font-medium text-ink transition hover:border-accent hover:text-accent"
+                            >
+                              Download body
+                            </button>
+                          ) : null}
+                        </header>
+                        <dl className="divide-y divide-clay/40">
+                          <div className="grid gap-1 px-4 py-2 sm:grid-cols-[16rem_1fr] sm:items-start">
+                            <dt className="font-mono text-[11px] uppercase tracking-[0.08em] text-ink/65">
+                              Offset / Length
+                            </dt>
+                            <dd className="font-mono text-xs text-ink">
+                              {segment.offset.toLocaleString()} (
+                              {formatHexOffset(segment.offset)}) /{" "}
+                              {formatByteCountWithHuman(segment.dataLength)}
+                            </dd>
+                          </div>
+                          {segment.fields.map((field, fieldIndex) => (
+                            <div
+                              key={`${field.label}-${fieldIndex}`}
+                              className="grid gap-1 px-4 py-2 sm:grid-cols-[16rem_1fr] sm:items-start"
+                            >
+                              <dt className="font-mono text-[11px] uppercase tracking-[0.08em] text-ink/65">
+                                {field.label}
+                              </dt>
+                              <dd className="whitespace-pre-wrap break-words text-sm text-ink">
+                                {field.value}
+                              </dd>
+                            </div>
+                          ))}
+                          {segment.warnings.map((warning) => (
+                            <p
+                              key={warning}
+                              className="px-4 py-2 text-xs text-red-700"
+                            >
+                              {warning}
+                            </p>
+                          ))}
+                        </dl>
+                      </article>
+                    ))}
+                  </div>
+                ) : gifStructure ? (
+                  <div className="space-y-4">
+                    {gifStructure.warnings.length > 0 ? (
+                      <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+                        {gifStructure.warnings.map((warning) => (
+                          <p key={warning}>{warning}</p>
+                        ))}
+                      </div>
+                    ) : null}
+                    {gifStructure.blocks.map((block) => (
+                      <article
+                        key={`${block.index}-${block.offset}`}
+                        className="overflow-hidden rounded-xl border border-clay bg-white"
+                      >
+                        <header className="flex flex-wrap items-center justify-between gap-2 border-b border-clay/80 bg-paper/60 px-4 py-2">
+                          <h3 className="font-mono text-xs uppercase tracking-[0.16em] text-ink/75">
+                            #{block.index} {block.name}
+                            <span className="ml-2 normal-case tracking-normal text-ink/45">
+                              {block.description}
+                            </span>
+                          </h3>
+                          <button
+                            type="button"
+                            onClick={() => downloadGifBlock(block)}
+                            className="rounded-lg border border-clay px-3 py-1 text-xs font-medium text-ink transition hover:border-accent hover:text-accent"
+                          >
+                            Download raw
+                          </button>
+                        </header>
+                        <dl className="divide-y divide-clay/40">
+                          <div className="grid gap-1 px-4 py-2 sm:grid-cols-[16rem_1fr] sm:items-start">
+                            <dt className="font-mono text-[11px] uppercase tracking-[0.08em] text-ink/65">
+                              Offset / Length
+                            </dt>
+                            <dd className="font-mono text-xs text-ink">
+                              {block.offset.toLocaleString()} (
+                              {formatHexOffset(block.offset)}) /{" "}
+                              {formatByteCountWithHuman(
+                                block.endOffset - block.offset,
+                              )}
+                            </dd>
+                          </div>
+                          {block.fields.map((field, fieldIndex) => (
+                            <div
+                              key={`${field.label}-${fieldIndex}`}
+                              className="grid gap-1 px-4 py-2 sm:grid-cols-[16rem_1fr] sm:items-start"
+                            >
+                              <dt className="font-mono text-[11px] uppercase tracking-[0.08em] text-ink/65">
+                                {field.label}
+                              </dt>
+                              <dd className="whitespace-pre-wrap break-words text-sm text-ink">
+                                {field.value}
+                              </dd>
+                            </div>
+                          ))}
+                          {block.warnings.map((warning) => (
+                            <p
+                              key={warning}
+                              className="px-4 py-2 text-xs text-red-700"
+                            >
+                              {warning}
+                            </p>
+                          ))}
+                        </dl>
+                      </article>
+                    ))}
+                  </div>
+                ) : !pngStructure ? (
+                  <div className="grid h-48 place-items-center rounded-xl border border-clay bg-white text-sm text-ink/60">
+                    Structure inspection is available for PNG, JPEG and GIF
+                    files.
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {pngStructure.warnings.length > 0 ? (
+                      <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+                        {pngStructure.warnings.map((warning) => (
+                          <p key={warning}>{warning}</p>
+                        ))}
+                      </div>
+                    ) : null}
+                    {pngStructure.chunks.map((chunk) => (
+                      <article
+                        key={`${chunk.index}-${chunk.offset}`}
+                        className="overflow-hidden rounded-xl border border-clay bg-white"
+                      >
+                        <header className="flex flex-wrap items-center justify-between gap-2 border-b border-clay/80 bg-paper/60 px-4 py-2">
+                          <h3 className="font-mono text-xs uppercase tracking-[0.16em] text-ink/75">
+                            #{chunk.index} {chunk.type}
+                            <span className="ml-2 normal-case tracking-normal text-ink/45">
+                              {chunk.isAncillary ? "ancillary" : "critical"}
+                              {chunk.isPrivate ? ", private" : ""}
+                            </span>
+                          </h3>
+                          <span
+                            className={`rounded-full px-2 py-1 font-mono text-[11px] uppercase tracking-[0.08em] ${
+                              chunk.isCrcValid
+                                ? "bg-accentSoft text-accent"
+                                : "bg-red-100 text-red-700"
+                            }`}
+                          >
+                            {chunk.isCrcValid ? "CRC OK" : "CRC mismatch"}
+                          </span>
+                        </header>
+                        <dl className="divide-y divide-clay/40">
+                          <div className="grid gap-1 px-4 py-2 sm:grid-cols-[16rem_1fr] sm:items-start">
+                            <dt className="font-mono text-[11px] uppercase tracking-[0.08em] text-ink/65">
+                              Offset / Length
+                            </dt>
+                            <dd className="font-mono text-xs text-ink">
+                              {chunk.offset.toLocaleString()} (
+                              {formatHexOffset(chunk.offset)}) /{" "}
+                              {formatByteCountWithHuman(chunk.length)}
+                            </dd>
+                          </div>
+                          <div className="grid gap-1 px-4 py-2 sm:grid-cols-[16rem_1fr] sm:items-start">
+                            <dt className="font-mono text-[11px] uppercase tracking-[0.08em] text-ink/65">
+                              CRC (stored / computed)
+                            </dt>
+                            <dd className="font-mono text-xs text-ink">
+                              {formatHexOffset(chunk.storedCrc)} /{" "}
+                              {formatHexOffset(chunk.computedCrc)}
+                            </dd>
+                          </div>
+                          {chunk.fields.map((field, fieldIndex) => (
+                            <div
+                              key={`${field.label}-${fieldIndex}`}
+                              className="grid gap-1 px-4 py-2 sm:grid-cols-[16rem_1fr] sm:items-start"
+                            >
+                              <dt className="font-mono text-[11px] uppercase tracking-[0.08em] text-ink/65">
+                                {field.label}
+                              </dt>
+                              <dd className="whitespace-pre-wrap break-words text-sm text-ink">
+                                {field.value}
+                              </dd>
+                            </div>
+                          ))}
+                          {chunk.warnings.map((warning) => (
+                            <p
+                              key={warning}
+                              className="px-4 py-2 text-xs text-red-700"
+                            >
+                              {warning}
+                            </p>
+                          ))}
+                        </dl>
+                      </article>
+                    ))}
+                  </div>
+                )}
+              </section>
             ) : (
               <section className="rounded-2xl border border-clay bg-white/95 p-5 shadow-panel">
                 <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
@@ -1519,7 +4926,7 @@ function App() {
                   </div>
                 ) : !decoded.trailingData ? (
                   <div className="grid h-48 place-items-center rounded-xl border border-clay bg-white text-sm text-ink/60">
-                    No trailing data found after the image EOF marker.
+                    No trailing data found after the end of the image container.
                   </div>
                 ) : (
                   <div className="space-y-4">
@@ -1616,11 +5023,29 @@ function App() {
                         <h4 className="text-sm font-semibold text-ink">
                           Payload Carving
                         </h4>
-                        <span className="rounded-full bg-accentSoft px-2 py-1 font-mono text-[11px] uppercase tracking-[0.08em] text-accent">
-                          {trailingPayloadCarving
-                            ? `${trailingPayloadCarving.payloads.length} match${trailingPayloadCarving.payloads.length === 1 ? "" : "es"}`
-                            : "0 matches"}
-                        </span>
+                        <div className="flex items-center gap-2">
+                          <label className="inline-flex items-center gap-2 text-xs text-ink/75">
+                            Nesting depth
+                            <select
+                              value={carvingDepth}
+                              onChange={(event) =>
+                                setCarvingDepth(Number(event.target.value))
+                              }
+                              className="rounded-md border border-clay bg-white px-2 py-1 text-xs text-ink"
+                            >
+                              {CARVING_DEPTH_OPTIONS.map((depth) => (
+                                <option key={depth} value={depth}>
+                                  {depth}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                          <span className="rounded-full bg-accentSoft px-2 py-1 font-mono text-[11px] uppercase tracking-[0.08em] text-accent">
+                            {trailingPayloadCarving
+                              ? `${trailingPayloadCarving.payloads.length} match${trailingPayloadCarving.payloads.length === 1 ? "" : "es"}`
+                              : "0 matches"}
+                          </span>
+                        </div>
                       </div>
 
                       {trailingPayloadCarving &&
@@ -1644,6 +5069,7 @@ function App() {
                         <div className="max-h-60 space-y-2 overflow-auto pr-1">
                           {trailingPayloadCarving.payloads.map((payload) => {
                             const endsAtScanBoundary =
+                              payload.zipEntry === null &&
                               trailingPayloadCarving.isScanTruncated &&
                               payload.endOffset ===
                                 trailingPayloadCarving.scannedBytes;
@@ -1658,6 +5084,9 @@ function App() {
                               <article
                                 key={payload.id}
                                 className="rounded-lg border border-clay bg-white px-3 py-2"
+                                style={{
+                                  marginLeft: `${payload.depth * 1.25}rem`,
+                                }}
                               >
                                 <div className="flex items-start justify-between gap-3">
                                   <div>
@@ -1672,13 +5101,20 @@ function App() {
                                       {payload.endOffset.toLocaleString()} (
                                       {formatHexOffset(payload.endOffset)})
                                     </p>
-                                    <p className="font-mono text-[11px] text-ink/65">
-                                      File offsets:{" "}
-                                      {absoluteStart.toLocaleString()} (
-                                      {formatHexOffset(absoluteStart)}) -{" "}
-                                      {absoluteEnd.toLocaleString()} (
-                                      {formatHexOffset(absoluteEnd)})
-                                    </p>
+                                    {payload.zipEntry ? (
+                                      <p className="text-[11px] text-ink/60">
+                                        In ZIP entry {payload.zipEntry.name};
+                                        offsets are within the extracted entry.
+                                      </p>
+                                    ) : (
+                                      <p className="font-mono text-[11px] text-ink/65">
+                                        File offsets:{" "}
+                                        {absoluteStart.toLocaleString()} (
+                                        {formatHexOffset(absoluteStart)}) -{" "}
+                                        {absoluteEnd.toLocaleString()} (
+                                        {formatHexOffset(absoluteEnd)})
+                                      </p>
+                                    )}
                                     <p className="text-[11px] text-ink/60">
                                       Signature: {payload.signature} | Method:{" "}
                                       {payload.strategy}
@@ -1689,17 +5125,51 @@ function App() {
                                         ? " (may be scan-truncated)"
                                         : ""}
                                     </p>
+                                    {payload.isDepthLimited ? (
+                                      <p className="text-[11px] text-ink/60">
+                                        Contains further payloads below the
+                                        nesting depth limit.
+                                      </p>
+                                    ) : null}
+                                  </div>
+                                  <div className="flex shrink-0 flex-col gap-2">
+                                    <button
+                                      type="button"
+                                      onClick={() =>
+                                        downloadTrailingCarvedPayload(payload)
+                                      }
+                                      className="rounded-lg border border-clay px-3 py-2 text-xs font-medium text-ink transition hover:border-accent hover:text-accent"
+                                    >
+                                      Carve
+                                    </button>
+                                    {OPENABLE_PAYLOAD_KINDS.has(
+                                      payload.kind,
+                                    ) ? (
+                                      <button
+                                        type="button"
+                                        onClick={() =>
+                                          openTrailingCarvedPayload(payload)
+                                        }
+                                        disabled={isLoading}
+                                        className="rounded-lg border border-clay px-3 py-2 text-xs font-medium text-ink transition hover:border-accent hover:text-accent disabled:cursor-not-allowed disabled:opacity-45"
+                                      >
+                                        Open
+                                      </button>
+                                    ) : null}
+                                    {payload.kind === "zip" ? (
+                                      <button
+                                        type="button"
+                                        onClick={() =>
+                                          toggleZipListing("trailing", payload)
+                                        }
+                                        className="rounded-lg border border-clay px-3 py-2 text-xs font-medium text-ink transition hover:border-accent hover:text-accent"
+                                      >
+                                        Entries
+                                      </button>
+                                    ) : null}
                                   </div>
-                                  <button
-                                    type="button"
-                                    onClick={() =>
-                                      downloadTrailingCarvedPayload(payload)
-                                    }
-                                    className="rounded-lg border border-clay px-3 py-2 text-xs font-medium text-ink transition hover:border-accent hover:text-accent"
-                                  >
-                                    Carve
-                                  </button>
                                 </div>
+                                {renderZipListing("trailing", payload)}
                               </article>
                             );
                           })}
@@ -1708,6 +5178,63 @@ function App() {
                     </div>
                   </div>
                 )}
+
+                {decoded ? (
+                  <div className="mt-4 rounded-xl border border-clay bg-paper/35 p-3">
+                    <div className="mb-2 flex items-center justify-between gap-3">
+                      <h4 className="text-sm font-semibold text-ink">
+                        Unaccounted Regions
+                      </h4>
+                      <span className="rounded-full bg-accentSoft px-2 py-1 font-mono text-[11px] uppercase tracking-[0.08em] text-accent">
+                        {unaccountedRegions.length} region
+                        {unaccountedRegions.length === 1 ? "" : "s"}
+                      </span>
+                    </div>
+
+                    {unaccountedRegions.length === 0 ? (
+                      <p className="text-sm text-ink/60">
+                        No bytes found before the signature or between the
+                        structures of the container.
+                      </p>
+                    ) : (
+                      <div className="max-h-60 space-y-2 overflow-auto pr-1">
+                        {unaccountedRegions.map((region) => (
+                          <article
+                            key={`${region.kind}-${region.offset}`}
+                            className="rounded-lg border border-clay bg-white px-3 py-2"
+                          >
+                            <div className="flex items-start justify-between gap-3">
+                              <div>
+                                <p className="text-sm font-medium text-ink">
+                                  {UNACCOUNTED_REGION_LABELS[region.kind]}
+                                </p>
+                                <p className="font-mono text-[11px] text-ink/70">
+                                  {formatBytes(region.byteLength)} | File
+                                  offsets: {region.offset.toLocaleString()} (
+                                  {formatHexOffset(region.offset)}) -{" "}
+                                  {region.endOffset.toLocaleString()} (
+                                  {formatHexOffset(region.endOffset)})
+                                </p>
+                                <p className="text-[11px] text-ink/60">
+                                  {region.description}
+                                </p>
+                              </div>
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  downloadUnaccountedRegion(region)
+                                }
+                                className="rounded-lg border border-clay px-3 py-2 text-xs font-medium text-ink transition hover:border-accent hover:text-accent"
+                              >
+                                Download
+                              </button>
+                            </div>
+                          </article>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ) : null}
               </section>
             )}
           </div>
@@ -0,0 +1,63 @@
+import {
+  runAnalysisTask,
+  type AnalysisTaskRequest,
+  type AnalysisTaskResult,
+  type AnalysisTaskResultMap,
+} from "./utils/analysisTasks";
+import {
+  createAbortError,
+  createWorkerPool,
+  type WorkerPool,
+  type WorkerTaskOptions,
+} from "./utils/workerPool";
+
+const MAX_WORKERS = 4;
+
+let pool: WorkerPool<AnalysisTaskRequest, AnalysisTaskResult> | null = null;
+
+function getPool(): WorkerPool<AnalysisTaskRequest, AnalysisTaskResult> | null {
+  if (typeof Worker === "undefined") {
+    return null;
+  }
+
+  if (!pool) {
+    const cores = navigator.hardwareConcurrency || 2;
+    pool = createWorkerPool<AnalysisTaskRequest, AnalysisTaskResult>(
+      () =>
+        new Worker(new URL("./analysisWorker.ts", import.meta.url), {
+          type: "module",
+        }),
+      Math.max(1, Math.min(MAX_WORKERS, cores - 1)),
+    );
+  }
+  return pool;
+}
+
+// Run extraction/carving off the main thread. Falls back to running inline
+// when workers are unavailable so callers keep a single async code path.
+export function runAnalysis<Kind extends AnalysisTaskRequest["kind"]>(
+  request: Extract<AnalysisTaskRequest, { kind: Kind }>,
+  options: WorkerTaskOptions = {},
+): Promise<AnalysisTaskResultMap[Kind]> {
+  const workerPool = getPool();
+  if (workerPool) {
+    return workerPool.run(request, options) as Promise<
+      AnalysisTaskResultMap[Kind]
+    >;
+  }
+
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    try {
+      resolve(
+        runAnalysisTask(request, options.onProgress)
+          .result as AnalysisTaskResultMap[Kind],
+      );
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
@@ -0,0 +1,36 @@
+import {
+  runAnalysisTask,
+  type AnalysisTaskRequest,
+  type AnalysisTaskResult,
+} from "./utils/analysisTasks";
+import type { WorkerReplyMessage, WorkerTaskMessage } from "./utils/workerPool";
+
+// Progress messages are throttled to whole percent steps.
+self.onmessage = (event: MessageEvent) => {
+  const { id, request } = event.data as WorkerTaskMessage<AnalysisTaskRequest>;
+  let lastPercent = -1;
+
+  const reply = (
+    message: WorkerReplyMessage<AnalysisTaskResult>,
+    transfer: Transferable[] = [],
+  ): void => {
+    self.postMessage(message, { transfer });
+  };
+
+  try {
+    const { result, transfer } = runAnalysisTask(request, (fraction) => {
+      const percent = Math.floor(fraction * 100);
+      if (percent > lastPercent) {
+        lastPercent = percent;
+        reply({ id, type: "progress", progress: fraction });
+      }
+    });
+    reply({ id, type: "result", result }, transfer);
+  } catch (error) {
+    reply({
+      id,
+      type: "error",
+      message: error instanceof Error ? error.message : "Analysis failed.",
+    });
+  }
+};
@@ -1,9 +1,24 @@
 export type ChannelKey = "r" | "g" | "b" | "a";
-export type ExtractionScanOrder = "row-major" | "column-major";
+export type ExtractionScanOrder =
+  | "row-major"
+  | "column-major"
+  | "row-major-reversed"
+  | "column-major-reversed"
+  | "bottom-up"
+  | "serpentine"
+  | "spiral-in"
+  | "hilbert"
+  | "block-8x8";
 export type ExtractionChannelOrder = "rgba" | "bgra" | "argb" | "abgr";
 export type ExtractionBitOrder = "lsb-to-msb" | "msb-to-lsb";
 export type ExtractionBytePackOrder = "msb-first" | "lsb-first";
-export type ExifGroup = "ifd0" | "exif" | "gps" | "interop" | "ifd1";
+export type ExifGroup =
+  | "ifd0"
+  | "exif"
+  | "gps"
+  | "interop"
+  | "ifd1"
+  | "png-text";
 export type SupportedImageFormat =
   | "image/jpeg"
   | "image/png"
@@ -25,7 +40,8 @@ export interface ExifLocation {
 }
 
 export interface ExifMetadata {
-  source: "exifr";
+  // "png-text" when only PNG text chunks were found (exifr returned nothing).
+  source: "exifr" | "png-text";
   entries: ExifEntry[];
   location: ExifLocation | null;
 }
@@ -36,11 +52,51 @@ export interface TrailingData {
   bytes: Uint8Array;
 }
 
+export interface ExtractionRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type KeyedPixelOrderGenerator =
+  | "java-random"
+  | "python-random"
+  | "c-rand-lcg";
+
+// How the seed text reaches the generator: parsed as an integer seed, or
+// passed as a string the way the tool seeds from a password.
+export type KeyedSeedType = "integer" | "string";
+
+export interface KeyedPixelOrder {
+  generator: KeyedPixelOrderGenerator;
+  seed: string;
+  seedType: KeyedSeedType;
+}
+
+export interface PixelTakeSkipPattern {
+  take: number;
+  skip: number;
+}
+
 export interface BitExtractionOptions {
   scanOrder: ExtractionScanOrder;
   channelOrder: ExtractionChannelOrder;
   bitOrder: ExtractionBitOrder;
   bytePackOrder: ExtractionBytePackOrder;
+  // Restricts extraction to a sub-rectangle; null/undefined means the full frame.
+  region?: ExtractionRegion | null;
+  // Pixels (in scan order) skipped before the first extracted pixel.
+  pixelOffset?: number;
+  // Extract every k-th pixel after the offset; defaults to 1.
+  pixelStride?: number;
+  // Repeating "take N, skip M" pattern applied to the strided pixels.
+  pixelPattern?: PixelTakeSkipPattern | null;
+  // Seeded shuffle of the (row-major) pixel list; replaces scanOrder when set.
+  pixelOrderKey?: KeyedPixelOrder | null;
+  // Explicit per-pixel (channel, bit) plane ids such as ["r-1", "r-2", "g-1"];
+  // overrides the selected planes and the channel/bit orders when non-empty.
+  bitSequence?: string[] | null;
 }
 
 export interface ImageFrame {
@@ -58,6 +114,8 @@ export interface DecodedImage {
   frames: ImageFrame[];
   exif: ExifMetadata | null;
   trailingData: TrailingData | null;
+  // Raw file bytes for container-level inspectors; null if unreadable.
+  sourceBytes: Uint8Array | null;
 }
 
 export interface PlaneSpec {
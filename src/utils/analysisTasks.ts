@@ -0,0 +1,228 @@
+import type { BitExtractionOptions, PlaneSpec } from "../types";
+import {
+  runAutoScan,
+  type AutoScanHit,
+  type AutoScanOptions,
+} from "./autoScan";
+import {
+  extractBitPlane,
+  extractBitPlaneStream,
+  extractCombinedBitPlanes,
+  type ExtractedBitPlaneStream,
+  type ProgressCallback,
+} from "./bitPlane";
+import {
+  decodeJpegCoefficients,
+  extractDctCoefficientStream,
+  type DctStreamOptions,
+  type ExtractedDctStream,
+  type JpegCoefficientDecodeResult,
+  type JpegCoefficients,
+} from "./jpegDct";
+import {
+  analyzeJpegSteganalysis,
+  type JpegSteganalysis,
+} from "./jpegSteganalysis";
+import { carveNestedPayloads, type NestedCarvedPayload } from "./nestedCarving";
+import { decodePaletteImage, type PaletteImage } from "./paletteImage";
+import { extractZipEntry, type ZipEntry } from "./zipArchive";
+
+export type AnalysisTaskRequest =
+  | { kind: "bit-plane"; imageData: ImageData; planes: PlaneSpec[] }
+  | {
+      kind: "bit-plane-stream";
+      imageData: ImageData;
+      planes: PlaneSpec[];
+      options: BitExtractionOptions;
+      maxBytes: number;
+    }
+  | {
+      kind: "carve-bit-plane-stream";
+      imageData: ImageData;
+      planes: PlaneSpec[];
+      options: BitExtractionOptions;
+      maxBytes: number;
+      maxDepth?: number;
+    }
+  | {
+      kind: "carve-bytes";
+      bytes: Uint8Array;
+      maxFindings?: number;
+      maxDepth?: number;
+    }
+  | { kind: "jpeg-coefficients"; bytes: Uint8Array }
+  | {
+      kind: "dct-stream";
+      coefficients: JpegCoefficients;
+      options: DctStreamOptions;
+      maxBytes: number;
+    }
+  | {
+      kind: "carve-dct-stream";
+      coefficients: JpegCoefficients;
+      options: DctStreamOptions;
+      maxBytes: number;
+      maxDepth?: number;
+    }
+  | { kind: "jpeg-steganalysis"; coefficients: JpegCoefficients }
+  | { kind: "palette-image"; bytes: Uint8Array; frameIndex: number }
+  | { kind: "extract-zip-entry"; bytes: Uint8Array; entry: ZipEntry }
+  | {
+      kind: "auto-scan";
+      imageData: ImageData;
+      planes: PlaneSpec[];
+      options: AutoScanOptions;
+    };
+
+export interface CarvedBitPlaneStream extends ExtractedBitPlaneStream {
+  payloads: NestedCarvedPayload[];
+}
+
+export interface CarvedDctStream extends ExtractedDctStream {
+  payloads: NestedCarvedPayload[];
+}
+
+export interface AnalysisTaskResultMap {
+  "bit-plane": ImageData;
+  "bit-plane-stream": ExtractedBitPlaneStream;
+  "carve-bit-plane-stream": CarvedBitPlaneStream;
+  "carve-bytes": NestedCarvedPayload[];
+  "jpeg-coefficients": JpegCoefficientDecodeResult;
+  "dct-stream": ExtractedDctStream;
+  "carve-dct-stream": CarvedDctStream;
+  "jpeg-steganalysis": JpegSteganalysis;
+  "palette-image": PaletteImage | null;
+  "extract-zip-entry": Uint8Array;
+  "auto-scan": AutoScanHit[];
+}
+
+export type AnalysisTaskResult =
+  AnalysisTaskResultMap[AnalysisTaskRequest["kind"]];
+
+export interface AnalysisTaskOutput {
+  result: AnalysisTaskResult;
+  // Buffers that can be transferred back instead of copied.
+  transfer: ArrayBuffer[];
+}
+
+// Runs one request synchronously; the worker entry point and the inline
+// fallback (no Worker support) both go through here.
+export function runAnalysisTask(
+  request: AnalysisTaskRequest,
+  onProgress?: ProgressCallback,
+): AnalysisTaskOutput {
+  switch (request.kind) {
+    case "bit-plane": {
+      const result =
+        request.planes.length === 1
+          ? extractBitPlane(request.imageData, request.planes[0], onProgress)
+          : extractCombinedBitPlanes(
+              request.imageData,
+              request.planes,
+              onProgress,
+            );
+      return { result, transfer: [result.data.buffer as ArrayBuffer] };
+    }
+    case "bit-plane-stream": {
+      const result = extractBitPlaneStream(
+        request.imageData,
+        request.planes,
+        request.options,
+        request.maxBytes,
+        onProgress,
+      );
+      return { result, transfer: [result.bytes.buffer as ArrayBuffer] };
+    }
+    case "carve-bit-plane-stream": {
+      // Extraction and signature search split the reported progress evenly.
+      const stream = extractBitPlaneStream(
+        request.imageData,
+        request.planes,
+        request.options,
+        request.maxBytes,
+        onProgress ? (fraction) => onProgress(fraction / 2) : undefined,
+      );
+      const payloads = carveNestedPayloads(stream.bytes, {
+        maxDepth: request.maxDepth,
+        onProgress: onProgress
+          ? (fraction) => onProgress(0.5 + fraction / 2)
+          : undefined,
+      });
+      return {
+        result: { ...stream, payloads },
+        transfer: [stream.bytes.buffer as ArrayBuffer],
+      };
+    }
+    case "carve-bytes":
+      return {
+        result: carveNestedPayloads(request.bytes, {
+          maxFindings: request.maxFindings,
+          maxDepth: request.maxDepth,
+          onProgress,
+        }),
+        transfer: [],
+      };
+    case "jpeg-coefficients": {
+      const result = decodeJpegCoefficients(request.bytes, onProgress);
+      return {
+        result,
+        transfer: result.coefficients.components.map(
+          (component) => component.coefficients.buffer as ArrayBuffer,
+        ),
+      };
+    }
+    case "dct-stream": {
+      const result = extractDctCoefficientStream(
+        request.coefficients,
+        request.options,
+        request.maxBytes,
+        onProgress,
+      );
+      return { result, transfer: [result.bytes.buffer as ArrayBuffer] };
+    }
+    case "carve-dct-stream": {
+      const stream = extractDctCoefficientStream(
+        request.coefficients,
+        request.options,
+        request.maxBytes,
+        onProgress ? (fraction) => onProgress(fraction / 2) : undefined,
+      );
+      const payloads = carveNestedPayloads(stream.bytes, {
+        maxDepth: request.maxDepth,
+        onProgress: onProgress
+          ? (fraction) => onProgress(0.5 + fraction / 2)
+          : undefined,
+      });
+      return {
+        result: { ...stream, payloads },
+        transfer: [stream.bytes.buffer as ArrayBuffer],
+      };
+    }
+    case "jpeg-steganalysis":
+      return {
+        result: analyzeJpegSteganalysis(request.coefficients, onProgress),
+        transfer: [],
+      };
+    case "palette-image": {
+      const result = decodePaletteImage(request.bytes, request.frameIndex);
+      return {
+        result,
+        transfer: result ? [result.indices.buffer as ArrayBuffer] : [],
+      };
+    }
+    case "extract-zip-entry": {
+      const result = extractZipEntry(request.bytes, request.entry);
+      return { result, transfer: [result.buffer as ArrayBuffer] };
+    }
+    case "auto-scan":
+      return {
+        result: runAutoScan(
+          request.imageData,
+          request.planes,
+          request.options,
+          onProgress,
+        ),
+        transfer: [],
+      };
+  }
+}
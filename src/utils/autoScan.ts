@@ -0,0 +1,315 @@
+import type {
+  BitExtractionOptions,
+  ChannelKey,
+  ExtractionBitOrder,
+  ExtractionBytePackOrder,
+  ExtractionChannelOrder,
+  ExtractionScanOrder,
+  PlaneSpec,
+} from "../types";
+import {
+  extractBitPlaneStream,
+  orderSelectedPlanes,
+  type ProgressCallback,
+} from "./bitPlane";
+import {
+  detectCarvedPayloads,
+  type CarvedPayload,
+  type PayloadConfidence,
+} from "./payloadCarving";
+
+export interface AutoScanCandidate {
+  id: string;
+  label: string;
+  planeIds: string[];
+  options: BitExtractionOptions;
+}
+
+export interface AutoScanScore {
+  score: number;
+  printableRatio: number;
+  leadingTextLength: number;
+  entropy: number;
+  payloads: CarvedPayload[];
+  preview: string;
+  reasons: string[];
+}
+
+export interface AutoScanHit extends AutoScanCandidate, AutoScanScore {}
+
+export interface AutoScanOptions {
+  includeAlpha?: boolean;
+  sampleBytes?: number;
+  maxResults?: number;
+  minScore?: number;
+}
+
+const SCAN_ORDERS: ReadonlyArray<ExtractionScanOrder> = [
+  "row-major",
+  "column-major",
+];
+const CHANNEL_ORDERS: ReadonlyArray<ExtractionChannelOrder> = [
+  "rgba",
+  "bgra",
+  "argb",
+  "abgr",
+];
+const BIT_ORDERS: ReadonlyArray<ExtractionBitOrder> = [
+  "lsb-to-msb",
+  "msb-to-lsb",
+];
+const BYTE_PACK_ORDERS: ReadonlyArray<ExtractionBytePackOrder> = [
+  "msb-first",
+  "lsb-first",
+];
+// Low-bit groups (zsteg's b1..b4) followed by isolated higher planes.
+const BIT_SETS: ReadonlyArray<ReadonlyArray<number>> = [
+  [1],
+  [1, 2],
+  [1, 2, 3],
+  [1, 2, 3, 4],
+  [2],
+  [3],
+  [4],
+];
+// zsteg notation where it has one: uppercase axes run in reverse.
+const SCAN_ORDER_LABELS: Record<ExtractionScanOrder, string> = {
+  "row-major": "xy",
+  "column-major": "yx",
+  "row-major-reversed": "XY",
+  "column-major-reversed": "YX",
+  "bottom-up": "xY",
+  serpentine: "serpentine",
+  "spiral-in": "spiral",
+  hilbert: "hilbert",
+  "block-8x8": "8x8",
+};
+const DEFAULT_SAMPLE_BYTES = 2048;
+const DEFAULT_MAX_RESULTS = 50;
+const DEFAULT_MIN_SCORE = 0.2;
+const MIN_LEADING_TEXT_LENGTH = 8;
+const PREVIEW_LENGTH = 64;
+const CONFIDENCE_RANKS: Record<PayloadConfidence, number> = {
+  high: 2,
+  medium: 1,
+  low: 0,
+};
+
+function isPrintableByte(byte: number): boolean {
+  return (
+    (byte >= 0x20 && byte <= 0x7e) ||
+    byte === 0x09 ||
+    byte === 0x0a ||
+    byte === 0x0d
+  );
+}
+
+function shannonEntropy(bytes: Uint8Array): number {
+  if (bytes.length === 0) {
+    return 0;
+  }
+
+  const counts = new Uint32Array(256);
+  for (const byte of bytes) {
+    counts[byte] += 1;
+  }
+
+  let entropy = 0;
+  for (const count of counts) {
+    if (count > 0) {
+      const probability = count / bytes.length;
+      entropy -= probability * Math.log2(probability);
+    }
+  }
+  return entropy;
+}
+
+// First payload of the highest confidence; payloads are sorted by offset.
+function pickMostConfident(payloads: CarvedPayload[]): CarvedPayload {
+  return payloads.reduce((best, payload) =>
+    CONFIDENCE_RANKS[payload.confidence] > CONFIDENCE_RANKS[best.confidence]
+      ? payload
+      : best,
+  );
+}
+
+function buildPreview(bytes: Uint8Array): string {
+  return Array.from(bytes.subarray(0, PREVIEW_LENGTH), (byte) =>
+    byte >= 0x20 && byte <= 0x7e ? String.fromCharCode(byte) : ".",
+  ).join("");
+}
+
+function channelSubsets(includeAlpha: boolean): ChannelKey[][] {
+  const channels: ChannelKey[] = includeAlpha
+    ? ["r", "g", "b", "a"]
+    : ["r", "g", "b"];
+  const subsets: ChannelKey[][] = [];
+  for (let mask = 1; mask < 1 << channels.length; mask += 1) {
+    subsets.push(channels.filter((_, index) => (mask & (1 << index)) !== 0));
+  }
+  return subsets;
+}
+
+// Every combination of channel subset, bit set and ordering, collapsed to the
+// ones that produce distinct bit sequences.
+export function buildAutoScanCandidates(
+  planeSpecs: PlaneSpec[],
+  options: AutoScanOptions = {},
+): AutoScanCandidate[] {
+  const planeLookup = new Map(planeSpecs.map((plane) => [plane.id, plane]));
+  const candidates: AutoScanCandidate[] = [];
+  const seen = new Set<string>();
+
+  for (const channels of channelSubsets(options.includeAlpha ?? false)) {
+    for (const bits of BIT_SETS) {
+      const planes = channels.flatMap((channel) =>
+        bits
+          .map((bit) => planeLookup.get(`${channel}-${bit}`))
+          .filter((plane): plane is PlaneSpec => plane !== undefined),
+      );
+      if (planes.length === 0) {
+        continue;
+      }
+
+      for (const scanOrder of SCAN_ORDERS) {
+        for (const channelOrder of CHANNEL_ORDERS) {
+          for (const bitOrder of BIT_ORDERS) {
+            for (const bytePackOrder of BYTE_PACK_ORDERS) {
+              const extractionOptions: BitExtractionOptions = {
+                scanOrder,
+                channelOrder,
+                bitOrder,
+                bytePackOrder,
+              };
+              const ordered = orderSelectedPlanes(planes, extractionOptions);
+              const key = `${ordered.map((plane) => plane.id).join(",")}|${scanOrder}|${bytePackOrder}`;
+              if (seen.has(key)) {
+                continue;
+              }
+              seen.add(key);
+
+              const channelLabel = Array.from(
+                new Set(ordered.map((plane) => plane.channel)),
+              ).join("");
+              const bitLabel =
+                bits.length === 1 ? `b${bits[0]}` : `b1-${bits.length}`;
+              candidates.push({
+                id: key,
+                label: `${bitLabel},${channelLabel},${bitOrder === "lsb-to-msb" ? "lsb" : "msb"},${SCAN_ORDER_LABELS[scanOrder]},${bytePackOrder === "msb-first" ? "be" : "le"}`,
+                planeIds: planes.map((plane) => plane.id),
+                options: extractionOptions,
+              });
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return candidates;
+}
+
+// Rank a sample of extracted bytes: leading printable text (as zsteg reports),
+// known file signatures and structured-but-not-constant byte distributions.
+export function scoreExtractedBytes(bytes: Uint8Array): AutoScanScore {
+  const reasons: string[] = [];
+  let printable = 0;
+  let leadingTextLength = 0;
+  let isLeadingText = true;
+  let constantBytes = 0;
+
+  for (const byte of bytes) {
+    const isPrintable = isPrintableByte(byte);
+    if (isPrintable) {
+      printable += 1;
+    }
+    if (isLeadingText && isPrintable) {
+      leadingTextLength += 1;
+    } else {
+      isLeadingText = false;
+    }
+    if (byte === 0x00 || byte === 0xff) {
+      constantBytes += 1;
+    }
+  }
+
+  const printableRatio = bytes.length > 0 ? printable / bytes.length : 0;
+  const entropy = shannonEntropy(bytes);
+  const payloads = detectCarvedPayloads(bytes, { maxFindings: 8 }).filter(
+    (payload) => payload.confidence !== "low",
+  );
+  let score = 0;
+
+  const leadingPayloads = payloads.filter(
+    (payload) => payload.startOffset === 0,
+  );
+  if (leadingPayloads.length > 0) {
+    score += 1;
+    reasons.push(`${pickMostConfident(leadingPayloads).label} at offset 0`);
+  } else if (payloads.length > 0) {
+    const payload = pickMostConfident(payloads);
+    score += 0.4;
+    reasons.push(`${payload.label} at offset ${payload.startOffset}`);
+  }
+
+  if (leadingTextLength >= MIN_LEADING_TEXT_LENGTH) {
+    score += 0.3 + 0.5 * Math.min(1, leadingTextLength / PREVIEW_LENGTH);
+    reasons.push(`${leadingTextLength} leading text bytes`);
+  } else if (printableRatio >= 0.9) {
+    score += 0.4;
+    reasons.push(`${Math.round(printableRatio * 100)}% printable`);
+  }
+
+  const constantRatio = bytes.length > 0 ? constantBytes / bytes.length : 1;
+  if (entropy >= 2 && entropy <= 6.5 && constantRatio < 0.5) {
+    score += 0.15;
+    reasons.push(`structured data (${entropy.toFixed(2)} bits/byte)`);
+  }
+
+  return {
+    score,
+    printableRatio,
+    leadingTextLength,
+    entropy,
+    payloads,
+    preview: buildPreview(bytes),
+    reasons,
+  };
+}
+
+export function runAutoScan(
+  imageData: ImageData,
+  planeSpecs: PlaneSpec[],
+  options: AutoScanOptions = {},
+  onProgress?: ProgressCallback,
+): AutoScanHit[] {
+  const sampleBytes = Math.max(1, options.sampleBytes ?? DEFAULT_SAMPLE_BYTES);
+  const maxResults = Math.max(0, options.maxResults ?? DEFAULT_MAX_RESULTS);
+  const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+  const planeLookup = new Map(planeSpecs.map((plane) => [plane.id, plane]));
+  const hits: AutoScanHit[] = [];
+  const candidates = buildAutoScanCandidates(planeSpecs, options);
+
+  onProgress?.(0);
+  for (let index = 0; index < candidates.length; index += 1) {
+    const candidate = candidates[index];
+    const planes = candidate.planeIds
+      .map((id) => planeLookup.get(id))
+      .filter((plane): plane is PlaneSpec => plane !== undefined);
+    const extracted = extractBitPlaneStream(
+      imageData,
+      planes,
+      candidate.options,
+      sampleBytes,
+    );
+    const scored = scoreExtractedBytes(extracted.bytes);
+    if (scored.score >= minScore) {
+      hits.push({ ...candidate, ...scored });
+    }
+    onProgress?.((index + 1) / candidates.length);
+  }
+
+  return hits
+    .sort((a, b) => b.score - a.score || a.entropy - b.entropy)
+    .slice(0, maxResults);
+}
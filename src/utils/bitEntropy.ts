@@ -0,0 +1,169 @@
+import type { PlaneSpec } from "../types";
+
+export type BitEntropyMetric = "entropy" | "ones-ratio";
+
+export interface BitEntropyMap {
+  blockSize: number;
+  columns: number;
+  rows: number;
+  width: number;
+  height: number;
+  entropy: Float32Array;
+  onesRatio: Float32Array;
+}
+
+export interface BitEntropyCell {
+  column: number;
+  row: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  entropy: number;
+  onesRatio: number;
+}
+
+const HEATMAP_STOPS: ReadonlyArray<[number, number, number, number]> = [
+  [0, 49, 54, 149],
+  [0.25, 69, 117, 180],
+  [0.5, 254, 224, 144],
+  [0.75, 244, 109, 67],
+  [1, 165, 0, 38],
+];
+
+function binaryEntropy(ones: number, total: number): number {
+  if (total === 0 || ones === 0 || ones === total) {
+    return 0;
+  }
+  const p = ones / total;
+  return -(p * Math.log2(p) + (1 - p) * Math.log2(1 - p));
+}
+
+// Per block, entropy is the mean binary Shannon entropy of each selected plane
+// (1 = indistinguishable from random bits) and onesRatio is the share of set
+// bits across all selected planes.
+export function computeBitEntropyMap(
+  imageData: ImageData,
+  planes: PlaneSpec[],
+  blockSize: number,
+): BitEntropyMap {
+  const { width, height, data } = imageData;
+  const size = Math.max(1, Math.floor(blockSize));
+  const columns = Math.ceil(width / size);
+  const rows = Math.ceil(height / size);
+  const entropy = new Float32Array(columns * rows);
+  const onesRatio = new Float32Array(columns * rows);
+
+  if (planes.length === 0) {
+    return {
+      blockSize: size,
+      columns,
+      rows,
+      width,
+      height,
+      entropy,
+      onesRatio,
+    };
+  }
+
+  const onesPerPlane = new Uint32Array(planes.length);
+
+  for (let row = 0; row < rows; row += 1) {
+    const yStart = row * size;
+    const yEnd = Math.min(height, yStart + size);
+
+    for (let column = 0; column < columns; column += 1) {
+      const xStart = column * size;
+      const xEnd = Math.min(width, xStart + size);
+      const pixelCount = (xEnd - xStart) * (yEnd - yStart);
+      onesPerPlane.fill(0);
+
+      for (let y = yStart; y < yEnd; y += 1) {
+        for (let x = xStart; x < xEnd; x += 1) {
+          const index = (y * width + x) * 4;
+          for (let plane = 0; plane < planes.length; plane += 1) {
+            if (
+              (data[index + planes[plane].channelOffset] &
+                planes[plane].bitMask) !==
+              0
+            ) {
+              onesPerPlane[plane] += 1;
+            }
+          }
+        }
+      }
+
+      let entropySum = 0;
+      let onesSum = 0;
+      for (let plane = 0; plane < planes.length; plane += 1) {
+        entropySum += binaryEntropy(onesPerPlane[plane], pixelCount);
+        onesSum += onesPerPlane[plane];
+      }
+
+      const cellIndex = row * columns + column;
+      entropy[cellIndex] = entropySum / planes.length;
+      onesRatio[cellIndex] = onesSum / (pixelCount * planes.length);
+    }
+  }
+
+  return { blockSize: size, columns, rows, width, height, entropy, onesRatio };
+}
+
+export function getBitEntropyCellAt(
+  map: BitEntropyMap,
+  x: number,
+  y: number,
+): BitEntropyCell | null {
+  if (x < 0 || y < 0 || x >= map.width || y >= map.height) {
+    return null;
+  }
+
+  const column = Math.floor(x / map.blockSize);
+  const row = Math.floor(y / map.blockSize);
+  const cellIndex = row * map.columns + column;
+  const cellX = column * map.blockSize;
+  const cellY = row * map.blockSize;
+
+  return {
+    column,
+    row,
+    x: cellX,
+    y: cellY,
+    width: Math.min(map.blockSize, map.width - cellX),
+    height: Math.min(map.blockSize, map.height - cellY),
+    entropy: map.entropy[cellIndex],
+    onesRatio: map.onesRatio[cellIndex],
+  };
+}
+
+// Diverging blue -> yellow -> red scale for values in [0, 1].
+export function heatmapColor(value: number): [number, number, number] {
+  const clamped = Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0;
+
+  for (let index = 1; index < HEATMAP_STOPS.length; index += 1) {
+    const [stop, red, green, blue] = HEATMAP_STOPS[index];
+    if (clamped > stop) {
+      continue;
+    }
+
+    const [previousStop, previousRed, previousGreen, previousBlue] =
+      HEATMAP_STOPS[index - 1];
+    const t = (clamped - previousStop) / (stop - previousStop);
+    return [
+      Math.round(previousRed + (red - previousRed) * t),
+      Math.round(previousGreen + (green - previousGreen) * t),
+      Math.round(previousBlue + (blue - previousBlue) * t),
+    ];
+  }
+
+  const [, red, green, blue] = HEATMAP_STOPS[HEATMAP_STOPS.length - 1];
+  return [red, green, blue];
+}
+
+export function buildHeatmapLegendGradient(): string {
+  const stops = HEATMAP_STOPS.map(
+    ([stop, red, green, blue]) =>
+      `rgb(${red}, ${green}, ${blue}) ${Math.round(stop * 100)}%`,
+  );
+  return `linear-gradient(to right, ${stops.join(", ")})`;
+}
@@ -1,4 +1,18 @@
-import type { BitExtractionOptions, ChannelKey, PlaneSpec } from "../types";
+import type {
+  BitExtractionOptions,
+  ChannelKey,
+  ExtractionRegion,
+  ExtractionScanOrder,
+  PlaneSpec,
+} from "../types";
+import { buildKeyedPixelOrder } from "./keyedPixelOrder";
+
+export interface PixelSelection {
+  offset: number;
+  stride: number;
+  take: number;
+  skip: number;
+}
 
 const CHANNELS: ReadonlyArray<{
   key: ChannelKey;
@@ -29,6 +43,10 @@ const BIT_ORDER_MAP: Record<
   "msb-to-lsb": [8, 7, 6, 5, 4, 3, 2, 1],
 };
 
+export function getChannelOffset(channel: ChannelKey): number {
+  return CHANNELS.find((entry) => entry.key === channel)?.offset ?? 0;
+}
+
 export function buildPlaneSpecs(): PlaneSpec[] {
   const planes: PlaneSpec[] = [];
 
@@ -50,14 +68,23 @@ export function buildPlaneSpecs(): PlaneSpec[] {
   return planes;
 }
 
+// Pixels processed between progress callbacks.
+const PROGRESS_INTERVAL_PIXELS = 0x10000;
+
+export type ProgressCallback = (fraction: number) => void;
+
 export function extractBitPlane(
   imageData: ImageData,
   plane: PlaneSpec,
+  onProgress?: ProgressCallback,
 ): ImageData {
   const source = imageData.data;
   const output = new Uint8ClampedArray(source.length);
 
   for (let index = 0; index < source.length; index += 4) {
+    if (onProgress && (index >> 2) % PROGRESS_INTERVAL_PIXELS === 0) {
+      onProgress(index / source.length);
+    }
     const planeBitIsSet =
       (source[index + plane.channelOffset] & plane.bitMask) !== 0;
     const value = planeBitIsSet ? 255 : 0;
@@ -87,6 +114,7 @@ function isAnyPlaneBitSet(
 export function extractCombinedBitPlanes(
   imageData: ImageData,
   planes: PlaneSpec[],
+  onProgress?: ProgressCallback,
 ): ImageData {
   const source = imageData.data;
   const output = new Uint8ClampedArray(source.length);
@@ -99,6 +127,9 @@ export function extractCombinedBitPlanes(
   }
 
   for (let index = 0; index < source.length; index += 4) {
+    if (onProgress && (index >> 2) % PROGRESS_INTERVAL_PIXELS === 0) {
+      onProgress(index / source.length);
+    }
     const combinedBitIsSet = isAnyPlaneBitSet(source, index, planes);
     const value = combinedBitIsSet ? 255 : 0;
     output[index] = value;
@@ -110,11 +141,352 @@ export function extractCombinedBitPlanes(
   return new ImageData(output, imageData.width, imageData.height);
 }
 
+const SCAN_BLOCK_SIZE = 8;
+
+// Generalized Hilbert curve ("gilbert") over any rectangle: walks the region
+// from (x, y) along the major axis (ax, ay) and the minor axis (bx, by),
+// splitting it like a Hilbert curve so each point is visited once. Returns
+// true when the visitor stopped the walk.
+function visitHilbertRegion(
+  x: number,
+  y: number,
+  ax: number,
+  ay: number,
+  bx: number,
+  by: number,
+  visitPoint: (x: number, y: number) => boolean,
+): boolean {
+  const majorLength = Math.abs(ax + ay);
+  const minorLength = Math.abs(bx + by);
+  const dax = Math.sign(ax);
+  const day = Math.sign(ay);
+  const dbx = Math.sign(bx);
+  const dby = Math.sign(by);
+
+  if (minorLength === 1 || majorLength === 1) {
+    // A single row or column is walked straight.
+    const [stepX, stepY, length] =
+      minorLength === 1 ? [dax, day, majorLength] : [dbx, dby, minorLength];
+    for (let step = 0; step < length; step += 1) {
+      if (visitPoint(x + stepX * step, y + stepY * step)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  let ax2 = Math.floor(ax / 2);
+  let ay2 = Math.floor(ay / 2);
+  let bx2 = Math.floor(bx / 2);
+  let by2 = Math.floor(by / 2);
+
+  if (2 * majorLength > 3 * minorLength) {
+    // Long regions are split in two along the major axis; odd halves are
+    // avoided so the two parts join up.
+    if (Math.abs(ax2 + ay2) % 2 === 1 && majorLength > 2) {
+      ax2 += dax;
+      ay2 += day;
+    }
+    return (
+      visitHilbertRegion(x, y, ax2, ay2, bx, by, visitPoint) ||
+      visitHilbertRegion(
+        x + ax2,
+        y + ay2,
+        ax - ax2,
+        ay - ay2,
+        bx,
+        by,
+        visitPoint,
+      )
+    );
+  }
+
+  if (Math.abs(bx2 + by2) % 2 === 1 && minorLength > 2) {
+    bx2 += dbx;
+    by2 += dby;
+  }
+  // Up the near half, across the full width, then back down the far half.
+  return (
+    visitHilbertRegion(x, y, bx2, by2, ax2, ay2, visitPoint) ||
+    visitHilbertRegion(
+      x + bx2,
+      y + by2,
+      ax,
+      ay,
+      bx - bx2,
+      by - by2,
+      visitPoint,
+    ) ||
+    visitHilbertRegion(
+      x + (ax - dax) + (bx2 - dbx),
+      y + (ay - day) + (by2 - dby),
+      -bx2,
+      -by2,
+      -(ax - ax2),
+      -(ay - ay2),
+      visitPoint,
+    )
+  );
+}
+
+function visitSpiralIn(
+  width: number,
+  height: number,
+  visit: (pixelIndex: number) => boolean | void,
+): void {
+  let top = 0;
+  let bottom = height - 1;
+  let left = 0;
+  let right = width - 1;
+
+  while (top <= bottom && left <= right) {
+    for (let x = left; x <= right; x += 1) {
+      if (visit(top * width + x) === true) {
+        return;
+      }
+    }
+    for (let y = top + 1; y <= bottom; y += 1) {
+      if (visit(y * width + right) === true) {
+        return;
+      }
+    }
+    if (top < bottom) {
+      for (let x = right - 1; x >= left; x -= 1) {
+        if (visit(bottom * width + x) === true) {
+          return;
+        }
+      }
+    }
+    if (left < right) {
+      for (let y = bottom - 1; y > top; y -= 1) {
+        if (visit(y * width + left) === true) {
+          return;
+        }
+      }
+    }
+
+    top += 1;
+    bottom -= 1;
+    left += 1;
+    right -= 1;
+  }
+}
+
+// Visit pixel indices (y * width + x) in scan order; return true to stop early.
+export function visitPixelsInScanOrder(
+  width: number,
+  height: number,
+  scanOrder: ExtractionScanOrder,
+  visit: (pixelIndex: number) => boolean | void,
+): void {
+  switch (scanOrder) {
+    case "row-major":
+      for (let y = 0; y < height; y += 1) {
+        for (let x = 0; x < width; x += 1) {
+          if (visit(y * width + x) === true) {
+            return;
+          }
+        }
+      }
+      return;
+    case "column-major":
+      for (let x = 0; x < width; x += 1) {
+        for (let y = 0; y < height; y += 1) {
+          if (visit(y * width + x) === true) {
+            return;
+          }
+        }
+      }
+      return;
+    case "row-major-reversed":
+      for (let index = width * height - 1; index >= 0; index -= 1) {
+        if (visit(index) === true) {
+          return;
+        }
+      }
+      return;
+    case "column-major-reversed":
+      for (let x = width - 1; x >= 0; x -= 1) {
+        for (let y = height - 1; y >= 0; y -= 1) {
+          if (visit(y * width + x) === true) {
+            return;
+          }
+        }
+      }
+      return;
+    case "bottom-up":
+      for (let y = height - 1; y >= 0; y -= 1) {
+        for (let x = 0; x < width; x += 1) {
+          if (visit(y * width + x) === true) {
+            return;
+          }
+        }
+      }
+      return;
+    case "serpentine":
+      for (let y = 0; y < height; y += 1) {
+        for (let step = 0; step < width; step += 1) {
+          const x = y % 2 === 0 ? step : width - 1 - step;
+          if (visit(y * width + x) === true) {
+            return;
+          }
+        }
+      }
+      return;
+    case "spiral-in":
+      visitSpiralIn(width, height, visit);
+      return;
+    case "hilbert": {
+      if (width === 0 || height === 0) {
+        return;
+      }
+      const visitPoint = (x: number, y: number) =>
+        visit(y * width + x) === true;
+      // The curve runs along the longer side so no covering square is walked.
+      if (width >= height) {
+        visitHilbertRegion(0, 0, width, 0, 0, height, visitPoint);
+      } else {
+        visitHilbertRegion(0, 0, 0, height, width, 0, visitPoint);
+      }
+      return;
+    }
+    case "block-8x8":
+      for (let blockY = 0; blockY < height; blockY += SCAN_BLOCK_SIZE) {
+        for (let blockX = 0; blockX < width; blockX += SCAN_BLOCK_SIZE) {
+          const yEnd = Math.min(height, blockY + SCAN_BLOCK_SIZE);
+          const xEnd = Math.min(width, blockX + SCAN_BLOCK_SIZE);
+          for (let y = blockY; y < yEnd; y += 1) {
+            for (let x = blockX; x < xEnd; x += 1) {
+              if (visit(y * width + x) === true) {
+                return;
+              }
+            }
+          }
+        }
+      }
+      return;
+  }
+}
+
+// Clamp a region to the image bounds; a missing region covers the whole image.
+export function resolveExtractionRegion(
+  region: ExtractionRegion | null | undefined,
+  width: number,
+  height: number,
+): ExtractionRegion {
+  if (!region) {
+    return { x: 0, y: 0, width, height };
+  }
+
+  // Clip both edges so the part of a region left of or above the image is
+  // dropped rather than shifted inside it.
+  const left = Math.floor(region.x);
+  const top = Math.floor(region.y);
+  const x = Math.min(width, Math.max(0, left));
+  const y = Math.min(height, Math.max(0, top));
+  const right = Math.min(width, left + Math.max(0, Math.floor(region.width)));
+  const bottom = Math.min(height, top + Math.max(0, Math.floor(region.height)));
+  return {
+    x,
+    y,
+    width: Math.max(0, right - x),
+    height: Math.max(0, bottom - y),
+  };
+}
+
+// Normalize offset/stride/take-skip options; skip 0 disables the pattern.
+export function resolvePixelSelection(
+  options: BitExtractionOptions,
+): PixelSelection {
+  const pattern = options.pixelPattern;
+  const take = Math.floor(pattern?.take ?? 0);
+  const skip = Math.floor(pattern?.skip ?? 0);
+  const hasPattern = take > 0 && skip > 0;
+
+  return {
+    offset: Math.max(0, Math.floor(options.pixelOffset ?? 0)),
+    stride: Math.max(1, Math.floor(options.pixelStride ?? 1)),
+    take: hasPattern ? take : 1,
+    skip: hasPattern ? skip : 0,
+  };
+}
+
+// Number of pixels out of `pixelCount` (in scan order) that the selection keeps.
+export function countSelectedPixels(
+  pixelCount: number,
+  selection: PixelSelection,
+): number {
+  const afterOffset = Math.max(0, pixelCount - selection.offset);
+  const strided = Math.ceil(afterOffset / selection.stride);
+  const period = selection.take + selection.skip;
+  return (
+    Math.floor(strided / period) * selection.take +
+    Math.min(selection.take, strided % period)
+  );
+}
+
+function isPixelSelected(
+  scanIndex: number,
+  selection: PixelSelection,
+): boolean {
+  const relative = scanIndex - selection.offset;
+  if (relative < 0 || relative % selection.stride !== 0) {
+    return false;
+  }
+
+  return (
+    (relative / selection.stride) % (selection.take + selection.skip) <
+    selection.take
+  );
+}
+
+const BIT_SEQUENCE_TOKEN = /^([rgba])([1-8])$/i;
+
+export interface ParsedBitSequence {
+  planeIds: string[];
+  error: string | null;
+}
+
+// Parse "R1,R2,G1" (commas or whitespace) into plane ids, in order.
+export function parseBitSequence(text: string): ParsedBitSequence {
+  const tokens = text.split(/[\s,]+/).filter((token) => token.length > 0);
+  const planeIds: string[] = [];
+
+  for (const token of tokens) {
+    const match = BIT_SEQUENCE_TOKEN.exec(token);
+    if (!match) {
+      return {
+        planeIds: [],
+        error: `Invalid entry "${token}": use a channel letter (R, G, B, A) followed by a bit 1-8.`,
+      };
+    }
+    planeIds.push(`${match[1].toLowerCase()}-${match[2]}`);
+  }
+
+  return { planeIds, error: null };
+}
+
+export function formatBitSequence(planes: PlaneSpec[]): string {
+  return planes
+    .map((plane) => `${plane.channel.toUpperCase()}${plane.bitPosition}`)
+    .join(",");
+}
+
+const PLANE_LOOKUP = new Map(
+  buildPlaneSpecs().map((plane) => [plane.id, plane]),
+);
+
 // Extract selected planes as an ordered bitstream, then repack into bytes.
-function orderSelectedPlanes(
+export function orderSelectedPlanes(
   planes: PlaneSpec[],
   options: BitExtractionOptions,
 ): PlaneSpec[] {
+  if (options.bitSequence && options.bitSequence.length > 0) {
+    return options.bitSequence
+      .map((id) => PLANE_LOOKUP.get(id))
+      .filter((plane): plane is PlaneSpec => plane !== undefined);
+  }
+
   const selectedPlaneLookup = new Map<string, PlaneSpec>();
   for (const plane of planes) {
     selectedPlaneLookup.set(plane.id, plane);
@@ -147,10 +519,18 @@ export function extractBitPlaneStream(
   planes: PlaneSpec[],
   options: BitExtractionOptions,
   maxBytes: number,
+  onProgress?: ProgressCallback,
 ): ExtractedBitPlaneStream {
   const orderedPlanes = orderSelectedPlanes(planes, options);
   const bitsPerPixel = orderedPlanes.length;
-  const totalBits = imageData.width * imageData.height * bitsPerPixel;
+  const region = resolveExtractionRegion(
+    options.region,
+    imageData.width,
+    imageData.height,
+  );
+  const selection = resolvePixelSelection(options);
+  const totalBits =
+    countSelectedPixels(region.width * region.height, selection) * bitsPerPixel;
   const totalBytes = Math.ceil(totalBits / 8);
   const clampedMaxBytes = Math.max(0, maxBytes);
   const bytesToPack = Math.min(totalBytes, clampedMaxBytes);
@@ -187,24 +567,39 @@ export function extractBitPlaneStream(
     return emittedBits >= bitsToPack;
   };
 
-  if (options.scanOrder === "row-major") {
-    for (let y = 0; y < imageData.height; y += 1) {
-      for (let x = 0; x < imageData.width; x += 1) {
-        const pixelStartIndex = (y * imageData.width + x) * 4;
-        if (processPixel(pixelStartIndex)) {
-          return { bytes, totalBits, totalBytes, bitsPerPixel };
-        }
-      }
+  let scanIndex = 0;
+  const visitRegionPixel = (regionPixelIndex: number): boolean => {
+    if (onProgress && scanIndex % PROGRESS_INTERVAL_PIXELS === 0) {
+      onProgress(emittedBits / bitsToPack);
     }
-  } else {
-    for (let x = 0; x < imageData.width; x += 1) {
-      for (let y = 0; y < imageData.height; y += 1) {
-        const pixelStartIndex = (y * imageData.width + x) * 4;
-        if (processPixel(pixelStartIndex)) {
-          return { bytes, totalBits, totalBytes, bitsPerPixel };
-        }
+    const isSelected = isPixelSelected(scanIndex, selection);
+    scanIndex += 1;
+    if (!isSelected) {
+      return false;
+    }
+
+    const x = region.x + (regionPixelIndex % region.width);
+    const y = region.y + Math.floor(regionPixelIndex / region.width);
+    return processPixel((y * imageData.width + x) * 4);
+  };
+
+  if (options.pixelOrderKey) {
+    const keyedOrder = buildKeyedPixelOrder(
+      region.width * region.height,
+      options.pixelOrderKey,
+    );
+    for (const regionPixelIndex of keyedOrder) {
+      if (visitRegionPixel(regionPixelIndex)) {
+        break;
       }
     }
+  } else {
+    visitPixelsInScanOrder(
+      region.width,
+      region.height,
+      options.scanOrder,
+      visitRegionPixel,
+    );
   }
 
   return { bytes, totalBits, totalBytes, bitsPerPixel };
@@ -0,0 +1,121 @@
+import { readUint16LE, readUint32LE } from "./byteFields";
+
+// Maps the byte ranges a BMP references: file header, DIB header, color masks,
+// color table, pixel array and a V5 color profile.
+
+const BMP_FILE_HEADER_LENGTH = 14;
+const BMP_CORE_HEADER_LENGTH = 12;
+const BMP_INFO_HEADER_LENGTH = 40;
+const BMP_V5_HEADER_LENGTH = 124;
+// BI_RGB, BI_BITFIELDS and BI_ALPHABITFIELDS store uncompressed rows.
+const BMP_UNCOMPRESSED_METHODS = new Set([0, 3, 6]);
+// Masks stored after a plain BITMAPINFOHEADER, by compression method.
+const BMP_MASK_LENGTHS: Record<number, number> = { 3: 12, 6: 16 };
+
+export interface BmpRegion {
+  offset: number;
+  endOffset: number;
+  label: string;
+}
+
+export interface BmpLayout {
+  regions: BmpRegion[];
+  // bfSize from the file header; often zero or stale.
+  declaredSize: number;
+  // Furthest of the referenced ranges and a declared size that fits the buffer.
+  endOffset: number;
+  // Set when a referenced range runs past the end of the buffer.
+  isTruncated: boolean;
+}
+
+export function walkBmpLayout(bytes: Uint8Array): BmpLayout | null {
+  if (
+    bytes.length < BMP_FILE_HEADER_LENGTH + BMP_CORE_HEADER_LENGTH ||
+    bytes[0] !== 0x42 ||
+    bytes[1] !== 0x4d
+  ) {
+    return null;
+  }
+
+  const declaredSize = readUint32LE(bytes, 2);
+  const pixelOffset = readUint32LE(bytes, 10);
+  const headerLength = readUint32LE(bytes, 14);
+  const isCoreHeader = headerLength === BMP_CORE_HEADER_LENGTH;
+  if (
+    !isCoreHeader &&
+    (headerLength < BMP_INFO_HEADER_LENGTH ||
+      bytes.length < BMP_FILE_HEADER_LENGTH + BMP_INFO_HEADER_LENGTH)
+  ) {
+    return null;
+  }
+
+  const regions: BmpRegion[] = [];
+  let isTruncated = false;
+  const push = (offset: number, length: number, label: string) => {
+    if (offset + length > bytes.length) {
+      isTruncated = true;
+      return;
+    }
+    regions.push({ offset, endOffset: offset + length, label });
+  };
+  push(0, BMP_FILE_HEADER_LENGTH, "File header");
+  push(BMP_FILE_HEADER_LENGTH, headerLength, "DIB header");
+
+  let tableOffset = BMP_FILE_HEADER_LENGTH + headerLength;
+  let width: number;
+  let height: number;
+  let bitsPerPixel: number;
+  let colorsUsed = 0;
+  let pixelDataLength: number | null = null;
+  if (isCoreHeader) {
+    width = readUint16LE(bytes, 18);
+    height = readUint16LE(bytes, 20);
+    bitsPerPixel = readUint16LE(bytes, 24);
+  } else {
+    width = Math.abs(readUint32LE(bytes, 18) | 0);
+    height = Math.abs(readUint32LE(bytes, 22) | 0);
+    bitsPerPixel = readUint16LE(bytes, 28);
+    const compression = readUint32LE(bytes, 30);
+    colorsUsed = readUint32LE(bytes, 46);
+    if (!BMP_UNCOMPRESSED_METHODS.has(compression)) {
+      pixelDataLength = readUint32LE(bytes, 34);
+    }
+    const maskLength = BMP_MASK_LENGTHS[compression];
+    if (headerLength === BMP_INFO_HEADER_LENGTH && maskLength) {
+      push(tableOffset, maskLength, "Color masks");
+      tableOffset += maskLength;
+    }
+  }
+
+  const colorCount =
+    colorsUsed > 0 ? colorsUsed : bitsPerPixel <= 8 ? 1 << bitsPerPixel : 0;
+  if (colorCount > 0) {
+    push(tableOffset, colorCount * (isCoreHeader ? 3 : 4), "Color table");
+  }
+
+  push(
+    pixelOffset,
+    pixelDataLength ?? Math.ceil((width * bitsPerPixel) / 32) * 4 * height,
+    "Pixel data",
+  );
+  if (headerLength >= BMP_V5_HEADER_LENGTH && bytes.length >= 14 + 120) {
+    const profileLength = readUint32LE(bytes, 14 + 116);
+    if (profileLength > 0) {
+      push(
+        BMP_FILE_HEADER_LENGTH + readUint32LE(bytes, 14 + 112),
+        profileLength,
+        "Color profile",
+      );
+    }
+  }
+
+  return {
+    regions,
+    declaredSize,
+    endOffset: regions.reduce(
+      (end, region) => Math.max(end, region.endOffset),
+      declaredSize <= bytes.length ? declaredSize : 0,
+    ),
+    isTruncated,
+  };
+}
@@ -0,0 +1,69 @@
+// Shared helpers for the container structure inspectors (PNG, JPEG, ...).
+
+const MAX_FIELD_TEXT_LENGTH = 2_000;
+const HEX_PREVIEW_BYTES = 32;
+
+export interface StructureField {
+  label: string;
+  value: string;
+}
+
+export function readUint16BE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+export function readUint16LE(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8);
+}
+
+export function readUint32BE(bytes: Uint8Array, offset: number): number {
+  return (
+    ((bytes[offset] << 24) |
+      (bytes[offset + 1] << 16) |
+      (bytes[offset + 2] << 8) |
+      bytes[offset + 3]) >>>
+    0
+  );
+}
+
+export function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return (
+    (bytes[offset] |
+      (bytes[offset + 1] << 8) |
+      (bytes[offset + 2] << 16) |
+      (bytes[offset + 3] << 24)) >>>
+    0
+  );
+}
+
+export function decodeLatin1(bytes: Uint8Array): string {
+  let text = "";
+  for (let index = 0; index < bytes.length; index += 0x2000) {
+    text += String.fromCharCode(...bytes.subarray(index, index + 0x2000));
+  }
+  return text;
+}
+
+export function clipText(text: string): string {
+  return text.length > MAX_FIELD_TEXT_LENGTH
+    ? `${text.slice(0, MAX_FIELD_TEXT_LENGTH)}… (${text.length.toLocaleString()} characters)`
+    : text;
+}
+
+export function formatHexPreview(bytes: Uint8Array): string {
+  const preview = Array.from(bytes.subarray(0, HEX_PREVIEW_BYTES), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join(" ");
+  return bytes.length > HEX_PREVIEW_BYTES ? `${preview} …` : preview;
+}
+
+export function readNullTerminated(
+  data: Uint8Array,
+  start: number,
+): { value: string; next: number } | null {
+  const end = data.indexOf(0, start);
+  if (end < 0) {
+    return null;
+  }
+  return { value: decodeLatin1(data.subarray(start, end)), next: end + 1 };
+}
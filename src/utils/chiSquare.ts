@@ -0,0 +1,272 @@
+import type { ChannelKey, ExtractionScanOrder } from "../types";
+import { getChannelOffset, visitPixelsInScanOrder } from "./bitPlane";
+
+export interface ChiSquareSample {
+  pixelCount: number;
+  scanFraction: number;
+  chiSquare: number;
+  degreesOfFreedom: number;
+  probability: number;
+  windowProbability: number;
+}
+
+export interface ChiSquareChannelSeries {
+  channel: ChannelKey;
+  samples: ChiSquareSample[];
+  estimatedPayloadFraction: number;
+}
+
+export interface ChiSquareAnalysis {
+  scanOrder: ExtractionScanOrder;
+  totalPixels: number;
+  series: ChiSquareChannelSeries[];
+}
+
+export interface ChiSquareAnalysisOptions {
+  channels?: ChannelKey[];
+  sampleCount?: number;
+  embeddingThreshold?: number;
+}
+
+const DEFAULT_CHANNELS: ReadonlyArray<ChannelKey> = ["r", "g", "b"];
+const DEFAULT_SAMPLE_COUNT = 100;
+const DEFAULT_EMBEDDING_THRESHOLD = 0.5;
+const MIN_EXPECTED_CATEGORY_COUNT = 4;
+const GAMMA_EPSILON = 1e-12;
+const GAMMA_MAX_ITERATIONS = 500;
+const LANCZOS_COEFFICIENTS = [
+  76.18009172947146, -86.50532032941678, 24.01409824083091, -1.231739572450155,
+  0.001208650973866179, -0.000005395239384953,
+];
+
+function logGamma(value: number): number {
+  let denominator = value;
+  const base = value + 5.5;
+  const logBase = (value + 0.5) * Math.log(base) - base;
+  let series = 1.000000000190015;
+
+  for (const coefficient of LANCZOS_COEFFICIENTS) {
+    denominator += 1;
+    series += coefficient / denominator;
+  }
+
+  return logBase + Math.log((2.5066282746310007 * series) / value);
+}
+
+function lowerGammaSeries(shape: number, x: number): number {
+  let term = 1 / shape;
+  let sum = term;
+  let denominator = shape;
+
+  for (let iteration = 0; iteration < GAMMA_MAX_ITERATIONS; iteration += 1) {
+    denominator += 1;
+    term *= x / denominator;
+    sum += term;
+    if (Math.abs(term) < Math.abs(sum) * GAMMA_EPSILON) {
+      break;
+    }
+  }
+
+  return sum * Math.exp(-x + shape * Math.log(x) - logGamma(shape));
+}
+
+function upperGammaContinuedFraction(shape: number, x: number): number {
+  const tiny = 1e-300;
+  let b = x + 1 - shape;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+
+  for (let iteration = 1; iteration <= GAMMA_MAX_ITERATIONS; iteration += 1) {
+    const an = -iteration * (iteration - shape);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) {
+      d = tiny;
+    }
+    c = b + an / c;
+    if (Math.abs(c) < tiny) {
+      c = tiny;
+    }
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < GAMMA_EPSILON) {
+      break;
+    }
+  }
+
+  return Math.exp(-x + shape * Math.log(x) - logGamma(shape)) * h;
+}
+
+// Upper tail P(X >= statistic) of a chi-square distribution.
+export function chiSquareSurvival(
+  statistic: number,
+  degreesOfFreedom: number,
+): number {
+  if (degreesOfFreedom <= 0 || !Number.isFinite(statistic)) {
+    return 0;
+  }
+  if (statistic <= 0) {
+    return 1;
+  }
+
+  const shape = degreesOfFreedom / 2;
+  const x = statistic / 2;
+  const survival =
+    x < shape + 1
+      ? 1 - lowerGammaSeries(shape, x)
+      : upperGammaContinuedFraction(shape, x);
+
+  return Math.min(1, Math.max(0, survival));
+}
+
+// Pairs of values (2k, 2k+1) equalize under LSB replacement. Sparse pairs are
+// merged until the expected count is large enough for the statistic to hold.
+export function computePairsOfValuesStatistic(histogram: ArrayLike<number>): {
+  chiSquare: number;
+  degreesOfFreedom: number;
+} {
+  let chiSquare = 0;
+  let categories = 0;
+  let pendingObserved = 0;
+  let pendingExpected = 0;
+
+  for (let value = 0; value + 1 < histogram.length; value += 2) {
+    const even = histogram[value];
+    const odd = histogram[value + 1];
+    pendingObserved += even;
+    pendingExpected += (even + odd) / 2;
+
+    if (pendingExpected >= MIN_EXPECTED_CATEGORY_COUNT) {
+      chiSquare += (pendingObserved - pendingExpected) ** 2 / pendingExpected;
+      categories += 1;
+      pendingObserved = 0;
+      pendingExpected = 0;
+    }
+  }
+
+  if (pendingExpected > 0) {
+    chiSquare += (pendingObserved - pendingExpected) ** 2 / pendingExpected;
+    categories += 1;
+  }
+
+  return { chiSquare, degreesOfFreedom: categories - 1 };
+}
+
+function embeddingProbability(histogram: ArrayLike<number>): {
+  chiSquare: number;
+  degreesOfFreedom: number;
+  probability: number;
+} {
+  const { chiSquare, degreesOfFreedom } =
+    computePairsOfValuesStatistic(histogram);
+  return {
+    chiSquare,
+    degreesOfFreedom,
+    probability: chiSquareSurvival(chiSquare, degreesOfFreedom),
+  };
+}
+
+function estimatePayloadFraction(
+  samples: ChiSquareSample[],
+  threshold: number,
+): number {
+  let fraction = 0;
+  for (const sample of samples) {
+    if (sample.windowProbability < threshold) {
+      break;
+    }
+    fraction = sample.scanFraction;
+  }
+  return fraction;
+}
+
+// Westfeld-Pfitzmann chi-square attack evaluated over a growing prefix of the
+// scan, so a sequential payload shows up as a plateau that drops where it ends.
+export function analyzeChiSquare(
+  imageData: ImageData,
+  scanOrder: ExtractionScanOrder,
+  options: ChiSquareAnalysisOptions = {},
+): ChiSquareAnalysis {
+  const channels = options.channels ?? DEFAULT_CHANNELS;
+  const totalPixels = imageData.width * imageData.height;
+  const sampleCount = Math.max(
+    1,
+    Math.min(totalPixels, options.sampleCount ?? DEFAULT_SAMPLE_COUNT),
+  );
+  const threshold = options.embeddingThreshold ?? DEFAULT_EMBEDDING_THRESHOLD;
+
+  if (totalPixels === 0) {
+    return {
+      scanOrder,
+      totalPixels,
+      series: channels.map((channel) => ({
+        channel,
+        samples: [],
+        estimatedPayloadFraction: 0,
+      })),
+    };
+  }
+
+  const source = imageData.data;
+  const offsets = channels.map((channel) => getChannelOffset(channel));
+  const cumulative = channels.map(() => new Float64Array(256));
+  const windows = channels.map(() => new Float64Array(256));
+  const samples: ChiSquareSample[][] = channels.map(() => []);
+  let visitedPixels = 0;
+  let nextSampleIndex = 1;
+  let nextSampleAt = Math.ceil(totalPixels / sampleCount);
+
+  visitPixelsInScanOrder(
+    imageData.width,
+    imageData.height,
+    scanOrder,
+    (pixelIndex) => {
+      const sourceIndex = pixelIndex * 4;
+      for (let channel = 0; channel < offsets.length; channel += 1) {
+        const value = source[sourceIndex + offsets[channel]];
+        cumulative[channel][value] += 1;
+        windows[channel][value] += 1;
+      }
+      visitedPixels += 1;
+
+      if (visitedPixels < nextSampleAt) {
+        return;
+      }
+
+      for (let channel = 0; channel < offsets.length; channel += 1) {
+        const overall = embeddingProbability(cumulative[channel]);
+        const local = embeddingProbability(windows[channel]);
+        samples[channel].push({
+          pixelCount: visitedPixels,
+          scanFraction: visitedPixels / totalPixels,
+          chiSquare: overall.chiSquare,
+          degreesOfFreedom: overall.degreesOfFreedom,
+          probability: overall.probability,
+          windowProbability: local.probability,
+        });
+        windows[channel].fill(0);
+      }
+
+      nextSampleIndex += 1;
+      nextSampleAt = Math.min(
+        totalPixels,
+        Math.ceil((totalPixels * nextSampleIndex) / sampleCount),
+      );
+    },
+  );
+
+  return {
+    scanOrder,
+    totalPixels,
+    series: channels.map((channel, index) => ({
+      channel,
+      samples: samples[index],
+      estimatedPayloadFraction: estimatePayloadFraction(
+        samples[index],
+        threshold,
+      ),
+    })),
+  };
+}
@@ -0,0 +1,62 @@
+// Error Level Analysis: regions pasted or edited after the last JPEG save
+// recompress differently from the rest of the image and stand out in the
+// amplified difference.
+
+// Per-channel |original - recompressed| * scale; alpha is forced opaque since
+// JPEG has no alpha channel to compare.
+export function computeErrorLevelImage(
+  original: ImageData,
+  recompressed: ImageData,
+  scale: number,
+): ImageData {
+  if (
+    original.width !== recompressed.width ||
+    original.height !== recompressed.height
+  ) {
+    throw new Error("Recompressed image size does not match the original.");
+  }
+
+  const source = original.data;
+  const other = recompressed.data;
+  const output = new Uint8ClampedArray(source.length);
+  for (let index = 0; index < source.length; index += 4) {
+    output[index] = Math.abs(source[index] - other[index]) * scale;
+    output[index + 1] = Math.abs(source[index + 1] - other[index + 1]) * scale;
+    output[index + 2] = Math.abs(source[index + 2] - other[index + 2]) * scale;
+    output[index + 3] = 255;
+  }
+
+  return new ImageData(output, original.width, original.height);
+}
+
+// Re-encodes through the browser's JPEG encoder; quality is 0..1 as for
+// HTMLCanvasElement.toBlob.
+export async function recompressAsJpeg(
+  imageData: ImageData,
+  quality: number,
+): Promise<ImageData> {
+  const canvas = document.createElement("canvas");
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) {
+    throw new Error("Canvas 2D context is unavailable in this browser.");
+  }
+
+  context.putImageData(imageData, 0, 0);
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/jpeg", quality),
+  );
+  if (!blob || blob.type !== "image/jpeg") {
+    throw new Error("This browser cannot encode JPEG images.");
+  }
+
+  const bitmap = await createImageBitmap(blob);
+  try {
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0);
+    return context.getImageData(0, 0, canvas.width, canvas.height);
+  } finally {
+    bitmap.close();
+  }
+}
@@ -5,6 +5,7 @@ import type {
   ExifLocation,
   ExifMetadata,
 } from "../types";
+import type { PngTextChunk } from "./pngChunks";
 
 const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
 const BASE64_MIN_LENGTH = 120;
@@ -504,6 +505,7 @@ function sortEntries(entries: ExifEntry[]): ExifEntry[] {
     gps: 2,
     interop: 3,
     ifd1: 4,
+    "png-text": 5,
   };
 
   return [...entries].sort((a, b) => {
@@ -531,6 +533,56 @@ export const __exifInternals = {
   flattenMetadata,
 };
 
+// Adds PNG tEXt/zTXt/iTXt keyword/value pairs (already inflated) as a
+// separate group, with the same Base64 payload sniffing as exifr values.
+export function appendPngTextEntries(
+  metadata: ExifMetadata | null,
+  textChunks: PngTextChunk[],
+): ExifMetadata | null {
+  if (textChunks.length === 0) {
+    return metadata;
+  }
+
+  const entries: ExifEntry[] = [];
+  const dedupe = new Set<string>();
+  for (const chunk of textChunks) {
+    const tagName = `${chunk.keyword || "(no keyword)"} (${chunk.type})`;
+    pushEntry(entries, dedupe, "png-text", tagName, chunk.error ?? chunk.text);
+    if (chunk.translatedKeyword) {
+      pushEntry(
+        entries,
+        dedupe,
+        "png-text",
+        `${tagName} translated keyword`,
+        chunk.translatedKeyword,
+      );
+    }
+
+    const candidates = collectBase64Candidates(chunk.text);
+    for (let index = 0; index < candidates.length; index += 1) {
+      const suffix =
+        candidates.length > 1 ? `Base64Payload${index + 1}` : "Base64Payload";
+      pushEntry(
+        entries,
+        dedupe,
+        "png-text",
+        `${tagName} ${suffix}`,
+        candidates[index],
+      );
+    }
+  }
+
+  if (entries.length === 0) {
+    return metadata;
+  }
+
+  return {
+    source: metadata?.source ?? "png-text",
+    entries: sortEntries([...(metadata?.entries ?? []), ...entries]),
+    location: metadata?.location ?? null,
+  };
+}
+
 export async function readExifMetadata(
   file: File,
 ): Promise<ExifMetadata | null> {
@@ -0,0 +1,544 @@
+import {
+  clipText,
+  decodeLatin1,
+  formatHexPreview,
+  readUint16LE,
+  type StructureField,
+} from "./byteFields";
+
+const GIF_SIGNATURES = ["GIF87a", "GIF89a"];
+const HEADER_LENGTH = 6;
+const LOGICAL_SCREEN_LENGTH = 7;
+const IMAGE_DESCRIPTOR_LENGTH = 10;
+const COLOR_PREVIEW_COUNT = 16;
+const XMP_APPLICATION = "XMP DataXMP";
+const DISPOSAL_METHODS = [
+  "None specified",
+  "Do not dispose",
+  "Restore to background",
+  "Restore to previous",
+];
+
+export type GifBlockKind =
+  | "header"
+  | "logical-screen"
+  | "global-color-table"
+  | "image-descriptor"
+  | "local-color-table"
+  | "image-data"
+  | "extension"
+  | "trailer";
+
+export interface GifBlockLocation {
+  kind: GifBlockKind;
+  offset: number;
+  endOffset: number;
+  // Extension label (0xF9, 0xFF, 0xFE, 0x01, ...); null for other blocks.
+  label: number | null;
+}
+
+export interface GifBlockWalk {
+  blocks: GifBlockLocation[];
+  // Offset just past the 0x3B trailer, or null when it was never reached.
+  trailerEndOffset: number | null;
+  // Set when a block runs past the end of the buffer.
+  isTruncated: boolean;
+  // Offset of a byte that is not a block introducer, which ends the walk.
+  invalidIntroducerOffset: number | null;
+}
+
+export interface GifBlock extends GifBlockLocation {
+  index: number;
+  name: string;
+  description: string;
+  fields: StructureField[];
+  warnings: string[];
+}
+
+export interface GifBlockInspection {
+  blocks: GifBlock[];
+  trailerEndOffset: number | null;
+  isTruncated: boolean;
+  warnings: string[];
+}
+
+export function hasGifSignature(bytes: Uint8Array, offset = 0): boolean {
+  const signature = decodeLatin1(
+    bytes.subarray(offset, offset + HEADER_LENGTH),
+  );
+  return GIF_SIGNATURES.includes(signature);
+}
+
+function colorTableLength(packed: number): number {
+  return (packed & 0x80) !== 0 ? 3 * (1 << ((packed & 0x07) + 1)) : 0;
+}
+
+// Offset just past the zero-length terminator of a data sub-block chain, or
+// null when the chain runs off the end of the buffer.
+function skipSubBlocks(bytes: Uint8Array, offset: number): number | null {
+  let position = offset;
+  while (position < bytes.length) {
+    const size = bytes[position];
+    position += 1 + size;
+    if (size === 0) {
+      return position;
+    }
+  }
+  return null;
+}
+
+// Block walk shared with payload carving; startOffset points at "GIF8".
+export function walkGifBlocks(
+  bytes: Uint8Array,
+  startOffset = 0,
+): GifBlockWalk | null {
+  if (!hasGifSignature(bytes, startOffset)) {
+    return null;
+  }
+
+  const blocks: GifBlockLocation[] = [];
+  const result = (
+    trailerEndOffset: number | null,
+    isTruncated: boolean,
+    invalidIntroducerOffset: number | null = null,
+  ): GifBlockWalk => ({
+    blocks,
+    trailerEndOffset,
+    isTruncated,
+    invalidIntroducerOffset,
+  });
+  const push = (
+    kind: GifBlockKind,
+    offset: number,
+    endOffset: number,
+    label: number | null = null,
+  ) => blocks.push({ kind, offset, endOffset, label });
+
+  let offset = startOffset + HEADER_LENGTH;
+  push("header", startOffset, offset);
+  if (offset + LOGICAL_SCREEN_LENGTH > bytes.length) {
+    return result(null, true);
+  }
+  const globalTableLength = colorTableLength(bytes[offset + 4]);
+  push("logical-screen", offset, offset + LOGICAL_SCREEN_LENGTH);
+  offset += LOGICAL_SCREEN_LENGTH;
+  if (globalTableLength > 0) {
+    if (offset + globalTableLength > bytes.length) {
+      return result(null, true);
+    }
+    push("global-color-table", offset, offset + globalTableLength);
+    offset += globalTableLength;
+  }
+
+  while (offset < bytes.length) {
+    const introducer = bytes[offset];
+
+    if (introducer === 0x3b) {
+      push("trailer", offset, offset + 1);
+      return result(offset + 1, false);
+    }
+
+    if (introducer === 0x2c) {
+      if (offset + IMAGE_DESCRIPTOR_LENGTH > bytes.length) {
+        return result(null, true);
+      }
+      const localTableLength = colorTableLength(bytes[offset + 9]);
+      push("image-descriptor", offset, offset + IMAGE_DESCRIPTOR_LENGTH);
+      offset += IMAGE_DESCRIPTOR_LENGTH;
+      if (localTableLength > 0) {
+        if (offset + localTableLength > bytes.length) {
+          return result(null, true);
+        }
+        push("local-color-table", offset, offset + localTableLength);
+        offset += localTableLength;
+      }
+      // LZW minimum code size, then the compressed sub-blocks.
+      const dataEnd =
+        offset < bytes.length ? skipSubBlocks(bytes, offset + 1) : null;
+      if (dataEnd === null || dataEnd > bytes.length) {
+        return result(null, true);
+      }
+      push("image-data", offset, dataEnd);
+      offset = dataEnd;
+      continue;
+    }
+
+    if (introducer === 0x21) {
+      const extensionEnd =
+        offset + 1 < bytes.length ? skipSubBlocks(bytes, offset + 2) : null;
+      if (extensionEnd === null || extensionEnd > bytes.length) {
+        return result(null, true);
+      }
+      push("extension", offset, extensionEnd, bytes[offset + 1]);
+      offset = extensionEnd;
+      continue;
+    }
+
+    return result(null, false, offset);
+  }
+
+  return result(null, true);
+}
+
+// Concatenated payload of the sub-block chain starting at offset.
+export function readSubBlocks(
+  bytes: Uint8Array,
+  offset: number,
+  endOffset: number,
+): { data: Uint8Array; count: number } {
+  const parts: Uint8Array[] = [];
+  let position = offset;
+  while (position < endOffset && bytes[position] !== 0) {
+    const size = bytes[position];
+    parts.push(bytes.subarray(position + 1, position + 1 + size));
+    position += 1 + size;
+  }
+
+  const data = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0),
+  );
+  let written = 0;
+  for (const part of parts) {
+    data.set(part, written);
+    written += part.length;
+  }
+  return { data, count: parts.length };
+}
+
+function formatByteSize(length: number): string {
+  return `${length.toLocaleString()} bytes`;
+}
+
+function formatColorTable(table: Uint8Array): StructureField[] {
+  const count = table.length / 3;
+  const colors: string[] = [];
+  for (
+    let index = 0;
+    index < Math.min(count, COLOR_PREVIEW_COUNT);
+    index += 1
+  ) {
+    colors.push(
+      `#${Array.from(table.subarray(index * 3, index * 3 + 3), (value) =>
+        value.toString(16).padStart(2, "0"),
+      ).join("")}`,
+    );
+  }
+  return [
+    { label: "Entries", value: count.toLocaleString() },
+    {
+      label: "Colors",
+      value:
+        count > COLOR_PREVIEW_COUNT
+          ? `${colors.join(" ")} …`
+          : colors.join(" "),
+    },
+  ];
+}
+
+interface DecodedBlock {
+  name: string;
+  description: string;
+  fields: StructureField[];
+}
+
+function decodeExtension(
+  bytes: Uint8Array,
+  block: GifBlockLocation,
+  warnings: string[],
+): DecodedBlock {
+  const label = block.label ?? 0;
+  const labelHex = `0x${label.toString(16).toUpperCase().padStart(2, "0")}`;
+  const firstSize = bytes[block.offset + 2];
+  const first = bytes.subarray(block.offset + 3, block.offset + 3 + firstSize);
+
+  if (label === 0xf9) {
+    if (firstSize !== 4) {
+      warnings.push(
+        `Graphic Control Extension block is ${firstSize} bytes, expected 4.`,
+      );
+    }
+    const packed = first[0] ?? 0;
+    const disposal = (packed >> 2) & 0x07;
+    return {
+      name: "GCE",
+      description: "Graphic Control Extension",
+      fields: [
+        {
+          label: "Disposal",
+          value: DISPOSAL_METHODS[disposal] ?? `Reserved (${disposal})`,
+        },
+        {
+          label: "Delay",
+          value: `${readUint16LE(first, 1) * 10} ms`,
+        },
+        {
+          label: "Transparent index",
+          value: (packed & 0x01) !== 0 ? String(first[3] ?? 0) : "none",
+        },
+        {
+          label: "User input",
+          value: (packed & 0x02) !== 0 ? "expected" : "no",
+        },
+      ],
+    };
+  }
+
+  if (label === 0xfe) {
+    const { data, count } = readSubBlocks(
+      bytes,
+      block.offset + 2,
+      block.endOffset,
+    );
+    return {
+      name: "Comment",
+      description: "Comment Extension",
+      fields: [
+        {
+          label: "Size",
+          value: `${formatByteSize(data.length)} in ${count} sub-blocks`,
+        },
+        { label: "Text", value: clipText(decodeLatin1(data)) },
+      ],
+    };
+  }
+
+  if (label === 0x01) {
+    const { data } = readSubBlocks(
+      bytes,
+      block.offset + 3 + firstSize,
+      block.endOffset,
+    );
+    if (firstSize !== 12) {
+      warnings.push(
+        `Plain Text Extension header is ${firstSize} bytes, expected 12.`,
+      );
+    }
+    return {
+      name: "Plain Text",
+      description: "Plain Text Extension",
+      fields: [
+        {
+          label: "Text grid",
+          value: `${readUint16LE(first, 4)} x ${readUint16LE(first, 6)} at (${readUint16LE(first, 0)}, ${readUint16LE(first, 2)})`,
+        },
+        {
+          label: "Cell size",
+          value: `${first[8] ?? 0} x ${first[9] ?? 0}`,
+        },
+        {
+          label: "Colors (fg / bg)",
+          value: `${first[10] ?? 0} / ${first[11] ?? 0}`,
+        },
+        { label: "Text", value: clipText(decodeLatin1(data)) },
+      ],
+    };
+  }
+
+  if (label === 0xff) {
+    if (firstSize !== 11) {
+      warnings.push(
+        `Application Extension identifier block is ${firstSize} bytes, expected 11.`,
+      );
+    }
+    const application = decodeLatin1(first);
+    const dataOffset = block.offset + 3 + firstSize;
+    const fields: StructureField[] = [
+      {
+        label: "Application",
+        value: `${application.slice(0, 8)} (auth code ${application.slice(8)})`,
+      },
+    ];
+
+    if (application === XMP_APPLICATION) {
+      // XMP is stored raw (not sub-blocked) and ends with a 258-byte "magic
+      // trailer" that makes the raw bytes parse as valid sub-blocks.
+      const raw = bytes.subarray(dataOffset, block.endOffset);
+      const text = new TextDecoder("utf-8").decode(raw);
+      const packetEnd = text.indexOf("<?xpacket end");
+      const closeIndex = packetEnd >= 0 ? text.indexOf("?>", packetEnd) : -1;
+      const packet = closeIndex >= 0 ? text.slice(0, closeIndex + 2) : text;
+      fields.push(
+        { label: "Packet size", value: formatByteSize(packet.length) },
+        { label: "Packet", value: clipText(packet) },
+      );
+      return { name: "Application", description: "XMP packet", fields };
+    }
+
+    const { data, count } = readSubBlocks(bytes, dataOffset, block.endOffset);
+    const isLoopExtension =
+      (application === "NETSCAPE2.0" || application === "ANIMEXTS1.0") &&
+      data[0] === 0x01 &&
+      data.length >= 3;
+    if (isLoopExtension) {
+      const loops = readUint16LE(data, 1);
+      fields.push({
+        label: "Loop count",
+        value: loops === 0 ? "infinite" : loops.toLocaleString(),
+      });
+      return { name: "Application", description: "Animation looping", fields };
+    }
+
+    fields.push({
+      label: "Data",
+      value: `${formatByteSize(data.length)} in ${count} sub-blocks`,
+    });
+    if (data.length > 0) {
+      fields.push({ label: "Preview", value: formatHexPreview(data) });
+    }
+    return {
+      name: "Application",
+      description: "Application Extension",
+      fields,
+    };
+  }
+
+  const { data } = readSubBlocks(bytes, block.offset + 2, block.endOffset);
+  warnings.push(`Unknown extension label ${labelHex}.`);
+  return {
+    name: `Extension ${labelHex}`,
+    description: "Unknown extension",
+    fields: [
+      { label: "Data", value: formatByteSize(data.length) },
+      ...(data.length > 0
+        ? [{ label: "Preview", value: formatHexPreview(data) }]
+        : []),
+    ],
+  };
+}
+
+function decodeBlock(
+  bytes: Uint8Array,
+  block: GifBlockLocation,
+  warnings: string[],
+): DecodedBlock {
+  const { offset, endOffset } = block;
+  switch (block.kind) {
+    case "header":
+      return {
+        name: "Header",
+        description: decodeLatin1(bytes.subarray(offset, endOffset)),
+        fields: [],
+      };
+    case "logical-screen": {
+      const packed = bytes[offset + 4];
+      const fields: StructureField[] = [
+        {
+          label: "Canvas",
+          value: `${readUint16LE(bytes, offset)} x ${readUint16LE(bytes, offset + 2)}`,
+        },
+        {
+          label: "Global color table",
+          value:
+            (packed & 0x80) !== 0
+              ? `${1 << ((packed & 0x07) + 1)} entries${(packed & 0x08) !== 0 ? ", sorted" : ""}`
+              : "none",
+        },
+        {
+          label: "Color resolution",
+          value: `${((packed >> 4) & 0x07) + 1} bits per primary`,
+        },
+        { label: "Background index", value: String(bytes[offset + 5]) },
+      ];
+      const aspect = bytes[offset + 6];
+      if (aspect !== 0) {
+        fields.push({
+          label: "Pixel aspect ratio",
+          value: ((aspect + 15) / 64).toFixed(3),
+        });
+      }
+      return {
+        name: "Logical Screen",
+        description: "Logical Screen Descriptor",
+        fields,
+      };
+    }
+    case "global-color-table":
+    case "local-color-table":
+      return {
+        name:
+          block.kind === "global-color-table"
+            ? "Global Color Table"
+            : "Local Color Table",
+        description: "Palette",
+        fields: formatColorTable(bytes.subarray(offset, endOffset)),
+      };
+    case "image-descriptor": {
+      const packed = bytes[offset + 9];
+      return {
+        name: "Image Descriptor",
+        description: "Frame position and size",
+        fields: [
+          {
+            label: "Frame",
+            value: `${readUint16LE(bytes, offset + 5)} x ${readUint16LE(bytes, offset + 7)} at (${readUint16LE(bytes, offset + 1)}, ${readUint16LE(bytes, offset + 3)})`,
+          },
+          {
+            label: "Local color table",
+            value:
+              (packed & 0x80) !== 0
+                ? `${1 << ((packed & 0x07) + 1)} entries`
+                : "none",
+          },
+          {
+            label: "Interlaced",
+            value: (packed & 0x40) !== 0 ? "yes" : "no",
+          },
+        ],
+      };
+    }
+    case "image-data": {
+      const codeSize = bytes[offset];
+      if (codeSize < 2 || codeSize > 8) {
+        warnings.push(`LZW minimum code size ${codeSize} is outside 2-8.`);
+      }
+      const { data, count } = readSubBlocks(bytes, offset + 1, endOffset);
+      return {
+        name: "Image Data",
+        description: "LZW-compressed pixels",
+        fields: [
+          { label: "LZW minimum code size", value: String(codeSize) },
+          {
+            label: "Compressed data",
+            value: `${formatByteSize(data.length)} in ${count} sub-blocks`,
+          },
+        ],
+      };
+    }
+    case "extension":
+      return decodeExtension(bytes, block, warnings);
+    case "trailer":
+      return { name: "Trailer", description: "End of GIF stream", fields: [] };
+  }
+}
+
+export function inspectGifBlocks(bytes: Uint8Array): GifBlockInspection | null {
+  const walk = walkGifBlocks(bytes);
+  if (!walk) {
+    return null;
+  }
+
+  const blocks = walk.blocks.map((location, index) => {
+    const warnings: string[] = [];
+    const decoded = decodeBlock(bytes, location, warnings);
+    return { ...location, index, ...decoded, warnings };
+  });
+
+  const warnings: string[] = [];
+  if (walk.isTruncated) {
+    warnings.push("Block stream is truncated before the trailer.");
+  } else if (walk.invalidIntroducerOffset !== null) {
+    warnings.push(
+      `Unexpected byte 0x${bytes[walk.invalidIntroducerOffset].toString(16).toUpperCase().padStart(2, "0")} at offset ${walk.invalidIntroducerOffset.toLocaleString()} instead of a block introducer.`,
+    );
+  }
+  if (!blocks.some((block) => block.kind === "image-descriptor")) {
+    warnings.push("No image descriptor found.");
+  }
+
+  return {
+    blocks,
+    trailerEndOffset: walk.trailerEndOffset,
+    isTruncated: walk.isTruncated,
+    warnings,
+  };
+}
@@ -1,5 +1,6 @@
 import type { DecodedImage, ImageFrame, SupportedImageFormat } from "../types";
-import { readExifMetadata } from "./exif";
+import { appendPngTextEntries, readExifMetadata } from "./exif";
+import { readPngTextChunks } from "./pngChunks";
 import { extractTrailingData } from "./trailingData";
 
 const MAX_PIXELS = 24_000_000;
@@ -320,6 +321,14 @@ export async function decodeImageFile(file: File): Promise<DecodedImage> {
     sourceBytes = null;
   }
 
+  if (format === "image/png" && sourceBytes) {
+    try {
+      exif = appendPngTextEntries(exif, readPngTextChunks(sourceBytes));
+    } catch {
+      // Keep the exifr result when text chunks cannot be read.
+    }
+  }
+
   if (format === "image/gif" && sourceBytes) {
     frames = await decodeGifFrames(sourceBytes);
   }
@@ -355,5 +364,6 @@ export async function decodeImageFile(file: File): Promise<DecodedImage> {
     frames: frames ?? [{ imageData, durationMs: null }],
     exif,
     trailingData,
+    sourceBytes,
   };
 }
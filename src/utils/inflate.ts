@@ -0,0 +1,359 @@
+// Synchronous DEFLATE (RFC 1951) and zlib (RFC 1950) decoder for the small
+// compressed blobs found inside image containers (zTXt, iCCP, ...).
+// DecompressionStream is async-only and rejects on trailing garbage, which
+// is exactly what we want to report rather than fail on.
+
+const DEFAULT_MAX_OUTPUT_LENGTH = 64 * 1024 * 1024;
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67,
+  83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5,
+  5, 5, 0,
+];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+  1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11,
+  11, 12, 12, 13, 13,
+];
+const CODE_LENGTH_ORDER = [
+  16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15,
+];
+
+export interface InflateResult {
+  bytes: Uint8Array;
+  // Input bytes consumed, including the zlib header and Adler-32 trailer.
+  consumedBytes: number;
+}
+
+interface HuffmanTable {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+function buildHuffmanTable(lengths: ArrayLike<number>): HuffmanTable {
+  const counts = new Uint16Array(16);
+  for (let index = 0; index < lengths.length; index += 1) {
+    counts[lengths[index]] += 1;
+  }
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(16);
+  for (let length = 1; length < 16; length += 1) {
+    offsets[length] = offsets[length - 1] + counts[length - 1];
+  }
+
+  const symbols = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol += 1) {
+    if (lengths[symbol] !== 0) {
+      symbols[offsets[lengths[symbol]]] = symbol;
+      offsets[lengths[symbol]] += 1;
+    }
+  }
+
+  return { counts, symbols };
+}
+
+const FIXED_LITERAL_TABLE = buildHuffmanTable(
+  Array.from({ length: 288 }, (_, symbol) =>
+    symbol < 144 ? 8 : symbol < 256 ? 9 : symbol < 280 ? 7 : 8,
+  ),
+);
+const FIXED_DISTANCE_TABLE = buildHuffmanTable(new Array(30).fill(5));
+
+class BitReader {
+  private bitBuffer = 0;
+  private bitCount = 0;
+  public position: number;
+
+  constructor(
+    private readonly bytes: Uint8Array,
+    start: number,
+  ) {
+    this.position = start;
+  }
+
+  readBits(count: number): number {
+    while (this.bitCount < count) {
+      if (this.position >= this.bytes.length) {
+        throw new Error("Unexpected end of compressed data.");
+      }
+      this.bitBuffer |= this.bytes[this.position] << this.bitCount;
+      this.position += 1;
+      this.bitCount += 8;
+    }
+
+    const value = this.bitBuffer & ((1 << count) - 1);
+    this.bitBuffer >>>= count;
+    this.bitCount -= count;
+    return value;
+  }
+
+  alignToByte(): void {
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+  }
+
+  decodeSymbol(table: HuffmanTable): number {
+    // Canonical Huffman decode, one bit at a time (codes are read MSB-first).
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let length = 1; length < 16; length += 1) {
+      code |= this.readBits(1);
+      const count = table.counts[length];
+      if (code - first < count) {
+        return table.symbols[index + code - first];
+      }
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error("Invalid Huffman code in compressed data.");
+  }
+}
+
+class OutputBuffer {
+  public bytes: Uint8Array;
+  public length = 0;
+
+  constructor(
+    initialCapacity: number,
+    private readonly maxLength: number,
+  ) {
+    this.bytes = new Uint8Array(Math.max(1024, initialCapacity));
+  }
+
+  ensure(extra: number): void {
+    const required = this.length + extra;
+    if (required > this.maxLength) {
+      throw new Error(
+        `Decompressed data exceeds ${this.maxLength.toLocaleString()} bytes.`,
+      );
+    }
+    if (required <= this.bytes.length) {
+      return;
+    }
+
+    const grown = new Uint8Array(
+      Math.min(this.maxLength, Math.max(required, this.bytes.length * 2)),
+    );
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+  }
+
+  push(byte: number): void {
+    this.ensure(1);
+    this.bytes[this.length] = byte;
+    this.length += 1;
+  }
+}
+
+function readDynamicTables(reader: BitReader): [HuffmanTable, HuffmanTable] {
+  const literalCount = reader.readBits(5) + 257;
+  const distanceCount = reader.readBits(5) + 1;
+  const codeLengthCount = reader.readBits(4) + 4;
+
+  const codeLengthLengths = new Uint8Array(19);
+  for (let index = 0; index < codeLengthCount; index += 1) {
+    codeLengthLengths[CODE_LENGTH_ORDER[index]] = reader.readBits(3);
+  }
+  const codeLengthTable = buildHuffmanTable(codeLengthLengths);
+
+  const lengths = new Uint8Array(literalCount + distanceCount);
+  let index = 0;
+  while (index < lengths.length) {
+    const symbol = reader.decodeSymbol(codeLengthTable);
+    if (symbol < 16) {
+      lengths[index] = symbol;
+      index += 1;
+      continue;
+    }
+
+    let repeatValue = 0;
+    let repeatCount: number;
+    if (symbol === 16) {
+      if (index === 0) {
+        throw new Error("Invalid code length repeat in compressed data.");
+      }
+      repeatValue = lengths[index - 1];
+      repeatCount = 3 + reader.readBits(2);
+    } else if (symbol === 17) {
+      repeatCount = 3 + reader.readBits(3);
+    } else {
+      repeatCount = 11 + reader.readBits(7);
+    }
+
+    if (index + repeatCount > lengths.length) {
+      throw new Error("Code lengths overflow in compressed data.");
+    }
+    lengths.fill(repeatValue, index, index + repeatCount);
+    index += repeatCount;
+  }
+
+  return [
+    buildHuffmanTable(lengths.subarray(0, literalCount)),
+    buildHuffmanTable(lengths.subarray(literalCount)),
+  ];
+}
+
+function inflateBlockData(
+  reader: BitReader,
+  output: OutputBuffer,
+  literalTable: HuffmanTable,
+  distanceTable: HuffmanTable,
+): void {
+  for (;;) {
+    const symbol = reader.decodeSymbol(literalTable);
+    if (symbol < 256) {
+      output.push(symbol);
+      continue;
+    }
+    if (symbol === 256) {
+      return;
+    }
+
+    const lengthIndex = symbol - 257;
+    if (lengthIndex >= LENGTH_BASE.length) {
+      throw new Error("Invalid length symbol in compressed data.");
+    }
+    const length =
+      LENGTH_BASE[lengthIndex] + reader.readBits(LENGTH_EXTRA[lengthIndex]);
+
+    const distanceIndex = reader.decodeSymbol(distanceTable);
+    if (distanceIndex >= DISTANCE_BASE.length) {
+      throw new Error("Invalid distance symbol in compressed data.");
+    }
+    const distance =
+      DISTANCE_BASE[distanceIndex] +
+      reader.readBits(DISTANCE_EXTRA[distanceIndex]);
+    if (distance > output.length) {
+      throw new Error("Back-reference before start of compressed data.");
+    }
+
+    output.ensure(length);
+    const target = output.bytes;
+    for (let index = 0; index < length; index += 1) {
+      target[output.length] = target[output.length - distance];
+      output.length += 1;
+    }
+  }
+}
+
+function inflateFrom(
+  bytes: Uint8Array,
+  start: number,
+  maxOutputLength: number,
+): InflateResult {
+  const reader = new BitReader(bytes, start);
+  const output = new OutputBuffer(bytes.length * 4, maxOutputLength);
+
+  let isFinalBlock = false;
+  while (!isFinalBlock) {
+    isFinalBlock = reader.readBits(1) === 1;
+    const blockType = reader.readBits(2);
+
+    if (blockType === 0) {
+      reader.alignToByte();
+      const offset = reader.position;
+      if (offset + 4 > bytes.length) {
+        throw new Error("Unexpected end of compressed data.");
+      }
+      const length = bytes[offset] | (bytes[offset + 1] << 8);
+      const inverse = bytes[offset + 2] | (bytes[offset + 3] << 8);
+      if ((length ^ 0xffff) !== inverse) {
+        throw new Error("Stored block length check failed.");
+      }
+      if (offset + 4 + length > bytes.length) {
+        throw new Error("Unexpected end of compressed data.");
+      }
+      output.ensure(length);
+      output.bytes.set(
+        bytes.subarray(offset + 4, offset + 4 + length),
+        output.length,
+      );
+      output.length += length;
+      reader.position = offset + 4 + length;
+    } else if (blockType === 1) {
+      inflateBlockData(
+        reader,
+        output,
+        FIXED_LITERAL_TABLE,
+        FIXED_DISTANCE_TABLE,
+      );
+    } else if (blockType === 2) {
+      const [literalTable, distanceTable] = readDynamicTables(reader);
+      inflateBlockData(reader, output, literalTable, distanceTable);
+    } else {
+      throw new Error("Invalid block type in compressed data.");
+    }
+  }
+
+  return {
+    bytes: output.bytes.slice(0, output.length),
+    consumedBytes: reader.position - start,
+  };
+}
+
+export function adler32(bytes: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let offset = 0; offset < bytes.length; offset += 4096) {
+    const end = Math.min(bytes.length, offset + 4096);
+    for (let index = offset; index < end; index += 1) {
+      a += bytes[index];
+      b += a;
+    }
+    a %= 65521;
+    b %= 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+export function inflateRaw(
+  bytes: Uint8Array,
+  maxOutputLength = DEFAULT_MAX_OUTPUT_LENGTH,
+): InflateResult {
+  return inflateFrom(bytes, 0, maxOutputLength);
+}
+
+export function inflateZlib(
+  bytes: Uint8Array,
+  maxOutputLength = DEFAULT_MAX_OUTPUT_LENGTH,
+): InflateResult {
+  if (bytes.length < 2) {
+    throw new Error("Missing zlib header.");
+  }
+
+  const cmf = bytes[0];
+  const flags = bytes[1];
+  if ((cmf & 0x0f) !== 8 || cmf >> 4 > 7 || ((cmf << 8) | flags) % 31 !== 0) {
+    throw new Error("Invalid zlib header.");
+  }
+  if (flags & 0x20) {
+    throw new Error("zlib preset dictionaries are not supported.");
+  }
+
+  const inflated = inflateFrom(bytes, 2, maxOutputLength);
+  const trailerOffset = 2 + inflated.consumedBytes;
+  if (trailerOffset + 4 > bytes.length) {
+    throw new Error("Missing zlib Adler-32 checksum.");
+  }
+
+  const storedChecksum =
+    ((bytes[trailerOffset] << 24) |
+      (bytes[trailerOffset + 1] << 16) |
+      (bytes[trailerOffset + 2] << 8) |
+      bytes[trailerOffset + 3]) >>>
+    0;
+  if (storedChecksum !== adler32(inflated.bytes)) {
+    throw new Error("zlib Adler-32 checksum mismatch.");
+  }
+
+  return { bytes: inflated.bytes, consumedBytes: trailerOffset + 4 };
+}
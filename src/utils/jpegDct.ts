@@ -0,0 +1,772 @@
+import type { ExtractionBytePackOrder } from "../types";
+import type { ProgressCallback } from "./bitPlane";
+import { readUint16BE } from "./byteFields";
+import { getJpegMarkerName, walkJpegSegments } from "./jpegSegments";
+
+// Zigzag position -> natural (row-major) index within an 8x8 block.
+export const JPEG_ZIGZAG = Uint8Array.from([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40,
+  48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28, 35, 42, 49, 56, 57, 50, 43, 36, 29,
+  22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54,
+  47, 55, 62, 63,
+]);
+
+export interface JpegQuantizationTable {
+  id: number;
+  precision: 8 | 16;
+  // Natural (row-major) order.
+  values: Uint16Array;
+}
+
+// 128M coefficients (256 MB of Int16) is far beyond any real photo.
+const MAX_COEFFICIENTS = 1 << 27;
+
+export interface JpegCoefficientComponent {
+  id: number;
+  horizontalSampling: number;
+  verticalSampling: number;
+  quantizationTableId: number;
+  // Blocks covering the component's own (subsampled) dimensions.
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  // Block grid padded to whole MCUs; `coefficients` is laid out on this grid.
+  paddedBlocksPerLine: number;
+  paddedBlocksPerColumn: number;
+  // Quantized coefficients, 64 per block in natural (row-major) order.
+  coefficients: Int16Array;
+}
+
+export interface JpegCoefficients {
+  width: number;
+  height: number;
+  precision: number;
+  isProgressive: boolean;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+  scanCount: number;
+  components: JpegCoefficientComponent[];
+  // DQT tables by id (natural order); null for ids the file never defines.
+  quantizationTables: Array<Uint16Array | null>;
+}
+
+interface HuffmanTable {
+  maxCode: Int32Array;
+  minCode: Int32Array;
+  valueOffset: Int32Array;
+  values: Uint8Array;
+}
+
+interface BitReader {
+  data: Uint8Array;
+  offset: number;
+  bitBuffer: number;
+  bitCount: number;
+  // Set once a marker (or the end of the buffer) interrupts scan data.
+  isExhausted: boolean;
+}
+
+interface ScanComponent {
+  component: JpegCoefficientComponent;
+  dcTable: HuffmanTable | undefined;
+  acTable: HuffmanTable | undefined;
+  prediction: number;
+}
+
+interface ScanParameters {
+  spectralStart: number;
+  spectralEnd: number;
+  approximationHigh: number;
+  approximationLow: number;
+}
+
+type BlockDecoder = (
+  reader: BitReader,
+  scanComponent: ScanComponent,
+  blockOffset: number,
+) => void;
+
+function buildHuffmanTable(counts: Uint8Array, values: Uint8Array) {
+  const maxCode = new Int32Array(18).fill(-1);
+  const minCode = new Int32Array(17);
+  const valueOffset = new Int32Array(17);
+  let code = 0;
+  let valueIndex = 0;
+
+  for (let length = 1; length <= 16; length += 1) {
+    const count = counts[length - 1];
+    valueOffset[length] = valueIndex;
+    minCode[length] = code;
+    code += count;
+    valueIndex += count;
+    if (count > 0) {
+      maxCode[length] = code - 1;
+    }
+    code <<= 1;
+  }
+  // Sentinel so decodeHuffman's loop always terminates.
+  maxCode[17] = 0x7fffffff;
+
+  return { maxCode, minCode, valueOffset, values } satisfies HuffmanTable;
+}
+
+function readBit(reader: BitReader): number {
+  if (reader.bitCount === 0) {
+    const { data } = reader;
+    if (reader.isExhausted || reader.offset >= data.length) {
+      reader.isExhausted = true;
+      return 0;
+    }
+
+    const byte = data[reader.offset];
+    if (byte === 0xff) {
+      if (data[reader.offset + 1] !== 0x00) {
+        reader.isExhausted = true;
+        return 0;
+      }
+      reader.offset += 2;
+    } else {
+      reader.offset += 1;
+    }
+    reader.bitBuffer = byte;
+    reader.bitCount = 8;
+  }
+
+  reader.bitCount -= 1;
+  return (reader.bitBuffer >> reader.bitCount) & 1;
+}
+
+function receive(reader: BitReader, length: number): number {
+  let value = 0;
+  for (let bit = 0; bit < length; bit += 1) {
+    value = (value << 1) | readBit(reader);
+  }
+  return value;
+}
+
+function receiveExtend(reader: BitReader, length: number): number {
+  if (length === 0) {
+    return 0;
+  }
+  const value = receive(reader, length);
+  return value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+}
+
+function decodeHuffman(
+  reader: BitReader,
+  table: HuffmanTable | undefined,
+): number {
+  if (!table) {
+    throw new Error("Scan references an undefined Huffman table.");
+  }
+
+  let code = readBit(reader);
+  let length = 1;
+  while (code > table.maxCode[length]) {
+    code = (code << 1) | readBit(reader);
+    length += 1;
+  }
+  if (length > 16) {
+    throw new Error("Invalid Huffman code in scan data.");
+  }
+  return table.values[table.valueOffset[length] + code - table.minCode[length]];
+}
+
+function decodeBaselineBlock(
+  reader: BitReader,
+  scanComponent: ScanComponent,
+  blockOffset: number,
+): void {
+  const coefficients = scanComponent.component.coefficients;
+  const dcLength = decodeHuffman(reader, scanComponent.dcTable);
+  scanComponent.prediction += receiveExtend(reader, dcLength);
+  coefficients[blockOffset] = scanComponent.prediction;
+
+  let position = 1;
+  while (position < 64) {
+    const symbol = decodeHuffman(reader, scanComponent.acTable);
+    const size = symbol & 0x0f;
+    const run = symbol >> 4;
+    if (size === 0) {
+      if (run < 15) {
+        break;
+      }
+      position += 16;
+      continue;
+    }
+    position += run;
+    if (position > 63) {
+      throw new Error("AC coefficient run exceeds the block.");
+    }
+    coefficients[blockOffset + JPEG_ZIGZAG[position]] = receiveExtend(
+      reader,
+      size,
+    );
+    position += 1;
+  }
+}
+
+function createProgressiveDecoder(parameters: ScanParameters): BlockDecoder {
+  const { spectralStart, spectralEnd, approximationHigh, approximationLow } =
+    parameters;
+  const positiveBit = 1 << approximationLow;
+  const negativeBit = -1 << approximationLow;
+  let endOfBandRun = 0;
+
+  if (spectralStart === 0) {
+    if (approximationHigh === 0) {
+      return (reader, scanComponent, blockOffset) => {
+        const dcLength = decodeHuffman(reader, scanComponent.dcTable);
+        scanComponent.prediction += receiveExtend(reader, dcLength);
+        scanComponent.component.coefficients[blockOffset] =
+          scanComponent.prediction * positiveBit;
+      };
+    }
+    return (reader, scanComponent, blockOffset) => {
+      if (readBit(reader)) {
+        scanComponent.component.coefficients[blockOffset] |= positiveBit;
+      }
+    };
+  }
+
+  if (approximationHigh === 0) {
+    return (reader, scanComponent, blockOffset) => {
+      if (endOfBandRun > 0) {
+        endOfBandRun -= 1;
+        return;
+      }
+
+      const coefficients = scanComponent.component.coefficients;
+      let position = spectralStart;
+      while (position <= spectralEnd) {
+        const symbol = decodeHuffman(reader, scanComponent.acTable);
+        const size = symbol & 0x0f;
+        const run = symbol >> 4;
+        if (size === 0) {
+          if (run < 15) {
+            endOfBandRun = (1 << run) - 1 + receive(reader, run);
+            break;
+          }
+          position += 16;
+          continue;
+        }
+        position += run;
+        if (position > 63) {
+          throw new Error("AC coefficient run exceeds the block.");
+        }
+        coefficients[blockOffset + JPEG_ZIGZAG[position]] =
+          receiveExtend(reader, size) * positiveBit;
+        position += 1;
+      }
+    };
+  }
+
+  // Successive approximation refinement (ITU T.81 G.1.2.3), following
+  // libjpeg's decode_mcu_AC_refine.
+  return (reader, scanComponent, blockOffset) => {
+    const coefficients = scanComponent.component.coefficients;
+    const refine = (index: number) => {
+      if (readBit(reader) && (coefficients[index] & positiveBit) === 0) {
+        coefficients[index] +=
+          coefficients[index] >= 0 ? positiveBit : negativeBit;
+      }
+    };
+
+    let position = spectralStart;
+    if (endOfBandRun === 0) {
+      for (; position <= spectralEnd; position += 1) {
+        const symbol = decodeHuffman(reader, scanComponent.acTable);
+        let run = symbol >> 4;
+        let value = 0;
+        if (symbol & 0x0f) {
+          value = readBit(reader) ? positiveBit : negativeBit;
+        } else if (run !== 15) {
+          endOfBandRun = (1 << run) + receive(reader, run);
+          break;
+        }
+
+        while (position <= spectralEnd) {
+          const index = blockOffset + JPEG_ZIGZAG[position];
+          if (coefficients[index] !== 0) {
+            refine(index);
+          } else {
+            run -= 1;
+            if (run < 0) {
+              break;
+            }
+          }
+          position += 1;
+        }
+        if (value !== 0 && position <= spectralEnd) {
+          coefficients[blockOffset + JPEG_ZIGZAG[position]] = value;
+        }
+      }
+    }
+
+    if (endOfBandRun > 0) {
+      for (; position <= spectralEnd; position += 1) {
+        const index = blockOffset + JPEG_ZIGZAG[position];
+        if (coefficients[index] !== 0) {
+          refine(index);
+        }
+      }
+      endOfBandRun -= 1;
+    }
+  };
+}
+
+// Skip to just past the next RSTn after a restart interval. Returns false when
+// another marker (or the end of data) is reached first.
+function consumeRestartMarker(reader: BitReader): boolean {
+  const { data } = reader;
+  reader.bitCount = 0;
+  reader.isExhausted = false;
+
+  for (let offset = reader.offset; offset + 1 < data.length; offset += 1) {
+    if (data[offset] !== 0xff) {
+      continue;
+    }
+    const marker = data[offset + 1];
+    if (marker >= 0xd0 && marker <= 0xd7) {
+      reader.offset = offset + 2;
+      return true;
+    }
+    if (marker !== 0x00 && marker !== 0xff) {
+      reader.offset = offset;
+      return false;
+    }
+  }
+  reader.offset = data.length;
+  return false;
+}
+
+function decodeScan(
+  bytes: Uint8Array,
+  startOffset: number,
+  frame: JpegCoefficients,
+  scanComponents: ScanComponent[],
+  restartInterval: number,
+  decodeBlock: BlockDecoder,
+  onProgress?: ProgressCallback,
+): boolean {
+  const reader: BitReader = {
+    data: bytes,
+    offset: startOffset,
+    bitBuffer: 0,
+    bitCount: 0,
+    isExhausted: false,
+  };
+  const single = scanComponents.length === 1 ? scanComponents[0] : null;
+  const mcusPerLine = single
+    ? single.component.blocksPerLine
+    : frame.mcusPerLine;
+  const totalMcus = single
+    ? mcusPerLine * single.component.blocksPerColumn
+    : mcusPerLine * frame.mcusPerColumn;
+
+  const decodeMcu = (mcu: number) => {
+    const mcuRow = Math.floor(mcu / mcusPerLine);
+    const mcuColumn = mcu % mcusPerLine;
+    if (single) {
+      const { component } = single;
+      decodeBlock(
+        reader,
+        single,
+        (mcuRow * component.paddedBlocksPerLine + mcuColumn) * 64,
+      );
+      return;
+    }
+
+    for (const scanComponent of scanComponents) {
+      const { component } = scanComponent;
+      for (let v = 0; v < component.verticalSampling; v += 1) {
+        for (let h = 0; h < component.horizontalSampling; h += 1) {
+          const blockRow = mcuRow * component.verticalSampling + v;
+          const blockColumn = mcuColumn * component.horizontalSampling + h;
+          decodeBlock(
+            reader,
+            scanComponent,
+            (blockRow * component.paddedBlocksPerLine + blockColumn) * 64,
+          );
+        }
+      }
+    }
+  };
+
+  let mcu = 0;
+  let isComplete = true;
+  while (mcu < totalMcus) {
+    const intervalEnd =
+      restartInterval > 0
+        ? Math.min(totalMcus, mcu + restartInterval)
+        : totalMcus;
+    for (const scanComponent of scanComponents) {
+      scanComponent.prediction = 0;
+    }
+    for (; mcu < intervalEnd; mcu += 1) {
+      if (onProgress && mcu % mcusPerLine === 0) {
+        onProgress(mcu / totalMcus);
+      }
+      decodeMcu(mcu);
+    }
+    if (reader.isExhausted) {
+      isComplete = false;
+    }
+    if (mcu < totalMcus && !consumeRestartMarker(reader)) {
+      isComplete = false;
+    }
+  }
+  return isComplete;
+}
+
+// Parses every table in one DQT segment body; stops at a truncated table.
+export function readDqtTables(
+  bytes: Uint8Array,
+  offset: number,
+  endOffset: number,
+): JpegQuantizationTable[] {
+  const tables: JpegQuantizationTable[] = [];
+  let position = offset;
+  while (position < endOffset) {
+    const precision = bytes[position] >> 4 === 0 ? 8 : 16;
+    const entrySize = precision / 8;
+    if (position + 1 + 64 * entrySize > endOffset) {
+      break;
+    }
+    const values = new Uint16Array(64);
+    for (let index = 0; index < 64; index += 1) {
+      const entryOffset = position + 1 + index * entrySize;
+      values[JPEG_ZIGZAG[index]] =
+        precision === 16
+          ? readUint16BE(bytes, entryOffset)
+          : bytes[entryOffset];
+    }
+    tables.push({ id: bytes[position] & 0x0f, precision, values });
+    position += 1 + 64 * entrySize;
+  }
+  return tables;
+}
+
+function parseFrame(bytes: Uint8Array, offset: number, marker: number) {
+  const precision = bytes[offset];
+  const height = readUint16BE(bytes, offset + 1);
+  const width = readUint16BE(bytes, offset + 3);
+  const componentCount = bytes[offset + 5];
+  if (width === 0 || height === 0) {
+    throw new Error("JPEG frame has no dimensions (DNL is not supported).");
+  }
+
+  const sampling: Array<[number, number, number, number]> = [];
+  for (let index = 0; index < componentCount; index += 1) {
+    const base = offset + 6 + index * 3;
+    const factors = bytes[base + 1];
+    sampling.push([bytes[base], factors >> 4, factors & 0x0f, bytes[base + 2]]);
+  }
+  const maxH = Math.max(1, ...sampling.map((entry) => entry[1]));
+  const maxV = Math.max(1, ...sampling.map((entry) => entry[2]));
+  const mcusPerLine = Math.ceil(width / (8 * maxH));
+  const mcusPerColumn = Math.ceil(height / (8 * maxV));
+
+  const totalCoefficients = sampling.reduce(
+    (total, [, h, v]) => total + mcusPerLine * h * mcusPerColumn * v * 64,
+    0,
+  );
+  if (totalCoefficients > MAX_COEFFICIENTS) {
+    throw new Error("JPEG frame is too large to decode coefficients.");
+  }
+
+  const components = sampling.map(
+    ([id, h, v, quantizationTableId]): JpegCoefficientComponent => {
+      const paddedBlocksPerLine = mcusPerLine * h;
+      const paddedBlocksPerColumn = mcusPerColumn * v;
+      return {
+        id,
+        horizontalSampling: h,
+        verticalSampling: v,
+        quantizationTableId,
+        blocksPerLine: Math.ceil(Math.ceil((width * h) / maxH) / 8),
+        blocksPerColumn: Math.ceil(Math.ceil((height * v) / maxV) / 8),
+        paddedBlocksPerLine,
+        paddedBlocksPerColumn,
+        coefficients: new Int16Array(
+          paddedBlocksPerLine * paddedBlocksPerColumn * 64,
+        ),
+      };
+    },
+  );
+
+  return {
+    width,
+    height,
+    precision,
+    isProgressive: marker === 0xc2,
+    mcusPerLine,
+    mcusPerColumn,
+    scanCount: 0,
+    components,
+    quantizationTables: [],
+  } satisfies JpegCoefficients;
+}
+
+export interface JpegCoefficientDecodeResult {
+  coefficients: JpegCoefficients;
+  // Scans whose entropy-coded data ended before every block was decoded.
+  incompleteScans: number;
+}
+
+// Entropy-decode every scan of a Huffman-coded DCT JPEG (baseline, extended
+// sequential or progressive) into quantized coefficients, without the IDCT.
+export function decodeJpegCoefficients(
+  bytes: Uint8Array,
+  onProgress?: ProgressCallback,
+): JpegCoefficientDecodeResult {
+  const walk = walkJpegSegments(bytes);
+  if (!walk) {
+    throw new Error("Not a JPEG file.");
+  }
+
+  const totalScans = walk.segments.filter(
+    (segment) => segment.marker === 0xda,
+  ).length;
+  const dcTables: Array<HuffmanTable | undefined> = [];
+  const acTables: Array<HuffmanTable | undefined> = [];
+  const quantizationTables: Array<Uint16Array | null> = [
+    null,
+    null,
+    null,
+    null,
+  ];
+  let frame: JpegCoefficients | null = null;
+  let restartInterval = 0;
+  let incompleteScans = 0;
+
+  for (const segment of walk.segments) {
+    const { marker, dataOffset, dataLength, endOffset } = segment;
+
+    if (marker === 0xc4) {
+      let offset = dataOffset;
+      while (offset + 17 <= endOffset) {
+        const tableInfo = bytes[offset];
+        const counts = bytes.subarray(offset + 1, offset + 17);
+        const valueCount = counts.reduce((total, count) => total + count, 0);
+        const values = bytes.slice(offset + 17, offset + 17 + valueCount);
+        const table = buildHuffmanTable(counts, values);
+        (tableInfo >> 4 === 0 ? dcTables : acTables)[tableInfo & 0x0f] = table;
+        offset += 17 + valueCount;
+      }
+    } else if (marker === 0xdb) {
+      for (const table of readDqtTables(bytes, dataOffset, endOffset)) {
+        quantizationTables[table.id & 0x03] = table.values;
+      }
+    } else if (marker === 0xdd && dataLength >= 2) {
+      restartInterval = readUint16BE(bytes, dataOffset);
+    } else if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4) {
+      if (marker === 0xc8 || marker === 0xcc) {
+        continue;
+      }
+      if (marker > 0xc2) {
+        throw new Error(
+          `${getJpegMarkerName(marker)[1]} JPEGs are not supported.`,
+        );
+      }
+      if (frame) {
+        throw new Error("Multiple frames are not supported.");
+      }
+      frame = parseFrame(bytes, dataOffset, marker);
+    } else if (marker === 0xda) {
+      if (!frame) {
+        throw new Error("Scan found before the frame header.");
+      }
+
+      const scanFrame: JpegCoefficients = frame;
+      const componentCount = bytes[dataOffset];
+      const scanComponents: ScanComponent[] = [];
+      for (let index = 0; index < componentCount; index += 1) {
+        const base = dataOffset + 1 + index * 2;
+        const component = scanFrame.components.find(
+          (entry) => entry.id === bytes[base],
+        );
+        if (!component) {
+          throw new Error(`Scan references unknown component ${bytes[base]}.`);
+        }
+        scanComponents.push({
+          component,
+          dcTable: dcTables[bytes[base + 1] >> 4],
+          acTable: acTables[bytes[base + 1] & 0x0f],
+          prediction: 0,
+        });
+      }
+
+      const parametersOffset = dataOffset + 1 + componentCount * 2;
+      const parameters: ScanParameters = scanFrame.isProgressive
+        ? {
+            spectralStart: bytes[parametersOffset],
+            spectralEnd: Math.min(63, bytes[parametersOffset + 1]),
+            approximationHigh: bytes[parametersOffset + 2] >> 4,
+            approximationLow: bytes[parametersOffset + 2] & 0x0f,
+          }
+        : {
+            spectralStart: 0,
+            spectralEnd: 63,
+            approximationHigh: 0,
+            approximationLow: 0,
+          };
+      if (parameters.spectralStart > 0 && scanComponents.length !== 1) {
+        throw new Error(
+          "Progressive AC scans must have exactly one component.",
+        );
+      }
+
+      const scanIndex = scanFrame.scanCount;
+      const isComplete = decodeScan(
+        bytes,
+        endOffset,
+        scanFrame,
+        scanComponents,
+        restartInterval,
+        scanFrame.isProgressive
+          ? createProgressiveDecoder(parameters)
+          : decodeBaselineBlock,
+        onProgress
+          ? (fraction) => onProgress((scanIndex + fraction) / totalScans)
+          : undefined,
+      );
+      scanFrame.scanCount += 1;
+      if (!isComplete) {
+        incompleteScans += 1;
+      }
+    }
+  }
+
+  if (!frame) {
+    throw new Error("JPEG has no frame header.");
+  }
+  if (frame.scanCount === 0) {
+    throw new Error("JPEG has no scan data.");
+  }
+  frame.quantizationTables = quantizationTables;
+  return { coefficients: frame, incompleteScans };
+}
+
+export type DctCoefficientOrder = "component" | "mcu";
+
+export interface DctStreamOptions {
+  // "component": every block of component 1, then 2, ...; "mcu": interleaved
+  // in entropy-coding order, which is where JSteg embeds while encoding.
+  order: DctCoefficientOrder;
+  includeDc: boolean;
+  bytePackOrder: ExtractionBytePackOrder;
+}
+
+export interface ExtractedDctStream {
+  bytes: Uint8Array;
+  totalBits: number;
+  totalBytes: number;
+  // Coefficients visited, including the skipped 0/1 values.
+  totalCoefficients: number;
+}
+
+// Visit block offsets (into component.coefficients) in the requested order;
+// stop early when the visitor returns true.
+export function visitJpegBlocks(
+  coefficients: JpegCoefficients,
+  order: DctCoefficientOrder,
+  visit: (component: JpegCoefficientComponent, blockOffset: number) => boolean,
+): void {
+  const { components } = coefficients;
+  if (order === "component" || components.length === 1) {
+    for (const component of components) {
+      for (let row = 0; row < component.blocksPerColumn; row += 1) {
+        for (let column = 0; column < component.blocksPerLine; column += 1) {
+          const blockOffset =
+            (row * component.paddedBlocksPerLine + column) * 64;
+          if (visit(component, blockOffset)) {
+            return;
+          }
+        }
+      }
+    }
+    return;
+  }
+
+  for (let mcuRow = 0; mcuRow < coefficients.mcusPerColumn; mcuRow += 1) {
+    for (
+      let mcuColumn = 0;
+      mcuColumn < coefficients.mcusPerLine;
+      mcuColumn += 1
+    ) {
+      for (const component of components) {
+        for (let v = 0; v < component.verticalSampling; v += 1) {
+          for (let h = 0; h < component.horizontalSampling; h += 1) {
+            const blockRow = mcuRow * component.verticalSampling + v;
+            const blockColumn = mcuColumn * component.horizontalSampling + h;
+            const blockOffset =
+              (blockRow * component.paddedBlocksPerLine + blockColumn) * 64;
+            if (visit(component, blockOffset)) {
+              return;
+            }
+          }
+        }
+      }
+    }
+  }
+}
+
+// JSteg-style stream: the LSB of every coefficient in zigzag order, skipping
+// coefficients equal to 0 or 1 (JSteg never embeds in those).
+export function extractDctCoefficientStream(
+  coefficients: JpegCoefficients,
+  options: DctStreamOptions,
+  maxBytes: number,
+  onProgress?: ProgressCallback,
+): ExtractedDctStream {
+  const firstPosition = options.includeDc ? 0 : 1;
+  let totalBits = 0;
+  let totalCoefficients = 0;
+  visitJpegBlocks(coefficients, options.order, (component, blockOffset) => {
+    for (let position = firstPosition; position < 64; position += 1) {
+      const value = component.coefficients[blockOffset + JPEG_ZIGZAG[position]];
+      if (value !== 0 && value !== 1) {
+        totalBits += 1;
+      }
+    }
+    totalCoefficients += 64 - firstPosition;
+    return false;
+  });
+
+  const totalBytes = Math.ceil(totalBits / 8);
+  const bytes = new Uint8Array(Math.min(totalBytes, Math.max(0, maxBytes)));
+  const bitsToPack = Math.min(totalBits, bytes.length * 8);
+  if (bitsToPack === 0) {
+    return { bytes, totalBits, totalBytes, totalCoefficients };
+  }
+
+  let emittedBits = 0;
+  let visitedBlocks = 0;
+  visitJpegBlocks(coefficients, options.order, (component, blockOffset) => {
+    if (onProgress && visitedBlocks % 1024 === 0) {
+      onProgress(emittedBits / bitsToPack);
+    }
+    visitedBlocks += 1;
+
+    for (let position = firstPosition; position < 64; position += 1) {
+      const value = component.coefficients[blockOffset + JPEG_ZIGZAG[position]];
+      if (value === 0 || value === 1) {
+        continue;
+      }
+      if (value & 1) {
+        const bitPositionInByte =
+          options.bytePackOrder === "msb-first"
+            ? 7 - (emittedBits & 0b111)
+            : emittedBits & 0b111;
+        bytes[emittedBits >> 3] |= 1 << bitPositionInByte;
+      }
+      emittedBits += 1;
+      if (emittedBits >= bitsToPack) {
+        return true;
+      }
+    }
+    return false;
+  });
+
+  return { bytes, totalBits, totalBytes, totalCoefficients };
+}
@@ -0,0 +1,217 @@
+import { readDqtTables, type JpegQuantizationTable } from "./jpegDct";
+import { walkJpegSegments } from "./jpegSegments";
+
+// ITU-T T.81 Annex K tables (natural order); libjpeg scales these by quality.
+const IJG_LUMINANCE = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55, 14, 13, 16,
+  24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62, 18, 22, 37, 56, 68, 109,
+  103, 77, 24, 35, 55, 64, 81, 104, 113, 92, 49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99,
+];
+const IJG_CHROMINANCE = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99, 24, 26, 56,
+  99, 99, 99, 99, 99, 47, 66, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99,
+];
+// Adobe Photoshop "Save As" at quality 12 (Maximum), natural order. Photoshop
+// does not scale the Annex K tables, so these never match an IJG quality.
+const PHOTOSHOP_MAXIMUM_LUMINANCE = [
+  1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 2, 1, 1,
+  1, 1, 1, 1, 2, 2, 1, 1, 1, 1, 1, 2, 2, 3, 1, 1, 1, 1, 2, 2, 3, 3, 1, 1, 1, 2,
+  2, 3, 3, 3, 1, 1, 2, 2, 3, 3, 3, 3,
+];
+const PHOTOSHOP_MAXIMUM_CHROMINANCE = [
+  1, 1, 1, 2, 2, 3, 3, 3, 1, 1, 1, 2, 3, 3, 3, 3, 1, 1, 1, 3, 3, 3, 3, 3, 2, 2,
+  3, 3, 3, 3, 3, 3, 2, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3,
+  3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3,
+];
+
+// Who writes a table: general-purpose encoders or image editors. Camera and
+// phone firmware tables are not bundled, so a match always means software.
+export type QuantizationTableSource = "encoder" | "editor";
+
+export interface IjgQualityEstimate {
+  quality: number;
+  // True when the table is exactly the scaled IJG table for this quality.
+  isExact: boolean;
+  // Mean absolute difference from that scaled table.
+  meanError: number;
+}
+
+export interface JpegQuantizationComponent {
+  componentId: number;
+  tableId: number;
+  // Null when the frame references a table the file never defines.
+  estimate: IjgQualityEstimate | null;
+}
+
+export interface KnownQuantizationTables {
+  name: string;
+  source: QuantizationTableSource;
+  // On the writer's own scale (1-100 for libjpeg, 0-12 for Photoshop).
+  quality: number;
+  // Table for the first component, then the one shared by the others.
+  luminance: Uint16Array;
+  chrominance: Uint16Array;
+}
+
+export interface JpegQuantizationAnalysis {
+  tables: JpegQuantizationTable[];
+  components: JpegQuantizationComponent[];
+  match: KnownQuantizationTables | null;
+}
+
+// libjpeg's jpeg_quality_scaling + jpeg_add_quant_table.
+export function buildIjgTable(
+  isLuminance: boolean,
+  quality: number,
+  maxValue = 255,
+): Uint16Array {
+  const clamped = Math.min(100, Math.max(1, Math.round(quality)));
+  const scale = clamped < 50 ? Math.floor(5000 / clamped) : 200 - clamped * 2;
+  const base = isLuminance ? IJG_LUMINANCE : IJG_CHROMINANCE;
+  return Uint16Array.from(base, (value) =>
+    Math.min(maxValue, Math.max(1, Math.floor((value * scale + 50) / 100))),
+  );
+}
+
+export function estimateIjgQuality(
+  values: Uint16Array,
+  isLuminance: boolean,
+  maxValue = 255,
+): IjgQualityEstimate {
+  let best: IjgQualityEstimate = {
+    quality: 1,
+    isExact: false,
+    meanError: Infinity,
+  };
+  for (let quality = 1; quality <= 100; quality += 1) {
+    const reference = buildIjgTable(isLuminance, quality, maxValue);
+    let error = 0;
+    for (let index = 0; index < 64; index += 1) {
+      error += Math.abs(values[index] - reference[index]);
+    }
+    // Ties (e.g. saturated tables at low quality) keep the higher quality.
+    if (error / 64 <= best.meanError) {
+      best = { quality, isExact: error === 0, meanError: error / 64 };
+    }
+  }
+  return best;
+}
+
+let knownTables: KnownQuantizationTables[] | null = null;
+
+// The IJG family covers libjpeg, libjpeg-turbo, ImageMagick, GIMP, Pillow and
+// most web encoders, which emit these tables unchanged.
+export function getKnownQuantizationTables(): KnownQuantizationTables[] {
+  knownTables ??= [
+    ...Array.from({ length: 100 }, (_, index) => ({
+      name: `libjpeg (IJG) quality ${index + 1}`,
+      source: "encoder" as const,
+      quality: index + 1,
+      luminance: buildIjgTable(true, index + 1),
+      chrominance: buildIjgTable(false, index + 1),
+    })),
+    {
+      name: "Adobe Photoshop quality 12",
+      source: "editor",
+      quality: 12,
+      luminance: Uint16Array.from(PHOTOSHOP_MAXIMUM_LUMINANCE),
+      chrominance: Uint16Array.from(PHOTOSHOP_MAXIMUM_CHROMINANCE),
+    },
+  ];
+  return knownTables;
+}
+
+function tablesEqual(left: Uint16Array, right: Uint16Array): boolean {
+  return left.every((value, index) => value === right[index]);
+}
+
+function findKnownTables(
+  components: JpegQuantizationComponent[],
+  tablesById: Map<number, JpegQuantizationTable>,
+): KnownQuantizationTables | null {
+  const used = components
+    .map((component) => tablesById.get(component.tableId))
+    .filter((table): table is JpegQuantizationTable => table !== undefined);
+  if (used.length === 0 || used.length !== components.length) {
+    return null;
+  }
+
+  return (
+    getKnownQuantizationTables().find((known) =>
+      used.every((table, index) =>
+        tablesEqual(
+          table.values,
+          index === 0 ? known.luminance : known.chrominance,
+        ),
+      ),
+    ) ?? null
+  );
+}
+
+// Collects the tables in effect for the first frame and rates each
+// component's table against the IJG scaling; null for non-JPEG input.
+export function analyzeJpegQuantization(
+  bytes: Uint8Array,
+): JpegQuantizationAnalysis | null {
+  const walk = walkJpegSegments(bytes);
+  if (!walk) {
+    return null;
+  }
+
+  const tablesById = new Map<number, JpegQuantizationTable>();
+  const componentTables: Array<{ componentId: number; tableId: number }> = [];
+  for (const segment of walk.segments) {
+    const { marker, dataOffset, endOffset } = segment;
+    if (marker === 0xda) {
+      break;
+    }
+    if (marker === 0xdb) {
+      for (const table of readDqtTables(bytes, dataOffset, endOffset)) {
+        tablesById.set(table.id, table);
+      }
+    } else if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc &&
+      componentTables.length === 0
+    ) {
+      const componentCount = bytes[dataOffset + 5] ?? 0;
+      for (let index = 0; index < componentCount; index += 1) {
+        const componentOffset = dataOffset + 6 + index * 3;
+        if (componentOffset + 3 > endOffset) {
+          break;
+        }
+        componentTables.push({
+          componentId: bytes[componentOffset],
+          tableId: bytes[componentOffset + 2],
+        });
+      }
+    }
+  }
+
+  const components = componentTables.map(({ componentId, tableId }, index) => {
+    const table = tablesById.get(tableId);
+    return {
+      componentId,
+      tableId,
+      estimate: table
+        ? estimateIjgQuality(
+            table.values,
+            index === 0,
+            table.precision === 16 ? 32767 : 255,
+          )
+        : null,
+    };
+  });
+
+  return {
+    tables: [...tablesById.values()].sort((left, right) => left.id - right.id),
+    components,
+    match: findKnownTables(components, tablesById),
+  };
+}
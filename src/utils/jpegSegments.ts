@@ -0,0 +1,638 @@
+import {
+  clipText,
+  decodeLatin1,
+  formatHexPreview,
+  readNullTerminated,
+  readUint16BE,
+  readUint32BE,
+  type StructureField,
+} from "./byteFields";
+
+const JFIF_UNITS = ["none (aspect ratio)", "dots per inch", "dots per cm"];
+const ADOBE_TRANSFORMS = ["Unknown (RGB/CMYK)", "YCbCr", "YCCK"];
+const SOF_DESCRIPTIONS: Record<number, string> = {
+  0xc0: "Baseline DCT",
+  0xc1: "Extended sequential DCT",
+  0xc2: "Progressive DCT",
+  0xc3: "Lossless",
+  0xc5: "Differential sequential DCT",
+  0xc6: "Differential progressive DCT",
+  0xc7: "Differential lossless",
+  0xc9: "Extended sequential DCT, arithmetic",
+  0xca: "Progressive DCT, arithmetic",
+  0xcb: "Lossless, arithmetic",
+  0xcd: "Differential sequential DCT, arithmetic",
+  0xce: "Differential progressive DCT, arithmetic",
+  0xcf: "Differential lossless, arithmetic",
+};
+const MARKER_NAMES: Record<number, [string, string]> = {
+  0x01: ["TEM", "Temporary"],
+  0xc4: ["DHT", "Define Huffman tables"],
+  0xc8: ["JPG", "Reserved extension"],
+  0xcc: ["DAC", "Define arithmetic coding conditioning"],
+  0xd8: ["SOI", "Start of image"],
+  0xd9: ["EOI", "End of image"],
+  0xda: ["SOS", "Start of scan"],
+  0xdb: ["DQT", "Define quantization tables"],
+  0xdc: ["DNL", "Define number of lines"],
+  0xdd: ["DRI", "Define restart interval"],
+  0xde: ["DHP", "Define hierarchical progression"],
+  0xdf: ["EXP", "Expand reference components"],
+  0xfe: ["COM", "Comment"],
+};
+const PHOTOSHOP_RESOURCE_NAMES: Record<number, string> = {
+  0x03ed: "Resolution info",
+  0x0404: "IPTC-NAA",
+  0x0409: "Thumbnail (legacy)",
+  0x040c: "Thumbnail",
+  0x040f: "ICC profile",
+  0x0422: "Exif data",
+  0x0424: "XMP",
+  0x0425: "Caption digest",
+};
+const XMP_IDENTIFIER = "http://ns.adobe.com/xap/1.0/";
+const EXTENDED_XMP_IDENTIFIER = "http://ns.adobe.com/xmp/extension/";
+
+export interface JpegMarkerLocation {
+  // Offset of the 0xFF byte that introduces the marker.
+  offset: number;
+  marker: number;
+  // Body start (after the 2-byte length); equals endOffset for standalone markers.
+  dataOffset: number;
+  dataLength: number;
+  endOffset: number;
+}
+
+export interface JpegSegmentWalk {
+  segments: JpegMarkerLocation[];
+  // Offset just past EOI, or null when EOI was never reached.
+  eoiEndOffset: number | null;
+  // Set when a marker or segment runs past the end of the buffer.
+  isTruncated: boolean;
+}
+
+export interface JpegSegment extends JpegMarkerLocation {
+  index: number;
+  name: string;
+  description: string;
+  // Consecutive RSTn markers are collapsed into one entry.
+  count: number;
+  fields: StructureField[];
+  warnings: string[];
+}
+
+export interface JpegSegmentInspection {
+  segments: JpegSegment[];
+  eoiEndOffset: number | null;
+  isTruncated: boolean;
+  warnings: string[];
+}
+
+function isRestartMarker(marker: number): boolean {
+  return marker >= 0xd0 && marker <= 0xd7;
+}
+
+function isStandaloneMarker(marker: number): boolean {
+  return marker === 0xd8 || marker === 0x01 || isRestartMarker(marker);
+}
+
+// Marker walk shared with trailing-data detection. Bytes between markers
+// (entropy-coded scan data, stuffed 0xFF00 pairs, fill bytes) are skipped.
+export function walkJpegSegments(bytes: Uint8Array): JpegSegmentWalk | null {
+  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+    return null;
+  }
+
+  const segments: JpegMarkerLocation[] = [
+    { offset: 0, marker: 0xd8, dataOffset: 2, dataLength: 0, endOffset: 2 },
+  ];
+  const truncated = (): JpegSegmentWalk => ({
+    segments,
+    eoiEndOffset: null,
+    isTruncated: true,
+  });
+
+  let offset = 2;
+  while (offset + 1 < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      offset += 1;
+      continue;
+    }
+
+    let markerOffset = offset + 1;
+    while (markerOffset < bytes.length && bytes[markerOffset] === 0xff) {
+      markerOffset += 1;
+    }
+
+    if (markerOffset >= bytes.length) {
+      return truncated();
+    }
+
+    const marker = bytes[markerOffset];
+
+    if (marker === 0x00) {
+      offset = markerOffset + 1;
+      continue;
+    }
+
+    if (marker === 0xd9 || isStandaloneMarker(marker)) {
+      segments.push({
+        offset: markerOffset - 1,
+        marker,
+        dataOffset: markerOffset + 1,
+        dataLength: 0,
+        endOffset: markerOffset + 1,
+      });
+      if (marker === 0xd9) {
+        return {
+          segments,
+          eoiEndOffset: markerOffset + 1,
+          isTruncated: false,
+        };
+      }
+      offset = markerOffset + 1;
+      continue;
+    }
+
+    if (markerOffset + 2 >= bytes.length) {
+      return truncated();
+    }
+
+    const segmentLength = readUint16BE(bytes, markerOffset + 1);
+    const segmentEnd = markerOffset + 1 + segmentLength;
+    if (segmentLength < 2 || segmentEnd > bytes.length) {
+      return truncated();
+    }
+
+    segments.push({
+      offset: markerOffset - 1,
+      marker,
+      dataOffset: markerOffset + 3,
+      dataLength: segmentLength - 2,
+      endOffset: segmentEnd,
+    });
+    offset = segmentEnd;
+  }
+
+  return { segments, eoiEndOffset: null, isTruncated: false };
+}
+
+export function getJpegMarkerName(marker: number): [string, string] {
+  if (MARKER_NAMES[marker]) {
+    return MARKER_NAMES[marker];
+  }
+  if (SOF_DESCRIPTIONS[marker]) {
+    return [`SOF${marker - 0xc0}`, SOF_DESCRIPTIONS[marker]];
+  }
+  if (isRestartMarker(marker)) {
+    return [`RST${marker - 0xd0}`, "Restart"];
+  }
+  if (marker >= 0xe0 && marker <= 0xef) {
+    return [`APP${marker - 0xe0}`, "Application data"];
+  }
+  if (marker >= 0xf0 && marker <= 0xfd) {
+    return [`JPG${marker - 0xf0}`, "Reserved extension"];
+  }
+  return [
+    `0x${marker.toString(16).toUpperCase().padStart(2, "0")}`,
+    "Reserved",
+  ];
+}
+
+function startsWith(data: Uint8Array, identifier: string): boolean {
+  if (data.length < identifier.length) {
+    return false;
+  }
+  for (let index = 0; index < identifier.length; index += 1) {
+    if (data[index] !== identifier.charCodeAt(index)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function formatByteSize(length: number): string {
+  return `${length.toLocaleString()} bytes`;
+}
+
+function formatTiffByteOrder(data: Uint8Array, offset: number): string {
+  const order = decodeLatin1(data.subarray(offset, offset + 2));
+  return order === "II"
+    ? "II (little-endian)"
+    : order === "MM"
+      ? "MM (big-endian)"
+      : "unknown";
+}
+
+interface DecodedSegment {
+  description?: string;
+  fields: StructureField[];
+}
+
+function decodeApp0(data: Uint8Array, warnings: string[]): DecodedSegment {
+  if (startsWith(data, "JFIF\0")) {
+    if (data.length < 14) {
+      warnings.push("JFIF header is shorter than 14 bytes.");
+      return { description: "JFIF", fields: [] };
+    }
+    const thumbnailWidth = data[12];
+    const thumbnailHeight = data[13];
+    return {
+      description: "JFIF",
+      fields: [
+        { label: "Version", value: `${data[5]}.${data[6]}` },
+        { label: "Units", value: JFIF_UNITS[data[7]] ?? String(data[7]) },
+        {
+          label: "Density",
+          value: `${readUint16BE(data, 8)} x ${readUint16BE(data, 10)}`,
+        },
+        {
+          label: "Thumbnail",
+          value: `${thumbnailWidth} x ${thumbnailHeight} (${formatByteSize(3 * thumbnailWidth * thumbnailHeight)})`,
+        },
+      ],
+    };
+  }
+  if (startsWith(data, "JFXX\0")) {
+    return {
+      description: "JFIF extension",
+      fields: [
+        {
+          label: "Extension code",
+          value: `0x${(data[5] ?? 0).toString(16).padStart(2, "0")}`,
+        },
+      ],
+    };
+  }
+  return decodeUnknownApp(data);
+}
+
+function decodeApp1(data: Uint8Array): DecodedSegment {
+  if (startsWith(data, "Exif\0")) {
+    return {
+      description: "Exif",
+      fields: [
+        { label: "Byte order", value: formatTiffByteOrder(data, 6) },
+        {
+          label: "TIFF size",
+          value: formatByteSize(Math.max(0, data.length - 6)),
+        },
+      ],
+    };
+  }
+  if (startsWith(data, `${XMP_IDENTIFIER}\0`)) {
+    const packet = data.subarray(XMP_IDENTIFIER.length + 1);
+    return {
+      description: "XMP",
+      fields: [
+        { label: "Packet size", value: formatByteSize(packet.length) },
+        {
+          label: "Packet",
+          value: clipText(new TextDecoder("utf-8").decode(packet)),
+        },
+      ],
+    };
+  }
+  if (startsWith(data, `${EXTENDED_XMP_IDENTIFIER}\0`)) {
+    const start = EXTENDED_XMP_IDENTIFIER.length + 1;
+    return {
+      description: "Extended XMP",
+      fields: [
+        {
+          label: "GUID",
+          value: decodeLatin1(data.subarray(start, start + 32)),
+        },
+        {
+          label: "Full length",
+          value: formatByteSize(readUint32BE(data, start + 32)),
+        },
+        {
+          label: "Chunk offset",
+          value: readUint32BE(data, start + 36).toLocaleString(),
+        },
+      ],
+    };
+  }
+  return decodeUnknownApp(data);
+}
+
+function decodeApp2(data: Uint8Array): DecodedSegment {
+  if (!startsWith(data, "ICC_PROFILE\0") || data.length < 14) {
+    return decodeUnknownApp(data);
+  }
+
+  const fields: StructureField[] = [
+    { label: "Chunk", value: `${data[12]} of ${data[13]}` },
+    { label: "Chunk size", value: formatByteSize(data.length - 14) },
+  ];
+  if (data[12] === 1 && data.length >= 14 + 20) {
+    const header = data.subarray(14);
+    fields.push(
+      { label: "Profile size", value: formatByteSize(readUint32BE(header, 0)) },
+      { label: "Version", value: `${header[8]}.${header[9] >> 4}` },
+      { label: "Device class", value: decodeLatin1(header.subarray(12, 16)) },
+      { label: "Color space", value: decodeLatin1(header.subarray(16, 20)) },
+    );
+  }
+  return { description: "ICC profile", fields };
+}
+
+function decodeApp13(data: Uint8Array, warnings: string[]): DecodedSegment {
+  if (!startsWith(data, "Photoshop 3.0\0")) {
+    return decodeUnknownApp(data);
+  }
+
+  const resources: string[] = [];
+  let offset = 14;
+  while (
+    offset + 12 <= data.length &&
+    startsWith(data.subarray(offset), "8BIM")
+  ) {
+    const resourceId = readUint16BE(data, offset + 4);
+    const nameLength = data[offset + 6];
+    // Pascal name (length byte + text) is padded to an even size.
+    const sizeOffset = offset + 6 + ((nameLength + 2) & ~1);
+    if (sizeOffset + 4 > data.length) {
+      break;
+    }
+    const size = readUint32BE(data, sizeOffset);
+    const name =
+      PHOTOSHOP_RESOURCE_NAMES[resourceId] ??
+      `0x${resourceId.toString(16).toUpperCase().padStart(4, "0")}`;
+    resources.push(`${name} (${formatByteSize(size)})`);
+    offset = sizeOffset + 4 + size + (size & 1);
+  }
+
+  if (offset < data.length) {
+    warnings.push(
+      `${formatByteSize(data.length - offset)} after the last 8BIM resource.`,
+    );
+  }
+  return {
+    description: "Photoshop IRB",
+    fields: [
+      { label: "Resources", value: resources.length.toString() },
+      ...(resources.length > 0
+        ? [{ label: "Resource list", value: resources.join(", ") }]
+        : []),
+    ],
+  };
+}
+
+function decodeApp14(data: Uint8Array): DecodedSegment {
+  if (!startsWith(data, "Adobe") || data.length < 12) {
+    return decodeUnknownApp(data);
+  }
+  return {
+    description: "Adobe",
+    fields: [
+      { label: "DCT encode version", value: String(readUint16BE(data, 5)) },
+      {
+        label: "Flags",
+        value: `0x${readUint16BE(data, 7).toString(16).padStart(4, "0")} / 0x${readUint16BE(data, 9).toString(16).padStart(4, "0")}`,
+      },
+      {
+        label: "Color transform",
+        value: ADOBE_TRANSFORMS[data[11]] ?? String(data[11]),
+      },
+    ],
+  };
+}
+
+function decodeUnknownApp(data: Uint8Array): DecodedSegment {
+  const identifier = readNullTerminated(data.subarray(0, 64), 0);
+  const fields: StructureField[] = [];
+  if (identifier && /^[\x20-\x7e]+$/.test(identifier.value)) {
+    fields.push({ label: "Identifier", value: identifier.value });
+  }
+  if (data.length > 0) {
+    fields.push({ label: "Data", value: formatHexPreview(data) });
+  }
+  return { fields };
+}
+
+function decodeDqt(data: Uint8Array, warnings: string[]): DecodedSegment {
+  const tables: string[] = [];
+  let offset = 0;
+  while (offset < data.length) {
+    const precision = data[offset] >> 4;
+    const size = 1 + 64 * (precision ? 2 : 1);
+    if (offset + size > data.length) {
+      warnings.push("DQT table runs past the end of the segment.");
+      break;
+    }
+    tables.push(`${data[offset] & 0x0f} (${precision ? 16 : 8}-bit)`);
+    offset += size;
+  }
+  return { fields: [{ label: "Tables", value: tables.join(", ") || "none" }] };
+}
+
+function decodeDht(data: Uint8Array, warnings: string[]): DecodedSegment {
+  const tables: string[] = [];
+  let offset = 0;
+  while (offset < data.length) {
+    if (offset + 17 > data.length) {
+      warnings.push("DHT table header runs past the end of the segment.");
+      break;
+    }
+    let symbolCount = 0;
+    for (let index = 1; index <= 16; index += 1) {
+      symbolCount += data[offset + index];
+    }
+    if (offset + 17 + symbolCount > data.length) {
+      warnings.push("DHT symbols run past the end of the segment.");
+      break;
+    }
+    const tableClass = data[offset] >> 4 ? "AC" : "DC";
+    tables.push(
+      `${tableClass} ${data[offset] & 0x0f} (${symbolCount} symbols)`,
+    );
+    offset += 17 + symbolCount;
+  }
+  return { fields: [{ label: "Tables", value: tables.join(", ") || "none" }] };
+}
+
+function decodeSof(data: Uint8Array, warnings: string[]): DecodedSegment {
+  const componentCount = data[5] ?? 0;
+  if (data.length < 6 + componentCount * 3) {
+    warnings.push("Frame header is truncated.");
+    return { fields: [] };
+  }
+
+  const components: string[] = [];
+  for (let index = 0; index < componentCount; index += 1) {
+    const offset = 6 + index * 3;
+    components.push(
+      `#${data[offset]} ${data[offset + 1] >> 4}x${data[offset + 1] & 0x0f} Q${data[offset + 2]}`,
+    );
+  }
+  return {
+    fields: [
+      { label: "Precision", value: `${data[0]} bits` },
+      {
+        label: "Dimensions",
+        value: `${readUint16BE(data, 3)} x ${readUint16BE(data, 1)}`,
+      },
+      { label: "Components", value: components.join(", ") },
+    ],
+  };
+}
+
+function decodeSos(data: Uint8Array, warnings: string[]): DecodedSegment {
+  const componentCount = data[0] ?? 0;
+  if (data.length < 4 + componentCount * 2) {
+    warnings.push("Scan header is truncated.");
+    return { fields: [] };
+  }
+
+  const components: string[] = [];
+  for (let index = 0; index < componentCount; index += 1) {
+    const offset = 1 + index * 2;
+    components.push(
+      `#${data[offset]} DC${data[offset + 1] >> 4} AC${data[offset + 1] & 0x0f}`,
+    );
+  }
+  const spectralOffset = 1 + componentCount * 2;
+  return {
+    fields: [
+      { label: "Components", value: components.join(", ") },
+      {
+        label: "Spectral selection",
+        value: `${data[spectralOffset]}-${data[spectralOffset + 1]}`,
+      },
+      {
+        label: "Successive approximation",
+        value: `Ah ${data[spectralOffset + 2] >> 4}, Al ${data[spectralOffset + 2] & 0x0f}`,
+      },
+    ],
+  };
+}
+
+function decodeSegment(
+  marker: number,
+  data: Uint8Array,
+  warnings: string[],
+): DecodedSegment {
+  switch (marker) {
+    case 0xe0:
+      return decodeApp0(data, warnings);
+    case 0xe1:
+      return decodeApp1(data);
+    case 0xe2:
+      return decodeApp2(data);
+    case 0xed:
+      return decodeApp13(data, warnings);
+    case 0xee:
+      return decodeApp14(data);
+    case 0xfe:
+      return {
+        fields: [{ label: "Text", value: clipText(decodeLatin1(data)) }],
+      };
+    case 0xdb:
+      return decodeDqt(data, warnings);
+    case 0xc4:
+      return decodeDht(data, warnings);
+    case 0xda:
+      return decodeSos(data, warnings);
+    case 0xdd:
+      return {
+        fields: [
+          {
+            label: "Restart interval",
+            value: `${readUint16BE(data, 0)} MCUs`,
+          },
+        ],
+      };
+  }
+
+  if (SOF_DESCRIPTIONS[marker]) {
+    return decodeSof(data, warnings);
+  }
+  if (marker >= 0xe0 && marker <= 0xef) {
+    return decodeUnknownApp(data);
+  }
+  return {
+    fields:
+      data.length > 0 ? [{ label: "Data", value: formatHexPreview(data) }] : [],
+  };
+}
+
+export function inspectJpegSegments(
+  bytes: Uint8Array,
+): JpegSegmentInspection | null {
+  const walk = walkJpegSegments(bytes);
+  if (!walk) {
+    return null;
+  }
+
+  const segments: JpegSegment[] = [];
+  for (const location of walk.segments) {
+    const previous = segments[segments.length - 1];
+    if (
+      isRestartMarker(location.marker) &&
+      previous &&
+      isRestartMarker(previous.marker)
+    ) {
+      previous.count += 1;
+      previous.endOffset = location.endOffset;
+      previous.description = `Restart markers x${previous.count}`;
+      continue;
+    }
+
+    const [name, defaultDescription] = getJpegMarkerName(location.marker);
+    const warnings: string[] = [];
+    const decoded = decodeSegment(
+      location.marker,
+      bytes.subarray(
+        location.dataOffset,
+        location.dataOffset + location.dataLength,
+      ),
+      warnings,
+    );
+    if (defaultDescription === "Reserved") {
+      warnings.push("Reserved marker code.");
+    }
+
+    segments.push({
+      ...location,
+      index: segments.length,
+      name,
+      description: decoded.description ?? defaultDescription,
+      count: 1,
+      fields: decoded.fields,
+      warnings,
+    });
+  }
+
+  // Report how much entropy-coded data follows each scan header.
+  segments.forEach((segment, index) => {
+    if (segment.marker !== 0xda) {
+      return;
+    }
+    const next = segments
+      .slice(index + 1)
+      .find((candidate) => !isRestartMarker(candidate.marker));
+    const scanEnd = next ? next.offset : bytes.length;
+    segment.fields.push({
+      label: "Entropy-coded data",
+      value: formatByteSize(scanEnd - segment.endOffset),
+    });
+  });
+
+  const warnings: string[] = [];
+  if (walk.isTruncated) {
+    warnings.push("Segment stream is truncated before EOI.");
+  } else if (walk.eoiEndOffset === null) {
+    warnings.push("EOI marker is missing.");
+  }
+  if (!segments.some((segment) => SOF_DESCRIPTIONS[segment.marker])) {
+    warnings.push("No SOF (frame header) segment found.");
+  }
+
+  return {
+    segments,
+    eoiEndOffset: walk.eoiEndOffset,
+    isTruncated: walk.isTruncated,
+    warnings,
+  };
+}
@@ -0,0 +1,527 @@
+import type { ProgressCallback } from "./bitPlane";
+import { chiSquareSurvival, computePairsOfValuesStatistic } from "./chiSquare";
+import { visitJpegBlocks, type JpegCoefficients } from "./jpegDct";
+
+// Histogram bins cover coefficient values -RANGE..RANGE.
+export const DCT_HISTOGRAM_RANGE = 12;
+
+// Natural indexes of the (0,1), (1,0) and (1,1) modes used by the F5 attack.
+const F5_MODES = [1, 8, 9];
+const JSTEG_SAMPLE_COUNT = 32;
+// Even offset so histogram index pairs (2k, 2k+1) are LSB pairs of values.
+const PAIR_HISTOGRAM_OFFSET = 2048;
+const CALIBRATION_CROP = 4;
+const FLIP_SEED = 0x5eed;
+
+const F5_LIKELY_RATE = 0.05;
+const JSTEG_LIKELY_PROBABILITY = 0.5;
+const OUTGUESS_LIKELY_RATE = 0.1;
+
+export type JpegStegMethod = "f5" | "outguess" | "jsteg";
+
+export interface DctFrequencyHistogram {
+  // Natural (row-major) index within the 8x8 block.
+  frequency: number;
+  counts: number[];
+  // Cropped-and-recompressed estimate of the cover, scaled to the same block
+  // count; null when the image has no usable quantization table.
+  calibratedCounts: number[] | null;
+}
+
+export interface JpegDetectorScore {
+  method: JpegStegMethod;
+  label: string;
+  score: number;
+  isLikely: boolean;
+  estimatedBytes: number;
+  detail: string;
+}
+
+export interface JpegSteganalysis {
+  // Component analysed (the first one, i.e. luma for YCbCr files).
+  componentId: number;
+  blockCount: number;
+  nonzeroAcCount: number;
+  // Coefficients other than 0 and 1 across all components (JSteg capacity).
+  usableCoefficientCount: number;
+  histograms: DctFrequencyHistogram[];
+  detectors: JpegDetectorScore[];
+}
+
+interface BlockGrid {
+  coefficients: Int16Array;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  paddedBlocksPerLine: number;
+}
+
+interface SamplePlane {
+  pixels: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// Orthonormal 8-point DCT-II basis: BASIS[u * 8 + x].
+const BASIS = (() => {
+  const basis = new Float64Array(64);
+  for (let u = 0; u < 8; u += 1) {
+    const scale = u === 0 ? Math.SQRT1_2 / 2 : 0.5;
+    for (let x = 0; x < 8; x += 1) {
+      basis[u * 8 + x] = scale * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+    }
+  }
+  return basis;
+})();
+
+function inverseDctBlock(input: ArrayLike<number>, output: Float64Array) {
+  const temp = new Float64Array(64);
+  for (let y = 0; y < 8; y += 1) {
+    for (let u = 0; u < 8; u += 1) {
+      let sum = 0;
+      for (let v = 0; v < 8; v += 1) {
+        sum += BASIS[v * 8 + y] * input[v * 8 + u];
+      }
+      temp[y * 8 + u] = sum;
+    }
+  }
+  for (let y = 0; y < 8; y += 1) {
+    for (let x = 0; x < 8; x += 1) {
+      let sum = 0;
+      for (let u = 0; u < 8; u += 1) {
+        sum += BASIS[u * 8 + x] * temp[y * 8 + u];
+      }
+      output[y * 8 + x] = sum;
+    }
+  }
+}
+
+function forwardDctBlock(input: ArrayLike<number>, output: Float64Array) {
+  const temp = new Float64Array(64);
+  for (let v = 0; v < 8; v += 1) {
+    for (let x = 0; x < 8; x += 1) {
+      let sum = 0;
+      for (let y = 0; y < 8; y += 1) {
+        sum += BASIS[v * 8 + y] * input[y * 8 + x];
+      }
+      temp[v * 8 + x] = sum;
+    }
+  }
+  for (let v = 0; v < 8; v += 1) {
+    for (let u = 0; u < 8; u += 1) {
+      let sum = 0;
+      for (let x = 0; x < 8; x += 1) {
+        sum += BASIS[u * 8 + x] * temp[v * 8 + x];
+      }
+      output[v * 8 + u] = sum;
+    }
+  }
+}
+
+function forEachBlock(
+  grid: BlockGrid,
+  visit: (blockOffset: number, row: number, column: number) => void,
+): void {
+  for (let row = 0; row < grid.blocksPerColumn; row += 1) {
+    for (let column = 0; column < grid.blocksPerLine; column += 1) {
+      visit((row * grid.paddedBlocksPerLine + column) * 64, row, column);
+    }
+  }
+}
+
+// Dequantize and inverse-transform into 8-bit samples, as a decoder would.
+function reconstructPlane(
+  grid: BlockGrid,
+  table: Uint16Array,
+  levelShift: number,
+): SamplePlane {
+  const width = grid.blocksPerLine * 8;
+  const height = grid.blocksPerColumn * 8;
+  const pixels = new Uint8ClampedArray(width * height);
+  const dequantized = new Float64Array(64);
+  const samples = new Float64Array(64);
+
+  forEachBlock(grid, (blockOffset, row, column) => {
+    for (let index = 0; index < 64; index += 1) {
+      dequantized[index] =
+        grid.coefficients[blockOffset + index] * table[index];
+    }
+    inverseDctBlock(dequantized, samples);
+    for (let y = 0; y < 8; y += 1) {
+      const rowStart = (row * 8 + y) * width + column * 8;
+      for (let x = 0; x < 8; x += 1) {
+        pixels[rowStart + x] = samples[y * 8 + x] + levelShift;
+      }
+    }
+  });
+
+  return { pixels, width, height };
+}
+
+// Crop a few pixels so the block grid no longer lines up with the original,
+// then recompress with the same table: a close estimate of the cover.
+function calibratePlane(
+  plane: SamplePlane,
+  table: Uint16Array,
+  levelShift: number,
+): BlockGrid | null {
+  const blocksPerLine = Math.floor((plane.width - CALIBRATION_CROP) / 8);
+  const blocksPerColumn = Math.floor((plane.height - CALIBRATION_CROP) / 8);
+  if (blocksPerLine < 1 || blocksPerColumn < 1) {
+    return null;
+  }
+
+  const grid: BlockGrid = {
+    coefficients: new Int16Array(blocksPerLine * blocksPerColumn * 64),
+    blocksPerLine,
+    blocksPerColumn,
+    paddedBlocksPerLine: blocksPerLine,
+  };
+  const samples = new Float64Array(64);
+  const transformed = new Float64Array(64);
+
+  forEachBlock(grid, (blockOffset, row, column) => {
+    for (let y = 0; y < 8; y += 1) {
+      const rowStart =
+        (row * 8 + y + CALIBRATION_CROP) * plane.width +
+        column * 8 +
+        CALIBRATION_CROP;
+      for (let x = 0; x < 8; x += 1) {
+        samples[y * 8 + x] = plane.pixels[rowStart + x] - levelShift;
+      }
+    }
+    forwardDctBlock(samples, transformed);
+    for (let index = 0; index < 64; index += 1) {
+      grid.coefficients[blockOffset + index] = Math.round(
+        transformed[index] / table[index],
+      );
+    }
+  });
+
+  return grid;
+}
+
+function buildFrequencyHistograms(grid: BlockGrid): number[][] {
+  const histograms = Array.from({ length: 64 }, () =>
+    new Array<number>(DCT_HISTOGRAM_RANGE * 2 + 1).fill(0),
+  );
+  forEachBlock(grid, (blockOffset) => {
+    for (let index = 0; index < 64; index += 1) {
+      const value = grid.coefficients[blockOffset + index];
+      if (Math.abs(value) <= DCT_HISTOGRAM_RANGE) {
+        histograms[index][value + DCT_HISTOGRAM_RANGE] += 1;
+      }
+    }
+  });
+  return histograms;
+}
+
+// Mean absolute step across 8x8 block boundaries.
+function measureBlockiness(plane: SamplePlane): number {
+  let total = 0;
+  let count = 0;
+  for (let y = 0; y < plane.height; y += 1) {
+    for (let x = 7; x + 1 < plane.width; x += 8) {
+      const index = y * plane.width + x;
+      total += Math.abs(plane.pixels[index] - plane.pixels[index + 1]);
+      count += 1;
+    }
+  }
+  for (let y = 7; y + 1 < plane.height; y += 8) {
+    for (let x = 0; x < plane.width; x += 1) {
+      const index = y * plane.width + x;
+      total += Math.abs(
+        plane.pixels[index] - plane.pixels[index + plane.width],
+      );
+      count += 1;
+    }
+  }
+  return count > 0 ? total / count : 0;
+}
+
+// Re-embed a maximal random message: flip the LSB of each coefficient other
+// than 0/1 with probability 1/2 (a seeded xorshift keeps results stable).
+function flipUsableLsbs(grid: BlockGrid): BlockGrid {
+  const coefficients = grid.coefficients.slice();
+  let state = FLIP_SEED;
+  forEachBlock(grid, (blockOffset) => {
+    for (let index = 0; index < 64; index += 1) {
+      const value = coefficients[blockOffset + index];
+      if (value === 0 || value === 1) {
+        continue;
+      }
+      state ^= state << 13;
+      state ^= state >>> 17;
+      state ^= state << 5;
+      if (state & 1) {
+        coefficients[blockOffset + index] = value ^ 1;
+      }
+    }
+  });
+  return { ...grid, coefficients };
+}
+
+function magnitudeCounts(histogram: number[]): [number, number, number] {
+  const center = DCT_HISTOGRAM_RANGE;
+  return [
+    histogram[center],
+    histogram[center - 1] + histogram[center + 1],
+    histogram[center - 2] + histogram[center + 2],
+  ];
+}
+
+function clampUnit(value: number): number {
+  return Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0;
+}
+
+// Fridrich-Goljan-Hogea F5 attack: F5 moves coefficients toward zero, so the
+// stego histogram H relates to the cover estimate h by
+// H(0) = h(0) + b h(1) and H(1) = (1 - b) h(1) + b h(2); solve b per mode by
+// least squares and average.
+function detectF5(
+  histograms: number[][],
+  calibrated: number[][],
+  coverNonzeroAc: number,
+  coverOnes: number,
+): JpegDetectorScore {
+  const rates = F5_MODES.map((mode) => {
+    const [stegoZeros, stegoOnes] = magnitudeCounts(histograms[mode]);
+    const [zeros, ones, twos] = magnitudeCounts(calibrated[mode]);
+    const denominator = ones * ones + (twos - ones) ** 2;
+    return denominator > 0
+      ? (ones * (stegoZeros - zeros) + (stegoOnes - ones) * (twos - ones)) /
+          denominator
+      : 0;
+  });
+  const rate = clampUnit(
+    rates.reduce((total, value) => total + value, 0) / rates.length,
+  );
+
+  // Matrix encoding (1, 2^k - 1, k) changes 1 - 2^-k coefficients per k bits,
+  // and a change that shrinks +-1 to 0 is wasted. F5 picks the largest k whose
+  // capacity still fits the message.
+  const changes = rate * coverNonzeroAc;
+  const shrinkage = coverNonzeroAc > 0 ? coverOnes / coverNonzeroAc : 0;
+  let matrixK = 1;
+  let bits = (changes * (1 - shrinkage)) / 0.5;
+  for (let k = 7; k >= 2; k -= 1) {
+    const candidateBits = (changes * k * (1 - shrinkage)) / (1 - 2 ** -k);
+    const capacity = (coverNonzeroAc * (1 - shrinkage) * k) / (2 ** k - 1);
+    if (candidateBits <= capacity) {
+      matrixK = k;
+      bits = candidateBits;
+      break;
+    }
+  }
+
+  return {
+    method: "f5",
+    label: "F5 (calibrated shrinkage)",
+    score: rate,
+    isLikely: rate >= F5_LIKELY_RATE,
+    estimatedBytes: Math.round(bits / 8),
+    detail: `Modified share of nonzero AC coefficients ${(rate * 100).toFixed(1)}%; matrix encoding k=${matrixK}.`,
+  };
+}
+
+// Westfeld's pairs-of-values chi-square over growing prefixes of the JSteg
+// stream (MCU order, coefficients other than 0/1); sequential embedding keeps
+// the probability high until the payload ends.
+function detectJsteg(
+  coefficients: JpegCoefficients,
+  usableCount: number,
+): JpegDetectorScore {
+  const label = "JSteg (pairs-of-values chi-square)";
+  if (usableCount === 0) {
+    return {
+      method: "jsteg",
+      label,
+      score: 0,
+      isLikely: false,
+      estimatedBytes: 0,
+      detail: "No usable coefficients; every coefficient is 0 or 1.",
+    };
+  }
+
+  const histogram = new Float64Array(PAIR_HISTOGRAM_OFFSET * 2);
+  const sampleSize = Math.max(1, Math.ceil(usableCount / JSTEG_SAMPLE_COUNT));
+  const probabilities: number[] = [];
+  let visited = 0;
+
+  const sample = () => {
+    const { chiSquare, degreesOfFreedom } =
+      computePairsOfValuesStatistic(histogram);
+    probabilities.push(chiSquareSurvival(chiSquare, degreesOfFreedom));
+  };
+
+  visitJpegBlocks(coefficients, "mcu", (component, blockOffset) => {
+    for (let index = 0; index < 64; index += 1) {
+      const value = component.coefficients[blockOffset + index];
+      if (value === 0 || value === 1) {
+        continue;
+      }
+      const bin = value + PAIR_HISTOGRAM_OFFSET;
+      if (bin >= 0 && bin < histogram.length) {
+        histogram[bin] += 1;
+      }
+      visited += 1;
+      if (visited % sampleSize === 0) {
+        sample();
+      }
+    }
+    return false;
+  });
+  if (visited % sampleSize !== 0 || probabilities.length === 0) {
+    sample();
+  }
+
+  let embeddedSamples = 0;
+  while (
+    embeddedSamples < probabilities.length &&
+    probabilities[embeddedSamples] >= JSTEG_LIKELY_PROBABILITY
+  ) {
+    embeddedSamples += 1;
+  }
+  const fraction = Math.min(1, (embeddedSamples * sampleSize) / usableCount);
+  const score = probabilities[0];
+
+  return {
+    method: "jsteg",
+    label,
+    score,
+    isLikely: score >= JSTEG_LIKELY_PROBABILITY,
+    estimatedBytes: Math.round((fraction * usableCount) / 8),
+    detail: `Embedding probability ${(score * 100).toFixed(1)}% at the start of the stream; sequential run covers ${(fraction * 100).toFixed(1)}% of usable coefficients.`,
+  };
+}
+
+// OutGuess restores the first-order histogram, so compare blockiness instead
+// (Fridrich-Goljan-Hogea): re-embedding a full random message raises the
+// blockiness of a cover by some slope, but of an OutGuess image by less, since
+// part of its capacity is already randomized. The cropped calibration image
+// supplies the cover slope.
+function detectOutGuess(
+  grid: BlockGrid,
+  calibrated: BlockGrid,
+  table: Uint16Array,
+  levelShift: number,
+  usableCount: number,
+): JpegDetectorScore {
+  const blockiness = (source: BlockGrid) =>
+    measureBlockiness(reconstructPlane(source, table, levelShift));
+  const stegoSlope = blockiness(flipUsableLsbs(grid)) - blockiness(grid);
+  const coverSlope =
+    blockiness(flipUsableLsbs(calibrated)) - blockiness(calibrated);
+  const rate = coverSlope > 0 ? clampUnit(1 - stegoSlope / coverSlope) : 0;
+
+  // OutGuess keeps roughly half of the usable coefficients for corrections.
+  return {
+    method: "outguess",
+    label: "OutGuess (blockiness calibration)",
+    score: rate,
+    isLikely: rate >= OUTGUESS_LIKELY_RATE,
+    estimatedBytes: Math.round((rate * usableCount) / 2 / 8),
+    detail: `Blockiness slope ${stegoSlope.toFixed(3)} vs calibrated cover ${coverSlope.toFixed(3)}.`,
+  };
+}
+
+function countNonzeroAc(grid: BlockGrid): number {
+  let count = 0;
+  forEachBlock(grid, (blockOffset) => {
+    for (let index = 1; index < 64; index += 1) {
+      if (grid.coefficients[blockOffset + index] !== 0) {
+        count += 1;
+      }
+    }
+  });
+  return count;
+}
+
+// Histograms and detector scores for the first component. F5 and OutGuess
+// need the component's quantization table for calibration; JSteg does not.
+export function analyzeJpegSteganalysis(
+  coefficients: JpegCoefficients,
+  onProgress?: ProgressCallback,
+): JpegSteganalysis {
+  const [component] = coefficients.components;
+  const table = coefficients.quantizationTables[component.quantizationTableId];
+  const levelShift = 1 << (coefficients.precision - 1);
+
+  let usableCount = 0;
+  visitJpegBlocks(coefficients, "component", (entry, blockOffset) => {
+    for (let index = 0; index < 64; index += 1) {
+      const value = entry.coefficients[blockOffset + index];
+      if (value !== 0 && value !== 1) {
+        usableCount += 1;
+      }
+    }
+    return false;
+  });
+
+  const histograms = buildFrequencyHistograms(component);
+  const buildResult = (
+    detectors: JpegDetectorScore[],
+    calibratedHistograms: number[][] | null,
+  ): JpegSteganalysis => ({
+    componentId: component.id,
+    blockCount: component.blocksPerLine * component.blocksPerColumn,
+    nonzeroAcCount: countNonzeroAc(component),
+    usableCoefficientCount: usableCount,
+    histograms: histograms.map((counts, frequency) => ({
+      frequency,
+      counts,
+      calibratedCounts: calibratedHistograms?.[frequency] ?? null,
+    })),
+    detectors,
+  });
+  onProgress?.(0.1);
+
+  const jsteg = detectJsteg(coefficients, usableCount);
+  onProgress?.(0.3);
+
+  const calibrated = table
+    ? calibratePlane(
+        reconstructPlane(component, table, levelShift),
+        table,
+        levelShift,
+      )
+    : null;
+  if (!table || !calibrated) {
+    onProgress?.(1);
+    return buildResult([jsteg], null);
+  }
+
+  const scale =
+    (component.blocksPerLine * component.blocksPerColumn) /
+    (calibrated.blocksPerLine * calibrated.blocksPerColumn);
+  const calibratedHistograms = buildFrequencyHistograms(calibrated).map(
+    (counts) => counts.map((count) => count * scale),
+  );
+  const coverOnes = calibratedHistograms.reduce(
+    (total, counts, index) =>
+      index === 0 ? total : total + magnitudeCounts(counts)[1],
+    0,
+  );
+  const f5 = detectF5(
+    histograms,
+    calibratedHistograms,
+    countNonzeroAc(calibrated) * scale,
+    coverOnes,
+  );
+  onProgress?.(0.5);
+  const outGuess = detectOutGuess(
+    component,
+    calibrated,
+    table,
+    levelShift,
+    usableCount,
+  );
+  onProgress?.(1);
+  return buildResult([f5, outGuess, jsteg], calibratedHistograms);
+}
+
+// Exposed for targeted unit tests of the transforms.
+export const __jpegSteganalysisInternals = {
+  forwardDctBlock,
+  inverseDctBlock,
+  measureBlockiness,
+};
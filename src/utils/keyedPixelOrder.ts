@@ -0,0 +1,230 @@
+import type {
+  KeyedPixelOrder,
+  KeyedPixelOrderGenerator,
+  KeyedSeedType,
+} from "../types";
+import { sha512 } from "./sha512";
+
+export interface IntegerRandom {
+  // Uniform integer in [0, bound), following the source tool's algorithm.
+  nextInt(bound: number): number;
+}
+
+const JAVA_MULTIPLIER_HIGH = 0x5de;
+const JAVA_MULTIPLIER_LOW = 0xece66d;
+const JAVA_ADDEND = 0xb;
+const TWO_POW_24 = 0x1_000_000;
+const TWO_POW_31 = 0x8000_0000;
+
+export function isIntegerSeed(seed: string): boolean {
+  return /^-?\d+$/.test(seed.trim());
+}
+
+function parseIntegerSeed(seed: string): bigint {
+  if (!isIntegerSeed(seed)) {
+    throw new Error(`Integer seed "${seed}" is not a whole number.`);
+  }
+  return BigInt(seed.trim());
+}
+
+// Java's String.hashCode(), the usual way a password becomes a Random seed.
+function javaStringHashCode(value: string): number {
+  let hash = 0;
+  for (let index = 0; index < value.length; index += 1) {
+    hash = (Math.imul(hash, 31) + value.charCodeAt(index)) | 0;
+  }
+  return hash;
+}
+
+function numericSeed(seed: string, seedType: KeyedSeedType): bigint {
+  return seedType === "integer"
+    ? parseIntegerSeed(seed)
+    : BigInt(javaStringHashCode(seed));
+}
+
+// java.util.Random: 48-bit LCG kept as two 24-bit halves so every product
+// stays within double precision.
+export function createJavaRandom(
+  seed: string,
+  seedType: KeyedSeedType,
+): IntegerRandom {
+  const scrambled =
+    (BigInt.asUintN(64, numericSeed(seed, seedType)) ^ 0x5deece66dn) &
+    ((1n << 48n) - 1n);
+  let high = Number(scrambled >> 24n);
+  let low = Number(scrambled & 0xffffffn);
+
+  const next = (bits: number): number => {
+    const lowProduct = low * JAVA_MULTIPLIER_LOW + JAVA_ADDEND;
+    const carry = Math.floor(lowProduct / TWO_POW_24);
+    high =
+      (high * JAVA_MULTIPLIER_LOW + low * JAVA_MULTIPLIER_HIGH + carry) %
+      TWO_POW_24;
+    low = lowProduct % TWO_POW_24;
+    // (int)(seed >>> (48 - bits)) for bits <= 31 is always non-negative.
+    return high * 2 ** (bits - 24) + Math.floor(low / 2 ** (48 - bits));
+  };
+
+  return {
+    nextInt(bound) {
+      if ((bound & -bound) === bound) {
+        return Math.floor((bound * next(31)) / TWO_POW_31);
+      }
+
+      let bits: number;
+      let value: number;
+      do {
+        bits = next(31);
+        value = bits % bound;
+      } while (bits - value + (bound - 1) >= TWO_POW_31);
+      return value;
+    },
+  };
+}
+
+// Python's random.seed(): integers are used by absolute value; str seeds
+// (version 2) append their SHA-512 digest and are read as a big-endian int.
+function pythonSeedKey(seed: string, seedType: KeyedSeedType): number[] {
+  let value: bigint;
+  if (seedType === "integer") {
+    value = parseIntegerSeed(seed);
+  } else {
+    const encoded = new TextEncoder().encode(seed);
+    const digest = sha512(encoded);
+    value = 0n;
+    for (const byte of [...encoded, ...digest]) {
+      value = (value << 8n) | BigInt(byte);
+    }
+  }
+
+  if (value < 0n) {
+    value = -value;
+  }
+
+  const key: number[] = [];
+  do {
+    key.push(Number(value & 0xffffffffn));
+    value >>= 32n;
+  } while (value > 0n);
+  return key;
+}
+
+// CPython's MT19937 (init_by_array) with random.shuffle's _randbelow.
+export function createPythonRandom(
+  seed: string,
+  seedType: KeyedSeedType,
+): IntegerRandom {
+  const state = new Uint32Array(624);
+  let position = 624;
+
+  state[0] = 19650218;
+  for (let index = 1; index < 624; index += 1) {
+    const previous = state[index - 1] ^ (state[index - 1] >>> 30);
+    state[index] = Math.imul(1812433253, previous) + index;
+  }
+
+  const key = pythonSeedKey(seed, seedType);
+  let i = 1;
+  let j = 0;
+  for (let step = Math.max(624, key.length); step > 0; step -= 1) {
+    const previous = state[i - 1] ^ (state[i - 1] >>> 30);
+    state[i] = (state[i] ^ Math.imul(previous, 1664525)) + key[j] + j;
+    i += 1;
+    j += 1;
+    if (i >= 624) {
+      state[0] = state[623];
+      i = 1;
+    }
+    if (j >= key.length) {
+      j = 0;
+    }
+  }
+  for (let step = 623; step > 0; step -= 1) {
+    const previous = state[i - 1] ^ (state[i - 1] >>> 30);
+    state[i] = (state[i] ^ Math.imul(previous, 1566083941)) - i;
+    i += 1;
+    if (i >= 624) {
+      state[0] = state[623];
+      i = 1;
+    }
+  }
+  state[0] = 0x80000000;
+
+  const nextUint32 = (): number => {
+    if (position >= 624) {
+      for (let index = 0; index < 624; index += 1) {
+        const y =
+          (state[index] & 0x80000000) | (state[(index + 1) % 624] & 0x7fffffff);
+        state[index] =
+          state[(index + 397) % 624] ^ (y >>> 1) ^ (y & 1 ? 0x9908b0df : 0);
+      }
+      position = 0;
+    }
+
+    let y = state[position];
+    position += 1;
+    y ^= y >>> 11;
+    y ^= (y << 7) & 0x9d2c5680;
+    y ^= (y << 15) & 0xefc60000;
+    y ^= y >>> 18;
+    return y >>> 0;
+  };
+
+  return {
+    nextInt(bound) {
+      // getrandbits(k) for k <= 32 keeps the top k bits of one output.
+      const bitLength = Math.max(1, 32 - Math.clz32(bound));
+      let value: number;
+      do {
+        value = nextUint32() >>> (32 - bitLength);
+      } while (value >= bound);
+      return value;
+    },
+  };
+}
+
+// Classic C rand(): seed * 1103515245 + 12345 (mod 2^31), used as rand() % n.
+export function createCRandLcg(
+  seed: string,
+  seedType: KeyedSeedType,
+): IntegerRandom {
+  let state = Number(BigInt.asUintN(31, numericSeed(seed, seedType)));
+
+  return {
+    nextInt(bound) {
+      state = (Math.imul(state, 1103515245) + 12345) & 0x7fffffff;
+      return state % bound;
+    },
+  };
+}
+
+const GENERATORS: Record<
+  KeyedPixelOrderGenerator,
+  (seed: string, seedType: KeyedSeedType) => IntegerRandom
+> = {
+  "java-random": createJavaRandom,
+  "python-random": createPythonRandom,
+  "c-rand-lcg": createCRandLcg,
+};
+
+// Fisher-Yates shuffle of pixel indices 0..pixelCount-1 as performed by
+// Collections.shuffle / random.shuffle: swap i with nextInt(i + 1) from the end.
+export function buildKeyedPixelOrder(
+  pixelCount: number,
+  key: KeyedPixelOrder,
+): Uint32Array {
+  const order = new Uint32Array(pixelCount);
+  for (let index = 0; index < pixelCount; index += 1) {
+    order[index] = index;
+  }
+
+  const random = GENERATORS[key.generator](key.seed, key.seedType);
+  for (let index = pixelCount - 1; index > 0; index -= 1) {
+    const swapIndex = random.nextInt(index + 1);
+    const value = order[index];
+    order[index] = order[swapIndex];
+    order[swapIndex] = value;
+  }
+
+  return order;
+}
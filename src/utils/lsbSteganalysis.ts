@@ -0,0 +1,243 @@
+import type { ChannelKey } from "../types";
+import { getChannelOffset } from "./bitPlane";
+
+export interface RsGroupCounts {
+  regular: number;
+  singular: number;
+  regularNegative: number;
+  singularNegative: number;
+}
+
+export interface RsEstimate {
+  embeddingRate: number;
+  groupCount: number;
+  original: RsGroupCounts;
+  flipped: RsGroupCounts;
+}
+
+export interface SamplePairEstimate {
+  embeddingRate: number;
+  pairCount: number;
+}
+
+export interface ChannelSteganalysis {
+  channel: ChannelKey;
+  rs: RsEstimate | null;
+  samplePair: SamplePairEstimate | null;
+}
+
+export interface LsbSteganalysis {
+  pixelCount: number;
+  channels: ChannelSteganalysis[];
+}
+
+const DEFAULT_CHANNELS: ReadonlyArray<ChannelKey> = ["r", "g", "b"];
+const RS_MASK: ReadonlyArray<number> = [0, 1, 1, 0];
+
+function flipPositive(value: number): number {
+  return value ^ 1;
+}
+
+function flipNegative(value: number): number {
+  return ((value + 1) ^ 1) - 1;
+}
+
+function smoothness(values: ArrayLike<number>): number {
+  let total = 0;
+  for (let index = 1; index < values.length; index += 1) {
+    total += Math.abs(values[index] - values[index - 1]);
+  }
+  return total;
+}
+
+// Solve the smaller-magnitude root; degenerate quadratics fall back to linear.
+function solveSmallestRoot(a: number, b: number, c: number): number | null {
+  if (Math.abs(a) < 1e-12) {
+    return Math.abs(b) < 1e-12 ? null : -c / b;
+  }
+
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) {
+    return Math.abs(b) < 1e-12 ? null : -c / b;
+  }
+
+  const root = Math.sqrt(discriminant);
+  const positive = (-b + root) / (2 * a);
+  const negative = (-b - root) / (2 * a);
+  return Math.abs(positive) <= Math.abs(negative) ? positive : negative;
+}
+
+function clampRate(value: number): number {
+  if (!Number.isFinite(value)) {
+    return 0;
+  }
+  return Math.min(1, Math.max(0, value));
+}
+
+function countRsGroups(
+  imageData: ImageData,
+  channelOffset: number,
+  flipAll: boolean,
+): RsGroupCounts & { groupCount: number } {
+  const { data, width, height } = imageData;
+  const groupSize = RS_MASK.length;
+  const group = new Array<number>(groupSize).fill(0);
+  const positive = new Array<number>(groupSize).fill(0);
+  const negative = new Array<number>(groupSize).fill(0);
+  const counts = {
+    regular: 0,
+    singular: 0,
+    regularNegative: 0,
+    singularNegative: 0,
+    groupCount: 0,
+  };
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x + groupSize <= width; x += groupSize) {
+      for (let index = 0; index < groupSize; index += 1) {
+        const value = data[((y * width + x + index) << 2) + channelOffset];
+        const sample = flipAll ? value ^ 1 : value;
+        group[index] = sample;
+        positive[index] = RS_MASK[index] ? flipPositive(sample) : sample;
+        negative[index] = RS_MASK[index] ? flipNegative(sample) : sample;
+      }
+
+      const base = smoothness(group);
+      const positiveSmoothness = smoothness(positive);
+      const negativeSmoothness = smoothness(negative);
+      if (positiveSmoothness > base) {
+        counts.regular += 1;
+      } else if (positiveSmoothness < base) {
+        counts.singular += 1;
+      }
+      if (negativeSmoothness > base) {
+        counts.regularNegative += 1;
+      } else if (negativeSmoothness < base) {
+        counts.singularNegative += 1;
+      }
+      counts.groupCount += 1;
+    }
+  }
+
+  return counts;
+}
+
+// Fridrich-Goljan-Du RS analysis: regular/singular group counts under the
+// flipping masks M and -M, before and after flipping every LSB, yield a
+// quadratic whose root gives the fraction of pixels carrying message bits.
+export function estimateRsEmbeddingRate(
+  imageData: ImageData,
+  channel: ChannelKey,
+): RsEstimate | null {
+  const channelOffset = getChannelOffset(channel);
+  const original = countRsGroups(imageData, channelOffset, false);
+  if (original.groupCount === 0) {
+    return null;
+  }
+  const flipped = countRsGroups(imageData, channelOffset, true);
+  const total = original.groupCount;
+
+  const d0 = (original.regular - original.singular) / total;
+  const d1 = (flipped.regular - flipped.singular) / total;
+  const dNegative0 =
+    (original.regularNegative - original.singularNegative) / total;
+  const dNegative1 =
+    (flipped.regularNegative - flipped.singularNegative) / total;
+
+  const root = solveSmallestRoot(
+    2 * (d1 + d0),
+    dNegative0 - dNegative1 - d1 - 3 * d0,
+    d0 - dNegative0,
+  );
+
+  const toCounts = (
+    counts: RsGroupCounts & { groupCount: number },
+  ): RsGroupCounts => ({
+    regular: counts.regular,
+    singular: counts.singular,
+    regularNegative: counts.regularNegative,
+    singularNegative: counts.singularNegative,
+  });
+
+  return {
+    embeddingRate: root === null ? 0 : clampRate(root / (root - 0.5)),
+    groupCount: total,
+    original: toCounts(original),
+    flipped: toCounts(flipped),
+  };
+}
+
+// Dumitrescu-Wu-Wang sample pair analysis over horizontally adjacent pixels.
+export function estimateSamplePairEmbeddingRate(
+  imageData: ImageData,
+  channel: ChannelKey,
+): SamplePairEstimate | null {
+  const { data, width, height } = imageData;
+  const channelOffset = getChannelOffset(channel);
+  let pairs = 0;
+  let closePairs = 0;
+  let xCount = 0;
+  let yCount = 0;
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x + 1 < width; x += 1) {
+      const u = data[((y * width + x) << 2) + channelOffset];
+      const v = data[((y * width + x + 1) << 2) + channelOffset];
+      const vIsEven = (v & 1) === 0;
+
+      if ((vIsEven && u < v) || (!vIsEven && u > v)) {
+        xCount += 1;
+      } else if ((vIsEven && u > v) || (!vIsEven && u < v)) {
+        yCount += 1;
+      }
+      if (u >> 1 === v >> 1) {
+        closePairs += 1;
+      }
+      pairs += 1;
+    }
+  }
+
+  if (pairs === 0) {
+    return null;
+  }
+
+  const root = solveSmallestRoot(
+    0.5 * closePairs,
+    2 * xCount - pairs,
+    yCount - xCount,
+  );
+
+  return {
+    embeddingRate: root === null ? 0 : clampRate(root),
+    pairCount: pairs,
+  };
+}
+
+export function analyzeLsbSteganalysis(
+  imageData: ImageData,
+  channels: ReadonlyArray<ChannelKey> = DEFAULT_CHANNELS,
+): LsbSteganalysis {
+  return {
+    pixelCount: imageData.width * imageData.height,
+    channels: channels.map((channel) => ({
+      channel,
+      rs: estimateRsEmbeddingRate(imageData, channel),
+      samplePair: estimateSamplePairEmbeddingRate(imageData, channel),
+    })),
+  };
+}
+
+// Capacity-used estimate in bytes for one LSB per channel sample.
+export function estimateEmbeddedBytes(
+  embeddingRate: number,
+  pixelCount: number,
+): number {
+  return Math.round((clampRate(embeddingRate) * pixelCount) / 8);
+}
+
+// Exposed for targeted unit tests of estimator edge cases.
+export const __lsbSteganalysisInternals = {
+  flipNegative,
+  solveSmallestRoot,
+  clampRate,
+};
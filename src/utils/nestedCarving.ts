@@ -0,0 +1,166 @@
+import {
+  detectCarvedPayloads,
+  type CarvedPayload,
+  type PayloadCarvingOptions,
+} from "./payloadCarving";
+import { extractZipEntry, listZipEntries } from "./zipArchive";
+
+// Larger entries are listed by the ZIP entry table but not inflated here.
+const MAX_CARVED_ZIP_ENTRY_BYTES = 16 * 1024 * 1024;
+
+export interface NestedCarvingOptions extends PayloadCarvingOptions {
+  // Levels searched inside each payload; 0 keeps the flat signature scan.
+  maxDepth?: number;
+}
+
+// Decompressed contents of a ZIP entry that payloads were carved from.
+export interface CarvedZipEntry {
+  archiveId: string;
+  index: number;
+  name: string;
+  bytes: Uint8Array;
+}
+
+// Offsets stay relative to the scanned bytes at every depth, so nested
+// payloads are sliced from the same buffer as top-level ones; payloads found
+// in an extracted ZIP entry are relative to that entry's contents instead.
+export interface NestedCarvedPayload extends CarvedPayload {
+  depth: number;
+  parentId: string | null;
+  // Set when the depth limit left contained payloads listed flat.
+  isDepthLimited: boolean;
+  zipEntry: CarvedZipEntry | null;
+}
+
+function containsPayload(outer: CarvedPayload, inner: CarvedPayload): boolean {
+  return (
+    outer.startOffset < inner.startOffset && inner.endOffset <= outer.endOffset
+  );
+}
+
+// Bytes of a payload, from the scanned buffer or the ZIP entry it was
+// carved from.
+export function sliceNestedPayload(
+  bytes: Uint8Array,
+  payload: NestedCarvedPayload,
+): Uint8Array<ArrayBuffer> {
+  return (payload.zipEntry?.bytes ?? bytes).slice(
+    payload.startOffset,
+    payload.endOffset,
+  );
+}
+
+// Scans inside each payload (past its own signature) and lists what it finds
+// as children, in depth-first order. Payloads contained in another are only
+// listed under it; a same-kind payload ending with its parent is the parent's
+// own structure (e.g. a later ZIP local header) and is dropped. ZIPs with a
+// readable central directory are not scanned raw: each stored or deflated
+// entry is extracted and its contents carved instead.
+export function carveNestedPayloads(
+  bytes: Uint8Array,
+  options: NestedCarvingOptions = {},
+): NestedCarvedPayload[] {
+  const maxDepth = Math.max(0, options.maxDepth ?? 0);
+  const output: NestedCarvedPayload[] = [];
+
+  const visit = (
+    source: Uint8Array,
+    startOffset: number,
+    endOffset: number,
+    parent: NestedCarvedPayload | null,
+    zipEntry: CarvedZipEntry | null,
+  ): void => {
+    const depth = parent ? parent.depth + 1 : 0;
+    const idPrefix = zipEntry ? `${zipEntry.archiveId}>${zipEntry.index}>` : "";
+    const payloads = detectCarvedPayloads(
+      source.subarray(startOffset, endOffset),
+      {
+        maxFindings: options.maxFindings,
+        onProgress: parent ? undefined : options.onProgress,
+      },
+    )
+      .map((payload) => {
+        const payloadStart = startOffset + payload.startOffset;
+        const payloadEnd = startOffset + payload.endOffset;
+        return {
+          ...payload,
+          id: `${idPrefix}${payload.kind}|${payloadStart}|${payloadEnd}`,
+          startOffset: payloadStart,
+          endOffset: payloadEnd,
+        };
+      })
+      .filter(
+        (payload) =>
+          !parent ||
+          parent.zipEntry !== zipEntry ||
+          payload.kind !== parent.kind ||
+          payload.endOffset !== parent.endOffset,
+      );
+
+    const canRecurse = depth < maxDepth;
+    for (const payload of payloads) {
+      if (
+        canRecurse &&
+        payloads.some((other) => containsPayload(other, payload))
+      ) {
+        continue;
+      }
+
+      const node: NestedCarvedPayload = {
+        ...payload,
+        depth,
+        parentId: parent?.id ?? null,
+        isDepthLimited:
+          !canRecurse &&
+          payloads.some((other) => containsPayload(payload, other)),
+        zipEntry,
+      };
+      output.push(node);
+      if (!canRecurse) {
+        continue;
+      }
+
+      const archiveBytes = source.subarray(
+        payload.startOffset,
+        payload.endOffset,
+      );
+      const archive =
+        payload.kind === "zip" ? listZipEntries(archiveBytes) : null;
+      if (archive && archive.entries.length > 0) {
+        for (const entry of archive.entries) {
+          if (
+            !entry.isExtractable ||
+            entry.isDirectory ||
+            entry.uncompressedSize > MAX_CARVED_ZIP_ENTRY_BYTES
+          ) {
+            continue;
+          }
+          let contents: Uint8Array;
+          try {
+            contents = extractZipEntry(archiveBytes, entry);
+          } catch {
+            // Damaged entries are reported by the ZIP entry listing.
+            continue;
+          }
+          visit(contents, 0, contents.length, node, {
+            archiveId: node.id,
+            index: entry.index,
+            name: entry.name,
+            bytes: contents,
+          });
+        }
+      } else if (payload.byteLength > 1) {
+        visit(
+          source,
+          payload.startOffset + 1,
+          payload.endOffset,
+          node,
+          zipEntry,
+        );
+      }
+    }
+  };
+
+  visit(bytes, 0, bytes.length, null, null);
+  return output;
+}
@@ -0,0 +1,603 @@
+import { readUint16LE, readUint32BE, readUint32LE } from "./byteFields";
+import { hasGifSignature, readSubBlocks, walkGifBlocks } from "./gifBlocks";
+import { inflateZlib } from "./inflate";
+import { walkPngChunks } from "./pngChunks";
+
+// Raw palette indices for GIF, indexed-color PNG and palettized BMP. Palette
+// steganography (EzStego, S-Tools, ...) hides data in the index stream, which
+// the RGBA decode of the browser flattens away.
+
+const MAX_GIF_CODE = 4096;
+const GIF_INTERLACE_PASSES = [
+  [0, 8],
+  [4, 8],
+  [2, 4],
+  [1, 2],
+];
+// [xStart, yStart, xStep, yStep] for each Adam7 pass.
+const ADAM7_PASSES = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+const BMP_CORE_HEADER_LENGTH = 12;
+const MAX_PIXELS = 1 << 26;
+// Euclidean RGB distance up to which two palette entries count as near-duplicates.
+const NEAR_DUPLICATE_DISTANCE = 8;
+const MAX_NEAR_DUPLICATES = 256;
+
+export type PaletteImageSource = "gif" | "png" | "bmp";
+
+export interface PaletteImage {
+  source: PaletteImageSource;
+  width: number;
+  height: number;
+  // RGB triples; paletteSize entries.
+  palette: Uint8Array;
+  paletteSize: number;
+  // One palette index per pixel, row-major.
+  indices: Uint8Array;
+  transparentIndex: number | null;
+}
+
+export interface PaletteEntry {
+  index: number;
+  red: number;
+  green: number;
+  blue: number;
+  // Pixels that use this entry.
+  count: number;
+}
+
+export interface PaletteNearDuplicate {
+  first: number;
+  second: number;
+  distance: number;
+}
+
+export interface PaletteAnalysis {
+  entries: PaletteEntry[];
+  // Palette indices sorted by luminance, the order EzStego embeds in.
+  luminanceOrder: number[];
+  nearDuplicates: PaletteNearDuplicate[];
+  isNearDuplicateListTruncated: boolean;
+  usedCount: number;
+}
+
+export type PaletteIndexOrder = "index" | "luminance";
+
+function assertPixelCount(width: number, height: number) {
+  if (width <= 0 || height <= 0) {
+    throw new Error("Image has no pixels.");
+  }
+  if (width * height > MAX_PIXELS) {
+    throw new Error("Image is too large to decode palette indices.");
+  }
+}
+
+// Variable-width LSB-first LZW as used by GIF. Missing pixels stay at index 0
+// so that truncated frames still decode as far as the data goes.
+export function decodeGifLzw(
+  data: Uint8Array,
+  minCodeSize: number,
+  pixelCount: number,
+): Uint8Array {
+  if (minCodeSize < 2 || minCodeSize > 8) {
+    throw new Error(`LZW minimum code size ${minCodeSize} is outside 2-8.`);
+  }
+
+  const output = new Uint8Array(pixelCount);
+  const prefix = new Int16Array(MAX_GIF_CODE);
+  const suffix = new Uint8Array(MAX_GIF_CODE);
+  const stack = new Uint8Array(MAX_GIF_CODE);
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  for (let code = 0; code < clearCode; code += 1) {
+    prefix[code] = -1;
+    suffix[code] = code;
+  }
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = clearCode + 2;
+  let previous = -1;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let position = 0;
+  let written = 0;
+
+  while (written < pixelCount) {
+    while (bitCount < codeSize && position < data.length) {
+      bitBuffer |= data[position] << bitCount;
+      position += 1;
+      bitCount += 8;
+    }
+    if (bitCount < codeSize) {
+      break;
+    }
+
+    const code = bitBuffer & ((1 << codeSize) - 1);
+    bitBuffer >>>= codeSize;
+    bitCount -= codeSize;
+
+    if (code === clearCode) {
+      codeSize = minCodeSize + 1;
+      nextCode = clearCode + 2;
+      previous = -1;
+      continue;
+    }
+    if (code === endCode) {
+      break;
+    }
+    if (previous === -1) {
+      if (code >= clearCode) {
+        throw new Error("Invalid LZW code in GIF image data.");
+      }
+      output[written] = code;
+      written += 1;
+      previous = code;
+      continue;
+    }
+    if (code > nextCode) {
+      throw new Error("Invalid LZW code in GIF image data.");
+    }
+
+    // code === nextCode is the KwKwK case: the previous string followed by
+    // its own first character. The stack holds the string back to front.
+    const isKwKwK = code === nextCode;
+    let depth = isKwKwK ? 1 : 0;
+    let current = isKwKwK ? previous : code;
+    while (current >= 0) {
+      stack[depth] = suffix[current];
+      depth += 1;
+      current = prefix[current];
+    }
+    const firstCharacter = stack[depth - 1];
+    if (isKwKwK) {
+      stack[0] = firstCharacter;
+    }
+    for (
+      let index = depth - 1;
+      index >= 0 && written < pixelCount;
+      index -= 1
+    ) {
+      output[written] = stack[index];
+      written += 1;
+    }
+
+    if (nextCode < MAX_GIF_CODE) {
+      prefix[nextCode] = previous;
+      suffix[nextCode] = firstCharacter;
+      nextCode += 1;
+      if (nextCode === 1 << codeSize && codeSize < 12) {
+        codeSize += 1;
+      }
+    }
+    previous = code;
+  }
+
+  return output;
+}
+
+function deinterlaceGifRows(
+  indices: Uint8Array,
+  width: number,
+  height: number,
+): Uint8Array {
+  const output = new Uint8Array(indices.length);
+  let sourceRow = 0;
+  for (const [start, step] of GIF_INTERLACE_PASSES) {
+    for (let row = start; row < height; row += step) {
+      output.set(
+        indices.subarray(sourceRow * width, (sourceRow + 1) * width),
+        row * width,
+      );
+      sourceRow += 1;
+    }
+  }
+  return output;
+}
+
+// Decodes the frameIndex-th image descriptor into a frame-sized index buffer.
+function decodeGifFrame(bytes: Uint8Array, frameIndex: number): PaletteImage {
+  const walk = walkGifBlocks(bytes);
+  if (!walk) {
+    throw new Error("Not a GIF file.");
+  }
+
+  const globalTable = walk.blocks.find(
+    (block) => block.kind === "global-color-table",
+  );
+  let transparentIndex: number | null = null;
+  let frame = 0;
+  for (let index = 0; index < walk.blocks.length; index += 1) {
+    const block = walk.blocks[index];
+    if (block.kind === "extension" && block.label === 0xf9) {
+      // A GCE applies to the next image only.
+      const hasTransparency =
+        bytes[block.offset + 2] >= 4 && (bytes[block.offset + 3] & 0x01) !== 0;
+      transparentIndex = hasTransparency ? bytes[block.offset + 6] : null;
+      continue;
+    }
+    if (block.kind !== "image-descriptor") {
+      continue;
+    }
+    if (frame < frameIndex) {
+      frame += 1;
+      transparentIndex = null;
+      continue;
+    }
+
+    const width = readUint16LE(bytes, block.offset + 5);
+    const height = readUint16LE(bytes, block.offset + 7);
+    const isInterlaced = (bytes[block.offset + 9] & 0x40) !== 0;
+    assertPixelCount(width, height);
+
+    const localTable =
+      walk.blocks[index + 1]?.kind === "local-color-table"
+        ? walk.blocks[index + 1]
+        : null;
+    const table = localTable ?? globalTable;
+    if (!table) {
+      throw new Error("GIF frame has no color table.");
+    }
+    const imageData = walk.blocks[index + (localTable ? 2 : 1)];
+    if (imageData?.kind !== "image-data") {
+      throw new Error("GIF frame has no image data.");
+    }
+
+    const { data } = readSubBlocks(
+      bytes,
+      imageData.offset + 1,
+      imageData.endOffset,
+    );
+    const decoded = decodeGifLzw(data, bytes[imageData.offset], width * height);
+    return {
+      source: "gif",
+      width,
+      height,
+      palette: bytes.slice(table.offset, table.endOffset),
+      paletteSize: (table.endOffset - table.offset) / 3,
+      indices: isInterlaced
+        ? deinterlaceGifRows(decoded, width, height)
+        : decoded,
+      transparentIndex,
+    };
+  }
+
+  throw new Error(`GIF has no frame ${frameIndex + 1}.`);
+}
+
+function paethPredictor(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const leftDistance = Math.abs(estimate - left);
+  const upDistance = Math.abs(estimate - up);
+  const upLeftDistance = Math.abs(estimate - upLeft);
+  if (leftDistance <= upDistance && leftDistance <= upLeftDistance) {
+    return left;
+  }
+  return upDistance <= upLeftDistance ? up : upLeft;
+}
+
+// Undoes the per-scanline filter in place; bytes-per-pixel is always 1 for
+// indexed color.
+function unfilterScanline(
+  row: Uint8Array,
+  previous: Uint8Array,
+  filter: number,
+) {
+  for (let index = 0; index < row.length; index += 1) {
+    const left = index > 0 ? row[index - 1] : 0;
+    const up = previous[index];
+    const upLeft = index > 0 ? previous[index - 1] : 0;
+    switch (filter) {
+      case 0:
+        break;
+      case 1:
+        row[index] = row[index] + left;
+        break;
+      case 2:
+        row[index] = row[index] + up;
+        break;
+      case 3:
+        row[index] = row[index] + ((left + up) >> 1);
+        break;
+      case 4:
+        row[index] = row[index] + paethPredictor(left, up, upLeft);
+        break;
+      default:
+        throw new Error(`Unknown PNG filter type ${filter}.`);
+    }
+  }
+}
+
+// Returns null for PNGs that are not indexed-color.
+function decodePngIndices(bytes: Uint8Array): PaletteImage | null {
+  const walk = walkPngChunks(bytes);
+  const header = walk?.chunks[0];
+  if (!walk || header?.type !== "IHDR" || header.length < 13) {
+    throw new Error("PNG has no IHDR chunk.");
+  }
+
+  const width = readUint32BE(bytes, header.dataOffset);
+  const height = readUint32BE(bytes, header.dataOffset + 4);
+  const bitDepth = bytes[header.dataOffset + 8];
+  const colorType = bytes[header.dataOffset + 9];
+  const isInterlaced = bytes[header.dataOffset + 12] === 1;
+  if (colorType !== 3) {
+    return null;
+  }
+  if (![1, 2, 4, 8].includes(bitDepth)) {
+    throw new Error(`Invalid bit depth ${bitDepth} for indexed-color PNG.`);
+  }
+  assertPixelCount(width, height);
+
+  const paletteChunk = walk.chunks.find((chunk) => chunk.type === "PLTE");
+  if (!paletteChunk) {
+    throw new Error("Indexed-color PNG has no PLTE chunk.");
+  }
+  const transparencyChunk = walk.chunks.find((chunk) => chunk.type === "tRNS");
+  let transparentIndex: number | null = null;
+  if (transparencyChunk) {
+    const alpha = bytes.subarray(
+      transparencyChunk.dataOffset,
+      transparencyChunk.dataOffset + transparencyChunk.length,
+    );
+    const index = alpha.indexOf(0);
+    transparentIndex = index >= 0 ? index : null;
+  }
+
+  const dataChunks = walk.chunks.filter((chunk) => chunk.type === "IDAT");
+  const compressed = new Uint8Array(
+    dataChunks.reduce((total, chunk) => total + chunk.length, 0),
+  );
+  let written = 0;
+  for (const chunk of dataChunks) {
+    compressed.set(
+      bytes.subarray(chunk.dataOffset, chunk.dataOffset + chunk.length),
+      written,
+    );
+    written += chunk.length;
+  }
+
+  const passes = isInterlaced ? ADAM7_PASSES : [[0, 0, 1, 1]];
+  let expectedLength = 0;
+  for (const [xStart, yStart, xStep, yStep] of passes) {
+    const passWidth = Math.ceil((width - xStart) / xStep);
+    const passHeight = Math.ceil((height - yStart) / yStep);
+    if (passWidth > 0 && passHeight > 0) {
+      expectedLength +=
+        passHeight * (1 + Math.ceil((passWidth * bitDepth) / 8));
+    }
+  }
+  const { bytes: filtered } = inflateZlib(compressed, expectedLength);
+  if (filtered.length < expectedLength) {
+    throw new Error("PNG image data is truncated.");
+  }
+
+  const indices = new Uint8Array(width * height);
+  const mask = (1 << bitDepth) - 1;
+  let position = 0;
+  for (const [xStart, yStart, xStep, yStep] of passes) {
+    const passWidth = Math.ceil((width - xStart) / xStep);
+    const passHeight = Math.ceil((height - yStart) / yStep);
+    if (passWidth <= 0 || passHeight <= 0) {
+      continue;
+    }
+
+    const rowLength = Math.ceil((passWidth * bitDepth) / 8);
+    let previous = new Uint8Array(rowLength);
+    for (let row = 0; row < passHeight; row += 1) {
+      const filter = filtered[position];
+      const scanline = filtered.slice(position + 1, position + 1 + rowLength);
+      position += 1 + rowLength;
+      unfilterScanline(scanline, previous, filter);
+      previous = scanline;
+
+      const rowOffset = (yStart + row * yStep) * width;
+      for (let column = 0; column < passWidth; column += 1) {
+        const bitOffset = column * bitDepth;
+        indices[rowOffset + xStart + column * xStep] =
+          (scanline[bitOffset >> 3] >> (8 - bitDepth - (bitOffset & 7))) & mask;
+      }
+    }
+  }
+
+  return {
+    source: "png",
+    width,
+    height,
+    palette: bytes.slice(
+      paletteChunk.dataOffset,
+      paletteChunk.dataOffset + paletteChunk.length - (paletteChunk.length % 3),
+    ),
+    paletteSize: Math.floor(paletteChunk.length / 3),
+    indices,
+    transparentIndex,
+  };
+}
+
+// Returns null for BMPs above 8 bits per pixel.
+function decodeBmpIndices(bytes: Uint8Array): PaletteImage | null {
+  if (bytes.length < 26) {
+    throw new Error("BMP header is truncated.");
+  }
+
+  const pixelOffset = readUint32LE(bytes, 10);
+  const headerLength = readUint32LE(bytes, 14);
+  const isCoreHeader = headerLength === BMP_CORE_HEADER_LENGTH;
+  const width = isCoreHeader
+    ? readUint16LE(bytes, 18)
+    : readUint32LE(bytes, 18) | 0;
+  const signedHeight = isCoreHeader
+    ? readUint16LE(bytes, 20)
+    : readUint32LE(bytes, 22) | 0;
+  const bitsPerPixel = readUint16LE(bytes, isCoreHeader ? 24 : 28);
+  if (bitsPerPixel > 8) {
+    return null;
+  }
+  if (![1, 4, 8].includes(bitsPerPixel)) {
+    throw new Error(`Invalid BMP bit depth ${bitsPerPixel}.`);
+  }
+  if (!isCoreHeader && readUint32LE(bytes, 30) !== 0) {
+    throw new Error("RLE-compressed BMP palettes are not supported.");
+  }
+
+  const height = Math.abs(signedHeight);
+  assertPixelCount(width, height);
+  const colorsUsed = isCoreHeader ? 0 : readUint32LE(bytes, 46);
+  const maxColors = 1 << bitsPerPixel;
+  const paletteSize =
+    colorsUsed > 0 && colorsUsed < maxColors ? colorsUsed : maxColors;
+  const entryLength = isCoreHeader ? 3 : 4;
+  const paletteOffset = 14 + headerLength;
+  if (paletteOffset + paletteSize * entryLength > bytes.length) {
+    throw new Error("BMP color table is truncated.");
+  }
+
+  // BMP stores BGR(X); the shared layout is RGB.
+  const palette = new Uint8Array(paletteSize * 3);
+  for (let index = 0; index < paletteSize; index += 1) {
+    const entry = paletteOffset + index * entryLength;
+    palette[index * 3] = bytes[entry + 2];
+    palette[index * 3 + 1] = bytes[entry + 1];
+    palette[index * 3 + 2] = bytes[entry];
+  }
+
+  const stride = Math.ceil((width * bitsPerPixel) / 32) * 4;
+  if (pixelOffset + stride * height > bytes.length) {
+    throw new Error("BMP pixel data is truncated.");
+  }
+
+  const indices = new Uint8Array(width * height);
+  const mask = maxColors - 1;
+  for (let row = 0; row < height; row += 1) {
+    // Positive heights are stored bottom-up.
+    const sourceRow = signedHeight > 0 ? height - 1 - row : row;
+    const rowOffset = pixelOffset + sourceRow * stride;
+    for (let column = 0; column < width; column += 1) {
+      const bitOffset = column * bitsPerPixel;
+      indices[row * width + column] =
+        (bytes[rowOffset + (bitOffset >> 3)] >>
+          (8 - bitsPerPixel - (bitOffset & 7))) &
+        mask;
+    }
+  }
+
+  return {
+    source: "bmp",
+    width,
+    height,
+    palette,
+    paletteSize,
+    indices,
+    transparentIndex: null,
+  };
+}
+
+// Decodes palette indices from a GIF frame, an indexed-color PNG or a
+// palettized BMP. Returns null for files that are not palette-based.
+export function decodePaletteImage(
+  bytes: Uint8Array,
+  frameIndex = 0,
+): PaletteImage | null {
+  if (hasGifSignature(bytes)) {
+    return decodeGifFrame(bytes, frameIndex);
+  }
+  if (walkPngChunks(bytes)) {
+    return decodePngIndices(bytes);
+  }
+  if (bytes[0] === 0x42 && bytes[1] === 0x4d) {
+    return decodeBmpIndices(bytes);
+  }
+  return null;
+}
+
+function luminance(red: number, green: number, blue: number): number {
+  return 0.299 * red + 0.587 * green + 0.114 * blue;
+}
+
+export function analyzePalette(image: PaletteImage): PaletteAnalysis {
+  const counts = new Uint32Array(Math.max(256, image.paletteSize));
+  for (let index = 0; index < image.indices.length; index += 1) {
+    counts[image.indices[index]] += 1;
+  }
+
+  const entries: PaletteEntry[] = [];
+  for (let index = 0; index < image.paletteSize; index += 1) {
+    entries.push({
+      index,
+      red: image.palette[index * 3],
+      green: image.palette[index * 3 + 1],
+      blue: image.palette[index * 3 + 2],
+      count: counts[index],
+    });
+  }
+
+  const luminanceOrder = entries
+    .map((entry) => ({
+      index: entry.index,
+      value: luminance(entry.red, entry.green, entry.blue),
+    }))
+    .sort((left, right) => left.value - right.value || left.index - right.index)
+    .map((entry) => entry.index);
+
+  const nearDuplicates: PaletteNearDuplicate[] = [];
+  let isNearDuplicateListTruncated = false;
+  for (let first = 0; first < entries.length; first += 1) {
+    for (let second = first + 1; second < entries.length; second += 1) {
+      const distance = Math.hypot(
+        entries[first].red - entries[second].red,
+        entries[first].green - entries[second].green,
+        entries[first].blue - entries[second].blue,
+      );
+      if (distance > NEAR_DUPLICATE_DISTANCE) {
+        continue;
+      }
+      if (nearDuplicates.length >= MAX_NEAR_DUPLICATES) {
+        isNearDuplicateListTruncated = true;
+        break;
+      }
+      nearDuplicates.push({ first, second, distance });
+    }
+  }
+
+  return {
+    entries,
+    luminanceOrder,
+    nearDuplicates,
+    isNearDuplicateListTruncated,
+    usedCount: entries.filter((entry) => entry.count > 0).length,
+  };
+}
+
+// Grayscale image whose value is the palette index (or its luminance rank),
+// so that the RGBA bit-plane tools read index bits from the red channel.
+export function buildPaletteIndexImageData(
+  image: PaletteImage,
+  order: PaletteIndexOrder,
+  luminanceOrder: number[] = [],
+): ImageData {
+  const ranks = new Uint8Array(256);
+  for (let index = 0; index < 256; index += 1) {
+    ranks[index] = index;
+  }
+  if (order === "luminance") {
+    luminanceOrder.forEach((paletteIndex, rank) => {
+      ranks[paletteIndex] = rank;
+    });
+  }
+
+  const output = new Uint8ClampedArray(image.indices.length * 4);
+  for (let index = 0; index < image.indices.length; index += 1) {
+    const value = ranks[image.indices[index]];
+    output[index * 4] = value;
+    output[index * 4 + 1] = value;
+    output[index * 4 + 2] = value;
+    output[index * 4 + 3] = 255;
+  }
+  return new ImageData(output, image.width, image.height);
+}
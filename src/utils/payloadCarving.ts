@@ -1,3 +1,7 @@
+import { crc32 } from "./crc32";
+import { walkGifBlocks } from "./gifBlocks";
+import { inflateRaw } from "./inflate";
+
 export type CarvedPayloadKind =
   | "png"
   | "jpeg"
@@ -6,7 +10,26 @@ export type CarvedPayloadKind =
   | "bmp"
   | "tiff"
   | "pdf"
-  | "zip";
+  | "zip"
+  | "7z"
+  | "rar"
+  | "gzip"
+  | "bzip2"
+  | "xz"
+  | "tar"
+  | "elf"
+  | "pe"
+  | "macho"
+  | "wav"
+  | "riff"
+  | "ogg"
+  | "mp3"
+  | "flac"
+  | "sqlite"
+  | "class"
+  | "ico"
+  | "pem"
+  | "pgp";
 
 export type PayloadConfidence = "high" | "medium" | "low";
 
@@ -26,6 +49,8 @@ export interface CarvedPayload {
 
 export interface PayloadCarvingOptions {
   maxFindings?: number;
+  // Called with the scanned fraction (0..1) while searching for signatures.
+  onProgress?: (fraction: number) => void;
 }
 
 interface SignatureSpec {
@@ -35,6 +60,9 @@ interface SignatureSpec {
   mimeType: string;
   signature: string;
   strategy: string;
+  // Byte values a match can start with; omitted when the signature is not at
+  // the payload start (tar's "ustar" sits at +257).
+  leadBytes?: ReadonlyArray<number>;
   matchAt: (bytes: Uint8Array, offset: number) => boolean;
   findEnd: (bytes: Uint8Array, startOffset: number) => number | null;
 }
@@ -57,6 +85,73 @@ const PDF_SIGNATURE = new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x2d]); // %PDF-
 const PDF_EOF_MARKER = new Uint8Array([0x25, 0x25, 0x45, 0x4f, 0x46]); // %%EOF
 const ZIP_LOCAL_FILE_SIGNATURE = new Uint8Array([0x50, 0x4b, 0x03, 0x04]);
 const ZIP_EOCD_SIGNATURE = new Uint8Array([0x50, 0x4b, 0x05, 0x06]);
+const SEVEN_ZIP_SIGNATURE = new Uint8Array([
+  0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c,
+]);
+const RAR4_SIGNATURE = new Uint8Array([
+  0x52, 0x61, 0x72, 0x21, 0x1a, 0x07, 0x00,
+]);
+const RAR5_SIGNATURE = new Uint8Array([
+  0x52, 0x61, 0x72, 0x21, 0x1a, 0x07, 0x01, 0x00,
+]);
+const GZIP_SIGNATURE = new Uint8Array([0x1f, 0x8b, 0x08]);
+const BZIP2_BLOCK_MAGIC = new Uint8Array([0x31, 0x41, 0x59, 0x26, 0x53, 0x59]);
+const BZIP2_END_MAGIC = new Uint8Array([0x17, 0x72, 0x45, 0x38, 0x50, 0x90]);
+const XZ_SIGNATURE = new Uint8Array([0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00]);
+const ELF_SIGNATURE = new Uint8Array([0x7f, 0x45, 0x4c, 0x46]);
+const PE_SIGNATURE = new Uint8Array([0x50, 0x45, 0x00, 0x00]); // PE\0\0
+// 32/64-bit Mach-O magics as read big-endian, in both byte orders.
+const MACHO_MAGICS = new Set([0xfeedface, 0xfeedfacf, 0xcefaedfe, 0xcffaedfe]);
+const OGG_SIGNATURE = new Uint8Array([0x4f, 0x67, 0x67, 0x53]); // OggS
+const SQLITE_SIGNATURE = new TextEncoder().encode("SQLite format 3\0");
+const ICO_SIGNATURE = new Uint8Array([0x00, 0x00, 0x01, 0x00]);
+const ARMOR_BEGIN = "-----BEGIN ";
+// kbit/s by bitrate index; MPEG-1 per layer, MPEG-2/2.5 for layer I and II/III.
+const MPEG1_BITRATES = [
+  [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+];
+const MPEG2_BITRATES = [
+  [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+];
+const MPEG_SAMPLE_RATES = [44100, 48000, 32000];
+// Constant pool entry sizes (tag included) for fixed-size tags.
+const CLASS_CONSTANT_SIZES: Record<number, number> = {
+  3: 5,
+  4: 5,
+  7: 3,
+  8: 3,
+  9: 5,
+  10: 5,
+  11: 5,
+  12: 5,
+  15: 4,
+  16: 3,
+  17: 5,
+  18: 5,
+  19: 3,
+  20: 3,
+};
+
+function buildMsbCrcTable(polynomial: number, width: number): Uint16Array {
+  const topBit = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+  const table = new Uint16Array(256);
+  for (let index = 0; index < 256; index += 1) {
+    let value = index << (width - 8);
+    for (let bit = 0; bit < 8; bit += 1) {
+      value = value & topBit ? (value << 1) ^ polynomial : value << 1;
+    }
+    table[index] = value & mask;
+  }
+  return table;
+}
+
+// FLAC frame header CRC-8 and frame CRC-16, both MSB-first.
+const FLAC_CRC8_TABLE = buildMsbCrcTable(0x07, 8);
+const FLAC_CRC16_TABLE = buildMsbCrcTable(0x8005, 16);
 
 function matchesAt(
   bytes: Uint8Array,
@@ -226,117 +321,7 @@ function findJpegEnd(bytes: Uint8Array, startOffset: number): number | null {
 }
 
 function findGifEnd(bytes: Uint8Array, startOffset: number): number | null {
-  const hasHeader =
-    matchesAt(bytes, startOffset, GIF87A_SIGNATURE) ||
-    matchesAt(bytes, startOffset, GIF89A_SIGNATURE);
-  if (!hasHeader) {
-    return null;
-  }
-
-  if (startOffset + 13 > bytes.length) {
-    return null;
-  }
-
-  let offset = startOffset + 13;
-  const packedGlobal = bytes[startOffset + 10];
-  if ((packedGlobal & 0x80) !== 0) {
-    const tableSize = 3 * (1 << ((packedGlobal & 0x07) + 1));
-    offset += tableSize;
-    if (offset > bytes.length) {
-      return null;
-    }
-  }
-
-  while (offset < bytes.length) {
-    const sentinel = bytes[offset];
-    offset += 1;
-
-    if (sentinel === 0x3b) {
-      return offset;
-    }
-
-    if (sentinel === 0x2c) {
-      if (offset + 9 > bytes.length) {
-        return null;
-      }
-
-      const packedLocal = bytes[offset + 8];
-      offset += 9;
-      if ((packedLocal & 0x80) !== 0) {
-        const localTableSize = 3 * (1 << ((packedLocal & 0x07) + 1));
-        offset += localTableSize;
-        if (offset > bytes.length) {
-          return null;
-        }
-      }
-
-      if (offset >= bytes.length) {
-        return null;
-      }
-      offset += 1; // LZW minimum code size
-
-      while (offset < bytes.length) {
-        const blockSize = bytes[offset];
-        offset += 1;
-        if (blockSize === 0) {
-          break;
-        }
-        offset += blockSize;
-        if (offset > bytes.length) {
-          return null;
-        }
-      }
-      continue;
-    }
-
-    if (sentinel === 0x21) {
-      if (offset >= bytes.length) {
-        return null;
-      }
-
-      const extensionLabel = bytes[offset];
-      offset += 1;
-
-      if (extensionLabel === 0xf9) {
-        if (offset >= bytes.length) {
-          return null;
-        }
-        const blockSize = bytes[offset];
-        offset += 1 + blockSize;
-        if (offset >= bytes.length || bytes[offset] !== 0x00) {
-          return null;
-        }
-        offset += 1;
-        continue;
-      }
-
-      if (offset >= bytes.length) {
-        return null;
-      }
-      const firstBlockSize = bytes[offset];
-      offset += 1 + firstBlockSize;
-      if (offset > bytes.length) {
-        return null;
-      }
-
-      while (offset < bytes.length) {
-        const blockSize = bytes[offset];
-        offset += 1;
-        if (blockSize === 0) {
-          break;
-        }
-        offset += blockSize;
-        if (offset > bytes.length) {
-          return null;
-        }
-      }
-      continue;
-    }
-
-    return null;
-  }
-
-  return null;
+  return walkGifBlocks(bytes, startOffset)?.trailerEndOffset ?? null;
 }
 
 function findWebpEnd(bytes: Uint8Array, startOffset: number): number | null {
@@ -417,7 +402,12 @@ function findPdfEnd(bytes: Uint8Array, startOffset: number): number | null {
   return endOffset;
 }
 
-function findZipEnd(bytes: Uint8Array, startOffset: number): number | null {
+// Offset of the end-of-central-directory record closing the ZIP whose first
+// local file header is at startOffset.
+export function findZipEocdOffset(
+  bytes: Uint8Array,
+  startOffset: number,
+): number | null {
   if (!matchesAt(bytes, startOffset, ZIP_LOCAL_FILE_SIGNATURE)) {
     return null;
   }
@@ -436,15 +426,969 @@ function findZipEnd(bytes: Uint8Array, startOffset: number): number | null {
       continue;
     }
 
-    const endOffset = offset + 22 + commentLength;
-    if (endOffset <= bytes.length) {
-      return endOffset;
+    if (offset + 22 + commentLength <= bytes.length) {
+      return offset;
+    }
+  }
+
+  return null;
+}
+
+function findZipEnd(bytes: Uint8Array, startOffset: number): number | null {
+  const eocdOffset = findZipEocdOffset(bytes, startOffset);
+  if (eocdOffset === null) {
+    return null;
+  }
+  const commentLength = readUint16LE(bytes, eocdOffset + 20);
+  return commentLength === null ? null : eocdOffset + 22 + commentLength;
+}
+
+function readUint64LE(bytes: Uint8Array, offset: number): number | null {
+  const low = readUint32LE(bytes, offset);
+  const high = readUint32LE(bytes, offset + 4);
+  return low === null || high === null ? null : high * 0x100000000 + low;
+}
+
+function readUint64BE(bytes: Uint8Array, offset: number): number | null {
+  const high = readUint32BE(bytes, offset);
+  const low = readUint32BE(bytes, offset + 4);
+  return low === null || high === null ? null : high * 0x100000000 + low;
+}
+
+function matchesAscii(
+  bytes: Uint8Array,
+  offset: number,
+  text: string,
+): boolean {
+  if (offset < 0 || offset + text.length > bytes.length) {
+    return false;
+  }
+  for (let index = 0; index < text.length; index += 1) {
+    if (bytes[offset + index] !== text.charCodeAt(index)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Ends past the buffer mean the payload is cut off; callers fall back to the
+// next signature.
+function endWithin(bytes: Uint8Array, endOffset: number): number | null {
+  return endOffset <= bytes.length ? endOffset : null;
+}
+
+function findSevenZipEnd(
+  bytes: Uint8Array,
+  startOffset: number,
+): number | null {
+  const startHeaderCrc = readUint32LE(bytes, startOffset + 8);
+  const nextHeaderOffset = readUint64LE(bytes, startOffset + 12);
+  const nextHeaderSize = readUint64LE(bytes, startOffset + 20);
+  if (
+    startHeaderCrc === null ||
+    nextHeaderOffset === null ||
+    nextHeaderSize === null ||
+    startOffset + 32 > bytes.length ||
+    crc32(bytes, startOffset + 12, startOffset + 32) !== startHeaderCrc
+  ) {
+    return null;
+  }
+  return endWithin(bytes, startOffset + 32 + nextHeaderOffset + nextHeaderSize);
+}
+
+// RAR 1.5-4.x: fixed 7-byte block headers, walked up to the end-of-archive
+// block.
+function findRar4End(bytes: Uint8Array, startOffset: number): number | null {
+  let offset = startOffset + RAR4_SIGNATURE.length;
+  while (offset + 7 <= bytes.length) {
+    const type = bytes[offset + 2];
+    const flags = readUint16LE(bytes, offset + 3);
+    const headerSize = readUint16LE(bytes, offset + 5);
+    if (flags === null || headerSize === null || headerSize < 7) {
+      return null;
+    }
+    let dataSize = 0;
+    if (flags & 0x8000) {
+      const addSize = readUint32LE(bytes, offset + 7);
+      if (addSize === null) {
+        return null;
+      }
+      dataSize = addSize;
+    }
+
+    const blockEnd = offset + headerSize + dataSize;
+    if (blockEnd > bytes.length) {
+      return null;
+    }
+    if (type === 0x7b) {
+      return blockEnd;
+    }
+    offset = blockEnd;
+  }
+  return null;
+}
+
+// RAR5 variable-length integer: 7 bits per byte, low groups first.
+function readRarVint(
+  bytes: Uint8Array,
+  offset: number,
+): { value: number; length: number } | null {
+  let value = 0;
+  let multiplier = 1;
+  for (
+    let length = 1;
+    length <= 10 && offset + length <= bytes.length;
+    length += 1
+  ) {
+    const byte = bytes[offset + length - 1];
+    value += (byte & 0x7f) * multiplier;
+    if ((byte & 0x80) === 0) {
+      return { value, length };
+    }
+    multiplier *= 0x80;
+  }
+  return null;
+}
+
+function findRar5End(bytes: Uint8Array, startOffset: number): number | null {
+  let offset = startOffset + RAR5_SIGNATURE.length;
+  while (offset + 4 < bytes.length) {
+    const headerSize = readRarVint(bytes, offset + 4);
+    if (!headerSize || headerSize.value === 0) {
+      return null;
+    }
+    const headerStart = offset + 4 + headerSize.length;
+    const type = readRarVint(bytes, headerStart);
+    const flags = type && readRarVint(bytes, headerStart + type.length);
+    if (!type || !flags) {
+      return null;
+    }
+
+    let fieldOffset = headerStart + type.length + flags.length;
+    if (flags.value & 0x01) {
+      const extraSize = readRarVint(bytes, fieldOffset);
+      if (!extraSize) {
+        return null;
+      }
+      fieldOffset += extraSize.length;
+    }
+    let dataSize = 0;
+    if (flags.value & 0x02) {
+      const size = readRarVint(bytes, fieldOffset);
+      if (!size) {
+        return null;
+      }
+      dataSize = size.value;
+    }
+
+    const blockEnd = headerStart + headerSize.value + dataSize;
+    if (blockEnd > bytes.length) {
+      return null;
+    }
+    if (type.value === 5) {
+      return blockEnd;
+    }
+    offset = blockEnd;
+  }
+  return null;
+}
+
+function matchGzipAt(bytes: Uint8Array, offset: number): boolean {
+  return (
+    matchesAt(bytes, offset, GZIP_SIGNATURE) &&
+    offset + 10 <= bytes.length &&
+    (bytes[offset + 3] & 0xe0) === 0
+  );
+}
+
+// Inflates the member to find where the DEFLATE stream stops, then checks the
+// CRC-32/ISIZE trailer.
+function findGzipEnd(bytes: Uint8Array, startOffset: number): number | null {
+  const flags = bytes[startOffset + 3];
+  let offset = startOffset + 10;
+  if (flags & 0x04) {
+    const extraLength = readUint16LE(bytes, offset);
+    if (extraLength === null) {
+      return null;
+    }
+    offset += 2 + extraLength;
+  }
+  for (const flag of [0x08, 0x10]) {
+    if (flags & flag) {
+      const terminator = bytes.indexOf(0, offset);
+      if (terminator < 0) {
+        return null;
+      }
+      offset = terminator + 1;
     }
   }
+  if (flags & 0x02) {
+    offset += 2;
+  }
+  if (offset >= bytes.length) {
+    return null;
+  }
+
+  let inflated: ReturnType<typeof inflateRaw>;
+  try {
+    inflated = inflateRaw(bytes.subarray(offset));
+  } catch {
+    return null;
+  }
+  const trailerOffset = offset + inflated.consumedBytes;
+  if (
+    readUint32LE(bytes, trailerOffset) !== crc32(inflated.bytes) ||
+    readUint32LE(bytes, trailerOffset + 4) !== inflated.bytes.length >>> 0
+  ) {
+    return null;
+  }
+  return trailerOffset + 8;
+}
 
+function matchBzip2At(bytes: Uint8Array, offset: number): boolean {
+  return (
+    matchesAscii(bytes, offset, "BZh") &&
+    bytes[offset + 3] >= 0x31 &&
+    bytes[offset + 3] <= 0x39 &&
+    (matchesAt(bytes, offset + 4, BZIP2_BLOCK_MAGIC) ||
+      matchesAt(bytes, offset + 4, BZIP2_END_MAGIC))
+  );
+}
+
+// Blocks are bit-aligned, so the 48-bit end-of-stream magic is searched bit by
+// bit; the stream ends after the 32-bit CRC that follows it, padded to a byte.
+function findBzip2End(bytes: Uint8Array, startOffset: number): number | null {
+  const magicHigh = (BZIP2_END_MAGIC[0] << 8) | BZIP2_END_MAGIC[1];
+  const magicLow =
+    ((BZIP2_END_MAGIC[2] << 24) |
+      (BZIP2_END_MAGIC[3] << 16) |
+      (BZIP2_END_MAGIC[4] << 8) |
+      BZIP2_END_MAGIC[5]) >>>
+    0;
+  let high = 0;
+  let low = 0;
+  for (let offset = startOffset + 4; offset < bytes.length; offset += 1) {
+    for (let bit = 7; bit >= 0; bit -= 1) {
+      high = ((high << 1) | (low >>> 31)) & 0xffff;
+      low = ((low << 1) | ((bytes[offset] >> bit) & 1)) >>> 0;
+      if (high === magicHigh && low === magicLow) {
+        const endBit = offset * 8 + (8 - bit) + 32;
+        return endWithin(bytes, Math.ceil(endBit / 8));
+      }
+    }
+  }
   return null;
 }
 
+function matchXzAt(bytes: Uint8Array, offset: number): boolean {
+  return (
+    matchesAt(bytes, offset, XZ_SIGNATURE) &&
+    readUint32LE(bytes, offset + 8) === crc32(bytes, offset + 6, offset + 8)
+  );
+}
+
+// The 12-byte stream footer is 4-byte aligned, repeats the header's stream
+// flags and ends with "YZ".
+function findXzEnd(bytes: Uint8Array, startOffset: number): number | null {
+  for (
+    let offset = startOffset + 12;
+    offset + 12 <= bytes.length;
+    offset += 4
+  ) {
+    if (
+      matchesAscii(bytes, offset + 10, "YZ") &&
+      bytes[offset + 8] === bytes[startOffset + 6] &&
+      bytes[offset + 9] === bytes[startOffset + 7] &&
+      readUint32LE(bytes, offset) === crc32(bytes, offset + 4, offset + 10)
+    ) {
+      return offset + 12;
+    }
+  }
+  return null;
+}
+
+function readTarOctal(bytes: Uint8Array, offset: number, length: number) {
+  const text = String.fromCharCode(...bytes.subarray(offset, offset + length))
+    .replace(/\0.*$/, "")
+    .trim();
+  return /^[0-7]+$/.test(text) ? parseInt(text, 8) : null;
+}
+
+function hasValidTarChecksum(bytes: Uint8Array, offset: number): boolean {
+  if (offset + 512 > bytes.length) {
+    return false;
+  }
+  let sum = 0;
+  for (let index = 0; index < 512; index += 1) {
+    sum += index >= 148 && index < 156 ? 0x20 : bytes[offset + index];
+  }
+  return readTarOctal(bytes, offset + 148, 8) === sum;
+}
+
+function matchTarAt(bytes: Uint8Array, offset: number): boolean {
+  return (
+    bytes[offset + 257] === 0x75 &&
+    matchesAscii(bytes, offset + 257, "ustar") &&
+    hasValidTarChecksum(bytes, offset)
+  );
+}
+
+// 512-byte headers, each followed by its data rounded up to 512 bytes, until
+// two zero blocks (or the last valid header when they are missing).
+function findTarEnd(bytes: Uint8Array, startOffset: number): number | null {
+  let offset = startOffset;
+  while (offset + 512 <= bytes.length) {
+    if (bytes.subarray(offset, offset + 512).every((value) => value === 0)) {
+      return Math.min(offset + 1024, bytes.length);
+    }
+    const size = readTarOctal(bytes, offset + 124, 12);
+    if (!hasValidTarChecksum(bytes, offset) || size === null) {
+      break;
+    }
+    const entryEnd = offset + 512 + Math.ceil(size / 512) * 512;
+    if (entryEnd > bytes.length) {
+      return null;
+    }
+    offset = entryEnd;
+  }
+  return offset;
+}
+
+function matchElfAt(bytes: Uint8Array, offset: number): boolean {
+  return (
+    matchesAt(bytes, offset, ELF_SIGNATURE) &&
+    (bytes[offset + 4] === 1 || bytes[offset + 4] === 2) &&
+    (bytes[offset + 5] === 1 || bytes[offset + 5] === 2) &&
+    bytes[offset + 6] === 1
+  );
+}
+
+// The furthest of the header tables, program segments and sections with file
+// contents (SHT_NOBITS sections occupy no bytes).
+function findElfEnd(bytes: Uint8Array, startOffset: number): number | null {
+  const is64Bit = bytes[startOffset + 4] === 2;
+  const isLittleEndian = bytes[startOffset + 5] === 1;
+  const read16 = isLittleEndian ? readUint16LE : readUint16BE;
+  const read32 = isLittleEndian ? readUint32LE : readUint32BE;
+  const readWord = is64Bit
+    ? isLittleEndian
+      ? readUint64LE
+      : readUint64BE
+    : read32;
+  const field = (offset32: number, offset64: number) =>
+    startOffset + (is64Bit ? offset64 : offset32);
+
+  const programOffset = readWord(bytes, field(28, 32));
+  const sectionOffset = readWord(bytes, field(32, 40));
+  const programEntrySize = read16(bytes, field(42, 54));
+  const programCount = read16(bytes, field(44, 56));
+  const sectionEntrySize = read16(bytes, field(46, 58));
+  const sectionCount = read16(bytes, field(48, 60));
+  if (
+    programOffset === null ||
+    sectionOffset === null ||
+    programEntrySize === null ||
+    programCount === null ||
+    sectionEntrySize === null ||
+    sectionCount === null
+  ) {
+    return null;
+  }
+
+  let endOffset = Math.max(
+    is64Bit ? 64 : 52,
+    programOffset + programEntrySize * programCount,
+    sectionOffset + sectionEntrySize * sectionCount,
+  );
+  for (let index = 0; index < programCount; index += 1) {
+    const entry = startOffset + programOffset + index * programEntrySize;
+    const fileOffset = readWord(bytes, entry + (is64Bit ? 8 : 4));
+    const fileSize = readWord(bytes, entry + (is64Bit ? 32 : 16));
+    if (fileOffset === null || fileSize === null) {
+      return null;
+    }
+    endOffset = Math.max(endOffset, fileOffset + fileSize);
+  }
+  for (let index = 0; index < sectionCount; index += 1) {
+    const entry = startOffset + sectionOffset + index * sectionEntrySize;
+    const type = read32(bytes, entry + 4);
+    const fileOffset = readWord(bytes, entry + (is64Bit ? 24 : 16));
+    const fileSize = readWord(bytes, entry + (is64Bit ? 32 : 20));
+    if (type === null || fileOffset === null || fileSize === null) {
+      return null;
+    }
+    if (type !== 8) {
+      endOffset = Math.max(endOffset, fileOffset + fileSize);
+    }
+  }
+  return endWithin(bytes, startOffset + endOffset);
+}
+
+function matchPeAt(bytes: Uint8Array, offset: number): boolean {
+  if (bytes[offset] !== 0x4d || bytes[offset + 1] !== 0x5a) {
+    return false;
+  }
+  const peOffset = readUint32LE(bytes, offset + 0x3c);
+  return (
+    peOffset !== null &&
+    peOffset >= 0x40 &&
+    matchesAt(bytes, offset + peOffset, PE_SIGNATURE)
+  );
+}
+
+// Headers, then the raw data of every section, then the Authenticode
+// certificate table, which sits outside the sections.
+function findPeEnd(bytes: Uint8Array, startOffset: number): number | null {
+  const peHeaderOffset = readUint32LE(bytes, startOffset + 0x3c);
+  if (peHeaderOffset === null) {
+    return null;
+  }
+  const peOffset = startOffset + peHeaderOffset;
+  const sectionCount = readUint16LE(bytes, peOffset + 6);
+  const optionalHeaderSize = readUint16LE(bytes, peOffset + 20);
+  const optionalHeader = peOffset + 24;
+  const magic = readUint16LE(bytes, optionalHeader);
+  const headersSize = readUint32LE(bytes, optionalHeader + 60);
+  if (
+    sectionCount === null ||
+    optionalHeaderSize === null ||
+    magic === null ||
+    headersSize === null
+  ) {
+    return null;
+  }
+
+  let endOffset = Math.max(
+    headersSize,
+    optionalHeader + optionalHeaderSize + sectionCount * 40 - startOffset,
+  );
+  const sectionTable = optionalHeader + optionalHeaderSize;
+  for (let index = 0; index < sectionCount; index += 1) {
+    const rawSize = readUint32LE(bytes, sectionTable + index * 40 + 16);
+    const rawOffset = readUint32LE(bytes, sectionTable + index * 40 + 20);
+    if (rawSize === null || rawOffset === null) {
+      return null;
+    }
+    if (rawSize > 0) {
+      endOffset = Math.max(endOffset, rawOffset + rawSize);
+    }
+  }
+
+  const directoryBase = optionalHeader + (magic === 0x20b ? 112 : 96);
+  const directoryCount = readUint32LE(bytes, directoryBase - 4);
+  if (directoryCount !== null && directoryCount > 4) {
+    const certificateOffset = readUint32LE(bytes, directoryBase + 32);
+    const certificateSize = readUint32LE(bytes, directoryBase + 36);
+    if (certificateOffset && certificateSize) {
+      endOffset = Math.max(endOffset, certificateOffset + certificateSize);
+    }
+  }
+  return endWithin(bytes, startOffset + endOffset);
+}
+
+function matchMachOAt(bytes: Uint8Array, offset: number): boolean {
+  const magic = readUint32BE(bytes, offset);
+  if (magic === 0xcafebabe) {
+    // Fat binaries share the Java class magic; a small architecture count
+    // tells them apart from class file version numbers (45 and up).
+    const archCount = readUint32BE(bytes, offset + 4);
+    return archCount !== null && archCount > 0 && archCount < 45;
+  }
+  if (magic === null || !MACHO_MAGICS.has(magic)) {
+    return false;
+  }
+  const isLittleEndian = bytes[offset] !== 0xfe;
+  const commandCount = (isLittleEndian ? readUint32LE : readUint32BE)(
+    bytes,
+    offset + 16,
+  );
+  return commandCount !== null && commandCount > 0;
+}
+
+// Thin binaries end with their furthest segment or code signature; fat
+// binaries with their furthest architecture slice.
+function findMachOEnd(bytes: Uint8Array, startOffset: number): number | null {
+  if (readUint32BE(bytes, startOffset) === 0xcafebabe) {
+    const archCount = readUint32BE(bytes, startOffset + 4);
+    if (archCount === null) {
+      return null;
+    }
+    let endOffset = 8 + archCount * 20;
+    for (let index = 0; index < archCount; index += 1) {
+      const entry = startOffset + 8 + index * 20;
+      const sliceOffset = readUint32BE(bytes, entry + 8);
+      const sliceSize = readUint32BE(bytes, entry + 12);
+      if (sliceOffset === null || sliceSize === null) {
+        return null;
+      }
+      endOffset = Math.max(endOffset, sliceOffset + sliceSize);
+    }
+    return endWithin(bytes, startOffset + endOffset);
+  }
+
+  const isLittleEndian = bytes[startOffset] !== 0xfe;
+  const is64Bit =
+    (bytes[isLittleEndian ? startOffset : startOffset + 3] & 1) === 1;
+  const read32 = isLittleEndian ? readUint32LE : readUint32BE;
+  const read64 = isLittleEndian ? readUint64LE : readUint64BE;
+  const commandCount = read32(bytes, startOffset + 16);
+  const commandsSize = read32(bytes, startOffset + 20);
+  if (commandCount === null || commandsSize === null) {
+    return null;
+  }
+
+  const headerSize = is64Bit ? 32 : 28;
+  let endOffset = headerSize + commandsSize;
+  let command = startOffset + headerSize;
+  for (let index = 0; index < commandCount; index += 1) {
+    const type = read32(bytes, command);
+    const size = read32(bytes, command + 4);
+    if (type === null || size === null || size < 8) {
+      return null;
+    }
+    let fileOffset: number | null = 0;
+    let fileSize: number | null = 0;
+    if (type === 0x01) {
+      fileOffset = read32(bytes, command + 32);
+      fileSize = read32(bytes, command + 36);
+    } else if (type === 0x19) {
+      fileOffset = read64(bytes, command + 40);
+      fileSize = read64(bytes, command + 48);
+    } else if (type === 0x1d) {
+      fileOffset = read32(bytes, command + 8);
+      fileSize = read32(bytes, command + 12);
+    }
+    if (fileOffset === null || fileSize === null) {
+      return null;
+    }
+    endOffset = Math.max(endOffset, fileOffset + fileSize);
+    command += size;
+  }
+  return endWithin(bytes, startOffset + endOffset);
+}
+
+function readRiffFormType(bytes: Uint8Array, offset: number): string | null {
+  if (!matchesAt(bytes, offset, RIFF_SIGNATURE) || offset + 12 > bytes.length) {
+    return null;
+  }
+  const formType = String.fromCharCode(
+    ...bytes.subarray(offset + 8, offset + 12),
+  );
+  return /^[A-Za-z0-9 ]{4}$/.test(formType) ? formType : null;
+}
+
+// RIFF size plus the pad byte that keeps an odd-sized body word-aligned.
+function findRiffEnd(bytes: Uint8Array, startOffset: number): number | null {
+  const size = readUint32LE(bytes, startOffset + 4);
+  if (size === null || size < 4) {
+    return null;
+  }
+  const endOffset = startOffset + 8 + size;
+  return endWithin(
+    bytes,
+    endOffset + (size % 2 === 1 && endOffset < bytes.length ? 1 : 0),
+  );
+}
+
+function matchOggAt(bytes: Uint8Array, offset: number): boolean {
+  return (
+    matchesAt(bytes, offset, OGG_SIGNATURE) &&
+    bytes[offset + 4] === 0 &&
+    bytes[offset + 5] <= 0x07
+  );
+}
+
+// Consecutive pages, each 27 header bytes plus its segment table and
+// segments; chained and multiplexed streams are walked as one payload.
+function findOggEnd(bytes: Uint8Array, startOffset: number): number | null {
+  let offset = startOffset;
+  while (matchOggAt(bytes, offset) && offset + 27 <= bytes.length) {
+    const segmentCount = bytes[offset + 26];
+    const tableEnd = offset + 27 + segmentCount;
+    if (tableEnd > bytes.length) {
+      break;
+    }
+    let pageEnd = tableEnd;
+    for (let index = offset + 27; index < tableEnd; index += 1) {
+      pageEnd += bytes[index];
+    }
+    if (pageEnd > bytes.length) {
+      break;
+    }
+    offset = pageEnd;
+  }
+  return offset > startOffset ? offset : null;
+}
+
+function matchId3At(bytes: Uint8Array, offset: number): boolean {
+  return (
+    matchesAscii(bytes, offset, "ID3") &&
+    offset + 10 <= bytes.length &&
+    bytes[offset + 3] >= 2 &&
+    bytes[offset + 3] <= 4 &&
+    bytes[offset + 4] !== 0xff &&
+    (bytes[offset + 5] & 0x0f) === 0 &&
+    bytes.subarray(offset + 6, offset + 10).every((value) => value < 0x80)
+  );
+}
+
+// Length of the MPEG audio frame whose header starts at offset, or null when
+// the four bytes are not a valid frame header.
+function readMpegFrameLength(bytes: Uint8Array, offset: number): number | null {
+  if (
+    offset + 4 > bytes.length ||
+    bytes[offset] !== 0xff ||
+    (bytes[offset + 1] & 0xe0) !== 0xe0
+  ) {
+    return null;
+  }
+  const version = (bytes[offset + 1] >> 3) & 0x03;
+  const layer = (bytes[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = bytes[offset + 2] >> 4;
+  const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03;
+  if (
+    version === 1 ||
+    layer === 0 ||
+    bitrateIndex === 0 ||
+    bitrateIndex === 15 ||
+    sampleRateIndex === 3
+  ) {
+    return null;
+  }
+
+  const isMpeg1 = version === 3;
+  const layerNumber = 4 - layer;
+  const bitrateTable = isMpeg1
+    ? MPEG1_BITRATES[layerNumber - 1]
+    : MPEG2_BITRATES[layerNumber === 1 ? 0 : 1];
+  const bitrate = bitrateTable[bitrateIndex] * 1000;
+  const sampleRate =
+    MPEG_SAMPLE_RATES[sampleRateIndex] / (isMpeg1 ? 1 : version === 2 ? 2 : 4);
+  const padding = (bytes[offset + 2] >> 1) & 0x01;
+  if (layerNumber === 1) {
+    return (Math.floor((12 * bitrate) / sampleRate) + padding) * 4;
+  }
+  const samplesFactor = layerNumber === 3 && !isMpeg1 ? 72 : 144;
+  return Math.floor((samplesFactor * bitrate) / sampleRate) + padding;
+}
+
+// ID3v2 tag, the MPEG frames that follow it and an optional ID3v1 "TAG".
+function findMp3End(bytes: Uint8Array, startOffset: number): number | null {
+  let tagSize = 0;
+  for (let index = 6; index < 10; index += 1) {
+    tagSize = tagSize * 0x80 + bytes[startOffset + index];
+  }
+  const hasFooter = (bytes[startOffset + 5] & 0x10) !== 0;
+  let offset = startOffset + 10 + tagSize + (hasFooter ? 10 : 0);
+  if (offset > bytes.length) {
+    return null;
+  }
+
+  const framesStart = offset;
+  for (
+    let frameLength = readMpegFrameLength(bytes, offset);
+    frameLength !== null && offset + frameLength <= bytes.length;
+    frameLength = readMpegFrameLength(bytes, offset)
+  ) {
+    offset += frameLength;
+  }
+  // A tag without audio is left to the fallback.
+  if (offset === framesStart) {
+    return null;
+  }
+  if (matchesAscii(bytes, offset, "TAG") && offset + 128 <= bytes.length) {
+    offset += 128;
+  }
+  return offset;
+}
+
+function matchFlacAt(bytes: Uint8Array, offset: number): boolean {
+  // STREAMINFO must come first and is always 34 bytes long.
+  const blockHeader = readUint32BE(bytes, offset + 4);
+  return (
+    matchesAscii(bytes, offset, "fLaC") &&
+    blockHeader !== null &&
+    (blockHeader & 0x7fffffff) === 34 &&
+    offset + 42 <= bytes.length
+  );
+}
+
+// Header length of the FLAC frame at offset when its sync code and CRC-8
+// check out, otherwise null.
+function readFlacFrameHeaderLength(
+  bytes: Uint8Array,
+  offset: number,
+): number | null {
+  if (
+    offset + 6 > bytes.length ||
+    bytes[offset] !== 0xff ||
+    (bytes[offset + 1] & 0xfe) !== 0xf8
+  ) {
+    return null;
+  }
+  const blockSizeCode = bytes[offset + 2] >> 4;
+  const sampleRateCode = bytes[offset + 2] & 0x0f;
+  if (blockSizeCode === 0 || sampleRateCode === 15 || bytes[offset + 3] & 1) {
+    return null;
+  }
+
+  // The frame or sample number is UTF-8 coded: the lead byte's high set bits
+  // give the byte count.
+  let leadingOnes = 0;
+  while (leadingOnes < 8 && bytes[offset + 4] & (0x80 >> leadingOnes)) {
+    leadingOnes += 1;
+  }
+  if (leadingOnes === 1 || leadingOnes > 7) {
+    return null;
+  }
+  const numberLength = Math.max(1, leadingOnes);
+
+  let length = 4 + numberLength;
+  length += blockSizeCode === 6 ? 1 : blockSizeCode === 7 ? 2 : 0;
+  length += sampleRateCode === 12 ? 1 : sampleRateCode >= 13 ? 2 : 0;
+  if (offset + length + 1 > bytes.length) {
+    return null;
+  }
+
+  let crc = 0;
+  for (let index = offset; index < offset + length; index += 1) {
+    crc = FLAC_CRC8_TABLE[crc ^ bytes[index]];
+  }
+  return crc === bytes[offset + length] ? length + 1 : null;
+}
+
+// Metadata blocks, then audio frames. Frames carry no length, so each one
+// ends where its CRC-16 matches and the next frame header begins; the last
+// frame ends at the first CRC-16 match.
+function findFlacEnd(bytes: Uint8Array, startOffset: number): number | null {
+  let offset = startOffset + 4;
+  for (let isLast = false; !isLast; ) {
+    const header = readUint32BE(bytes, offset);
+    if (header === null) {
+      return null;
+    }
+    isLast = header >>> 31 === 1;
+    offset += 4 + (header & 0xffffff);
+  }
+  if (offset > bytes.length) {
+    return null;
+  }
+
+  let frameStart = offset;
+  while (readFlacFrameHeaderLength(bytes, frameStart) !== null) {
+    let crc = 0;
+    let frameEnd = -1;
+    let lastMatch = -1;
+    for (let index = frameStart; index + 2 <= bytes.length; index += 1) {
+      if (crc === ((bytes[index] << 8) | bytes[index + 1])) {
+        if (readFlacFrameHeaderLength(bytes, index + 2) !== null) {
+          frameEnd = index + 2;
+          break;
+        }
+        if (lastMatch < 0) {
+          lastMatch = index + 2;
+        }
+      }
+      crc = ((crc << 8) ^ FLAC_CRC16_TABLE[(crc >> 8) ^ bytes[index]]) & 0xffff;
+    }
+    if (frameEnd < 0) {
+      return lastMatch < 0 ? null : lastMatch;
+    }
+    frameStart = frameEnd;
+  }
+  return frameStart;
+}
+
+// The in-header page count is only trusted when "version-valid-for" matches
+// the change counter, as SQLite itself does.
+function findSqliteEnd(bytes: Uint8Array, startOffset: number): number | null {
+  const pageSizeField = readUint16BE(bytes, startOffset + 16);
+  const changeCounter = readUint32BE(bytes, startOffset + 24);
+  const pageCount = readUint32BE(bytes, startOffset + 28);
+  const validFor = readUint32BE(bytes, startOffset + 92);
+  if (
+    pageSizeField === null ||
+    pageCount === null ||
+    pageCount === 0 ||
+    changeCounter !== validFor
+  ) {
+    return null;
+  }
+  const pageSize = pageSizeField === 1 ? 65536 : pageSizeField;
+  if (pageSize < 512 || (pageSize & (pageSize - 1)) !== 0) {
+    return null;
+  }
+  return endWithin(bytes, startOffset + pageSize * pageCount);
+}
+
+function matchClassAt(bytes: Uint8Array, offset: number): boolean {
+  const majorVersion = readUint16BE(bytes, offset + 6);
+  return (
+    readUint32BE(bytes, offset) === 0xcafebabe &&
+    majorVersion !== null &&
+    majorVersion >= 45 &&
+    majorVersion < 100
+  );
+}
+
+// Constant pool, then fields, methods and attributes, each with a count.
+function findClassEnd(bytes: Uint8Array, startOffset: number): number | null {
+  const poolCount = readUint16BE(bytes, startOffset + 8);
+  if (poolCount === null) {
+    return null;
+  }
+  let offset = startOffset + 10;
+  for (let index = 1; index < poolCount; index += 1) {
+    const tag = bytes[offset];
+    if (tag === 1) {
+      const length = readUint16BE(bytes, offset + 1);
+      if (length === null) {
+        return null;
+      }
+      offset += 3 + length;
+    } else if (tag === 5 || tag === 6) {
+      offset += 9;
+      index += 1;
+    } else if (CLASS_CONSTANT_SIZES[tag]) {
+      offset += CLASS_CONSTANT_SIZES[tag];
+    } else {
+      return null;
+    }
+  }
+
+  const interfaceCount = readUint16BE(bytes, offset + 6);
+  if (interfaceCount === null) {
+    return null;
+  }
+  offset += 8 + interfaceCount * 2;
+
+  const skipAttributes = (): boolean => {
+    const count = readUint16BE(bytes, offset);
+    if (count === null) {
+      return false;
+    }
+    offset += 2;
+    for (let index = 0; index < count; index += 1) {
+      const length = readUint32BE(bytes, offset + 2);
+      if (length === null) {
+        return false;
+      }
+      offset += 6 + length;
+    }
+    return true;
+  };
+  // Fields, then methods: flags, name and descriptor, then attributes.
+  for (let list = 0; list < 2; list += 1) {
+    const count = readUint16BE(bytes, offset);
+    if (count === null) {
+      return null;
+    }
+    offset += 2;
+    for (let index = 0; index < count; index += 1) {
+      offset += 6;
+      if (!skipAttributes()) {
+        return null;
+      }
+    }
+  }
+  if (!skipAttributes()) {
+    return null;
+  }
+  return endWithin(bytes, offset);
+}
+
+function matchIcoAt(bytes: Uint8Array, offset: number): boolean {
+  const count = readUint16LE(bytes, offset + 4);
+  if (
+    !matchesAt(bytes, offset, ICO_SIGNATURE) ||
+    count === null ||
+    count === 0 ||
+    offset + 6 + count * 16 > bytes.length
+  ) {
+    return false;
+  }
+  for (let index = 0; index < count; index += 1) {
+    const entry = offset + 6 + index * 16;
+    const imageOffset = readUint32LE(bytes, entry + 12);
+    if (
+      bytes[entry + 3] !== 0 ||
+      bytes[entry + 4] > 1 ||
+      readUint32LE(bytes, entry + 8) === 0 ||
+      imageOffset === null ||
+      imageOffset < 6 + count * 16
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function findIcoEnd(bytes: Uint8Array, startOffset: number): number | null {
+  const count = readUint16LE(bytes, startOffset + 4);
+  if (count === null) {
+    return null;
+  }
+  let endOffset = 6 + count * 16;
+  for (let index = 0; index < count; index += 1) {
+    const entry = startOffset + 6 + index * 16;
+    const imageSize = readUint32LE(bytes, entry + 8);
+    const imageOffset = readUint32LE(bytes, entry + 12);
+    if (imageSize === null || imageOffset === null) {
+      return null;
+    }
+    endOffset = Math.max(endOffset, imageOffset + imageSize);
+  }
+  return endWithin(bytes, startOffset + endOffset);
+}
+
+// Label of a "-----BEGIN <label>-----" line at offset.
+function readArmorLabel(bytes: Uint8Array, offset: number): string | null {
+  if (!matchesAscii(bytes, offset, ARMOR_BEGIN)) {
+    return null;
+  }
+  const labelStart = offset + ARMOR_BEGIN.length;
+  for (
+    let index = labelStart;
+    index < Math.min(bytes.length, labelStart + 64);
+    index += 1
+  ) {
+    if (matchesAscii(bytes, index, "-----")) {
+      return index > labelStart
+        ? String.fromCharCode(...bytes.subarray(labelStart, index))
+        : null;
+    }
+    if (!/[A-Z0-9 ]/.test(String.fromCharCode(bytes[index]))) {
+      return null;
+    }
+  }
+  return null;
+}
+
+// Ends after the matching END line and its line break.
+function findArmorEnd(bytes: Uint8Array, startOffset: number): number | null {
+  const label = readArmorLabel(bytes, startOffset);
+  if (label === null) {
+    return null;
+  }
+  const endLine = new Uint8Array(
+    Array.from(`-----END ${label}-----`, (character) =>
+      character.charCodeAt(0),
+    ),
+  );
+  const found = findNextPattern(bytes, endLine, startOffset + 1);
+  if (found < 0) {
+    return null;
+  }
+  let endOffset = found + endLine.length;
+  if (bytes[endOffset] === 0x0d) {
+    endOffset += 1;
+  }
+  if (bytes[endOffset] === 0x0a) {
+    endOffset += 1;
+  }
+  return endOffset;
+}
+
 function matchWebpAt(bytes: Uint8Array, offset: number): boolean {
   return (
     matchesAt(bytes, offset, RIFF_SIGNATURE) &&
@@ -460,6 +1404,7 @@ const SIGNATURE_SPECS: ReadonlyArray<SignatureSpec> = [
     mimeType: "image/png",
     signature: "PNG signature",
     strategy: "Parsed PNG chunks through IEND.",
+    leadBytes: [0x89],
     matchAt: (bytes, offset) => matchesAt(bytes, offset, PNG_SIGNATURE),
     findEnd: findPngEnd,
   },
@@ -470,6 +1415,7 @@ const SIGNATURE_SPECS: ReadonlyArray<SignatureSpec> = [
     mimeType: "image/jpeg",
     signature: "JPEG SOI marker",
     strategy: "Parsed JPEG markers through EOI.",
+    leadBytes: [0xff],
     matchAt: (bytes, offset) =>
       offset + 3 <= bytes.length &&
       bytes[offset] === 0xff &&
@@ -484,6 +1430,7 @@ const SIGNATURE_SPECS: ReadonlyArray<SignatureSpec> = [
     mimeType: "image/gif",
     signature: "GIF87a/GIF89a header",
     strategy: "Parsed GIF block stream through trailer.",
+    leadBytes: [0x47],
     matchAt: (bytes, offset) =>
       matchesAt(bytes, offset, GIF87A_SIGNATURE) ||
       matchesAt(bytes, offset, GIF89A_SIGNATURE),
@@ -496,6 +1443,7 @@ const SIGNATURE_SPECS: ReadonlyArray<SignatureSpec> = [
     mimeType: "image/webp",
     signature: "RIFF WEBP header",
     strategy: "Used RIFF container length.",
+    leadBytes: [0x52],
     matchAt: matchWebpAt,
     findEnd: findWebpEnd,
   },
@@ -506,6 +1454,7 @@ const SIGNATURE_SPECS: ReadonlyArray<SignatureSpec> = [
     mimeType: "image/bmp",
     signature: "BM header",
     strategy: "Used BMP file size field.",
+    leadBytes: [0x42],
     matchAt: (bytes, offset) =>
       offset + 2 <= bytes.length &&
       bytes[offset] === 0x42 &&
@@ -519,6 +1468,7 @@ const SIGNATURE_SPECS: ReadonlyArray<SignatureSpec> = [
     mimeType: "image/tiff",
     signature: "TIFF byte-order header",
     strategy: "No reliable TIFF end marker; used signature boundary fallback.",
+    leadBytes: [0x49, 0x4d],
     matchAt: (bytes, offset) =>
       matchesAt(bytes, offset, TIFF_LE_SIGNATURE) ||
       matchesAt(bytes, offset, TIFF_BE_SIGNATURE),
@@ -531,6 +1481,7 @@ const SIGNATURE_SPECS: ReadonlyArray<SignatureSpec> = [
     mimeType: "application/pdf",
     signature: "PDF header",
     strategy: "Searched for final %%EOF marker.",
+    leadBytes: [0x25],
     matchAt: (bytes, offset) => matchesAt(bytes, offset, PDF_SIGNATURE),
     findEnd: findPdfEnd,
   },
@@ -541,18 +1492,263 @@ const SIGNATURE_SPECS: ReadonlyArray<SignatureSpec> = [
     mimeType: "application/zip",
     signature: "ZIP local file header",
     strategy: "Parsed ZIP EOCD footer.",
+    leadBytes: [0x50],
     matchAt: (bytes, offset) =>
       matchesAt(bytes, offset, ZIP_LOCAL_FILE_SIGNATURE),
     findEnd: findZipEnd,
   },
+  {
+    kind: "7z",
+    label: "7-Zip archive",
+    extension: "7z",
+    mimeType: "application/x-7z-compressed",
+    signature: "7z signature header",
+    strategy: "Used the start header's next-header offset and size.",
+    leadBytes: [0x37],
+    matchAt: (bytes, offset) =>
+      matchesAt(bytes, offset, SEVEN_ZIP_SIGNATURE) && bytes[offset + 6] === 0,
+    findEnd: findSevenZipEnd,
+  },
+  {
+    kind: "rar",
+    label: "RAR archive",
+    extension: "rar",
+    mimeType: "application/vnd.rar",
+    signature: "RAR 4.x marker block",
+    strategy: "Walked RAR blocks through the end-of-archive block.",
+    leadBytes: [0x52],
+    matchAt: (bytes, offset) => matchesAt(bytes, offset, RAR4_SIGNATURE),
+    findEnd: findRar4End,
+  },
+  {
+    kind: "rar",
+    label: "RAR archive",
+    extension: "rar",
+    mimeType: "application/vnd.rar",
+    signature: "RAR 5.0 signature",
+    strategy: "Walked RAR5 headers through the end-of-archive header.",
+    leadBytes: [0x52],
+    matchAt: (bytes, offset) => matchesAt(bytes, offset, RAR5_SIGNATURE),
+    findEnd: findRar5End,
+  },
+  {
+    kind: "gzip",
+    label: "gzip stream",
+    extension: "gz",
+    mimeType: "application/gzip",
+    signature: "gzip member header",
+    strategy: "Inflated the DEFLATE stream and checked the CRC-32 trailer.",
+    leadBytes: [0x1f],
+    matchAt: matchGzipAt,
+    findEnd: findGzipEnd,
+  },
+  {
+    kind: "bzip2",
+    label: "bzip2 stream",
+    extension: "bz2",
+    mimeType: "application/x-bzip2",
+    signature: "BZh header",
+    strategy: "Searched bit by bit for the end-of-stream marker.",
+    leadBytes: [0x42],
+    matchAt: matchBzip2At,
+    findEnd: findBzip2End,
+  },
+  {
+    kind: "xz",
+    label: "xz stream",
+    extension: "xz",
+    mimeType: "application/x-xz",
+    signature: "xz stream header",
+    strategy: "Found the stream footer matching the header flags.",
+    leadBytes: [0xfd],
+    matchAt: matchXzAt,
+    findEnd: findXzEnd,
+  },
+  {
+    kind: "tar",
+    label: "tar archive",
+    extension: "tar",
+    mimeType: "application/x-tar",
+    signature: "ustar header",
+    strategy: "Walked tar headers through the end-of-archive blocks.",
+    matchAt: matchTarAt,
+    findEnd: findTarEnd,
+  },
+  {
+    kind: "elf",
+    label: "ELF executable",
+    extension: "elf",
+    mimeType: "application/x-executable",
+    signature: "ELF identification",
+    strategy: "Used the furthest of the header tables, segments and sections.",
+    leadBytes: [0x7f],
+    matchAt: matchElfAt,
+    findEnd: findElfEnd,
+  },
+  {
+    kind: "pe",
+    label: "PE executable",
+    extension: "exe",
+    mimeType: "application/vnd.microsoft.portable-executable",
+    signature: "MZ header with PE signature",
+    strategy: "Used the furthest section and the certificate table.",
+    leadBytes: [0x4d],
+    matchAt: matchPeAt,
+    findEnd: findPeEnd,
+  },
+  {
+    kind: "macho",
+    label: "Mach-O binary",
+    extension: "macho",
+    mimeType: "application/x-mach-binary",
+    signature: "Mach-O or fat header",
+    strategy:
+      "Used the furthest segment, code signature or architecture slice.",
+    leadBytes: [0xca, 0xce, 0xcf, 0xfe],
+    matchAt: matchMachOAt,
+    findEnd: findMachOEnd,
+  },
+  {
+    kind: "wav",
+    label: "WAV audio",
+    extension: "wav",
+    mimeType: "audio/wav",
+    signature: "RIFF WAVE header",
+    strategy: "Used RIFF container length.",
+    leadBytes: [0x52],
+    matchAt: (bytes, offset) => readRiffFormType(bytes, offset) === "WAVE",
+    findEnd: findRiffEnd,
+  },
+  {
+    kind: "riff",
+    label: "RIFF container",
+    extension: "riff",
+    mimeType: "application/octet-stream",
+    signature: "RIFF header",
+    strategy: "Used RIFF container length.",
+    leadBytes: [0x52],
+    matchAt: (bytes, offset) => {
+      const formType = readRiffFormType(bytes, offset);
+      return formType !== null && formType !== "WAVE" && formType !== "WEBP";
+    },
+    findEnd: findRiffEnd,
+  },
+  {
+    kind: "ogg",
+    label: "Ogg stream",
+    extension: "ogg",
+    mimeType: "audio/ogg",
+    signature: "OggS page header",
+    strategy: "Walked consecutive Ogg pages.",
+    leadBytes: [0x4f],
+    matchAt: matchOggAt,
+    findEnd: findOggEnd,
+  },
+  {
+    kind: "mp3",
+    label: "MP3 audio",
+    extension: "mp3",
+    mimeType: "audio/mpeg",
+    signature: "ID3v2 tag",
+    strategy: "Skipped the ID3 tag and walked MPEG audio frames.",
+    leadBytes: [0x49],
+    matchAt: matchId3At,
+    findEnd: findMp3End,
+  },
+  {
+    kind: "flac",
+    label: "FLAC audio",
+    extension: "flac",
+    mimeType: "audio/flac",
+    signature: "fLaC marker with STREAMINFO",
+    strategy: "Walked metadata blocks and CRC-checked audio frames.",
+    leadBytes: [0x66],
+    matchAt: matchFlacAt,
+    findEnd: findFlacEnd,
+  },
+  {
+    kind: "sqlite",
+    label: "SQLite database",
+    extension: "sqlite",
+    mimeType: "application/vnd.sqlite3",
+    signature: "SQLite format 3 header",
+    strategy: "Used the header page size and page count.",
+    leadBytes: [0x53],
+    matchAt: (bytes, offset) => matchesAt(bytes, offset, SQLITE_SIGNATURE),
+    findEnd: findSqliteEnd,
+  },
+  {
+    kind: "class",
+    label: "Java class file",
+    extension: "class",
+    mimeType: "application/java-vm",
+    signature: "CAFEBABE class header",
+    strategy: "Parsed the constant pool, fields, methods and attributes.",
+    leadBytes: [0xca],
+    matchAt: matchClassAt,
+    findEnd: findClassEnd,
+  },
+  {
+    kind: "ico",
+    label: "ICO icon",
+    extension: "ico",
+    mimeType: "image/vnd.microsoft.icon",
+    signature: "ICONDIR header",
+    strategy: "Used the furthest icon image in the directory.",
+    leadBytes: [0x00],
+    matchAt: matchIcoAt,
+    findEnd: findIcoEnd,
+  },
+  {
+    kind: "pem",
+    label: "PEM block",
+    extension: "pem",
+    mimeType: "application/x-pem-file",
+    signature: "-----BEGIN line",
+    strategy: "Searched for the matching -----END line.",
+    leadBytes: [0x2d],
+    matchAt: (bytes, offset) => {
+      const label = readArmorLabel(bytes, offset);
+      return label !== null && !label.startsWith("PGP ");
+    },
+    findEnd: findArmorEnd,
+  },
+  {
+    kind: "pgp",
+    label: "OpenPGP armor block",
+    extension: "asc",
+    mimeType: "text/plain",
+    signature: "-----BEGIN PGP line",
+    strategy: "Searched for the matching -----END line.",
+    leadBytes: [0x2d],
+    matchAt: (bytes, offset) =>
+      readArmorLabel(bytes, offset)?.startsWith("PGP ") ?? false,
+    findEnd: findArmorEnd,
+  },
 ];
 
-function gatherCandidates(bytes: Uint8Array): Candidate[] {
+const PROGRESS_INTERVAL_BYTES = 0x40000;
+
+// Specs worth trying at an offset, by the byte found there.
+const SPECS_BY_LEAD_BYTE: ReadonlyArray<ReadonlyArray<SignatureSpec>> =
+  Array.from({ length: 256 }, (_, value) =>
+    SIGNATURE_SPECS.filter(
+      (spec) => !spec.leadBytes || spec.leadBytes.includes(value),
+    ),
+  );
+
+function gatherCandidates(
+  bytes: Uint8Array,
+  onProgress?: (fraction: number) => void,
+): Candidate[] {
   const candidates: Candidate[] = [];
   const dedupe = new Set<string>();
 
   for (let offset = 0; offset < bytes.length; offset += 1) {
-    for (const spec of SIGNATURE_SPECS) {
+    if (onProgress && offset % PROGRESS_INTERVAL_BYTES === 0) {
+      onProgress(offset / bytes.length);
+    }
+    for (const spec of SPECS_BY_LEAD_BYTE[bytes[offset]]) {
       if (!spec.matchAt(bytes, offset)) {
         continue;
       }
@@ -595,7 +1791,7 @@ export function detectCarvedPayloads(
     return [];
   }
 
-  const candidates = gatherCandidates(bytes);
+  const candidates = gatherCandidates(bytes, options.onProgress);
   if (candidates.length === 0) {
     return [];
   }
@@ -671,6 +1867,15 @@ export const __payloadCarvingInternals = {
   findBmpEnd,
   findPdfEnd,
   findZipEnd,
+  findRar4End,
+  findRar5End,
+  findGzipEnd,
+  findTarEnd,
+  findElfEnd,
+  findPeEnd,
+  findMachOEnd,
+  findFlacEnd,
+  findClassEnd,
   gatherCandidates,
   findNextCandidateOffset,
 };
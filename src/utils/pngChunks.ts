@@ -0,0 +1,514 @@
+import {
+  clipText,
+  decodeLatin1,
+  formatHexPreview,
+  readNullTerminated,
+  readUint32BE,
+  type StructureField,
+} from "./byteFields";
+import { crc32 } from "./crc32";
+import { inflateZlib } from "./inflate";
+
+export const PNG_SIGNATURE = new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+const MAX_INFLATED_TEXT_LENGTH = 4 * 1024 * 1024;
+const SINGLETON_CHUNK_TYPES = new Set([
+  "IHDR",
+  "PLTE",
+  "IEND",
+  "tRNS",
+  "gAMA",
+  "cHRM",
+  "sRGB",
+  "iCCP",
+  "sBIT",
+  "bKGD",
+  "pHYs",
+  "tIME",
+  "eXIf",
+]);
+const PNG_TEXT_CHUNK_TYPES = new Set(["tEXt", "zTXt", "iTXt"]);
+const COLOR_TYPE_LABELS: Record<number, string> = {
+  0: "Grayscale",
+  2: "Truecolor (RGB)",
+  3: "Indexed-color",
+  4: "Grayscale with alpha",
+  6: "Truecolor with alpha (RGBA)",
+};
+
+export interface PngChunkLocation {
+  // Offset of the chunk's 4-byte length field.
+  offset: number;
+  length: number;
+  type: string;
+  dataOffset: number;
+  // Offset just past the CRC.
+  endOffset: number;
+}
+
+export interface PngChunkWalk {
+  chunks: PngChunkLocation[];
+  // Offset just past IEND, or null when IEND was never reached.
+  iendEndOffset: number | null;
+  // Set when a chunk header claims more bytes than the file holds.
+  isTruncated: boolean;
+}
+
+export interface PngChunk extends PngChunkLocation {
+  index: number;
+  storedCrc: number;
+  computedCrc: number;
+  isCrcValid: boolean;
+  isAncillary: boolean;
+  isPrivate: boolean;
+  isSafeToCopy: boolean;
+  fields: StructureField[];
+  warnings: string[];
+}
+
+export type PngTextChunkType = "tEXt" | "zTXt" | "iTXt";
+
+export interface PngTextChunk {
+  type: PngTextChunkType;
+  keyword: string;
+  text: string;
+  compressionMethod: number | null;
+  isCompressed: boolean;
+  // iTXt only; empty for tEXt/zTXt.
+  languageTag: string;
+  translatedKeyword: string;
+  // Set when compressed text could not be inflated.
+  error: string | null;
+}
+
+export interface PngChunkInspection {
+  chunks: PngChunk[];
+  iendEndOffset: number | null;
+  isTruncated: boolean;
+  warnings: string[];
+}
+
+export function hasPngSignature(bytes: Uint8Array): boolean {
+  if (bytes.length < PNG_SIGNATURE.length) {
+    return false;
+  }
+
+  return PNG_SIGNATURE.every((value, index) => bytes[index] === value);
+}
+
+// Walks length/type/data/CRC records after the signature, stopping at IEND or
+// at the first chunk that runs past the end of the buffer.
+export function walkPngChunks(bytes: Uint8Array): PngChunkWalk | null {
+  if (!hasPngSignature(bytes)) {
+    return null;
+  }
+
+  const chunks: PngChunkLocation[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = readUint32BE(bytes, offset);
+    const dataOffset = offset + 8;
+    const endOffset = dataOffset + length + 4;
+    if (endOffset > bytes.length) {
+      return { chunks, iendEndOffset: null, isTruncated: true };
+    }
+
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ offset, length, type, dataOffset, endOffset });
+    if (type === "IEND") {
+      return { chunks, iendEndOffset: endOffset, isTruncated: false };
+    }
+
+    offset = endOffset;
+  }
+
+  return {
+    chunks,
+    iendEndOffset: null,
+    isTruncated: offset < bytes.length,
+  };
+}
+
+function inflateText(
+  compressed: Uint8Array,
+  decode: (bytes: Uint8Array) => string,
+): { text: string; error: string | null } {
+  try {
+    const { bytes } = inflateZlib(compressed, MAX_INFLATED_TEXT_LENGTH);
+    return { text: decode(bytes), error: null };
+  } catch (error) {
+    return {
+      text: "",
+      error: `Could not inflate: ${error instanceof Error ? error.message : "unknown error"}`,
+    };
+  }
+}
+
+function formatTextField(text: PngTextChunk): StructureField {
+  return { label: "Text", value: text.error ?? clipText(text.text) };
+}
+
+function decodeUtf8(bytes: Uint8Array): string {
+  return new TextDecoder("utf-8").decode(bytes);
+}
+
+// Splits a tEXt/zTXt/iTXt body into its fields, inflating compressed text.
+// Returns null when the header fields are incomplete.
+export function parsePngTextChunk(
+  type: PngTextChunkType,
+  data: Uint8Array,
+): PngTextChunk | null {
+  const keyword = readNullTerminated(data, 0);
+  if (!keyword) {
+    return null;
+  }
+
+  const base = {
+    type,
+    keyword: keyword.value,
+    compressionMethod: null,
+    isCompressed: false,
+    languageTag: "",
+    translatedKeyword: "",
+    error: null,
+  };
+
+  if (type === "tEXt") {
+    return { ...base, text: decodeLatin1(data.subarray(keyword.next)) };
+  }
+
+  if (type === "zTXt") {
+    if (keyword.next >= data.length) {
+      return null;
+    }
+    return {
+      ...base,
+      compressionMethod: data[keyword.next],
+      isCompressed: true,
+      ...inflateText(data.subarray(keyword.next + 1), decodeLatin1),
+    };
+  }
+
+  const language =
+    keyword.next + 2 <= data.length
+      ? readNullTerminated(data, keyword.next + 2)
+      : null;
+  const translated = language ? readNullTerminated(data, language.next) : null;
+  if (!language || !translated) {
+    return null;
+  }
+
+  const isCompressed = data[keyword.next] === 1;
+  const body = data.subarray(translated.next);
+  return {
+    ...base,
+    compressionMethod: isCompressed ? data[keyword.next + 1] : null,
+    isCompressed,
+    languageTag: language.value,
+    translatedKeyword: decodeUtf8(
+      data.subarray(language.next, translated.next - 1),
+    ),
+    ...(isCompressed
+      ? inflateText(body, decodeUtf8)
+      : { text: decodeUtf8(body), error: null }),
+  };
+}
+
+export function readPngTextChunks(bytes: Uint8Array): PngTextChunk[] {
+  const walk = walkPngChunks(bytes);
+  if (!walk) {
+    return [];
+  }
+
+  const texts: PngTextChunk[] = [];
+  for (const chunk of walk.chunks) {
+    if (!PNG_TEXT_CHUNK_TYPES.has(chunk.type)) {
+      continue;
+    }
+    const text = parsePngTextChunk(
+      chunk.type as PngTextChunkType,
+      bytes.subarray(chunk.dataOffset, chunk.dataOffset + chunk.length),
+    );
+    if (text) {
+      texts.push(text);
+    }
+  }
+  return texts;
+}
+
+interface DecodeContext {
+  colorType: number | null;
+}
+
+type ChunkDecoder = (
+  data: Uint8Array,
+  context: DecodeContext,
+  warnings: string[],
+) => StructureField[];
+
+const CHUNK_DECODERS: Record<string, ChunkDecoder> = {
+  IHDR(data, context, warnings) {
+    if (data.length !== 13) {
+      warnings.push(`IHDR should be 13 bytes, found ${data.length}.`);
+      return [];
+    }
+
+    const colorType = data[9];
+    context.colorType = colorType;
+    return [
+      { label: "Width", value: readUint32BE(data, 0).toLocaleString() },
+      { label: "Height", value: readUint32BE(data, 4).toLocaleString() },
+      { label: "Bit depth", value: String(data[8]) },
+      {
+        label: "Color type",
+        value: `${colorType} (${COLOR_TYPE_LABELS[colorType] ?? "invalid"})`,
+      },
+      { label: "Compression", value: String(data[10]) },
+      { label: "Filter", value: String(data[11]) },
+      {
+        label: "Interlace",
+        value: data[12] === 1 ? "1 (Adam7)" : String(data[12]),
+      },
+    ];
+  },
+  PLTE(data, context, warnings) {
+    if (data.length % 3 !== 0) {
+      warnings.push("PLTE length is not a multiple of 3.");
+    }
+    const fields = [
+      { label: "Entries", value: Math.floor(data.length / 3).toString() },
+    ];
+    if (context.colorType !== 3) {
+      fields.push({
+        label: "Note",
+        value: "Suggested palette only (image is not indexed-color).",
+      });
+    }
+    return fields;
+  },
+  tRNS(data, context) {
+    if (context.colorType === 3) {
+      return [
+        { label: "Alpha entries", value: data.length.toString() },
+        {
+          label: "Non-opaque entries",
+          value: data.filter((alpha) => alpha !== 255).length.toString(),
+        },
+      ];
+    }
+    if (context.colorType === 0 && data.length >= 2) {
+      return [
+        {
+          label: "Transparent gray",
+          value: String((data[0] << 8) | data[1]),
+        },
+      ];
+    }
+    if (context.colorType === 2 && data.length >= 6) {
+      return [
+        {
+          label: "Transparent RGB",
+          value: [0, 2, 4]
+            .map((offset) => (data[offset] << 8) | data[offset + 1])
+            .join(", "),
+        },
+      ];
+    }
+    return [{ label: "Bytes", value: formatHexPreview(data) }];
+  },
+  gAMA(data, _context, warnings) {
+    if (data.length !== 4) {
+      warnings.push(`gAMA should be 4 bytes, found ${data.length}.`);
+      return [];
+    }
+    const gamma = readUint32BE(data, 0);
+    return [{ label: "Gamma", value: `${gamma} (${gamma / 100_000})` }];
+  },
+  iCCP(data, _context, warnings) {
+    const name = readNullTerminated(data, 0);
+    if (!name) {
+      warnings.push("iCCP profile name is not null-terminated.");
+      return [];
+    }
+
+    const compressed = data.subarray(name.next + 1);
+    const fields = [
+      { label: "Profile name", value: name.value },
+      { label: "Compression method", value: String(data[name.next]) },
+      {
+        label: "Compressed size",
+        value: `${compressed.length.toLocaleString()} bytes`,
+      },
+    ];
+    try {
+      const { bytes } = inflateZlib(compressed);
+      fields.push({
+        label: "Profile size",
+        value: `${bytes.length.toLocaleString()} bytes`,
+      });
+    } catch (error) {
+      warnings.push(
+        `iCCP profile could not be inflated: ${error instanceof Error ? error.message : "unknown error"}`,
+      );
+    }
+    return fields;
+  },
+  tEXt(data, _context, warnings) {
+    const text = parsePngTextChunk("tEXt", data);
+    if (!text) {
+      warnings.push("tEXt keyword is not null-terminated.");
+      return [{ label: "Raw", value: clipText(decodeLatin1(data)) }];
+    }
+    return [
+      { label: "Keyword", value: text.keyword },
+      { label: "Text", value: clipText(text.text) },
+    ];
+  },
+  zTXt(data, _context, warnings) {
+    const text = parsePngTextChunk("zTXt", data);
+    if (!text) {
+      warnings.push("zTXt keyword or compression method is missing.");
+      return [];
+    }
+    return [
+      { label: "Keyword", value: text.keyword },
+      { label: "Compression method", value: String(text.compressionMethod) },
+      formatTextField(text),
+    ];
+  },
+  iTXt(data, _context, warnings) {
+    const text = parsePngTextChunk("iTXt", data);
+    if (!text) {
+      warnings.push("iTXt header fields are incomplete.");
+      return [];
+    }
+    return [
+      { label: "Keyword", value: text.keyword },
+      { label: "Compressed", value: text.isCompressed ? "yes" : "no" },
+      { label: "Language", value: text.languageTag || "(none)" },
+      { label: "Translated keyword", value: text.translatedKeyword },
+      formatTextField(text),
+    ];
+  },
+  eXIf(data, _context, warnings) {
+    const byteOrder = decodeLatin1(data.subarray(0, 2));
+    if (byteOrder !== "II" && byteOrder !== "MM") {
+      warnings.push("eXIf does not start with a TIFF byte-order mark.");
+    }
+    return [
+      {
+        label: "Byte order",
+        value:
+          byteOrder === "II"
+            ? "II (little-endian)"
+            : byteOrder === "MM"
+              ? "MM (big-endian)"
+              : "unknown",
+      },
+      { label: "TIFF size", value: `${data.length.toLocaleString()} bytes` },
+    ];
+  },
+  IEND(data, _context, warnings) {
+    if (data.length > 0) {
+      warnings.push(`IEND should be empty, found ${data.length} bytes.`);
+    }
+    return [];
+  },
+};
+
+function isChunkTypeValid(type: string): boolean {
+  return /^[A-Za-z]{4}$/.test(type);
+}
+
+function decodeUnknownChunk(data: Uint8Array): StructureField[] {
+  return data.length > 0
+    ? [{ label: "Data", value: formatHexPreview(data) }]
+    : [];
+}
+
+export function inspectPngChunks(bytes: Uint8Array): PngChunkInspection | null {
+  const walk = walkPngChunks(bytes);
+  if (!walk) {
+    return null;
+  }
+
+  const context: DecodeContext = { colorType: null };
+  const seenTypes = new Map<string, number>();
+  const warnings: string[] = [];
+  let lastIdatIndex: number | null = null;
+
+  const chunks = walk.chunks.map((location, index): PngChunk => {
+    const { type, dataOffset, length } = location;
+    const data = bytes.subarray(dataOffset, dataOffset + length);
+    const storedCrc = readUint32BE(bytes, dataOffset + length);
+    const computedCrc = crc32(bytes, location.offset + 4, dataOffset + length);
+    const chunkWarnings: string[] = [];
+
+    if (!isChunkTypeValid(type)) {
+      chunkWarnings.push("Chunk type contains non-letter bytes.");
+    }
+    if (index === 0 && type !== "IHDR") {
+      chunkWarnings.push("First chunk is not IHDR.");
+    }
+
+    const occurrences = (seenTypes.get(type) ?? 0) + 1;
+    seenTypes.set(type, occurrences);
+    if (occurrences > 1 && SINGLETON_CHUNK_TYPES.has(type)) {
+      chunkWarnings.push(`Duplicate ${type} chunk (#${occurrences}).`);
+    }
+
+    if (type === "IDAT") {
+      if (lastIdatIndex !== null && lastIdatIndex !== index - 1) {
+        chunkWarnings.push(
+          "IDAT chunks are not consecutive; data may be split around another chunk.",
+        );
+      }
+      lastIdatIndex = index;
+    }
+
+    const decoder = CHUNK_DECODERS[type];
+    const fields =
+      type === "IDAT"
+        ? []
+        : decoder
+          ? decoder(data, context, chunkWarnings)
+          : decodeUnknownChunk(data);
+
+    return {
+      ...location,
+      index,
+      storedCrc,
+      computedCrc,
+      isCrcValid: storedCrc === computedCrc,
+      isAncillary: (location.type.charCodeAt(0) & 0x20) !== 0,
+      isPrivate: (location.type.charCodeAt(1) & 0x20) !== 0,
+      isSafeToCopy: (location.type.charCodeAt(3) & 0x20) !== 0,
+      fields,
+      warnings: chunkWarnings,
+    };
+  });
+
+  const badCrcCount = chunks.filter((chunk) => !chunk.isCrcValid).length;
+  if (badCrcCount > 0) {
+    warnings.push(
+      `${badCrcCount} chunk${badCrcCount === 1 ? " has" : "s have"} a CRC mismatch.`,
+    );
+  }
+  if (!seenTypes.has("IDAT")) {
+    warnings.push("No IDAT chunk found.");
+  }
+  if (walk.isTruncated) {
+    warnings.push("Chunk stream is truncated before IEND.");
+  } else if (walk.iendEndOffset === null) {
+    warnings.push("IEND chunk is missing.");
+  }
+
+  return {
+    chunks,
+    iendEndOffset: walk.iendEndOffset,
+    isTruncated: walk.isTruncated,
+    warnings,
+  };
+}
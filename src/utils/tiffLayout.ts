@@ -0,0 +1,191 @@
+// Maps the byte ranges a classic (non-Big) TIFF references: header, IFDs,
+// out-of-line tag values and strip/tile data. TIFF has no end marker, so the
+// container ends where the furthest referenced range ends.
+
+const TIFF_TYPE_SIZES: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  6: 1, // SBYTE
+  7: 1, // UNDEFINED
+  8: 2, // SSHORT
+  9: 4, // SLONG
+  10: 8, // SRATIONAL
+  11: 4, // FLOAT
+  12: 8, // DOUBLE
+  13: 4, // IFD
+};
+const SUB_IFD_TAGS: Record<number, string> = {
+  330: "SubIFD",
+  34665: "Exif IFD",
+  34853: "GPS IFD",
+  40965: "Interop IFD",
+};
+// [offsets tag, byte counts tag, region label]
+const DATA_TAG_PAIRS: Array<[number, number, string]> = [
+  [273, 279, "Strip"],
+  [324, 325, "Tile"],
+  [513, 514, "JPEG thumbnail"],
+];
+const MAX_IFDS = 1024;
+
+export type TiffRegionKind = "header" | "ifd" | "value" | "image-data";
+
+export interface TiffRegion {
+  kind: TiffRegionKind;
+  offset: number;
+  endOffset: number;
+  label: string;
+}
+
+export interface TiffLayout {
+  isLittleEndian: boolean;
+  regions: TiffRegion[];
+  // Offset just past the furthest referenced byte.
+  endOffset: number;
+  // Set when an IFD, value or strip points past the end of the buffer.
+  isTruncated: boolean;
+}
+
+// startOffset points at the "II*\0" / "MM\0*" header; TIFF offsets are
+// relative to it.
+export function walkTiffLayout(
+  bytes: Uint8Array,
+  startOffset = 0,
+): TiffLayout | null {
+  if (startOffset + 8 > bytes.length) {
+    return null;
+  }
+
+  const order = String.fromCharCode(bytes[startOffset], bytes[startOffset + 1]);
+  if (order !== "II" && order !== "MM") {
+    return null;
+  }
+  const isLittleEndian = order === "II";
+  const view = new DataView(
+    bytes.buffer,
+    bytes.byteOffset + startOffset,
+    bytes.length - startOffset,
+  );
+  const length = view.byteLength;
+  const uint16 = (offset: number) => view.getUint16(offset, isLittleEndian);
+  const uint32 = (offset: number) => view.getUint32(offset, isLittleEndian);
+  if (uint16(2) !== 42) {
+    return null;
+  }
+
+  const regions: TiffRegion[] = [];
+  let isTruncated = false;
+  const push = (
+    kind: TiffRegionKind,
+    offset: number,
+    size: number,
+    label: string,
+  ) => {
+    if (offset + size > length) {
+      isTruncated = true;
+      return;
+    }
+    regions.push({
+      kind,
+      offset: startOffset + offset,
+      endOffset: startOffset + offset + size,
+      label,
+    });
+  };
+  push("header", 0, 8, "Header");
+
+  const readValues = (type: number, count: number, valueOffset: number) => {
+    const size = type === 3 ? 2 : 4;
+    const values: number[] = [];
+    for (let index = 0; index < count; index += 1) {
+      const offset = valueOffset + index * size;
+      if (offset + size > length) {
+        break;
+      }
+      values.push(size === 2 ? uint16(offset) : uint32(offset));
+    }
+    return values;
+  };
+
+  const queue: Array<{ offset: number; label: string }> = [
+    { offset: uint32(4), label: "IFD0" },
+  ];
+  const visited = new Set<number>();
+  let mainIfdIndex = 0;
+  while (queue.length > 0 && visited.size < MAX_IFDS) {
+    const { offset, label } = queue.shift()!;
+    if (offset === 0 || visited.has(offset)) {
+      continue;
+    }
+    visited.add(offset);
+    if (offset + 2 > length) {
+      isTruncated = true;
+      continue;
+    }
+
+    const entryCount = uint16(offset);
+    const ifdLength = 2 + entryCount * 12 + 4;
+    if (offset + ifdLength > length) {
+      isTruncated = true;
+      continue;
+    }
+    push("ifd", offset, ifdLength, label);
+
+    const tagValues = new Map<number, number[]>();
+    for (let entry = 0; entry < entryCount; entry += 1) {
+      const entryOffset = offset + 2 + entry * 12;
+      const tag = uint16(entryOffset);
+      const type = uint16(entryOffset + 2);
+      const count = uint32(entryOffset + 4);
+      const size = (TIFF_TYPE_SIZES[type] ?? 0) * count;
+      const valueOffset = size > 4 ? uint32(entryOffset + 8) : entryOffset + 8;
+      if (size > 4) {
+        push("value", valueOffset, size, `Tag ${tag} value`);
+      }
+      if (type === 3 || type === 4 || type === 13) {
+        tagValues.set(tag, readValues(type, count, valueOffset));
+      }
+    }
+
+    for (const [tag, subLabel] of Object.entries(SUB_IFD_TAGS)) {
+      for (const subOffset of tagValues.get(Number(tag)) ?? []) {
+        queue.push({ offset: subOffset, label: subLabel });
+      }
+    }
+    for (const [offsetsTag, countsTag, dataLabel] of DATA_TAG_PAIRS) {
+      const offsets = tagValues.get(offsetsTag) ?? [];
+      const counts = tagValues.get(countsTag) ?? [];
+      offsets.forEach((dataOffset, index) => {
+        if (index < counts.length && counts[index] > 0) {
+          push(
+            "image-data",
+            dataOffset,
+            counts[index],
+            offsets.length > 1 ? `${dataLabel} ${index}` : dataLabel,
+          );
+        }
+      });
+    }
+
+    if (label.startsWith("IFD")) {
+      mainIfdIndex += 1;
+      queue.push({
+        offset: uint32(offset + ifdLength - 4),
+        label: `IFD${mainIfdIndex}`,
+      });
+    }
+  }
+
+  return {
+    isLittleEndian,
+    regions,
+    endOffset: regions.reduce(
+      (end, region) => Math.max(end, region.endOffset),
+      0,
+    ),
+    isTruncated,
+  };
+}
@@ -1,140 +1,150 @@
 import type { DecodedImage, TrailingData } from "../types";
-
-const PNG_SIGNATURE = new Uint8Array([
-  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
-]);
-
-function readUint32BE(bytes: Uint8Array, offset: number): number {
-  return (
-    ((bytes[offset] << 24) |
-      (bytes[offset + 1] << 16) |
-      (bytes[offset + 2] << 8) |
-      bytes[offset + 3]) >>>
-    0
-  );
+import { walkBmpLayout } from "./bmpLayout";
+import { readUint32LE } from "./byteFields";
+import { hasGifSignature, walkGifBlocks } from "./gifBlocks";
+import { walkJpegSegments } from "./jpegSegments";
+import { PNG_SIGNATURE, walkPngChunks } from "./pngChunks";
+import { walkTiffLayout } from "./tiffLayout";
+
+const BMP_HEADER_LENGTHS = new Set([12, 40, 52, 56, 64, 108, 124]);
+
+function matchesAscii(bytes: Uint8Array, offset: number, text: string) {
+  for (let index = 0; index < text.length; index += 1) {
+    if (bytes[offset + index] !== text.charCodeAt(index)) {
+      return false;
+    }
+  }
+  return true;
 }
 
-function findPngContainerEnd(bytes: Uint8Array): number | null {
-  if (bytes.length < PNG_SIGNATURE.length) {
-    return null;
+// The walkers accept a bare SOI or "BM" at the start of the file; containers
+// found further in must also match the bytes that follow, to rule out chance
+// matches inside prepended data.
+function hasContainerSignature(
+  bytes: Uint8Array,
+  offset: number,
+  format: DecodedImage["format"],
+): boolean {
+  switch (format) {
+    case "image/png":
+      return PNG_SIGNATURE.every(
+        (value, index) => bytes[offset + index] === value,
+      );
+    case "image/jpeg":
+      return (
+        bytes[offset] === 0xff &&
+        bytes[offset + 1] === 0xd8 &&
+        (offset === 0 || bytes[offset + 2] === 0xff)
+      );
+    case "image/gif":
+      return bytes[offset] === 0x47 && hasGifSignature(bytes, offset);
+    case "image/webp":
+      return (
+        matchesAscii(bytes, offset, "RIFF") &&
+        matchesAscii(bytes, offset + 8, "WEBP")
+      );
+    case "image/bmp":
+      return (
+        matchesAscii(bytes, offset, "BM") &&
+        (offset === 0 ||
+          BMP_HEADER_LENGTHS.has(readUint32LE(bytes, offset + 14)))
+      );
+    case "image/tiff":
+      return (
+        matchesAscii(bytes, offset, "II*\0") ||
+        matchesAscii(bytes, offset, "MM\0*")
+      );
   }
+}
 
-  for (let index = 0; index < PNG_SIGNATURE.length; index += 1) {
-    if (bytes[index] !== PNG_SIGNATURE[index]) {
-      return null;
+// Offset of the first format signature; non-zero when data was prepended.
+export function findContainerStartOffset(
+  bytes: Uint8Array,
+  format: DecodedImage["format"],
+): number | null {
+  for (let offset = 0; offset < bytes.length; offset += 1) {
+    if (hasContainerSignature(bytes, offset, format)) {
+      return offset;
     }
   }
+  return null;
+}
 
-  let offset = PNG_SIGNATURE.length;
-  while (offset + 12 <= bytes.length) {
-    const chunkLength = readUint32BE(bytes, offset);
-    const chunkTypeOffset = offset + 4;
-    const chunkEnd = chunkTypeOffset + 4 + chunkLength + 4;
-    if (chunkEnd > bytes.length) {
-      return null;
-    }
-
-    const isIend =
-      bytes[chunkTypeOffset] === 0x49 &&
-      bytes[chunkTypeOffset + 1] === 0x45 &&
-      bytes[chunkTypeOffset + 2] === 0x4e &&
-      bytes[chunkTypeOffset + 3] === 0x44;
-
-    if (isIend) {
-      return chunkEnd;
-    }
+function findPngContainerEnd(bytes: Uint8Array): number | null {
+  return walkPngChunks(bytes)?.iendEndOffset ?? null;
+}
 
-    offset = chunkEnd;
-  }
+function findJpegContainerEnd(bytes: Uint8Array): number | null {
+  return walkJpegSegments(bytes)?.eoiEndOffset ?? null;
+}
 
-  return null;
+function findGifContainerEnd(bytes: Uint8Array): number | null {
+  return walkGifBlocks(bytes)?.trailerEndOffset ?? null;
 }
 
-function findJpegContainerEnd(bytes: Uint8Array): number | null {
-  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+// RIFF size plus the pad byte that keeps an odd-sized body word-aligned.
+function findWebpContainerEnd(bytes: Uint8Array): number | null {
+  if (
+    bytes.length < 12 ||
+    String.fromCharCode(...bytes.subarray(0, 4)) !== "RIFF" ||
+    String.fromCharCode(...bytes.subarray(8, 12)) !== "WEBP"
+  ) {
     return null;
   }
 
-  let offset = 2;
-  while (offset + 1 < bytes.length) {
-    if (bytes[offset] !== 0xff) {
-      offset += 1;
-      continue;
-    }
-
-    let markerOffset = offset + 1;
-    while (markerOffset < bytes.length && bytes[markerOffset] === 0xff) {
-      markerOffset += 1;
-    }
-
-    if (markerOffset >= bytes.length) {
-      return null;
-    }
-
-    const marker = bytes[markerOffset];
-
-    if (marker === 0x00) {
-      offset = markerOffset + 1;
-      continue;
-    }
-
-    if (marker === 0xd9) {
-      return markerOffset + 1;
-    }
-
-    const isStandaloneMarker =
-      marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7);
-
-    if (isStandaloneMarker) {
-      offset = markerOffset + 1;
-      continue;
-    }
-
-    if (markerOffset + 2 >= bytes.length) {
-      return null;
-    }
-
-    const segmentLength =
-      (bytes[markerOffset + 1] << 8) | bytes[markerOffset + 2];
-    if (segmentLength < 2) {
-      return null;
-    }
-
-    const segmentEnd = markerOffset + 1 + segmentLength;
-    if (segmentEnd > bytes.length) {
-      return null;
-    }
+  const riffSize = readUint32LE(bytes, 4);
+  const endOffset = 8 + riffSize + (riffSize % 2);
+  return endOffset <= bytes.length ? endOffset : null;
+}
 
-    offset = segmentEnd;
-  }
+// The declared file size is often zero or stale, so the end is the furthest
+// of it, the pixel array and a V5 color profile.
+function findBmpContainerEnd(bytes: Uint8Array): number | null {
+  const layout = walkBmpLayout(bytes);
+  return layout && !layout.isTruncated ? layout.endOffset : null;
+}
 
-  return null;
+function findTiffContainerEnd(bytes: Uint8Array): number | null {
+  const layout = walkTiffLayout(bytes);
+  return layout && !layout.isTruncated ? layout.endOffset : null;
 }
 
 function findContainerEndOffset(
   bytes: Uint8Array,
   format: DecodedImage["format"],
 ): number | null {
-  if (format === "image/png") {
-    return findPngContainerEnd(bytes);
-  }
-
-  if (format === "image/jpeg") {
-    return findJpegContainerEnd(bytes);
+  switch (format) {
+    case "image/png":
+      return findPngContainerEnd(bytes);
+    case "image/jpeg":
+      return findJpegContainerEnd(bytes);
+    case "image/gif":
+      return findGifContainerEnd(bytes);
+    case "image/webp":
+      return findWebpContainerEnd(bytes);
+    case "image/bmp":
+      return findBmpContainerEnd(bytes);
+    case "image/tiff":
+      return findTiffContainerEnd(bytes);
   }
-
-  return null;
 }
 
 export function extractTrailingData(
   bytes: Uint8Array,
   format: DecodedImage["format"],
 ): TrailingData | null {
-  const containerEndOffset = findContainerEndOffset(bytes, format);
-  if (containerEndOffset === null || containerEndOffset >= bytes.length) {
+  const startOffset = findContainerStartOffset(bytes, format);
+  if (startOffset === null) {
+    return null;
+  }
+
+  const endOffset = findContainerEndOffset(bytes.subarray(startOffset), format);
+  if (endOffset === null || startOffset + endOffset >= bytes.length) {
     return null;
   }
 
+  const containerEndOffset = startOffset + endOffset;
+
   return {
     containerEndOffset,
     byteLength: bytes.length - containerEndOffset,
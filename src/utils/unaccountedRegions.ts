@@ -0,0 +1,298 @@
+import type { DecodedImage } from "../types";
+import { walkBmpLayout } from "./bmpLayout";
+import { readUint32BE, readUint32LE } from "./byteFields";
+import { crc32 } from "./crc32";
+import { walkJpegSegments } from "./jpegSegments";
+import { PNG_SIGNATURE } from "./pngChunks";
+import { walkTiffLayout } from "./tiffLayout";
+import { findContainerStartOffset } from "./trailingData";
+
+// Finds bytes inside or before an image container that no structure accounts
+// for: prepended data, gaps between PNG chunks, slack between JPEG segments,
+// unreferenced TIFF/BMP ranges and odd RIFF padding. Trailing data after the
+// container end is reported separately by extractTrailingData.
+
+const FORMAT_LABELS: Record<DecodedImage["format"], string> = {
+  "image/png": "PNG",
+  "image/jpeg": "JPEG",
+  "image/gif": "GIF",
+  "image/webp": "WebP",
+  "image/bmp": "BMP",
+  "image/tiff": "TIFF",
+};
+
+export type UnaccountedRegionKind = "leading" | "gap" | "padding";
+
+export interface UnaccountedRegion {
+  kind: UnaccountedRegionKind;
+  offset: number;
+  endOffset: number;
+  byteLength: number;
+  description: string;
+}
+
+function createRegion(
+  kind: UnaccountedRegionKind,
+  offset: number,
+  endOffset: number,
+  description: string,
+): UnaccountedRegion {
+  return {
+    kind,
+    offset,
+    endOffset,
+    byteLength: endOffset - offset,
+    description,
+  };
+}
+
+function isPngChunkType(bytes: Uint8Array, offset: number): boolean {
+  for (let index = offset; index < offset + 4; index += 1) {
+    const letter = bytes[index] | 0x20;
+    if (letter < 0x61 || letter > 0x7a) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Length of the chunk at offset, or null when its header does not describe a
+// chunk that fits the buffer.
+function readPngChunkLength(bytes: Uint8Array, offset: number): number | null {
+  if (offset + 12 > bytes.length || !isPngChunkType(bytes, offset + 4)) {
+    return null;
+  }
+  const length = readUint32BE(bytes, offset);
+  return length <= bytes.length - offset - 12 ? length : null;
+}
+
+// Resynchronizes on the next chunk whose CRC checks out; chance headers in
+// junk bytes rarely also carry a valid CRC.
+function findNextPngChunk(bytes: Uint8Array, fromOffset: number): number {
+  for (let offset = fromOffset; offset + 12 <= bytes.length; offset += 1) {
+    const length = readPngChunkLength(bytes, offset);
+    if (
+      length !== null &&
+      crc32(bytes, offset + 4, offset + 8 + length) ===
+        readUint32BE(bytes, offset + 8 + length)
+    ) {
+      return offset;
+    }
+  }
+  return -1;
+}
+
+// The caller has matched the signature at the start of bytes.
+function findPngGaps(bytes: Uint8Array): UnaccountedRegion[] {
+  const regions: UnaccountedRegion[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = readPngChunkLength(bytes, offset);
+    if (length !== null) {
+      if (
+        String.fromCharCode(...bytes.subarray(offset + 4, offset + 8)) ===
+        "IEND"
+      ) {
+        break;
+      }
+      offset += length + 12;
+      continue;
+    }
+
+    const nextOffset = findNextPngChunk(bytes, offset + 1);
+    if (nextOffset < 0) {
+      break;
+    }
+    regions.push(
+      createRegion(
+        "gap",
+        offset,
+        nextOffset,
+        "Bytes between PNG chunks that do not form a chunk",
+      ),
+    );
+    offset = nextOffset;
+  }
+  return regions;
+}
+
+// Bytes between segments before the first scan; 0xFF fill bytes are allowed
+// there, and after SOS the entropy-coded data runs between markers.
+function findJpegGaps(bytes: Uint8Array): UnaccountedRegion[] {
+  const walk = walkJpegSegments(bytes);
+  if (!walk) {
+    return [];
+  }
+
+  const regions: UnaccountedRegion[] = [];
+  for (let index = 1; index < walk.segments.length; index += 1) {
+    const previous = walk.segments[index - 1];
+    if (previous.marker === 0xda) {
+      break;
+    }
+    const gapEnd = walk.segments[index].offset;
+    if (
+      bytes.subarray(previous.endOffset, gapEnd).some((value) => value !== 0xff)
+    ) {
+      regions.push(
+        createRegion(
+          "gap",
+          previous.endOffset,
+          gapEnd,
+          "Slack bytes between JPEG segments",
+        ),
+      );
+    }
+  }
+  return regions;
+}
+
+function findRiffAnomalies(bytes: Uint8Array): UnaccountedRegion[] {
+  const regions: UnaccountedRegion[] = [];
+  const pushPadding = (offset: number, owner: string) => {
+    if (offset < bytes.length && bytes[offset] !== 0) {
+      regions.push(
+        createRegion(
+          "padding",
+          offset,
+          offset + 1,
+          `Non-zero pad byte after the ${owner}`,
+        ),
+      );
+    }
+  };
+
+  const riffSize = readUint32LE(bytes, 4);
+  const bodyEnd = Math.min(8 + riffSize, bytes.length);
+  let offset = 12;
+  while (offset + 8 <= bodyEnd) {
+    const chunkSize = readUint32LE(bytes, offset + 4);
+    const dataEnd = offset + 8 + chunkSize;
+    if (dataEnd > bodyEnd) {
+      break;
+    }
+    if (chunkSize % 2 === 1) {
+      const fourCc = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+      pushPadding(dataEnd, `${fourCc.trim()} chunk`);
+    }
+    offset = dataEnd + (chunkSize % 2);
+  }
+
+  if (offset < bodyEnd) {
+    regions.push(
+      createRegion(
+        "gap",
+        offset,
+        bodyEnd,
+        "RIFF body bytes that do not form a complete chunk",
+      ),
+    );
+  }
+  if (riffSize % 2 === 1) {
+    pushPadding(8 + riffSize, "RIFF body");
+  }
+  return regions;
+}
+
+// Uncovered ranges below endOffset. Single zero bytes are word-alignment
+// padding and are skipped.
+function findCoverageGaps(
+  bytes: Uint8Array,
+  ranges: Array<{ offset: number; endOffset: number }>,
+  endOffset: number,
+  description: string,
+): UnaccountedRegion[] {
+  const regions: UnaccountedRegion[] = [];
+  const sorted = [...ranges].sort((left, right) => left.offset - right.offset);
+  let coveredEnd = 0;
+  for (const range of [...sorted, { offset: endOffset, endOffset }]) {
+    if (
+      range.offset > coveredEnd &&
+      (range.offset - coveredEnd > 1 || bytes[coveredEnd] !== 0)
+    ) {
+      regions.push(createRegion("gap", coveredEnd, range.offset, description));
+    }
+    coveredEnd = Math.max(coveredEnd, range.endOffset);
+  }
+  return regions;
+}
+
+function findTiffGaps(bytes: Uint8Array): UnaccountedRegion[] {
+  const layout = walkTiffLayout(bytes);
+  return layout
+    ? findCoverageGaps(
+        bytes,
+        layout.regions,
+        layout.endOffset,
+        "Bytes not referenced by any IFD, tag value or image data",
+      )
+    : [];
+}
+
+function findBmpGaps(bytes: Uint8Array): UnaccountedRegion[] {
+  const layout = walkBmpLayout(bytes);
+  return layout
+    ? findCoverageGaps(
+        bytes,
+        layout.regions,
+        layout.endOffset,
+        "Bytes outside the BMP headers, color table, pixel data and profile",
+      )
+    : [];
+}
+
+function findInteriorRegions(
+  bytes: Uint8Array,
+  format: DecodedImage["format"],
+): UnaccountedRegion[] {
+  switch (format) {
+    case "image/png":
+      return findPngGaps(bytes);
+    case "image/jpeg":
+      return findJpegGaps(bytes);
+    case "image/webp":
+      return findRiffAnomalies(bytes);
+    case "image/bmp":
+      return findBmpGaps(bytes);
+    case "image/tiff":
+      return findTiffGaps(bytes);
+    case "image/gif":
+      return [];
+  }
+}
+
+export function findUnaccountedRegions(
+  bytes: Uint8Array,
+  format: DecodedImage["format"],
+): UnaccountedRegion[] {
+  const startOffset = findContainerStartOffset(bytes, format);
+  if (startOffset === null) {
+    return [];
+  }
+
+  const regions: UnaccountedRegion[] = [];
+  if (startOffset > 0) {
+    regions.push(
+      createRegion(
+        "leading",
+        0,
+        startOffset,
+        `Bytes before the ${FORMAT_LABELS[format]} signature`,
+      ),
+    );
+  }
+  for (const region of findInteriorRegions(
+    bytes.subarray(startOffset),
+    format,
+  )) {
+    regions.push(
+      createRegion(
+        region.kind,
+        startOffset + region.offset,
+        startOffset + region.endOffset,
+        region.description,
+      ),
+    );
+  }
+  return regions;
+}
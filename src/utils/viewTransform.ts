@@ -0,0 +1,107 @@
+// Per-pixel view filters for the image canvas. Error Level Analysis needs a
+// recompressed copy and lives in errorLevel.ts.
+
+export type ViewTransformMode =
+  | "original"
+  | "xor"
+  | "high-contrast"
+  | "grayscale"
+  | "red-channel"
+  | "green-channel"
+  | "blue-channel"
+  | "random-colors";
+
+// murmur3 finalizer: distinct values (even off by one) land on unrelated
+// colors, and a new seed reshuffles the whole map.
+export function randomMapColor(value: number, seed: number): number {
+  let hash = (value ^ seed) >>> 0;
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  return (hash ^ (hash >>> 16)) >>> 0;
+}
+
+export function transformViewImageData(
+  imageData: ImageData,
+  mode: ViewTransformMode,
+  colorMapSeed: number,
+): ImageData {
+  if (mode === "original") {
+    return new ImageData(
+      new Uint8ClampedArray(imageData.data),
+      imageData.width,
+      imageData.height,
+    );
+  }
+
+  const source = imageData.data;
+  const output = new Uint8ClampedArray(source.length);
+
+  for (let index = 0; index < source.length; index += 4) {
+    const red = source[index];
+    const green = source[index + 1];
+    const blue = source[index + 2];
+    const alpha = source[index + 3];
+
+    if (mode === "xor") {
+      output[index] = 255 - red;
+      output[index + 1] = 255 - green;
+      output[index + 2] = 255 - blue;
+      output[index + 3] = alpha;
+      continue;
+    }
+
+    if (mode === "random-colors") {
+      const color = randomMapColor(
+        ((red << 24) | (green << 16) | (blue << 8) | alpha) >>> 0,
+        colorMapSeed,
+      );
+      output[index] = (color >>> 16) & 0xff;
+      output[index + 1] = (color >>> 8) & 0xff;
+      output[index + 2] = color & 0xff;
+      output[index + 3] = 255;
+      continue;
+    }
+
+    if (mode === "high-contrast") {
+      const luminance = red * 0.299 + green * 0.587 + blue * 0.114;
+      const value = luminance >= 128 ? 255 : 0;
+      output[index] = value;
+      output[index + 1] = value;
+      output[index + 2] = value;
+      output[index + 3] = alpha;
+      continue;
+    }
+
+    if (mode === "grayscale") {
+      const value = Math.round(red * 0.299 + green * 0.587 + blue * 0.114);
+      output[index] = value;
+      output[index + 1] = value;
+      output[index + 2] = value;
+      output[index + 3] = alpha;
+      continue;
+    }
+
+    if (mode === "red-channel") {
+      output[index] = red;
+      output[index + 1] = 0;
+      output[index + 2] = 0;
+      output[index + 3] = alpha;
+      continue;
+    }
+
+    if (mode === "green-channel") {
+      output[index] = 0;
+      output[index + 1] = green;
+      output[index + 2] = 0;
+      output[index + 3] = alpha;
+      continue;
+    }
+
+    output[index] = 0;
+    output[index + 1] = 0;
+    output[index + 2] = blue;
+    output[index + 3] = alpha;
+  }
+
+  return new ImageData(output, imageData.width, imageData.height);
+}
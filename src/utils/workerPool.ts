@@ -0,0 +1,202 @@
+export interface WorkerLike {
+  postMessage(message: unknown, transfer?: Transferable[]): void;
+  terminate(): void;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+}
+
+export interface WorkerTaskMessage<Request> {
+  id: number;
+  request: Request;
+}
+
+export type WorkerReplyMessage<Result> =
+  | { id: number; type: "progress"; progress: number }
+  | { id: number; type: "result"; result: Result }
+  | { id: number; type: "error"; message: string };
+
+export interface WorkerTaskOptions {
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+  transfer?: Transferable[];
+}
+
+export interface WorkerPool<Request, Result> {
+  run(request: Request, options?: WorkerTaskOptions): Promise<Result>;
+  dispose(): void;
+}
+
+interface PendingTask<Request, Result> {
+  id: number;
+  request: Request;
+  options: WorkerTaskOptions;
+  resolve: (result: Result) => void;
+  reject: (error: unknown) => void;
+  removeAbortListener: () => void;
+}
+
+interface PoolSlot<Request, Result> {
+  worker: WorkerLike;
+  task: PendingTask<Request, Result> | null;
+}
+
+export function createAbortError(): DOMException {
+  return new DOMException("The task was cancelled.", "AbortError");
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+// Fixed-size pool running one task per worker. Queued tasks are dropped on
+// abort; a running task is cancelled by terminating and replacing its worker,
+// since synchronous work inside the worker cannot observe messages.
+export function createWorkerPool<Request, Result>(
+  createWorker: () => WorkerLike,
+  size: number,
+): WorkerPool<Request, Result> {
+  const slots: PoolSlot<Request, Result>[] = [];
+  const queue: PendingTask<Request, Result>[] = [];
+  let nextTaskId = 1;
+  let isDisposed = false;
+
+  const settle = (
+    slot: PoolSlot<Request, Result>,
+    outcome: (task: PendingTask<Request, Result>) => void,
+  ): void => {
+    const task = slot.task;
+    if (!task) {
+      return;
+    }
+    slot.task = null;
+    task.removeAbortListener();
+    outcome(task);
+    dispatch();
+  };
+
+  const attachWorker = (slot: PoolSlot<Request, Result>): void => {
+    slot.worker.onmessage = (event: MessageEvent) => {
+      const message = event.data as WorkerReplyMessage<Result>;
+      if (!slot.task || message.id !== slot.task.id) {
+        return;
+      }
+
+      if (message.type === "progress") {
+        slot.task.options.onProgress?.(message.progress);
+      } else if (message.type === "result") {
+        settle(slot, (task) => task.resolve(message.result));
+      } else {
+        settle(slot, (task) => task.reject(new Error(message.message)));
+      }
+    };
+    slot.worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault?.();
+      replaceWorker(slot);
+      settle(slot, (task) =>
+        task.reject(new Error(event.message || "Worker task failed.")),
+      );
+    };
+  };
+
+  const replaceWorker = (slot: PoolSlot<Request, Result>): void => {
+    slot.worker.terminate();
+    slot.worker = createWorker();
+    attachWorker(slot);
+  };
+
+  const dispatch = (): void => {
+    if (isDisposed) {
+      return;
+    }
+
+    for (const slot of slots) {
+      if (queue.length === 0) {
+        return;
+      }
+      if (slot.task) {
+        continue;
+      }
+
+      const task = queue.shift() as PendingTask<Request, Result>;
+      slot.task = task;
+      const message: WorkerTaskMessage<Request> = {
+        id: task.id,
+        request: task.request,
+      };
+      slot.worker.postMessage(message, task.options.transfer ?? []);
+    }
+  };
+
+  for (let index = 0; index < Math.max(1, size); index += 1) {
+    const slot: PoolSlot<Request, Result> = {
+      worker: createWorker(),
+      task: null,
+    };
+    attachWorker(slot);
+    slots.push(slot);
+  }
+
+  return {
+    run(request, options = {}) {
+      if (isDisposed) {
+        return Promise.reject(new Error("Worker pool has been disposed."));
+      }
+      if (options.signal?.aborted) {
+        return Promise.reject(createAbortError());
+      }
+
+      return new Promise<Result>((resolve, reject) => {
+        const task: PendingTask<Request, Result> = {
+          id: nextTaskId,
+          request,
+          options,
+          resolve,
+          reject,
+          removeAbortListener: () => undefined,
+        };
+        nextTaskId += 1;
+
+        const abort = (): void => {
+          const queueIndex = queue.indexOf(task);
+          if (queueIndex >= 0) {
+            queue.splice(queueIndex, 1);
+            task.removeAbortListener();
+            reject(createAbortError());
+            return;
+          }
+
+          const slot = slots.find((entry) => entry.task === task);
+          if (slot) {
+            replaceWorker(slot);
+            settle(slot, () => reject(createAbortError()));
+          }
+        };
+
+        if (options.signal) {
+          const signal = options.signal;
+          signal.addEventListener("abort", abort, { once: true });
+          task.removeAbortListener = () =>
+            signal.removeEventListener("abort", abort);
+        }
+
+        queue.push(task);
+        dispatch();
+      });
+    },
+    dispose() {
+      isDisposed = true;
+      for (const slot of slots) {
+        slot.worker.terminate();
+        if (slot.task) {
+          slot.task.removeAbortListener();
+          slot.task.reject(createAbortError());
+          slot.task = null;
+        }
+      }
+      for (const task of queue.splice(0)) {
+        task.removeAbortListener();
+        task.reject(createAbortError());
+      }
+    },
+  };
+}
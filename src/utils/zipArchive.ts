@@ -0,0 +1,297 @@
+import { decodeLatin1, readUint16LE, readUint32LE } from "./byteFields";
+import { crc32 } from "./crc32";
+import { inflateRaw } from "./inflate";
+import { findZipEocdOffset } from "./payloadCarving";
+
+// Lists a ZIP archive from its central directory and extracts stored or
+// deflated entries. Offsets in the directory are relative to the first local
+// file header, which is where carved ZIP payloads start.
+
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const ZIP64_EXTRA_ID = 0x0001;
+const AES_EXTRA_ID = 0x9901;
+const METHOD_NAMES: Record<number, string> = {
+  0: "Stored",
+  1: "Shrunk",
+  6: "Imploded",
+  8: "Deflate",
+  9: "Deflate64",
+  12: "BZIP2",
+  14: "LZMA",
+  93: "Zstandard",
+  95: "XZ",
+  98: "PPMd",
+};
+const EXTRACTABLE_METHODS = new Set([0, 8]);
+const AES_KEY_BITS: Record<number, number> = { 1: 128, 2: 192, 3: 256 };
+
+export type ZipEncryption = "none" | "zipcrypto" | "aes" | "strong";
+
+export interface ZipEntry {
+  index: number;
+  name: string;
+  isDirectory: boolean;
+  // For AES entries this is the method inside the encryption layer.
+  method: number;
+  methodName: string;
+  encryption: ZipEncryption;
+  // Key size for AES entries.
+  aesKeyBits: number | null;
+  crc32: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+  // Set for unencrypted stored/deflated entries.
+  isExtractable: boolean;
+}
+
+export interface ZipArchive {
+  entries: ZipEntry[];
+  // Declared entry count; differs from entries.length when the directory is
+  // cut short.
+  declaredEntryCount: number;
+  comment: string;
+  isZip64: boolean;
+  // Set when the central directory runs past the end of the buffer.
+  isTruncated: boolean;
+}
+
+function readUint64LE(bytes: Uint8Array, offset: number): number {
+  return (
+    readUint32LE(bytes, offset + 4) * 0x100000000 + readUint32LE(bytes, offset)
+  );
+}
+
+function decodeEntryName(bytes: Uint8Array, isUtf8: boolean): string {
+  // Names without the UTF-8 flag are CP437; ASCII is shared, and other bytes
+  // are shown as Latin-1.
+  return isUtf8 ? new TextDecoder().decode(bytes) : decodeLatin1(bytes);
+}
+
+function describeEncryption(flags: number, method: number): ZipEncryption {
+  if ((flags & 0x01) === 0) {
+    return "none";
+  }
+  if (method === 99) {
+    return "aes";
+  }
+  return flags & 0x40 ? "strong" : "zipcrypto";
+}
+
+// Walks the extra field records of one header.
+function findExtraField(
+  bytes: Uint8Array,
+  start: number,
+  end: number,
+  id: number,
+): { offset: number; length: number } | null {
+  for (let offset = start; offset + 4 <= end; ) {
+    const length = readUint16LE(bytes, offset + 2);
+    if (readUint16LE(bytes, offset) === id && offset + 4 + length <= end) {
+      return { offset: offset + 4, length };
+    }
+    offset += 4 + length;
+  }
+  return null;
+}
+
+// ZIP64 records hold the real directory size, offset and count when the
+// classic EOCD fields are saturated.
+function readZip64Directory(
+  bytes: Uint8Array,
+  eocdOffset: number,
+): { entryCount: number; size: number; offset: number } | null {
+  const locatorOffset = eocdOffset - 20;
+  if (
+    locatorOffset < 0 ||
+    readUint32LE(bytes, locatorOffset) !== ZIP64_LOCATOR_SIGNATURE
+  ) {
+    return null;
+  }
+  const recordOffset = readUint64LE(bytes, locatorOffset + 8);
+  if (
+    recordOffset + 56 > locatorOffset ||
+    readUint32LE(bytes, recordOffset) !== ZIP64_EOCD_SIGNATURE
+  ) {
+    return null;
+  }
+  return {
+    entryCount: readUint64LE(bytes, recordOffset + 32),
+    size: readUint64LE(bytes, recordOffset + 40),
+    offset: readUint64LE(bytes, recordOffset + 48),
+  };
+}
+
+// bytes starts at the archive's first local file header.
+export function listZipEntries(bytes: Uint8Array): ZipArchive | null {
+  const eocdOffset = findZipEocdOffset(bytes, 0);
+  if (eocdOffset === null) {
+    return null;
+  }
+
+  let declaredEntryCount = readUint16LE(bytes, eocdOffset + 10);
+  let directorySize = readUint32LE(bytes, eocdOffset + 12);
+  let directoryOffset = readUint32LE(bytes, eocdOffset + 16);
+  const commentLength = readUint16LE(bytes, eocdOffset + 20);
+  const zip64 =
+    declaredEntryCount === 0xffff ||
+    directorySize === 0xffffffff ||
+    directoryOffset === 0xffffffff
+      ? readZip64Directory(bytes, eocdOffset)
+      : null;
+  if (zip64) {
+    declaredEntryCount = zip64.entryCount;
+    directorySize = zip64.size;
+    directoryOffset = zip64.offset;
+  }
+  // Archives with data prepended before carving (or self-extractors) have
+  // shifted offsets; the directory normally sits right before its end record.
+  let shift = 0;
+  if (readUint32LE(bytes, directoryOffset) !== CENTRAL_HEADER_SIGNATURE) {
+    const directoryEnd = zip64 ? eocdOffset - 20 - 56 : eocdOffset;
+    shift = directoryEnd - directorySize - directoryOffset;
+    directoryOffset += shift;
+  }
+
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+  let isTruncated = false;
+  while (entries.length < declaredEntryCount) {
+    if (
+      offset < 0 ||
+      offset + 46 > bytes.length ||
+      readUint32LE(bytes, offset) !== CENTRAL_HEADER_SIGNATURE
+    ) {
+      isTruncated = true;
+      break;
+    }
+    const flags = readUint16LE(bytes, offset + 8);
+    const storedMethod = readUint16LE(bytes, offset + 10);
+    const nameLength = readUint16LE(bytes, offset + 28);
+    const extraStart = offset + 46 + nameLength;
+    const extraEnd = extraStart + readUint16LE(bytes, offset + 30);
+    const headerEnd = extraEnd + readUint16LE(bytes, offset + 32);
+    if (headerEnd > bytes.length) {
+      isTruncated = true;
+      break;
+    }
+
+    let compressedSize = readUint32LE(bytes, offset + 20);
+    let uncompressedSize = readUint32LE(bytes, offset + 24);
+    let localHeaderOffset = readUint32LE(bytes, offset + 42);
+    const zip64Extra = findExtraField(
+      bytes,
+      extraStart,
+      extraEnd,
+      ZIP64_EXTRA_ID,
+    );
+    if (zip64Extra) {
+      // Only saturated fields are present, in this order.
+      let field = zip64Extra.offset;
+      const fieldEnd = zip64Extra.offset + zip64Extra.length;
+      const takeField = (value: number) => {
+        if (value !== 0xffffffff || field + 8 > fieldEnd) {
+          return value;
+        }
+        field += 8;
+        return readUint64LE(bytes, field - 8);
+      };
+      uncompressedSize = takeField(uncompressedSize);
+      compressedSize = takeField(compressedSize);
+      localHeaderOffset = takeField(localHeaderOffset);
+    }
+
+    let method = storedMethod;
+    let aesKeyBits: number | null = null;
+    const aesExtra =
+      storedMethod === 99
+        ? findExtraField(bytes, extraStart, extraEnd, AES_EXTRA_ID)
+        : null;
+    if (aesExtra && aesExtra.length >= 7) {
+      aesKeyBits = AES_KEY_BITS[bytes[aesExtra.offset + 4]] ?? null;
+      method = readUint16LE(bytes, aesExtra.offset + 5);
+    }
+
+    const name = decodeEntryName(
+      bytes.subarray(offset + 46, extraStart),
+      (flags & 0x0800) !== 0,
+    );
+    const encryption = describeEncryption(flags, storedMethod);
+    entries.push({
+      index: entries.length,
+      name,
+      isDirectory: name.endsWith("/"),
+      method,
+      methodName: METHOD_NAMES[method] ?? `Method ${method}`,
+      encryption,
+      aesKeyBits,
+      crc32: readUint32LE(bytes, offset + 16),
+      compressedSize,
+      uncompressedSize,
+      localHeaderOffset: localHeaderOffset + shift,
+      isExtractable:
+        encryption === "none" && EXTRACTABLE_METHODS.has(storedMethod),
+    });
+    offset = headerEnd;
+  }
+
+  return {
+    entries,
+    declaredEntryCount,
+    comment: decodeLatin1(
+      bytes.subarray(eocdOffset + 22, eocdOffset + 22 + commentLength),
+    ),
+    isZip64: zip64 !== null,
+    isTruncated,
+  };
+}
+
+// Decompresses one entry and checks its CRC-32. Throws for encrypted or
+// unsupported entries and for damaged data.
+export function extractZipEntry(
+  bytes: Uint8Array,
+  entry: ZipEntry,
+): Uint8Array {
+  if (entry.encryption !== "none") {
+    throw new Error(`${entry.name} is encrypted.`);
+  }
+  if (!entry.isExtractable) {
+    throw new Error(
+      `${entry.methodName} compression is not supported for ${entry.name}.`,
+    );
+  }
+
+  const localOffset = entry.localHeaderOffset;
+  if (
+    localOffset + 30 > bytes.length ||
+    readUint32LE(bytes, localOffset) !== LOCAL_HEADER_SIGNATURE
+  ) {
+    throw new Error(`Local header for ${entry.name} is missing.`);
+  }
+  // The local extra field can differ in length from the central one.
+  const dataOffset =
+    localOffset +
+    30 +
+    readUint16LE(bytes, localOffset + 26) +
+    readUint16LE(bytes, localOffset + 28);
+  const dataEnd = dataOffset + entry.compressedSize;
+  if (dataEnd > bytes.length) {
+    throw new Error(`Data for ${entry.name} is truncated.`);
+  }
+
+  const data = bytes.subarray(dataOffset, dataEnd);
+  const contents =
+    entry.method === 0
+      ? data.slice()
+      : inflateRaw(data, entry.uncompressedSize).bytes;
+  if (
+    contents.length !== entry.uncompressedSize ||
+    crc32(contents) !== entry.crc32
+  ) {
+    throw new Error(`CRC-32 check failed for ${entry.name}.`);
+  }
+  return contents;
+}
@@ -0,0 +1,402 @@
+import { expect, test } from "vitest";
+import { runAnalysisTask } from "../src/utils/analysisTasks.ts";
+import { buildPlaneSpecs } from "../src/utils/bitPlane.ts";
+import { crc32 } from "../src/utils/crc32.ts";
+import {
+  JPEG_ZIGZAG,
+  type JpegCoefficientDecodeResult,
+  type JpegCoefficients,
+} from "../src/utils/jpegDct.ts";
+import { listZipEntries } from "../src/utils/zipArchive.ts";
+import type { BitExtractionOptions } from "../src/types";
+
+const DEFAULT_OPTIONS: BitExtractionOptions = {
+  scanOrder: "row-major",
+  channelOrder: "rgba",
+  bitOrder: "lsb-to-msb",
+  bytePackOrder: "msb-first",
+};
+
+class MockImageData {
+  public data: Uint8ClampedArray;
+  public width: number;
+  public height: number;
+
+  constructor(data: Uint8ClampedArray, width: number, height: number) {
+    this.data = data;
+    this.width = width;
+    this.height = height;
+  }
+}
+
+globalThis.ImageData = MockImageData as unknown as typeof ImageData;
+
+const PLANES = buildPlaneSpecs();
+const RED_LSB = PLANES.filter((plane) => plane.id === "r-1");
+const RGB_LSB = PLANES.filter((plane) =>
+  ["r-1", "g-1", "b-1"].includes(plane.id),
+);
+
+// Encodes bytes into the RGB LSBs of consecutive pixels (MSB-first packing).
+function imageWithRgbPayload(payload: number[], width: number): ImageData {
+  const bits = payload.flatMap((byte) =>
+    Array.from({ length: 8 }, (_, index) => (byte >> (7 - index)) & 1),
+  );
+  const pixelCount = Math.max(width, Math.ceil(bits.length / 3));
+  const height = Math.ceil(pixelCount / width);
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let pixel = 0; pixel < width * height; pixel += 1) {
+    for (let channel = 0; channel < 3; channel += 1) {
+      data[pixel * 4 + channel] = bits[pixel * 3 + channel] ?? 0;
+    }
+    data[pixel * 4 + 3] = 255;
+  }
+  return new ImageData(data, width, height);
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const PNG_IEND = [
+  0x00, 0x00, 0x00, 0x00, 0x49, 0x45, 0x4e, 0x44, 0xae, 0x42, 0x60, 0x82,
+];
+
+test("renders single and combined bit planes with transferable output", () => {
+  const image = new ImageData(
+    new Uint8ClampedArray([1, 0, 1, 255, 0, 1, 0, 255]),
+    2,
+    1,
+  );
+
+  const single = runAnalysisTask({
+    kind: "bit-plane",
+    imageData: image,
+    planes: RED_LSB,
+  });
+  const singleImage = single.result as ImageData;
+  expect(Array.from(singleImage.data)).toEqual([
+    255, 255, 255, 255, 0, 0, 0, 255,
+  ]);
+  expect(single.transfer).toEqual([singleImage.data.buffer]);
+
+  const combined = runAnalysisTask({
+    kind: "bit-plane",
+    imageData: image,
+    planes: RGB_LSB,
+  });
+  expect((combined.result as ImageData).width).toBe(2);
+  expect(combined.transfer).toHaveLength(1);
+});
+
+test("extracts streams and carves payloads with split progress", () => {
+  const image = imageWithRgbPayload([...PNG_SIGNATURE, ...PNG_IEND], 8);
+
+  const stream = runAnalysisTask({
+    kind: "bit-plane-stream",
+    imageData: image,
+    planes: RGB_LSB,
+    options: DEFAULT_OPTIONS,
+    maxBytes: 8,
+  });
+  const extracted = stream.result as { bytes: Uint8Array };
+  expect(Array.from(extracted.bytes)).toEqual(PNG_SIGNATURE);
+  expect(stream.transfer).toEqual([extracted.bytes.buffer]);
+
+  const progress: number[] = [];
+  const carved = runAnalysisTask(
+    {
+      kind: "carve-bit-plane-stream",
+      imageData: image,
+      planes: RGB_LSB,
+      options: DEFAULT_OPTIONS,
+      maxBytes: 1024,
+    },
+    (fraction) => progress.push(fraction),
+  );
+  const carvedResult = carved.result as {
+    bytes: Uint8Array;
+    payloads: { kind: string; startOffset: number }[];
+  };
+  expect(carvedResult.payloads[0]).toMatchObject({
+    kind: "png",
+    startOffset: 0,
+  });
+  expect(carved.transfer).toEqual([carvedResult.bytes.buffer]);
+  expect(progress.length).toBeGreaterThan(0);
+  expect(progress.every((fraction) => fraction >= 0 && fraction <= 1)).toBe(
+    true,
+  );
+  expect(progress.some((fraction) => fraction >= 0.5)).toBe(true);
+
+  const withoutProgress = runAnalysisTask({
+    kind: "carve-bit-plane-stream",
+    imageData: image,
+    planes: RGB_LSB,
+    options: DEFAULT_OPTIONS,
+    maxBytes: 1024,
+  });
+  expect(
+    (withoutProgress.result as { payloads: unknown[] }).payloads,
+  ).toHaveLength(1);
+});
+
+test("carves raw byte buffers", () => {
+  const bytes = new Uint8Array([0, 0, ...PNG_SIGNATURE, ...PNG_IEND]);
+  const progress: number[] = [];
+  const carved = runAnalysisTask(
+    { kind: "carve-bytes", bytes, maxFindings: 4, maxDepth: 1 },
+    (fraction) => progress.push(fraction),
+  );
+
+  expect(carved.result).toEqual([
+    expect.objectContaining({
+      kind: "png",
+      startOffset: 2,
+      depth: 0,
+      parentId: null,
+    }),
+  ]);
+  expect(carved.transfer).toEqual([]);
+  expect(progress).toEqual([0]);
+});
+
+// Single-component coefficients whose JSteg-style LSB stream spells `bytes`
+// (values 2/3 carry 0/1; MSB-first packing, DC included).
+function coefficientsWithPayload(bytes: number[]): JpegCoefficients {
+  const bits = bytes.flatMap((byte) =>
+    Array.from({ length: 8 }, (_, index) => (byte >> (7 - index)) & 1),
+  );
+  const blockCount = Math.ceil(bits.length / 64);
+  const coefficients = new Int16Array(blockCount * 64);
+  bits.forEach((bit, index) => {
+    const block = Math.floor(index / 64);
+    coefficients[block * 64 + JPEG_ZIGZAG[index % 64]] = 2 + bit;
+  });
+  return {
+    width: blockCount * 8,
+    height: 8,
+    precision: 8,
+    isProgressive: false,
+    mcusPerLine: blockCount,
+    mcusPerColumn: 1,
+    scanCount: 1,
+    quantizationTables: [],
+    components: [
+      {
+        id: 1,
+        horizontalSampling: 1,
+        verticalSampling: 1,
+        quantizationTableId: 0,
+        blocksPerLine: blockCount,
+        blocksPerColumn: 1,
+        paddedBlocksPerLine: blockCount,
+        paddedBlocksPerColumn: 1,
+        coefficients,
+      },
+    ],
+  };
+}
+
+test("decodes JPEG coefficients and carves the coefficient stream", () => {
+  // 8x8 grayscale baseline JPEG with one all-zero block.
+  const oneSymbolTable = (tableClass: number) => [
+    0xff,
+    0xc4,
+    0x00,
+    0x14,
+    tableClass,
+    1,
+    ...new Array(15).fill(0),
+    0x00,
+  ];
+  const jpeg = new Uint8Array([
+    0xff,
+    0xd8,
+    0xff,
+    0xc0,
+    0x00,
+    0x0b,
+    0x08,
+    0x00,
+    0x08,
+    0x00,
+    0x08,
+    0x01,
+    0x01,
+    0x11,
+    0x00,
+    ...oneSymbolTable(0x00),
+    ...oneSymbolTable(0x10),
+    0xff,
+    0xda,
+    0x00,
+    0x08,
+    0x01,
+    0x01,
+    0x00,
+    0x00,
+    0x3f,
+    0x00,
+    0x3f,
+    0xff,
+    0xd9,
+  ]);
+  const decoded = runAnalysisTask({ kind: "jpeg-coefficients", bytes: jpeg });
+  const decodedResult = decoded.result as JpegCoefficientDecodeResult;
+  expect(decodedResult.incompleteScans).toBe(0);
+  expect(decodedResult.coefficients.components[0].coefficients).toEqual(
+    new Int16Array(64),
+  );
+  expect(decoded.transfer).toEqual([
+    decodedResult.coefficients.components[0].coefficients.buffer,
+  ]);
+
+  const coefficients = coefficientsWithPayload([...PNG_SIGNATURE, ...PNG_IEND]);
+  const options = {
+    order: "component",
+    includeDc: true,
+    bytePackOrder: "msb-first",
+  } as const;
+  const stream = runAnalysisTask({
+    kind: "dct-stream",
+    coefficients,
+    options,
+    maxBytes: 8,
+  });
+  const extracted = stream.result as { bytes: Uint8Array };
+  expect(Array.from(extracted.bytes)).toEqual(PNG_SIGNATURE);
+  expect(stream.transfer).toEqual([extracted.bytes.buffer]);
+
+  const progress: number[] = [];
+  const carved = runAnalysisTask(
+    { kind: "carve-dct-stream", coefficients, options, maxBytes: 1024 },
+    (fraction) => progress.push(fraction),
+  );
+  expect((carved.result as { payloads: { kind: string }[] }).payloads).toEqual([
+    expect.objectContaining({ kind: "png", startOffset: 0 }),
+  ]);
+  expect(progress.some((fraction) => fraction >= 0.5)).toBe(true);
+  expect(
+    (
+      runAnalysisTask({
+        kind: "carve-dct-stream",
+        coefficients,
+        options,
+        maxBytes: 1024,
+      }).result as { payloads: unknown[] }
+    ).payloads,
+  ).toHaveLength(1);
+  const steganalysis = runAnalysisTask({
+    kind: "jpeg-steganalysis",
+    coefficients,
+  });
+  expect(steganalysis.transfer).toEqual([]);
+  expect(
+    (steganalysis.result as { detectors: { method: string }[] }).detectors.map(
+      (detector) => detector.method,
+    ),
+  ).toEqual(["jsteg"]);
+});
+
+test("decodes palette indices with a transferable index buffer", () => {
+  // 1x1 palettized BMP: 40-byte info header, 2-entry color table.
+  const bmp = new Uint8Array(14 + 40 + 8 + 4);
+  bmp.set([0x42, 0x4d]);
+  bmp[10] = 14 + 40 + 8;
+  bmp.set([40, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 1, 0], 14);
+  bmp.set([0x80], 14 + 40 + 8);
+
+  const output = runAnalysisTask({
+    kind: "palette-image",
+    bytes: bmp,
+    frameIndex: 0,
+  });
+  const image = output.result as { indices: Uint8Array };
+  expect(Array.from(image.indices)).toEqual([1]);
+  expect(output.transfer).toEqual([image.indices.buffer]);
+
+  expect(
+    runAnalysisTask({
+      kind: "palette-image",
+      bytes: new Uint8Array([0xff, 0xd8]),
+      frameIndex: 0,
+    }),
+  ).toEqual({ result: null, transfer: [] });
+});
+
+test("extracts ZIP entries into a transferable buffer", () => {
+  const contents = new TextEncoder().encode("flag{zip_in_a_worker}");
+  const name = new TextEncoder().encode("flag.txt");
+  const le = (value: number, size: number) =>
+    Array.from({ length: size }, (_, index) => (value >>> (index * 8)) & 0xff);
+  // Stored entry: version, flags, method, time/date, CRC, sizes, name/extra.
+  const common = [
+    ...le(20, 2),
+    ...le(0, 2),
+    ...le(0, 2),
+    ...le(0, 4),
+    ...le(crc32(contents), 4),
+    ...le(contents.length, 4),
+    ...le(contents.length, 4),
+    ...le(name.length, 2),
+    ...le(0, 2),
+  ];
+  const local = [...le(0x04034b50, 4), ...common, ...name, ...contents];
+  const central = [
+    ...le(0x02014b50, 4),
+    ...le(20, 2),
+    ...common,
+    // Comment length, disk, attributes; the local header is at offset 0.
+    ...le(0, 10),
+    ...le(0, 4),
+    ...name,
+  ];
+  const zip = new Uint8Array([
+    ...local,
+    ...central,
+    ...le(0x06054b50, 4),
+    ...le(0, 4),
+    ...le(1, 2),
+    ...le(1, 2),
+    ...le(central.length, 4),
+    ...le(local.length, 4),
+    ...le(0, 2),
+  ]);
+  const [entry] = listZipEntries(zip)!.entries;
+
+  const output = runAnalysisTask({
+    kind: "extract-zip-entry",
+    bytes: zip,
+    entry,
+  });
+  const extracted = output.result as Uint8Array;
+  expect(new TextDecoder().decode(extracted)).toBe("flag{zip_in_a_worker}");
+  expect(output.transfer).toEqual([extracted.buffer]);
+
+  expect(() =>
+    runAnalysisTask({
+      kind: "extract-zip-entry",
+      bytes: zip,
+      entry: { ...entry, encryption: "zipcrypto" },
+    }),
+  ).toThrow("flag.txt is encrypted.");
+});
+
+test("runs the auto scan with candidate progress", () => {
+  const message = new TextEncoder().encode("flag{auto_scan_on_a_worker}");
+  const image = imageWithRgbPayload(Array.from(message), 8);
+  const progress: number[] = [];
+  const output = runAnalysisTask(
+    {
+      kind: "auto-scan",
+      imageData: image,
+      planes: PLANES,
+      options: { sampleBytes: 32 },
+    },
+    (fraction) => progress.push(fraction),
+  );
+
+  const hits = output.result as { label: string }[];
+  expect(hits[0].label).toBe("b1,rgb,lsb,xy,be");
+  expect(output.transfer).toEqual([]);
+  expect(progress[0]).toBe(0);
+  expect(progress[progress.length - 1]).toBe(1);
+});
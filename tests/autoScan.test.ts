@@ -0,0 +1,174 @@
+import { expect, test } from "vitest";
+import {
+  buildAutoScanCandidates,
+  runAutoScan,
+  scoreExtractedBytes,
+} from "../src/utils/autoScan.ts";
+import { buildPlaneSpecs } from "../src/utils/bitPlane.ts";
+
+const PLANE_SPECS = buildPlaneSpecs();
+const PNG_PREFIX = [
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d, 0x49,
+  0x48, 0x44, 0x52, 0x00, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00, 0x01, 0x08, 0x02,
+  0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x49, 0x45,
+  0x4e, 0x44, 0xae, 0x42, 0x60, 0x82,
+];
+
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state / 0x1_0000_0000;
+  };
+}
+
+function noiseImage(width: number, height: number, seed = 5): ImageData {
+  const random = createRandom(seed);
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let index = 0; index < data.length; index += 1) {
+    data[index] = index % 4 === 3 ? 255 : Math.floor(random() * 256);
+  }
+  return { data, width, height } as ImageData;
+}
+
+function toBits(bytes: number[]): number[] {
+  return bytes.flatMap((byte) =>
+    Array.from({ length: 8 }, (_, bit) => (byte >> (7 - bit)) & 1),
+  );
+}
+
+// Writes bits into the LSB of the given channel offsets, one pixel at a time.
+function embedLsb(
+  image: ImageData,
+  bits: number[],
+  channelOffsets: number[],
+  pixelOrder: (index: number) => number,
+): void {
+  let bitIndex = 0;
+  for (let step = 0; bitIndex < bits.length; step += 1) {
+    const pixel = pixelOrder(step);
+    for (const offset of channelOffsets) {
+      if (bitIndex >= bits.length) {
+        break;
+      }
+      const index = pixel * 4 + offset;
+      image.data[index] = (image.data[index] & ~1) | bits[bitIndex];
+      bitIndex += 1;
+    }
+  }
+}
+
+test("buildAutoScanCandidates collapses orderings that yield identical streams", () => {
+  const candidates = buildAutoScanCandidates(PLANE_SPECS);
+  const ids = new Set(candidates.map((candidate) => candidate.id));
+
+  expect(ids.size).toBe(candidates.length);
+  expect(
+    candidates.filter((candidate) => candidate.label === "b1,r,lsb,xy,be"),
+  ).toHaveLength(1);
+  expect(
+    candidates.some((candidate) => candidate.label === "b1,bgr,lsb,xy,be"),
+  ).toBe(true);
+  expect(
+    candidates.some((candidate) => candidate.planeIds.includes("a-1")),
+  ).toBe(false);
+  expect(
+    buildAutoScanCandidates(PLANE_SPECS, { includeAlpha: true }).some(
+      (candidate) => candidate.planeIds.includes("a-1"),
+    ),
+  ).toBe(true);
+});
+
+test("buildAutoScanCandidates skips bit sets without matching planes", () => {
+  const redOnly = PLANE_SPECS.filter((plane) => plane.id === "r-1");
+
+  const candidates = buildAutoScanCandidates(redOnly);
+
+  expect(candidates.map((candidate) => candidate.label)).toEqual([
+    "b1,r,lsb,xy,be",
+    "b1,r,lsb,xy,le",
+    "b1,r,lsb,yx,be",
+    "b1,r,lsb,yx,le",
+  ]);
+});
+
+test("scoreExtractedBytes rewards leading text and file signatures", () => {
+  const text = scoreExtractedBytes(
+    new TextEncoder().encode("flag{auto_scan_finds_text_in_lsb_planes}"),
+  );
+  expect(text.leadingTextLength).toBe(40);
+  expect(text.printableRatio).toBe(1);
+  expect(text.score).toBeGreaterThan(0.5);
+  expect(text.preview).toBe("flag{auto_scan_finds_text_in_lsb_planes}");
+
+  const png = scoreExtractedBytes(new Uint8Array(PNG_PREFIX));
+  expect(png.payloads[0].kind).toBe("png");
+  expect(png.score).toBeGreaterThanOrEqual(1);
+  expect(png.reasons[0]).toBe("PNG image at offset 0");
+
+  const shifted = scoreExtractedBytes(new Uint8Array([1, 2, 3, ...PNG_PREFIX]));
+  expect(shifted.reasons[0]).toBe("PNG image at offset 3");
+
+  // PDFs are only medium confidence, so the later PNG names the match.
+  const pdf = new TextEncoder().encode("%PDF-1.4\n1 0 obj\n%%EOF\n");
+  const mixed = scoreExtractedBytes(new Uint8Array([1, ...pdf, ...PNG_PREFIX]));
+  expect(mixed.payloads.map((payload) => payload.confidence)).toEqual([
+    "medium",
+    "high",
+  ]);
+  expect(mixed.reasons[0]).toBe(`PNG image at offset ${pdf.length + 1}`);
+
+  const mostlyText = scoreExtractedBytes(
+    new Uint8Array([0x01, ...new TextEncoder().encode("abcdefghijklmnopq")]),
+  );
+  expect(mostlyText.leadingTextLength).toBe(0);
+  expect(mostlyText.reasons).toContain("94% printable");
+});
+
+test("scoreExtractedBytes gives nothing for empty or constant samples", () => {
+  expect(scoreExtractedBytes(new Uint8Array(0)).score).toBe(0);
+  expect(scoreExtractedBytes(new Uint8Array(64)).score).toBe(0);
+});
+
+test("runAutoScan ranks the embedding settings first", () => {
+  const width = 64;
+  const height = 64;
+  const image = noiseImage(width, height);
+  const message = new TextEncoder().encode(
+    "The quick brown fox hides a flag{zsteg_style_scan} in the LSBs.",
+  );
+  embedLsb(image, toBits(Array.from(message)), [0, 1, 2], (step) => step);
+
+  const hits = runAutoScan(image, PLANE_SPECS, { sampleBytes: 256 });
+
+  expect(hits[0].label).toBe("b1,rgb,lsb,xy,be");
+  expect(hits[0].planeIds).toEqual(["r-1", "g-1", "b-1"]);
+  expect(hits[0].options).toEqual({
+    scanOrder: "row-major",
+    channelOrder: "rgba",
+    bitOrder: "lsb-to-msb",
+    bytePackOrder: "msb-first",
+  });
+  expect(hits[0].preview.startsWith("The quick brown fox")).toBe(true);
+});
+
+test("runAutoScan finds signatures in column-major single-channel streams", () => {
+  const width = 32;
+  const height = 32;
+  const image = noiseImage(width, height, 9);
+  embedLsb(
+    image,
+    toBits(PNG_PREFIX),
+    [1],
+    (step) => (step % height) * width + Math.floor(step / height),
+  );
+
+  const hits = runAutoScan(image, PLANE_SPECS, {
+    sampleBytes: 128,
+    maxResults: 3,
+  });
+
+  expect(hits.length).toBeLessThanOrEqual(3);
+  expect(hits[0].label).toBe("b1,g,lsb,yx,be");
+  expect(hits[0].payloads[0].kind).toBe("png");
+});
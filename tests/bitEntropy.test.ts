@@ -0,0 +1,117 @@
+import { expect, test } from "vitest";
+import {
+  buildHeatmapLegendGradient,
+  computeBitEntropyMap,
+  getBitEntropyCellAt,
+  heatmapColor,
+} from "../src/utils/bitEntropy.ts";
+import type { PlaneSpec } from "../src/types";
+
+const RED_1: PlaneSpec = {
+  id: "r-1",
+  channel: "r",
+  channelLabel: "Red",
+  channelOffset: 0,
+  bitPosition: 1,
+  bitMask: 1,
+  label: "Red 1",
+};
+
+const GREEN_1: PlaneSpec = {
+  id: "g-1",
+  channel: "g",
+  channelLabel: "Green",
+  channelOffset: 1,
+  bitPosition: 1,
+  bitMask: 1,
+  label: "Green 1",
+};
+
+function imageFromRedValues(
+  width: number,
+  height: number,
+  redValue: (x: number, y: number) => number,
+): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const index = (y * width + x) * 4;
+      data[index] = redValue(x, y);
+      data[index + 3] = 255;
+    }
+  }
+  return { data, width, height } as ImageData;
+}
+
+test("computeBitEntropyMap isolates a region with random-looking bits", () => {
+  // Left half alternates LSBs (entropy 1), right half keeps them cleared.
+  const image = imageFromRedValues(8, 4, (x, y) => (x < 4 ? (x + y) & 1 : 0));
+
+  const map = computeBitEntropyMap(image, [RED_1], 4);
+
+  expect(map.columns).toBe(2);
+  expect(map.rows).toBe(1);
+  expect(map.entropy[0]).toBeCloseTo(1, 5);
+  expect(map.onesRatio[0]).toBeCloseTo(0.5, 5);
+  expect(map.entropy[1]).toBe(0);
+  expect(map.onesRatio[1]).toBe(0);
+});
+
+test("computeBitEntropyMap averages across planes and handles partial blocks", () => {
+  const image = imageFromRedValues(5, 3, () => 1);
+
+  const map = computeBitEntropyMap(image, [RED_1, GREEN_1], 4);
+
+  expect(map.columns).toBe(2);
+  expect(map.rows).toBe(1);
+  expect(map.entropy[0]).toBe(0);
+  expect(map.onesRatio[0]).toBeCloseTo(0.5, 5);
+  expect(map.onesRatio[1]).toBeCloseTo(0.5, 5);
+});
+
+test("computeBitEntropyMap returns an empty map without planes", () => {
+  const map = computeBitEntropyMap(
+    imageFromRedValues(4, 4, () => 1),
+    [],
+    0,
+  );
+
+  expect(map.blockSize).toBe(1);
+  expect(map.columns).toBe(4);
+  expect(Array.from(map.entropy).every((value) => value === 0)).toBe(true);
+});
+
+test("getBitEntropyCellAt resolves pixel coordinates to clipped blocks", () => {
+  const image = imageFromRedValues(10, 6, (x) => x & 1);
+  const map = computeBitEntropyMap(image, [RED_1], 4);
+
+  const cell = getBitEntropyCellAt(map, 9, 5);
+  expect(cell).toEqual({
+    column: 2,
+    row: 1,
+    x: 8,
+    y: 4,
+    width: 2,
+    height: 2,
+    entropy: 1,
+    onesRatio: 0.5,
+  });
+  expect(getBitEntropyCellAt(map, -1, 0)).toBeNull();
+  expect(getBitEntropyCellAt(map, 10, 0)).toBeNull();
+});
+
+test("heatmapColor interpolates between scale stops and clamps input", () => {
+  expect(heatmapColor(0)).toEqual([49, 54, 149]);
+  expect(heatmapColor(1)).toEqual([165, 0, 38]);
+  expect(heatmapColor(2)).toEqual([165, 0, 38]);
+  expect(heatmapColor(Number.NaN)).toEqual([49, 54, 149]);
+  expect(heatmapColor(0.125)).toEqual([59, 86, 165]);
+});
+
+test("buildHeatmapLegendGradient lists every scale stop", () => {
+  const gradient = buildHeatmapLegendGradient();
+
+  expect(gradient).toContain("linear-gradient(to right");
+  expect(gradient).toContain("rgb(49, 54, 149) 0%");
+  expect(gradient).toContain("rgb(165, 0, 38) 100%");
+});
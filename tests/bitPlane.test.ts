@@ -1,9 +1,17 @@
 import { expect, test } from "vitest";
 import {
   buildPlaneSpecs,
+  countSelectedPixels,
   extractBitPlane,
   extractBitPlaneStream,
   extractCombinedBitPlanes,
+  formatBitSequence,
+  getChannelOffset,
+  orderSelectedPlanes,
+  parseBitSequence,
+  resolveExtractionRegion,
+  resolvePixelSelection,
+  visitPixelsInScanOrder,
 } from "../src/utils/bitPlane.ts";
 import type { BitExtractionOptions, PlaneSpec } from "../src/types";
 
@@ -326,3 +334,308 @@ test("extractBitPlaneStream stops within a pixel when byte budget is reached", (
   expect(out.totalBytes).toBe(2);
   expect(Array.from(out.bytes)).toEqual([0b1010_1011]);
 });
+
+test("visitPixelsInScanOrder yields pixel indices and stops when asked", () => {
+  const rowMajor: number[] = [];
+  visitPixelsInScanOrder(3, 2, "row-major", (index) => {
+    rowMajor.push(index);
+  });
+  expect(rowMajor).toEqual([0, 1, 2, 3, 4, 5]);
+
+  const columnMajor: number[] = [];
+  visitPixelsInScanOrder(3, 2, "column-major", (index) => {
+    columnMajor.push(index);
+    return columnMajor.length === 4;
+  });
+  expect(columnMajor).toEqual([0, 3, 1, 4]);
+});
+
+test("getChannelOffset maps channel keys to RGBA byte offsets", () => {
+  expect(
+    ["r", "g", "b", "a"].map((key) => getChannelOffset(key as "r")),
+  ).toEqual([0, 1, 2, 3]);
+});
+
+test("extractBitPlaneStream only reads pixels inside the region", () => {
+  const red1 = plane(0, 1, "r-1");
+  // 4x3 image whose red LSB is set only inside the 2x2 block at (1,1).
+  const rgba: number[] = [];
+  for (let y = 0; y < 3; y += 1) {
+    for (let x = 0; x < 4; x += 1) {
+      const inside = x >= 1 && x <= 2 && y >= 1;
+      rgba.push(inside ? (x === 1 ? 1 : 0) : 1, 0, 0, 255);
+    }
+  }
+  const img = imageData(4, 3, rgba);
+  const region = { x: 1, y: 1, width: 2, height: 2 };
+
+  const rowMajor = extractBitPlaneStream(
+    img,
+    [red1],
+    { ...DEFAULT_OPTIONS, region },
+    1,
+  );
+  expect(rowMajor.totalBits).toBe(4);
+  expect(rowMajor.bytes[0]).toBe(0b1010_0000);
+
+  const columnMajor = extractBitPlaneStream(
+    img,
+    [red1],
+    { ...DEFAULT_OPTIONS, scanOrder: "column-major", region },
+    1,
+  );
+  expect(columnMajor.bytes[0]).toBe(0b1100_0000);
+});
+
+test("resolveExtractionRegion clamps regions to the image bounds", () => {
+  expect(resolveExtractionRegion(null, 8, 6)).toEqual({
+    x: 0,
+    y: 0,
+    width: 8,
+    height: 6,
+  });
+  expect(
+    resolveExtractionRegion({ x: -2, y: 4.7, width: 20, height: 3 }, 8, 6),
+  ).toEqual({ x: 0, y: 4, width: 8, height: 2 });
+  expect(
+    resolveExtractionRegion({ x: 9, y: 1, width: 2, height: -1 }, 8, 6),
+  ).toEqual({ x: 8, y: 1, width: 0, height: 0 });
+  // Negative origins drop the clipped part instead of shifting the region.
+  expect(
+    resolveExtractionRegion({ x: -3, y: -2, width: 5, height: 4 }, 8, 6),
+  ).toEqual({ x: 0, y: 0, width: 2, height: 2 });
+  expect(
+    resolveExtractionRegion({ x: -6, y: 2, width: 4, height: 1 }, 8, 6),
+  ).toEqual({ x: 0, y: 2, width: 0, height: 1 });
+});
+
+function redLsbRow(bits: number[]): ImageData {
+  return imageData(
+    bits.length,
+    1,
+    bits.flatMap((bit) => [bit, 0, 0, 255]),
+  );
+}
+
+test("extractBitPlaneStream applies pixel offset and stride", () => {
+  const red1 = plane(0, 1, "r-1");
+  // Header pixels 0-1 are noise; the message sits on every second pixel.
+  const img = redLsbRow([1, 1, 1, 0, 0, 0, 1, 0, 1, 0, 0]);
+
+  const out = extractBitPlaneStream(
+    img,
+    [red1],
+    { ...DEFAULT_OPTIONS, pixelOffset: 2, pixelStride: 2 },
+    1,
+  );
+
+  expect(out.totalBits).toBe(5);
+  expect(out.bytes[0]).toBe(0b1011_0000);
+});
+
+test("extractBitPlaneStream follows a take-N-skip-M pattern", () => {
+  const red1 = plane(0, 1, "r-1");
+  const img = redLsbRow([1, 1, 0, 0, 1, 0, 0, 0, 0, 1]);
+
+  const out = extractBitPlaneStream(
+    img,
+    [red1],
+    { ...DEFAULT_OPTIONS, pixelPattern: { take: 2, skip: 2 } },
+    1,
+  );
+
+  expect(out.totalBits).toBe(6);
+  expect(out.bytes[0]).toBe(0b1110_0100);
+});
+
+test("resolvePixelSelection normalizes invalid values", () => {
+  expect(resolvePixelSelection(DEFAULT_OPTIONS)).toEqual({
+    offset: 0,
+    stride: 1,
+    take: 1,
+    skip: 0,
+  });
+  expect(
+    resolvePixelSelection({
+      ...DEFAULT_OPTIONS,
+      pixelOffset: -4,
+      pixelStride: 0,
+      pixelPattern: { take: 3, skip: 0 },
+    }),
+  ).toEqual({ offset: 0, stride: 1, take: 1, skip: 0 });
+});
+
+test("countSelectedPixels matches the number of visited pixels", () => {
+  const selection = { offset: 3, stride: 2, take: 2, skip: 1 };
+  // After offset: 17 pixels, strided: 9, pattern keeps 2 of every 3 -> 6.
+  expect(countSelectedPixels(20, selection)).toBe(6);
+  expect(countSelectedPixels(2, selection)).toBe(0);
+});
+
+function collectScanOrder(
+  width: number,
+  height: number,
+  scanOrder: BitExtractionOptions["scanOrder"],
+): number[] {
+  const visited: number[] = [];
+  visitPixelsInScanOrder(width, height, scanOrder, (index) => {
+    visited.push(index);
+  });
+  return visited;
+}
+
+test("visitPixelsInScanOrder supports reversed, bottom-up and serpentine scans", () => {
+  expect(collectScanOrder(3, 2, "row-major-reversed")).toEqual([
+    5, 4, 3, 2, 1, 0,
+  ]);
+  expect(collectScanOrder(3, 2, "column-major-reversed")).toEqual([
+    5, 2, 4, 1, 3, 0,
+  ]);
+  expect(collectScanOrder(3, 2, "bottom-up")).toEqual([3, 4, 5, 0, 1, 2]);
+  expect(collectScanOrder(3, 3, "serpentine")).toEqual([
+    0, 1, 2, 5, 4, 3, 6, 7, 8,
+  ]);
+});
+
+test("visitPixelsInScanOrder walks spirals inward", () => {
+  expect(collectScanOrder(4, 3, "spiral-in")).toEqual([
+    0, 1, 2, 3, 7, 11, 10, 9, 8, 4, 5, 6,
+  ]);
+  expect(collectScanOrder(1, 3, "spiral-in")).toEqual([0, 1, 2]);
+  expect(collectScanOrder(3, 1, "spiral-in")).toEqual([0, 1, 2]);
+});
+
+test("visitPixelsInScanOrder follows the Hilbert curve and 8x8 blocks", () => {
+  expect(collectScanOrder(2, 2, "hilbert")).toEqual([0, 2, 3, 1]);
+  expect(collectScanOrder(4, 4, "hilbert").slice(0, 6)).toEqual([
+    0, 1, 5, 4, 8, 12,
+  ]);
+  // Rectangles follow a generalized curve: no covering square is walked and
+  // every step moves to a neighbouring pixel.
+  expect(collectScanOrder(4000, 1, "hilbert")).toEqual(
+    Array.from({ length: 4000 }, (_, index) => index),
+  );
+  expect(collectScanOrder(1, 3, "hilbert")).toEqual([0, 1, 2]);
+  for (const [width, height] of [
+    [6, 4],
+    [10, 2],
+    [4, 14],
+  ]) {
+    const path = collectScanOrder(width, height, "hilbert");
+    expect(new Set(path).size).toBe(width * height);
+    for (let index = 1; index < path.length; index += 1) {
+      const dx = Math.abs((path[index] % width) - (path[index - 1] % width));
+      const dy = Math.abs(
+        Math.floor(path[index] / width) - Math.floor(path[index - 1] / width),
+      );
+      expect(dx + dy).toBe(1);
+    }
+  }
+
+  const blocks = collectScanOrder(10, 9, "block-8x8");
+  expect(blocks.slice(0, 9)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 10]);
+  // Second block is the 2x8 strip on the right edge.
+  expect(blocks.slice(64, 67)).toEqual([8, 9, 18]);
+});
+
+test("every scan order visits each pixel exactly once and can stop early", () => {
+  const orders: BitExtractionOptions["scanOrder"][] = [
+    "row-major",
+    "column-major",
+    "row-major-reversed",
+    "column-major-reversed",
+    "bottom-up",
+    "serpentine",
+    "spiral-in",
+    "hilbert",
+    "block-8x8",
+  ];
+
+  for (const order of orders) {
+    const visited = collectScanOrder(11, 5, order);
+    expect(visited).toHaveLength(55);
+    expect(new Set(visited).size).toBe(55);
+
+    let count = 0;
+    visitPixelsInScanOrder(11, 5, order, () => {
+      count += 1;
+      return count === 3;
+    });
+    expect(count).toBe(3);
+  }
+});
+
+test("extractBitPlaneStream reads pixels in keyed shuffle order", () => {
+  const red1 = plane(0, 1, "r-1");
+  // CPython: random.Random(42).shuffle(list(range(12)))
+  const order = [7, 5, 2, 8, 9, 6, 11, 3, 4, 0, 1, 10];
+  const message = [1, 0, 1, 1, 0, 0, 1, 0, 1, 1, 1, 0];
+  const bits = new Array<number>(12);
+  order.forEach((pixel, index) => {
+    bits[pixel] = message[index];
+  });
+  const img = imageData(
+    4,
+    3,
+    bits.flatMap((bit) => [bit, 0, 0, 255]),
+  );
+
+  const out = extractBitPlaneStream(
+    img,
+    [red1],
+    {
+      ...DEFAULT_OPTIONS,
+      pixelOrderKey: {
+        generator: "python-random",
+        seed: "42",
+        seedType: "integer",
+      },
+    },
+    2,
+  );
+
+  expect(out.totalBits).toBe(12);
+  expect(Array.from(out.bytes)).toEqual([0b1011_0010, 0b1110_0000]);
+});
+
+test("parseBitSequence reads channel/bit tuples and reports bad entries", () => {
+  expect(parseBitSequence("R1,r2, G1  b3")).toEqual({
+    planeIds: ["r-1", "r-2", "g-1", "b-3"],
+    error: null,
+  });
+  expect(parseBitSequence("")).toEqual({ planeIds: [], error: null });
+  expect(parseBitSequence("R1,X2").error).toContain('"X2"');
+  expect(parseBitSequence("G9").planeIds).toEqual([]);
+});
+
+test("formatBitSequence round-trips ordered planes", () => {
+  const planes = orderSelectedPlanes(buildPlaneSpecs(), {
+    ...DEFAULT_OPTIONS,
+    bitSequence: ["b-2", "r-1", "b-1", "missing"],
+  });
+
+  expect(planes.map((entry) => entry.id)).toEqual(["b-2", "r-1", "b-1"]);
+  expect(formatBitSequence(planes)).toBe("B2,R1,B1");
+});
+
+test("extractBitPlaneStream follows an explicit bit sequence per pixel", () => {
+  // 3-3-2 style: R1,R2,R3,G1,G2,G3,B1,B2 packs one byte per pixel.
+  const img = imageData(
+    2,
+    1,
+    [0b101, 0b011, 0b10, 255, 0b010, 0b100, 0b01, 255],
+  );
+
+  const out = extractBitPlaneStream(
+    img,
+    [],
+    {
+      ...DEFAULT_OPTIONS,
+      bitSequence: ["r-1", "r-2", "r-3", "g-1", "g-2", "g-3", "b-1", "b-2"],
+    },
+    2,
+  );
+
+  expect(out.bitsPerPixel).toBe(8);
+  expect(Array.from(out.bytes)).toEqual([0b1011_1001, 0b0100_0110]);
+});
@@ -0,0 +1,73 @@
+import { expect, test } from "vitest";
+import { walkBmpLayout } from "../src/utils/bmpLayout.ts";
+
+function buildBmp(
+  length: number,
+  fields: { bitsPerPixel: number; compression?: number; colorsUsed?: number },
+  pixelOffset: number,
+  declaredSize = 0,
+): Uint8Array {
+  // 2x2 image with a 40-byte BITMAPINFOHEADER.
+  const bytes = new Uint8Array(length);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x42, 0x4d]);
+  view.setUint32(2, declaredSize, true);
+  view.setUint32(10, pixelOffset, true);
+  view.setUint32(14, 40, true);
+  view.setInt32(18, 2, true);
+  view.setInt32(22, 2, true);
+  view.setUint16(28, fields.bitsPerPixel, true);
+  view.setUint32(30, fields.compression ?? 0, true);
+  view.setUint32(46, fields.colorsUsed ?? 0, true);
+  return bytes;
+}
+
+const regionsOf = (bytes: Uint8Array) =>
+  walkBmpLayout(bytes)!.regions.map((region) => [
+    region.label,
+    region.offset,
+    region.endOffset,
+  ]);
+
+test("maps headers, the color table and pixel data", () => {
+  const bytes = buildBmp(80, { bitsPerPixel: 8, colorsUsed: 2 }, 70, 80);
+  expect(regionsOf(bytes)).toEqual([
+    ["File header", 0, 14],
+    ["DIB header", 14, 54],
+    ["Color table", 54, 62],
+    ["Pixel data", 70, 78],
+  ]);
+  const layout = walkBmpLayout(bytes)!;
+  expect(layout.declaredSize).toBe(80);
+  expect(layout.endOffset).toBe(80);
+  expect(layout.isTruncated).toBe(false);
+
+  // A 1-bit image without biClrUsed gets the full 2-entry table.
+  expect(regionsOf(buildBmp(70, { bitsPerPixel: 1 }, 62))[2]).toEqual([
+    "Color table",
+    54,
+    62,
+  ]);
+});
+
+test("includes BITFIELDS masks and flags truncated ranges", () => {
+  const bitfields = buildBmp(78, { bitsPerPixel: 16, compression: 3 }, 66);
+  expect(regionsOf(bitfields)).toEqual([
+    ["File header", 0, 14],
+    ["DIB header", 14, 54],
+    ["Color masks", 54, 66],
+    ["Pixel data", 66, 74],
+  ]);
+  // A declared size past the end of the buffer is ignored.
+  const oversized = buildBmp(78, { bitsPerPixel: 16, compression: 3 }, 66, 999);
+  expect(walkBmpLayout(oversized)?.endOffset).toBe(74);
+
+  const truncated = walkBmpLayout(buildBmp(60, { bitsPerPixel: 24 }, 54))!;
+  expect(truncated.isTruncated).toBe(true);
+  expect(truncated.endOffset).toBe(54);
+
+  expect(walkBmpLayout(new Uint8Array(30))).toBeNull();
+  const shortHeader = buildBmp(60, { bitsPerPixel: 24 }, 54);
+  shortHeader[14] = 16;
+  expect(walkBmpLayout(shortHeader)).toBeNull();
+});
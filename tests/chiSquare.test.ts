@@ -0,0 +1,156 @@
+import { expect, test } from "vitest";
+import {
+  analyzeChiSquare,
+  chiSquareSurvival,
+  computePairsOfValuesStatistic,
+} from "../src/utils/chiSquare.ts";
+
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state / 0x1_0000_0000;
+  };
+}
+
+// Cover with only even values so pairs of values are maximally unbalanced
+// before embedding.
+function buildCover(width: number, height: number, seed = 7): ImageData {
+  const random = createRandom(seed);
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let index = 0; index < width * height; index += 1) {
+    for (let channel = 0; channel < 3; channel += 1) {
+      const base = Math.floor(random() * 120) + channel * 40;
+      data[index * 4 + channel] = base & ~1;
+    }
+    data[index * 4 + 3] = 255;
+  }
+  return { data, width, height } as ImageData;
+}
+
+function embedSequential(
+  image: ImageData,
+  pixelCount: number,
+  scan: "row-major" | "column-major",
+  seed = 99,
+): void {
+  const random = createRandom(seed);
+  let visited = 0;
+  const visit = (pixelIndex: number): void => {
+    for (let channel = 0; channel < 3; channel += 1) {
+      const offset = pixelIndex * 4 + channel;
+      image.data[offset] = (image.data[offset] & ~1) | (random() < 0.5 ? 1 : 0);
+    }
+  };
+
+  if (scan === "row-major") {
+    for (let index = 0; index < pixelCount; index += 1) {
+      visit(index);
+    }
+    return;
+  }
+
+  for (let x = 0; x < image.width && visited < pixelCount; x += 1) {
+    for (let y = 0; y < image.height && visited < pixelCount; y += 1) {
+      visit(y * image.width + x);
+      visited += 1;
+    }
+  }
+}
+
+test("chiSquareSurvival matches known chi-square tail values", () => {
+  expect(chiSquareSurvival(3.841, 1)).toBeCloseTo(0.05, 3);
+  expect(chiSquareSurvival(18.307, 10)).toBeCloseTo(0.05, 3);
+  expect(chiSquareSurvival(2, 10)).toBeCloseTo(0.9963, 3);
+  expect(chiSquareSurvival(0, 4)).toBe(1);
+  expect(chiSquareSurvival(5, 0)).toBe(0);
+  expect(chiSquareSurvival(Number.NaN, 3)).toBe(0);
+});
+
+test("computePairsOfValuesStatistic merges sparse pairs into categories", () => {
+  const histogram = new Array<number>(256).fill(0);
+  histogram[10] = 10;
+  histogram[11] = 10;
+  histogram[20] = 3;
+  histogram[22] = 3;
+  histogram[40] = 1;
+
+  const result = computePairsOfValuesStatistic(histogram);
+
+  expect(result.degreesOfFreedom).toBe(1);
+  expect(result.chiSquare).toBeCloseTo(3 + 0.5, 5);
+});
+
+test("computePairsOfValuesStatistic reports no degrees of freedom for empty data", () => {
+  const result = computePairsOfValuesStatistic(new Array<number>(256).fill(0));
+
+  expect(result).toEqual({ chiSquare: 0, degreesOfFreedom: -1 });
+});
+
+test("analyzeChiSquare detects where a row-major sequential payload ends", () => {
+  const image = buildCover(100, 100);
+  embedSequential(image, 4000, "row-major");
+
+  const analysis = analyzeChiSquare(image, "row-major", { sampleCount: 20 });
+
+  expect(analysis.totalPixels).toBe(10_000);
+  expect(analysis.series.map((series) => series.channel)).toEqual([
+    "r",
+    "g",
+    "b",
+  ]);
+  for (const series of analysis.series) {
+    expect(series.samples).toHaveLength(20);
+    expect(series.samples[0].probability).toBeGreaterThan(0.5);
+    expect(series.samples[19].probability).toBeLessThan(0.01);
+    expect(series.samples[19].scanFraction).toBe(1);
+    expect(series.estimatedPayloadFraction).toBeCloseTo(0.4, 5);
+  }
+});
+
+test("analyzeChiSquare follows the requested scan order", () => {
+  const image = buildCover(100, 100);
+  embedSequential(image, 3000, "column-major");
+
+  const columnMajor = analyzeChiSquare(image, "column-major", {
+    sampleCount: 10,
+    channels: ["g"],
+  });
+  const rowMajor = analyzeChiSquare(image, "row-major", {
+    sampleCount: 10,
+    channels: ["g"],
+  });
+
+  expect(columnMajor.series).toHaveLength(1);
+  expect(columnMajor.series[0].estimatedPayloadFraction).toBeCloseTo(0.3, 5);
+  expect(rowMajor.series[0].estimatedPayloadFraction).toBe(0);
+});
+
+test("analyzeChiSquare reports no embedding on an untouched cover", () => {
+  const analysis = analyzeChiSquare(buildCover(64, 64), "row-major");
+
+  for (const series of analysis.series) {
+    expect(series.estimatedPayloadFraction).toBe(0);
+    expect(series.samples.every((sample) => sample.probability < 0.01)).toBe(
+      true,
+    );
+  }
+});
+
+test("analyzeChiSquare clamps the sample count and handles empty images", () => {
+  const tiny = analyzeChiSquare(buildCover(2, 2), "row-major", {
+    sampleCount: 50,
+    channels: ["a"],
+  });
+  expect(tiny.series[0].samples).toHaveLength(4);
+  expect(tiny.series[0].samples[0].degreesOfFreedom).toBe(0);
+  expect(tiny.series[0].samples[0].probability).toBe(0);
+
+  const empty = analyzeChiSquare(
+    { data: new Uint8ClampedArray(0), width: 0, height: 0 } as ImageData,
+    "column-major",
+  );
+  expect(empty.series).toHaveLength(3);
+  expect(empty.series[0].samples).toEqual([]);
+  expect(empty.series[0].estimatedPayloadFraction).toBe(0);
+});
@@ -0,0 +1,97 @@
+import { afterEach, expect, test, vi } from "vitest";
+import {
+  computeErrorLevelImage,
+  recompressAsJpeg,
+} from "../src/utils/errorLevel.ts";
+
+class MockImageData {
+  public data: Uint8ClampedArray;
+  public width: number;
+  public height: number;
+
+  constructor(data: Uint8ClampedArray, width: number, height: number) {
+    this.data = data;
+    this.width = width;
+    this.height = height;
+  }
+}
+
+globalThis.ImageData = MockImageData as unknown as typeof ImageData;
+
+function image(pixels: number[], width: number, height: number): ImageData {
+  return new ImageData(new Uint8ClampedArray(pixels), width, height);
+}
+
+function installCanvas(blob: Blob | null, context: unknown = {}) {
+  const canvas = {
+    width: 0,
+    height: 0,
+    getContext: vi.fn(() => context),
+    toBlob: vi.fn((callback: (value: Blob | null) => void) => callback(blob)),
+  };
+  vi.stubGlobal("document", {
+    createElement: vi.fn(() => canvas),
+  } as unknown as Document);
+  return canvas;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+test("amplifies per-channel differences and forces opaque alpha", () => {
+  const original = image([10, 20, 30, 0, 200, 200, 200, 255], 2, 1);
+  const recompressed = image([12, 20, 25, 255, 190, 210, 200, 255], 2, 1);
+  const result = computeErrorLevelImage(original, recompressed, 20);
+  expect(Array.from(result.data)).toEqual([40, 0, 100, 255, 200, 200, 0, 255]);
+  expect([result.width, result.height]).toEqual([2, 1]);
+
+  expect(() =>
+    computeErrorLevelImage(original, image([0, 0, 0, 0], 1, 1), 1),
+  ).toThrow("Recompressed image size does not match the original.");
+});
+
+test("re-encodes through the canvas JPEG encoder", async () => {
+  const decoded = image([1, 2, 3, 255], 1, 1);
+  const context = {
+    putImageData: vi.fn(),
+    clearRect: vi.fn(),
+    drawImage: vi.fn(),
+    getImageData: vi.fn(() => decoded),
+  };
+  const canvas = installCanvas(
+    new Blob([new Uint8Array([0xff, 0xd8])], { type: "image/jpeg" }),
+    context,
+  );
+  const close = vi.fn();
+  vi.stubGlobal(
+    "createImageBitmap",
+    vi.fn(async () => ({ width: 1, height: 1, close })),
+  );
+
+  const source = image([0, 0, 0, 255], 1, 1);
+  await expect(recompressAsJpeg(source, 0.75)).resolves.toBe(decoded);
+  expect(context.putImageData).toHaveBeenCalledWith(source, 0, 0);
+  expect(canvas.toBlob).toHaveBeenCalledWith(
+    expect.any(Function),
+    "image/jpeg",
+    0.75,
+  );
+  expect(close).toHaveBeenCalled();
+});
+
+test("reports browsers without a context or JPEG encoder", async () => {
+  const source = image([0, 0, 0, 255], 1, 1);
+  installCanvas(null, null);
+  await expect(recompressAsJpeg(source, 0.9)).rejects.toThrow(
+    "Canvas 2D context is unavailable in this browser.",
+  );
+
+  // Unsupported types fall back to PNG in toBlob.
+  installCanvas(new Blob([], { type: "image/png" }), {
+    putImageData: vi.fn(),
+  });
+  await expect(recompressAsJpeg(source, 0.9)).rejects.toThrow(
+    "This browser cannot encode JPEG images.",
+  );
+});
@@ -1,6 +1,10 @@
 import { parse as parseExif } from "exifr";
 import { beforeEach, expect, test, vi } from "vitest";
-import { __exifInternals, readExifMetadata } from "../src/utils/exif.ts";
+import {
+  __exifInternals,
+  appendPngTextEntries,
+  readExifMetadata,
+} from "../src/utils/exif.ts";
 
 vi.mock("exifr", () => ({
   parse: vi.fn(),
@@ -369,3 +373,83 @@ test("exif internals cover base64 and flatten edge branches", () => {
   flattenMetadata([validBase64], "exifPayload", entries, dedupe, 0);
   expect(entries.some((entry) => entry.tagName === "Base64Payload")).toBe(true);
 });
+
+test("appendPngTextEntries adds PNG text chunks and their base64 payloads", () => {
+  const payload = "QUJD".repeat(40);
+  const chunk = {
+    compressionMethod: null,
+    isCompressed: false,
+    languageTag: "",
+    translatedKeyword: "",
+    error: null,
+  };
+
+  expect(appendPngTextEntries(null, [])).toBeNull();
+  expect(
+    appendPngTextEntries(null, [
+      { ...chunk, type: "tEXt", keyword: "Empty", text: "   " },
+    ]),
+  ).toBeNull();
+
+  const merged = appendPngTextEntries(
+    {
+      source: "exifr",
+      entries: [{ group: "ifd0", tagId: 0, tagName: "Make", value: "Canon" }],
+      location: { latitude: 1, longitude: 2 },
+    },
+    [
+      { ...chunk, type: "tEXt", keyword: "Comment", text: `data: ${payload}` },
+      {
+        ...chunk,
+        type: "iTXt",
+        keyword: "Title",
+        text: "Hallo",
+        translatedKeyword: "Titel",
+      },
+      {
+        ...chunk,
+        type: "zTXt",
+        keyword: "",
+        text: "",
+        isCompressed: true,
+        error: "Could not inflate: bad data",
+      },
+      {
+        ...chunk,
+        type: "tEXt",
+        keyword: "Two",
+        text: `${payload}|${"REVG".repeat(40)}`,
+      },
+    ],
+  );
+
+  expect(merged?.source).toBe("exifr");
+  expect(merged?.location).toEqual({ latitude: 1, longitude: 2 });
+  expect(merged?.entries[0]).toMatchObject({ group: "ifd0", value: "Canon" });
+  const pngEntries = Object.fromEntries(
+    (merged?.entries ?? [])
+      .filter((entry) => entry.group === "png-text")
+      .map((entry) => [entry.tagName, entry.value]),
+  );
+  expect(pngEntries).toEqual({
+    "Comment (tEXt)": `data: ${payload}`,
+    "Comment (tEXt) Base64Payload": payload,
+    "Title (iTXt)": "Hallo",
+    "Title (iTXt) translated keyword": "Titel",
+    "(no keyword) (zTXt)": "Could not inflate: bad data",
+    "Two (tEXt)": `${payload}|${"REVG".repeat(40)}`,
+    "Two (tEXt) Base64Payload1": payload,
+    "Two (tEXt) Base64Payload2": "REVG".repeat(40),
+  });
+
+  const textOnly = appendPngTextEntries(null, [
+    { ...chunk, type: "tEXt", keyword: "flag", text: "ctf{x}" },
+  ]);
+  expect(textOnly).toEqual({
+    source: "png-text",
+    entries: [
+      { group: "png-text", tagId: 0, tagName: "flag (tEXt)", value: "ctf{x}" },
+    ],
+    location: null,
+  });
+});
@@ -0,0 +1,246 @@
+import { expect, test } from "vitest";
+import {
+  hasGifSignature,
+  inspectGifBlocks,
+  walkGifBlocks,
+} from "../src/utils/gifBlocks.ts";
+
+function ascii(text: string): number[] {
+  return Array.from(text, (character) => character.charCodeAt(0));
+}
+
+function subBlocks(data: number[], size = 255): number[] {
+  const output: number[] = [];
+  for (let index = 0; index < data.length; index += size) {
+    const part = data.slice(index, index + size);
+    output.push(part.length, ...part);
+  }
+  return [...output, 0x00];
+}
+
+const HEADER = [...ascii("GIF89a"), 0x02, 0x00, 0x01, 0x00, 0xf0, 0x00, 0x31];
+const GLOBAL_TABLE = [0x00, 0x00, 0x00, 0xff, 0x80, 0x00];
+const NETSCAPE = [
+  0x21,
+  0xff,
+  0x0b,
+  ...ascii("NETSCAPE2.0"),
+  0x03,
+  0x01,
+  0x00,
+  0x00,
+  0x00,
+];
+const XMP_PACKET = '<?xpacket begin=""?><x:xmpmeta/><?xpacket end="w"?>';
+// The raw packet is followed by the 258-byte magic trailer (0x01, 0xFF..0x00,
+// terminator) so that sub-block parsers land on the terminator.
+const XMP = [
+  0x21,
+  0xff,
+  0x0b,
+  ...ascii("XMP DataXMP"),
+  ...ascii(XMP_PACKET),
+  0x01,
+  ...Array.from({ length: 256 }, (_, index) => 0xff - index),
+  0x00,
+];
+const GCE = [0x21, 0xf9, 0x04, 0x09, 0x0a, 0x00, 0x01, 0x00];
+const COMMENT = [0x21, 0xfe, ...subBlocks(ascii("hidden flag{gif}"), 8)];
+const PLAIN_TEXT = [
+  0x21,
+  0x01,
+  0x0c,
+  0x01,
+  0x00,
+  0x02,
+  0x00,
+  0x10,
+  0x00,
+  0x08,
+  0x00,
+  0x08,
+  0x08,
+  0x01,
+  0x00,
+  ...subBlocks(ascii("hi")),
+];
+const UNKNOWN = [0x21, 0x99, ...subBlocks([1, 2, 3])];
+const OTHER_APP = [
+  0x21,
+  0xff,
+  0x0b,
+  ...ascii("STEGTOOL1.0"),
+  ...subBlocks([0xde, 0xad]),
+];
+const IMAGE = [
+  0x2c, 0x00, 0x00, 0x00, 0x00, 0x02, 0x00, 0x01, 0x00, 0xc0, 0x10, 0x20, 0x30,
+  0x40, 0x50, 0x60, 0x02, 0x02, 0x44, 0x01, 0x00,
+];
+
+const GIF = new Uint8Array([
+  ...HEADER,
+  ...GLOBAL_TABLE,
+  ...NETSCAPE,
+  ...XMP,
+  ...GCE,
+  ...COMMENT,
+  ...PLAIN_TEXT,
+  ...UNKNOWN,
+  ...OTHER_APP,
+  ...IMAGE,
+  0x3b,
+]);
+
+test("walks every GIF block with contiguous offsets", () => {
+  const walk = walkGifBlocks(GIF)!;
+  expect(walk.trailerEndOffset).toBe(GIF.length);
+  expect(walk.isTruncated).toBe(false);
+  expect(walk.blocks.map((block) => [block.kind, block.label])).toEqual([
+    ["header", null],
+    ["logical-screen", null],
+    ["global-color-table", null],
+    ["extension", 0xff],
+    ["extension", 0xff],
+    ["extension", 0xf9],
+    ["extension", 0xfe],
+    ["extension", 0x01],
+    ["extension", 0x99],
+    ["extension", 0xff],
+    ["image-descriptor", null],
+    ["local-color-table", null],
+    ["image-data", null],
+    ["trailer", null],
+  ]);
+  walk.blocks.slice(1).forEach((block, index) => {
+    expect(block.offset).toBe(walk.blocks[index].endOffset);
+  });
+
+  const embedded = new Uint8Array([0xaa, ...GIF, 0xbb]);
+  expect(walkGifBlocks(embedded, 1)?.trailerEndOffset).toBe(GIF.length + 1);
+  expect(hasGifSignature(embedded, 1)).toBe(true);
+  expect(hasGifSignature(embedded)).toBe(false);
+});
+
+test("decodes descriptors, tables and extension contents", () => {
+  const inspection = inspectGifBlocks(GIF)!;
+  expect(inspection.warnings).toEqual([]);
+  const fieldsOf = (index: number) =>
+    Object.fromEntries(
+      inspection.blocks[index].fields.map((field) => [
+        field.label,
+        field.value,
+      ]),
+    );
+
+  expect(inspection.blocks[0].description).toBe("GIF89a");
+  expect(fieldsOf(1)).toEqual({
+    Canvas: "2 x 1",
+    "Global color table": "2 entries",
+    "Color resolution": "8 bits per primary",
+    "Background index": "0",
+    "Pixel aspect ratio": "1.000",
+  });
+  expect(fieldsOf(2)).toEqual({ Entries: "2", Colors: "#000000 #ff8000" });
+  expect(inspection.blocks[3].description).toBe("Animation looping");
+  expect(fieldsOf(3)["Loop count"]).toBe("infinite");
+  expect(inspection.blocks[4].description).toBe("XMP packet");
+  expect(fieldsOf(4).Packet).toBe(XMP_PACKET);
+  expect(fieldsOf(5)).toEqual({
+    Disposal: "Restore to background",
+    Delay: "100 ms",
+    "Transparent index": "1",
+    "User input": "no",
+  });
+  expect(fieldsOf(6)).toEqual({
+    Size: "16 bytes in 2 sub-blocks",
+    Text: "hidden flag{gif}",
+  });
+  expect(fieldsOf(7)).toMatchObject({
+    "Text grid": "16 x 8 at (1, 2)",
+    "Cell size": "8 x 8",
+    Text: "hi",
+  });
+  expect(inspection.blocks[8].warnings).toEqual([
+    "Unknown extension label 0x99.",
+  ]);
+  expect(fieldsOf(9)).toEqual({
+    Application: "STEGTOOL (auth code 1.0)",
+    Data: "2 bytes in 1 sub-blocks",
+    Preview: "de ad",
+  });
+  expect(fieldsOf(10)).toEqual({
+    Frame: "2 x 1 at (0, 0)",
+    "Local color table": "2 entries",
+    Interlaced: "yes",
+  });
+  expect(inspection.blocks[11].name).toBe("Local Color Table");
+  expect(fieldsOf(12)).toEqual({
+    "LZW minimum code size": "2",
+    "Compressed data": "2 bytes in 1 sub-blocks",
+  });
+  expect(inspection.blocks[13].name).toBe("Trailer");
+});
+
+test("reports truncated streams, stray bytes and malformed blocks", () => {
+  expect(inspectGifBlocks(new Uint8Array([0x89, 0x50]))).toBeNull();
+  expect(walkGifBlocks(GIF.slice(0, 9))?.isTruncated).toBe(true);
+  expect(walkGifBlocks(GIF.slice(0, 15))?.isTruncated).toBe(true);
+
+  const truncated = inspectGifBlocks(GIF.slice(0, GIF.length - 3))!;
+  expect(truncated.trailerEndOffset).toBeNull();
+  expect(truncated.warnings).toEqual([
+    "Block stream is truncated before the trailer.",
+  ]);
+
+  const stray = inspectGifBlocks(
+    new Uint8Array([...HEADER.slice(0, 10), 0x00, 0x00, 0x00, 0x77]),
+  )!;
+  expect(stray.warnings).toEqual([
+    "Unexpected byte 0x77 at offset 13 instead of a block introducer.",
+    "No image descriptor found.",
+  ]);
+
+  const malformed = inspectGifBlocks(
+    new Uint8Array([
+      ...HEADER.slice(0, 10),
+      0x00,
+      0x00,
+      0x00,
+      0x21,
+      0xf9,
+      0x02,
+      0x00,
+      0x00,
+      0x00,
+      0x21,
+      0xff,
+      0x03,
+      ...ascii("ABC"),
+      0x00,
+      0x21,
+      0x01,
+      0x01,
+      0x00,
+      0x00,
+      0x2c,
+      0x00,
+      0x00,
+      0x00,
+      0x00,
+      0x01,
+      0x00,
+      0x01,
+      0x00,
+      0x00,
+      0x0c,
+      0x00,
+      0x3b,
+    ]),
+  )!;
+  expect(malformed.blocks.flatMap((block) => block.warnings)).toEqual([
+    "Graphic Control Extension block is 2 bytes, expected 4.",
+    "Application Extension identifier block is 3 bytes, expected 11.",
+    "Plain Text Extension header is 1 bytes, expected 12.",
+    "LZW minimum code size 12 is outside 2-8.",
+  ]);
+});
@@ -1,10 +1,11 @@
-import { readExifMetadata } from "../src/utils/exif.ts";
+import { appendPngTextEntries, readExifMetadata } from "../src/utils/exif.ts";
 import { decodeImageFile } from "../src/utils/image.ts";
 import { extractTrailingData } from "../src/utils/trailingData.ts";
 import { beforeEach, expect, test, vi } from "vitest";
 
 vi.mock("../src/utils/exif.ts", () => ({
   readExifMetadata: vi.fn(),
+  appendPngTextEntries: vi.fn(),
 }));
 
 vi.mock("../src/utils/trailingData.ts", () => ({
@@ -13,6 +14,7 @@ vi.mock("../src/utils/trailingData.ts", () => ({
 
 const mockedReadExifMetadata = vi.mocked(readExifMetadata);
 const mockedExtractTrailingData = vi.mocked(extractTrailingData);
+const mockedAppendPngTextEntries = vi.mocked(appendPngTextEntries);
 
 interface BitmapLike {
   width: number;
@@ -102,6 +104,8 @@ beforeEach(() => {
   vi.unstubAllGlobals();
   mockedReadExifMetadata.mockResolvedValue(null);
   mockedExtractTrailingData.mockReturnValue(null);
+  mockedAppendPngTextEntries.mockReset();
+  mockedAppendPngTextEntries.mockImplementation((metadata) => metadata);
   vi.stubGlobal("URL", {
     createObjectURL: vi.fn(() => "blob:test"),
     revokeObjectURL: vi.fn(),
@@ -137,11 +141,39 @@ test("decodeImageFile decodes with createImageBitmap when available", async () =
   expect(decoded.byteSize).toBe(5);
   expect(decoded.exif?.entries[0]?.value).toBe("Canon");
   expect(decoded.trailingData?.byteLength).toBe(1);
+  expect(decoded.sourceBytes).toEqual(new Uint8Array([1, 2, 3, 4, 5]));
+  expect(mockedAppendPngTextEntries).toHaveBeenCalledWith(decoded.exif, []);
   expect(drawImage).toHaveBeenCalledTimes(1);
   expect(createImageBitmapMock).toHaveBeenCalledTimes(1);
   expect(close).toHaveBeenCalledTimes(1);
 });
 
+test("decodeImageFile keeps exifr metadata when PNG text merging fails", async () => {
+  installCanvas(1, 1);
+  vi.stubGlobal(
+    "createImageBitmap",
+    vi.fn(async () => ({ width: 1, height: 1, close: vi.fn() })),
+  );
+  const exif = {
+    source: "exifr" as const,
+    entries: [
+      { group: "ifd0" as const, tagId: 0, tagName: "Make", value: "Canon" },
+    ],
+    location: null,
+  };
+  mockedReadExifMetadata.mockResolvedValueOnce(exif);
+  mockedAppendPngTextEntries.mockImplementationOnce(() => {
+    throw new Error("text failure");
+  });
+  const file = new File([new Uint8Array([1, 2, 3])], "sample.png", {
+    type: "image/png",
+  });
+
+  const decoded = await decodeImageFile(file);
+
+  expect(decoded.exif).toBe(exif);
+});
+
 test("decodeImageFile falls back to image element when createImageBitmap fails", async () => {
   installCanvas(3, 2);
   const createImageBitmapMock = vi.fn(async () => {
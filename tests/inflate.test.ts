@@ -0,0 +1,93 @@
+import { deflateRawSync, deflateSync, constants } from "node:zlib";
+import { expect, test } from "vitest";
+import { adler32, inflateRaw, inflateZlib } from "../src/utils/inflate.ts";
+import { crc32 } from "../src/utils/crc32.ts";
+
+function sampleBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  let state = 12345;
+  for (let index = 0; index < length; index += 1) {
+    state = (Math.imul(state, 1103515245) + 12345) & 0x7fffffff;
+    // Mix repetitive text with noise so both literals and matches appear.
+    bytes[index] = index % 7 === 0 ? state & 0xff : 0x61 + (index % 13);
+  }
+  return bytes;
+}
+
+test("inflates zlib streams produced by node at every strategy", () => {
+  const input = sampleBytes(70_000);
+  for (const options of [
+    { level: 0 },
+    { level: 1 },
+    { level: 9 },
+    { strategy: constants.Z_FIXED },
+    { strategy: constants.Z_HUFFMAN_ONLY },
+    { strategy: constants.Z_RLE },
+  ]) {
+    const compressed = new Uint8Array(deflateSync(input, options));
+    const inflated = inflateZlib(compressed);
+    expect(inflated.bytes).toEqual(input);
+    expect(inflated.consumedBytes).toBe(compressed.length);
+  }
+});
+
+test("inflates raw deflate and reports consumed input before trailing bytes", () => {
+  const input = new TextEncoder().encode("hello hello hello hello");
+  const compressed = new Uint8Array(deflateRawSync(input));
+  const withTrailer = new Uint8Array([...compressed, 0xde, 0xad]);
+
+  const inflated = inflateRaw(withTrailer);
+  expect(new TextDecoder().decode(inflated.bytes)).toBe(
+    "hello hello hello hello",
+  );
+  expect(inflated.consumedBytes).toBe(compressed.length);
+  expect(
+    inflateRaw(new Uint8Array(deflateRawSync(new Uint8Array(0)))).bytes,
+  ).toHaveLength(0);
+});
+
+test("rejects malformed zlib and deflate data", () => {
+  const compressed = new Uint8Array(deflateSync(sampleBytes(2_000)));
+
+  expect(() => inflateZlib(new Uint8Array([0x78]))).toThrow("header");
+  expect(() => inflateZlib(new Uint8Array([0x78, 0x00]))).toThrow("header");
+  expect(() => inflateZlib(new Uint8Array([0x78, 0xbb]))).toThrow(
+    "dictionaries",
+  );
+  expect(() => inflateZlib(compressed.slice(0, compressed.length - 2))).toThrow(
+    "Adler-32",
+  );
+  expect(() => inflateZlib(compressed.slice(0, 20))).toThrow("end");
+
+  const badChecksum = compressed.slice();
+  badChecksum[badChecksum.length - 1] ^= 0xff;
+  expect(() => inflateZlib(badChecksum)).toThrow("mismatch");
+
+  // Block type 3 is reserved.
+  expect(() => inflateRaw(new Uint8Array([0x07]))).toThrow("block type");
+  // Stored block whose length complement does not match.
+  expect(() =>
+    inflateRaw(new Uint8Array([0x01, 0x05, 0x00, 0x00, 0x00])),
+  ).toThrow("length check");
+  expect(() => inflateRaw(new Uint8Array([0x01, 0x05, 0x00]))).toThrow("end");
+  expect(() =>
+    inflateRaw(new Uint8Array([0x01, 0x05, 0x00, 0xfa, 0xff, 0x61])),
+  ).toThrow("end");
+  // Fixed block starting with a back-reference (length 3, distance 1).
+  expect(() => inflateRaw(new Uint8Array([0x03, 0x02]))).toThrow(
+    "Back-reference",
+  );
+});
+
+test("enforces the output limit", () => {
+  const compressed = new Uint8Array(deflateSync(new Uint8Array(10_000)));
+  expect(() => inflateZlib(compressed, 1_000)).toThrow("exceeds");
+});
+
+test("computes Adler-32 and CRC-32 checksums", () => {
+  const text = new TextEncoder().encode("Wikipedia");
+  expect(adler32(text)).toBe(0x11e60398);
+  expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+  expect(crc32(new TextEncoder().encode("xx123456789"), 2)).toBe(0xcbf43926);
+  expect(crc32(new Uint8Array(0))).toBe(0);
+});
@@ -0,0 +1,584 @@
+import { expect, test } from "vitest";
+import {
+  JPEG_ZIGZAG,
+  decodeJpegCoefficients,
+  extractDctCoefficientStream,
+  type DctStreamOptions,
+  type JpegCoefficients,
+} from "../src/utils/jpegDct.ts";
+
+interface TestComponent {
+  id: number;
+  h: number;
+  v: number;
+  // Block grid padded to whole MCUs, 64 natural-order coefficients per block.
+  blocksPerLine: number;
+  blocks: Int16Array[];
+}
+
+interface TestScan {
+  components: number[];
+  ss: number;
+  se: number;
+  ah: number;
+  al: number;
+}
+
+class BitWriter {
+  bytes: number[] = [];
+  private current = 0;
+  private count = 0;
+
+  write(value: number, length: number): void {
+    for (let bit = length - 1; bit >= 0; bit -= 1) {
+      this.current = (this.current << 1) | ((value >> bit) & 1);
+      this.count += 1;
+      if (this.count === 8) {
+        this.bytes.push(this.current);
+        if (this.current === 0xff) {
+          this.bytes.push(0x00);
+        }
+        this.current = 0;
+        this.count = 0;
+      }
+    }
+  }
+
+  flush(): void {
+    if (this.count > 0) {
+      this.write(0xff, 8 - this.count);
+    }
+  }
+}
+
+// Every symbol gets an 8-bit code equal to its value, so one table covers
+// both DC and AC symbols.
+const SYMBOLS = Array.from({ length: 255 }, (_, index) => index);
+
+function bitLength(value: number): number {
+  let magnitude = Math.abs(value);
+  let length = 0;
+  while (magnitude > 0) {
+    magnitude >>= 1;
+    length += 1;
+  }
+  return length;
+}
+
+function writeValue(writer: BitWriter, value: number): void {
+  const length = bitLength(value);
+  writer.write(value < 0 ? value - 1 : value, length);
+}
+
+function writeAcRun(
+  writer: BitWriter,
+  block: Int16Array,
+  ss: number,
+  se: number,
+  al: number,
+): void {
+  let run = 0;
+  for (let k = ss; k <= se; k += 1) {
+    const raw = block[JPEG_ZIGZAG[k]];
+    const value = raw >= 0 ? raw >> al : -(-raw >> al);
+    if (value === 0) {
+      run += 1;
+      continue;
+    }
+    while (run > 15) {
+      writer.write(0xf0, 8);
+      run -= 16;
+    }
+    writer.write((run << 4) | bitLength(value), 8);
+    writeValue(writer, value);
+    run = 0;
+  }
+  if (run > 0) {
+    writer.write(0x00, 8);
+  }
+}
+
+// libjpeg's encode_mcu_AC_refine with the end-of-band run flushed per block.
+function writeAcRefine(
+  writer: BitWriter,
+  block: Int16Array,
+  ss: number,
+  se: number,
+  al: number,
+): void {
+  const absolute: number[] = [];
+  let lastNew = -1;
+  for (let k = ss; k <= se; k += 1) {
+    absolute[k] = Math.abs(block[JPEG_ZIGZAG[k]]) >> al;
+    if (absolute[k] === 1) {
+      lastNew = k;
+    }
+  }
+
+  let run = 0;
+  let corrections: number[] = [];
+  for (let k = ss; k <= se; k += 1) {
+    if (absolute[k] === 0) {
+      run += 1;
+      continue;
+    }
+    while (run > 15 && k <= lastNew) {
+      writer.write(0xf0, 8);
+      corrections.forEach((bit) => writer.write(bit, 1));
+      corrections = [];
+      run -= 16;
+    }
+    if (absolute[k] > 1) {
+      corrections.push(absolute[k] & 1);
+      continue;
+    }
+    writer.write((run << 4) | 1, 8);
+    writer.write(block[JPEG_ZIGZAG[k]] < 0 ? 0 : 1, 1);
+    corrections.forEach((bit) => writer.write(bit, 1));
+    corrections = [];
+    run = 0;
+  }
+  if (run > 0 || corrections.length > 0) {
+    writer.write(0x00, 8);
+    corrections.forEach((bit) => writer.write(bit, 1));
+  }
+}
+
+function findMarker(bytes: Uint8Array, marker: number): number {
+  return bytes.findIndex(
+    (byte, index) => byte === 0xff && bytes[index + 1] === marker,
+  );
+}
+
+function segment(marker: number, body: number[]): number[] {
+  const length = body.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...body];
+}
+
+function encodeJpeg(
+  width: number,
+  height: number,
+  components: TestComponent[],
+  scans: TestScan[],
+  options: { progressive?: boolean; restartInterval?: number } = {},
+): Uint8Array {
+  const maxH = Math.max(...components.map((component) => component.h));
+  const maxV = Math.max(...components.map((component) => component.v));
+  const mcusPerLine = Math.ceil(width / (8 * maxH));
+  const mcusPerColumn = Math.ceil(height / (8 * maxV));
+  const counts = new Array(16).fill(0);
+  counts[7] = SYMBOLS.length;
+
+  const bytes = [
+    0xff,
+    0xd8,
+    ...segment(0xdb, [0x00, ...new Array(64).fill(1)]),
+    ...segment(options.progressive ? 0xc2 : 0xc0, [
+      8,
+      height >> 8,
+      height & 0xff,
+      width >> 8,
+      width & 0xff,
+      components.length,
+      ...components.flatMap((component) => [
+        component.id,
+        (component.h << 4) | component.v,
+        0,
+      ]),
+    ]),
+    ...segment(0xc4, [0x00, ...counts, ...SYMBOLS]),
+    ...segment(0xc4, [0x10, ...counts, ...SYMBOLS]),
+  ];
+  if (options.restartInterval) {
+    bytes.push(
+      ...segment(0xdd, [
+        options.restartInterval >> 8,
+        options.restartInterval & 0xff,
+      ]),
+    );
+  }
+
+  for (const scan of scans) {
+    const scanComponents = scan.components.map((index) => components[index]);
+    bytes.push(
+      ...segment(0xda, [
+        scanComponents.length,
+        ...scanComponents.flatMap((component) => [component.id, 0x00]),
+        scan.ss,
+        scan.se,
+        (scan.ah << 4) | scan.al,
+      ]),
+    );
+
+    // Each entry lists the (component, block) pairs of one MCU.
+    const mcus: Array<Array<[TestComponent, Int16Array]>> = [];
+    if (scanComponents.length === 1) {
+      const [component] = scanComponents;
+      const columns = Math.ceil(Math.ceil((width * component.h) / maxH) / 8);
+      const rows = Math.ceil(Math.ceil((height * component.v) / maxV) / 8);
+      for (let row = 0; row < rows; row += 1) {
+        for (let column = 0; column < columns; column += 1) {
+          mcus.push([
+            [
+              component,
+              component.blocks[row * component.blocksPerLine + column],
+            ],
+          ]);
+        }
+      }
+    } else {
+      for (let row = 0; row < mcusPerColumn; row += 1) {
+        for (let column = 0; column < mcusPerLine; column += 1) {
+          const mcu: Array<[TestComponent, Int16Array]> = [];
+          for (const component of scanComponents) {
+            for (let v = 0; v < component.v; v += 1) {
+              for (let h = 0; h < component.h; h += 1) {
+                const blockRow = row * component.v + v;
+                const blockColumn = column * component.h + h;
+                mcu.push([
+                  component,
+                  component.blocks[
+                    blockRow * component.blocksPerLine + blockColumn
+                  ],
+                ]);
+              }
+            }
+          }
+          mcus.push(mcu);
+        }
+      }
+    }
+
+    let writer = new BitWriter();
+    let predictions = new Map<TestComponent, number>();
+    mcus.forEach((mcu, mcuIndex) => {
+      if (
+        options.restartInterval &&
+        mcuIndex > 0 &&
+        mcuIndex % options.restartInterval === 0
+      ) {
+        writer.flush();
+        const restart = ((mcuIndex / options.restartInterval - 1) & 7) + 0xd0;
+        bytes.push(...writer.bytes, 0xff, restart);
+        writer = new BitWriter();
+        predictions = new Map();
+      }
+
+      for (const [component, block] of mcu) {
+        if (scan.ss === 0) {
+          const value = block[0] >> scan.al;
+          if (scan.ah > 0) {
+            writer.write(value & 1, 1);
+          } else {
+            const diff = value - (predictions.get(component) ?? 0);
+            predictions.set(component, value);
+            writer.write(bitLength(diff), 8);
+            writeValue(writer, diff);
+          }
+          if (!options.progressive) {
+            writeAcRun(writer, block, 1, 63, 0);
+          }
+        } else if (scan.ah > 0) {
+          writeAcRefine(writer, block, scan.ss, scan.se, scan.al);
+        } else {
+          writeAcRun(writer, block, scan.ss, scan.se, scan.al);
+        }
+      }
+    });
+    writer.flush();
+    bytes.push(...writer.bytes);
+  }
+
+  bytes.push(0xff, 0xd9);
+  return new Uint8Array(bytes);
+}
+
+// Deterministic blocks: DC plus a few AC terms of both signs, some larger
+// than one bit so successive-approximation refinement has work to do.
+function buildComponent(
+  id: number,
+  h: number,
+  v: number,
+  blocksPerLine: number,
+  rows: number,
+): TestComponent {
+  const blocks = Array.from({ length: blocksPerLine * rows }, (_, index) => {
+    const block = new Int16Array(64);
+    block[0] = ((index * 37 + id * 11) % 41) - 20;
+    for (let k = 1; k < 64; k += 1) {
+      const seed = (index * 131 + k * 17 + id * 7) % 23;
+      if (seed < 6) {
+        block[JPEG_ZIGZAG[k]] = seed % 2 === 0 ? seed + 1 : -seed - 2;
+      }
+    }
+    if (index % 3 === 0) {
+      // Long zero run ending in a coefficient, to exercise ZRL.
+      block.fill(0, 1);
+      block[JPEG_ZIGZAG[40]] = -3;
+    }
+    return block;
+  });
+  return { id, h, v, blocksPerLine, blocks };
+}
+
+// 24x16 4:2:0 frame: luma has a padded block column (4x2 grid, 3x2 real).
+function buildComponents(): TestComponent[] {
+  return [
+    buildComponent(1, 2, 2, 4, 2),
+    buildComponent(2, 1, 1, 2, 1),
+    buildComponent(3, 1, 1, 2, 1),
+  ];
+}
+
+function realBlocks(coefficients: JpegCoefficients): Int16Array[][] {
+  return coefficients.components.map((component) => {
+    const blocks: Int16Array[] = [];
+    for (let row = 0; row < component.blocksPerColumn; row += 1) {
+      for (let column = 0; column < component.blocksPerLine; column += 1) {
+        const offset = (row * component.paddedBlocksPerLine + column) * 64;
+        blocks.push(component.coefficients.slice(offset, offset + 64));
+      }
+    }
+    return blocks;
+  });
+}
+
+const COMPONENT_ORDER: DctStreamOptions = {
+  order: "component",
+  includeDc: true,
+  bytePackOrder: "msb-first",
+};
+
+test("decodes baseline coefficients including restart intervals", () => {
+  const components = buildComponents();
+  for (const restartInterval of [0, 1]) {
+    const bytes = encodeJpeg(
+      24,
+      16,
+      components,
+      [{ components: [0, 1, 2], ss: 0, se: 63, ah: 0, al: 0 }],
+      { restartInterval },
+    );
+    const progress: number[] = [];
+    const { coefficients, incompleteScans } = decodeJpegCoefficients(
+      bytes,
+      (fraction) => progress.push(fraction),
+    );
+
+    expect(incompleteScans).toBe(0);
+    expect(progress.length).toBeGreaterThan(0);
+    expect(coefficients).toMatchObject({
+      width: 24,
+      height: 16,
+      precision: 8,
+      isProgressive: false,
+      mcusPerLine: 2,
+      mcusPerColumn: 1,
+      scanCount: 1,
+    });
+    expect(coefficients.quantizationTables[0]).toEqual(
+      new Uint16Array(64).fill(1),
+    );
+    expect(coefficients.quantizationTables[1]).toBeNull();
+    expect(coefficients.components[0]).toMatchObject({
+      blocksPerLine: 3,
+      blocksPerColumn: 2,
+      paddedBlocksPerLine: 4,
+      paddedBlocksPerColumn: 2,
+    });
+    components.forEach((component, index) => {
+      expect(coefficients.components[index].coefficients).toEqual(
+        Int16Array.from(component.blocks.flatMap((block) => [...block])),
+      );
+    });
+  }
+});
+
+test("decodes progressive scans to the same coefficients", () => {
+  const components = buildComponents();
+  const baseline = decodeJpegCoefficients(
+    encodeJpeg(24, 16, components, [
+      { components: [0, 1, 2], ss: 0, se: 63, ah: 0, al: 0 },
+    ]),
+  ).coefficients;
+  const progressive = decodeJpegCoefficients(
+    encodeJpeg(
+      24,
+      16,
+      components,
+      [
+        { components: [0, 1, 2], ss: 0, se: 0, ah: 0, al: 1 },
+        { components: [0], ss: 1, se: 5, ah: 0, al: 2 },
+        { components: [0], ss: 6, se: 63, ah: 0, al: 0 },
+        { components: [1], ss: 1, se: 63, ah: 0, al: 1 },
+        { components: [2], ss: 1, se: 63, ah: 0, al: 0 },
+        { components: [0], ss: 1, se: 5, ah: 2, al: 1 },
+        { components: [0], ss: 1, se: 5, ah: 1, al: 0 },
+        { components: [1], ss: 1, se: 63, ah: 1, al: 0 },
+        { components: [0, 1, 2], ss: 0, se: 0, ah: 1, al: 0 },
+      ],
+      { progressive: true, restartInterval: 2 },
+    ),
+  ).coefficients;
+
+  expect(progressive.isProgressive).toBe(true);
+  expect(progressive.scanCount).toBe(9);
+  expect(realBlocks(progressive)).toEqual(realBlocks(baseline));
+});
+
+test("extracts JSteg-style coefficient LSB streams", () => {
+  const coefficients: JpegCoefficients = {
+    width: 16,
+    height: 8,
+    precision: 8,
+    isProgressive: false,
+    mcusPerLine: 1,
+    mcusPerColumn: 1,
+    scanCount: 1,
+    quantizationTables: [],
+    components: [1, 2].map((id) => ({
+      id,
+      horizontalSampling: id === 1 ? 2 : 1,
+      verticalSampling: 1,
+      quantizationTableId: 0,
+      blocksPerLine: id === 1 ? 2 : 1,
+      blocksPerColumn: 1,
+      paddedBlocksPerLine: id === 1 ? 2 : 1,
+      paddedBlocksPerColumn: 1,
+      coefficients: new Int16Array(id === 1 ? 128 : 64),
+    })),
+  };
+  const [luma, chroma] = coefficients.components;
+  // Zigzag positions 0-3 of luma block 0: DC=3, then 0 and 1 (skipped), -2.
+  luma.coefficients.set([3, 0], 0);
+  luma.coefficients[8] = 1;
+  luma.coefficients[16] = -2;
+  // Luma block 1 and the chroma block each hold one odd value.
+  luma.coefficients[64 + 1] = -3;
+  chroma.coefficients[0] = 5;
+
+  const stream = extractDctCoefficientStream(coefficients, COMPONENT_ORDER, 8);
+  // Usable coefficients in order: 3 (1), -2 (0), -3 (1), 5 (1).
+  expect(stream).toMatchObject({
+    totalBits: 4,
+    totalBytes: 1,
+    totalCoefficients: 192,
+  });
+  expect([...stream.bytes]).toEqual([0b10110000]);
+
+  expect(
+    extractDctCoefficientStream(
+      coefficients,
+      { ...COMPONENT_ORDER, bytePackOrder: "lsb-first", includeDc: false },
+      8,
+    ),
+  ).toMatchObject({
+    bytes: new Uint8Array([0b00000010]),
+    totalBits: 2,
+    totalCoefficients: 189,
+  });
+
+  // MCU order interleaves the chroma block after both luma blocks of the MCU,
+  // which matches component order here; truncation still reports totals.
+  const progress: number[] = [];
+  const truncated = extractDctCoefficientStream(
+    coefficients,
+    { ...COMPONENT_ORDER, order: "mcu" },
+    0,
+    (fraction) => progress.push(fraction),
+  );
+  expect(truncated.bytes).toHaveLength(0);
+  expect(truncated.totalBytes).toBe(1);
+  expect(progress).toEqual([]);
+
+  const mcu = extractDctCoefficientStream(
+    coefficients,
+    { ...COMPONENT_ORDER, order: "mcu" },
+    8,
+    (fraction) => progress.push(fraction),
+  );
+  expect([...mcu.bytes]).toEqual([0b10110000]);
+  expect(progress).toEqual([0]);
+});
+
+test("orders MCU-interleaved streams differently from component order", () => {
+  const components = buildComponents();
+  const { coefficients } = decodeJpegCoefficients(
+    encodeJpeg(24, 16, components, [
+      { components: [0, 1, 2], ss: 0, se: 63, ah: 0, al: 0 },
+    ]),
+  );
+  const byComponent = extractDctCoefficientStream(
+    coefficients,
+    COMPONENT_ORDER,
+    1024,
+  );
+  const byMcu = extractDctCoefficientStream(
+    coefficients,
+    { ...COMPONENT_ORDER, order: "mcu" },
+    1024,
+  );
+
+  // MCU order also walks the padded luma column, so it sees more blocks.
+  expect(byMcu.totalCoefficients).toBe((8 + 2 + 2) * 64);
+  expect(byComponent.totalCoefficients).toBe((6 + 2 + 2) * 64);
+  expect(byMcu.bytes).not.toEqual(byComponent.bytes);
+
+  const limited = extractDctCoefficientStream(coefficients, COMPONENT_ORDER, 1);
+  expect(limited.bytes).toEqual(byComponent.bytes.slice(0, 1));
+});
+
+test("reports truncated scans and rejects unsupported files", () => {
+  const components = buildComponents();
+  const bytes = encodeJpeg(24, 16, components, [
+    { components: [0, 1, 2], ss: 0, se: 63, ah: 0, al: 0 },
+  ]);
+  expect(
+    decodeJpegCoefficients(bytes.slice(0, bytes.length - 40)).incompleteScans,
+  ).toBe(1);
+  expect(
+    decodeJpegCoefficients(
+      encodeJpeg(
+        24,
+        16,
+        components,
+        [{ components: [0, 1, 2], ss: 0, se: 63, ah: 0, al: 0 }],
+        { restartInterval: 1 },
+      ).slice(0, bytes.length - 40),
+    ).incompleteScans,
+  ).toBe(1);
+
+  const frameOffset = findMarker(bytes, 0xc0) + 1;
+  const withMarker = (marker: number) => {
+    const copy = bytes.slice();
+    copy[frameOffset] = marker;
+    return copy;
+  };
+  expect(() => decodeJpegCoefficients(withMarker(0xc3))).toThrow(
+    "Lossless JPEGs are not supported.",
+  );
+  expect(() => decodeJpegCoefficients(withMarker(0xc9))).toThrow("arithmetic");
+  expect(() => decodeJpegCoefficients(new Uint8Array([1, 2, 3, 4]))).toThrow(
+    "Not a JPEG",
+  );
+  expect(() =>
+    decodeJpegCoefficients(new Uint8Array([0xff, 0xd8, 0xff, 0xd9])),
+  ).toThrow("no frame header");
+
+  const frameOnly = bytes.slice(0, findMarker(bytes, 0xda));
+  expect(() =>
+    decodeJpegCoefficients(new Uint8Array([...frameOnly, 0xff, 0xd9])),
+  ).toThrow("no scan data");
+
+  const missingTable = encodeJpeg(
+    8,
+    8,
+    [buildComponent(1, 1, 1, 1, 1)],
+    [{ components: [0], ss: 0, se: 63, ah: 0, al: 0 }],
+  );
+  // Point the scan at DC table 1, which was never defined.
+  missingTable[findMarker(missingTable, 0xda) + 6] = 0x10;
+  expect(() => decodeJpegCoefficients(missingTable)).toThrow(
+    "undefined Huffman table",
+  );
+});
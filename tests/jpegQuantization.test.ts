@@ -0,0 +1,160 @@
+import { expect, test } from "vitest";
+import { JPEG_ZIGZAG, readDqtTables } from "../src/utils/jpegDct.ts";
+import {
+  analyzeJpegQuantization,
+  buildIjgTable,
+  estimateIjgQuality,
+  getKnownQuantizationTables,
+} from "../src/utils/jpegQuantization.ts";
+
+function segment(marker: number, body: number[]): number[] {
+  const length = body.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...body];
+}
+
+function dqtEntry(id: number, natural: ArrayLike<number>, sixteenBit = false) {
+  const entries = Array.from(JPEG_ZIGZAG, (index) => natural[index]);
+  return sixteenBit
+    ? [0x10 | id, ...entries.flatMap((value) => [value >> 8, value & 0xff])]
+    : [id, ...entries];
+}
+
+function buildJpeg(
+  tables: number[],
+  componentTables: number[],
+  marker = 0xc0,
+): Uint8Array {
+  const frame = [
+    0x08,
+    0x00,
+    0x08,
+    0x00,
+    0x08,
+    componentTables.length,
+    ...componentTables.flatMap((tableId, index) => [index + 1, 0x11, tableId]),
+  ];
+  return new Uint8Array([
+    0xff,
+    0xd8,
+    ...segment(0xdb, tables),
+    ...segment(marker, frame),
+    ...segment(0xda, [0x01, 0x01, 0x00, 0x00, 0x3f, 0x00]),
+    // A DQT after the first scan does not apply to the frame.
+    ...segment(0xdb, dqtEntry(0, new Array(64).fill(1))),
+    0xff,
+    0xd9,
+  ]);
+}
+
+test("scales the Annex K tables the way libjpeg does", () => {
+  expect(Array.from(buildIjgTable(true, 50).slice(0, 8))).toEqual([
+    16, 11, 10, 16, 24, 40, 51, 61,
+  ]);
+  expect(buildIjgTable(false, 100)).toEqual(new Uint16Array(64).fill(1));
+  expect(buildIjgTable(true, 1).every((value) => value === 255)).toBe(true);
+  expect(buildIjgTable(true, 1, 32767)[0]).toBe(800);
+  expect(buildIjgTable(true, 75)[0]).toBe(8);
+  expect(buildIjgTable(false, 25)[0]).toBe(34);
+  expect(
+    getKnownQuantizationTables().filter((known) => known.source === "encoder"),
+  ).toHaveLength(100);
+  expect(getKnownQuantizationTables()[89].name).toBe(
+    "libjpeg (IJG) quality 90",
+  );
+});
+
+test("matches stock libjpeg tables and reports per-component quality", () => {
+  const jpeg = buildJpeg(
+    [
+      ...dqtEntry(0, buildIjgTable(true, 90)),
+      ...dqtEntry(1, buildIjgTable(false, 90)),
+    ],
+    [0, 1, 1],
+  );
+  const analysis = analyzeJpegQuantization(jpeg)!;
+  expect(analysis.tables.map((table) => [table.id, table.precision])).toEqual([
+    [0, 8],
+    [1, 8],
+  ]);
+  expect(analysis.components).toEqual([
+    {
+      componentId: 1,
+      tableId: 0,
+      estimate: { quality: 90, isExact: true, meanError: 0 },
+    },
+    expect.objectContaining({ componentId: 2, tableId: 1 }),
+    expect.objectContaining({ componentId: 3, tableId: 1 }),
+  ]);
+  expect(analysis.match?.quality).toBe(90);
+  expect(analysis.match?.name).toBe("libjpeg (IJG) quality 90");
+});
+
+test("matches Photoshop tables that are not IJG scalings", () => {
+  const photoshop = getKnownQuantizationTables().find(
+    (known) => known.source === "editor",
+  )!;
+  const jpeg = buildJpeg(
+    [
+      ...dqtEntry(0, photoshop.luminance),
+      ...dqtEntry(1, photoshop.chrominance),
+    ],
+    [0, 1, 1],
+  );
+  const analysis = analyzeJpegQuantization(jpeg)!;
+  expect(analysis.match?.name).toBe("Adobe Photoshop quality 12");
+  expect(analysis.match?.source).toBe("editor");
+  expect(analysis.components[0].estimate?.isExact).toBe(false);
+  expect(Array.from(photoshop.luminance.slice(56))).toEqual([
+    1, 1, 2, 2, 3, 3, 3, 3,
+  ]);
+});
+
+test("estimates the nearest quality for custom and 16-bit tables", () => {
+  const custom = buildIjgTable(true, 80);
+  custom[5] += 3;
+  const estimate = estimateIjgQuality(custom, true);
+  expect(estimate).toMatchObject({ quality: 80, isExact: false });
+  expect(estimate.meanError).toBeCloseTo(3 / 64);
+
+  const jpeg = buildJpeg(
+    [...dqtEntry(0, buildIjgTable(true, 10, 32767), true)],
+    [0],
+    0xc1,
+  );
+  const analysis = analyzeJpegQuantization(jpeg)!;
+  expect(analysis.tables[0].precision).toBe(16);
+  expect(analysis.components[0].estimate).toMatchObject({
+    quality: 10,
+    isExact: true,
+  });
+  // Quality 10 with 16-bit entries exceeds the baseline clamp of the database.
+  expect(analysis.match).toBeNull();
+});
+
+test("handles missing tables, truncated segments and non-JPEG input", () => {
+  const analysis = analyzeJpegQuantization(
+    buildJpeg([...dqtEntry(0, buildIjgTable(true, 50))], [0, 2]),
+  )!;
+  expect(analysis.components[1].estimate).toBeNull();
+  expect(analysis.match).toBeNull();
+
+  const truncated = dqtEntry(1, buildIjgTable(true, 50)).slice(0, 40);
+  expect(readDqtTables(new Uint8Array(truncated), 0, truncated.length)).toEqual(
+    [],
+  );
+
+  expect(
+    analyzeJpegQuantization(new Uint8Array([0x89, 0x50, 0x4e, 0x47])),
+  ).toBeNull();
+  expect(
+    analyzeJpegQuantization(
+      new Uint8Array([
+        0xff,
+        0xd8,
+        ...segment(0xdb, dqtEntry(0, [])),
+        0xff,
+        0xd9,
+      ]),
+    )?.components,
+  ).toEqual([]);
+});
@@ -0,0 +1,368 @@
+import { expect, test } from "vitest";
+import {
+  getJpegMarkerName,
+  inspectJpegSegments,
+  walkJpegSegments,
+  type JpegSegment,
+} from "../src/utils/jpegSegments.ts";
+
+function ascii(text: string): number[] {
+  return Array.from(text, (character) => character.charCodeAt(0));
+}
+
+function segment(marker: number, body: number[] = []): number[] {
+  const length = body.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...body];
+}
+
+function u16(value: number): number[] {
+  return [value >> 8, value & 0xff];
+}
+
+function u32(value: number): number[] {
+  return [
+    (value >>> 24) & 0xff,
+    (value >>> 16) & 0xff,
+    (value >>> 8) & 0xff,
+    value & 0xff,
+  ];
+}
+
+function fieldMap(entry: JpegSegment): Record<string, string> {
+  return Object.fromEntries(
+    entry.fields.map((field) => [field.label, field.value]),
+  );
+}
+
+const SOI = [0xff, 0xd8];
+const EOI = [0xff, 0xd9];
+const SOF0 = segment(0xc0, [
+  8,
+  ...u16(16),
+  ...u16(32),
+  3,
+  1,
+  0x22,
+  0,
+  2,
+  0x11,
+  1,
+  3,
+  0x11,
+  1,
+]);
+const DQT = segment(0xdb, [
+  0x00,
+  ...new Array(64).fill(1),
+  0x11,
+  ...new Array(128).fill(0),
+]);
+const DHT = segment(0xc4, [
+  0x00,
+  0,
+  1,
+  5,
+  1,
+  1,
+  1,
+  1,
+  1,
+  1,
+  0,
+  0,
+  0,
+  0,
+  0,
+  0,
+  0,
+  ...new Array(12).fill(0),
+]);
+const SOS = segment(0xda, [3, 1, 0x00, 2, 0x11, 3, 0x11, 0, 63, 0]);
+
+function buildJpeg(...parts: number[][]): Uint8Array {
+  return new Uint8Array([...SOI, ...parts.flat()]);
+}
+
+test("walks markers through scan data, stuffing, fill bytes and restarts", () => {
+  const bytes = buildJpeg(
+    SOF0,
+    SOS,
+    [0x12, 0xff, 0x00, 0x34],
+    [0xff, 0xd0, 0x56, 0xff, 0xff, 0xd1, 0x78],
+    EOI,
+    [0xaa, 0xbb],
+  );
+  const walk = walkJpegSegments(bytes);
+
+  expect(walk?.segments.map((entry) => entry.marker)).toEqual([
+    0xd8, 0xc0, 0xda, 0xd0, 0xd1, 0xd9,
+  ]);
+  expect(walk?.eoiEndOffset).toBe(bytes.length - 2);
+  expect(walk?.segments[1]).toMatchObject({
+    offset: 2,
+    dataOffset: 6,
+    dataLength: SOF0.length - 4,
+  });
+  // Fill bytes before RST1 are skipped; the offset points at the last 0xFF.
+  expect(walk?.segments[4].offset).toBe(
+    bytes.indexOf(0xd1, walk?.segments[3].endOffset) - 1,
+  );
+});
+
+test("walk reports truncation and missing EOI", () => {
+  expect(walkJpegSegments(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBeNull();
+  expect(walkJpegSegments(buildJpeg([0x00, 0xff, 0xff]))).toMatchObject({
+    isTruncated: true,
+  });
+  expect(walkJpegSegments(buildJpeg([0x00, 0xff, 0xe0, 0x00]))).toMatchObject({
+    isTruncated: true,
+  });
+  expect(
+    walkJpegSegments(buildJpeg([0xff, 0xe0, 0x00, 0x01, 0x00])),
+  ).toMatchObject({ isTruncated: true });
+  expect(
+    walkJpegSegments(buildJpeg([0xff, 0xe0, 0x00, 0x10, 0x00])),
+  ).toMatchObject({ isTruncated: true });
+  expect(walkJpegSegments(buildJpeg(SOF0, [0x00, 0x00]))).toMatchObject({
+    eoiEndOffset: null,
+    isTruncated: false,
+  });
+});
+
+test("decodes APP headers, comments and tables", () => {
+  const iccHeader = [
+    ...u32(3144),
+    ...ascii("lcms"),
+    4,
+    0x30,
+    0,
+    0,
+    ...ascii("mntr"),
+    ...ascii("RGB "),
+  ];
+  const photoshop = [
+    ...ascii("Photoshop 3.0"),
+    0,
+    ...ascii("8BIM"),
+    ...u16(0x0404),
+    0,
+    0,
+    ...u32(3),
+    1,
+    2,
+    3,
+    0,
+    ...ascii("8BIM"),
+    ...u16(0x1234),
+    3,
+    ...ascii("abc"),
+    ...u32(0),
+  ];
+  const xmp = `${"http://ns.adobe.com/xap/1.0/"}\0<x:xmpmeta/>`;
+  const inspection = inspectJpegSegments(
+    buildJpeg(
+      segment(0xe0, [
+        ...ascii("JFIF"),
+        0,
+        1,
+        2,
+        1,
+        ...u16(72),
+        ...u16(72),
+        2,
+        1,
+      ]),
+      segment(0xe0, [...ascii("JFXX"), 0, 0x13]),
+      segment(0xe1, [...ascii("Exif"), 0, 0, ...ascii("II"), 0x2a, 0]),
+      segment(0xe1, ascii(xmp)),
+      segment(0xe1, [
+        ...ascii("http://ns.adobe.com/xmp/extension/"),
+        0,
+        ...ascii("0123456789ABCDEF0123456789ABCDEF"),
+        ...u32(70_000),
+        ...u32(65_000),
+      ]),
+      segment(0xe2, [...ascii("ICC_PROFILE"), 0, 1, 2, ...iccHeader]),
+      segment(0xe2, [...ascii("ICC_PROFILE"), 0, 2, 2, 9, 9]),
+      segment(0xed, photoshop),
+      segment(0xee, [...ascii("Adobe"), ...u16(100), ...u16(0), ...u16(0), 1]),
+      segment(0xe5, [...ascii("HiddenTool"), 0, 0xde, 0xad]),
+      segment(0xfe, ascii("flag{comment}")),
+      segment(0xdd, u16(4)),
+      DQT,
+      DHT,
+      SOF0,
+      SOS,
+      [0x11, 0x22, 0x33],
+      [0xff, 0xd0, 0x44],
+      [0xff, 0xd1, 0x55],
+      EOI,
+    ),
+  );
+
+  expect(inspection?.warnings).toEqual([]);
+  const segments = inspection?.segments ?? [];
+  expect(segments.map((entry) => entry.name)).toEqual([
+    "SOI",
+    "APP0",
+    "APP0",
+    "APP1",
+    "APP1",
+    "APP1",
+    "APP2",
+    "APP2",
+    "APP13",
+    "APP14",
+    "APP5",
+    "COM",
+    "DRI",
+    "DQT",
+    "DHT",
+    "SOF0",
+    "SOS",
+    "RST0",
+    "EOI",
+  ]);
+  expect(segments[1].description).toBe("JFIF");
+  expect(fieldMap(segments[1])).toEqual({
+    Version: "1.2",
+    Units: "dots per inch",
+    Density: "72 x 72",
+    Thumbnail: "2 x 1 (6 bytes)",
+  });
+  expect(fieldMap(segments[2])).toEqual({ "Extension code": "0x13" });
+  expect(segments[3].description).toBe("Exif");
+  expect(fieldMap(segments[3])["Byte order"]).toBe("II (little-endian)");
+  expect(segments[4].description).toBe("XMP");
+  expect(fieldMap(segments[4]).Packet).toBe("<x:xmpmeta/>");
+  expect(fieldMap(segments[5])).toMatchObject({
+    GUID: "0123456789ABCDEF0123456789ABCDEF",
+    "Full length": "70,000 bytes",
+    "Chunk offset": "65,000",
+  });
+  expect(fieldMap(segments[6])).toMatchObject({
+    Chunk: "1 of 2",
+    "Profile size": "3,144 bytes",
+    Version: "4.3",
+    "Device class": "mntr",
+    "Color space": "RGB ",
+  });
+  expect(fieldMap(segments[7])).toEqual({
+    Chunk: "2 of 2",
+    "Chunk size": "2 bytes",
+  });
+  expect(fieldMap(segments[8])).toEqual({
+    Resources: "2",
+    "Resource list": "IPTC-NAA (3 bytes), 0x1234 (0 bytes)",
+  });
+  expect(fieldMap(segments[9])).toEqual({
+    "DCT encode version": "100",
+    Flags: "0x0000 / 0x0000",
+    "Color transform": "YCbCr",
+  });
+  expect(fieldMap(segments[10])).toEqual({
+    Identifier: "HiddenTool",
+    Data: "48 69 64 64 65 6e 54 6f 6f 6c 00 de ad",
+  });
+  expect(fieldMap(segments[11]).Text).toBe("flag{comment}");
+  expect(fieldMap(segments[12])["Restart interval"]).toBe("4 MCUs");
+  expect(fieldMap(segments[13]).Tables).toBe("0 (8-bit), 1 (16-bit)");
+  expect(fieldMap(segments[14]).Tables).toBe("DC 0 (12 symbols)");
+  expect(fieldMap(segments[15])).toEqual({
+    Precision: "8 bits",
+    Dimensions: "32 x 16",
+    Components: "#1 2x2 Q0, #2 1x1 Q1, #3 1x1 Q1",
+  });
+  expect(fieldMap(segments[16])).toEqual({
+    Components: "#1 DC0 AC0, #2 DC1 AC1, #3 DC1 AC1",
+    "Spectral selection": "0-63",
+    "Successive approximation": "Ah 0, Al 0",
+    "Entropy-coded data": "9 bytes",
+  });
+  expect(segments[17]).toMatchObject({
+    count: 2,
+    description: "Restart markers x2",
+  });
+});
+
+test("flags malformed segments and missing structure", () => {
+  const inspection = inspectJpegSegments(
+    buildJpeg(
+      segment(0xe0, [...ascii("JFIF"), 0, 1]),
+      segment(0xe0, [1, 2, 3]),
+      segment(0xe1, ascii("Other")),
+      segment(0xe2, ascii("ICC_PROFILE")),
+      segment(0xed, [...ascii("Photoshop 3.0"), 0, 1, 2]),
+      segment(0xed, [
+        ...ascii("Photoshop 3.0"),
+        0,
+        ...ascii("8BIM"),
+        ...u16(1),
+        40,
+        ...new Array(5).fill(0),
+      ]),
+      segment(0xed, [...ascii("Other"), 0]),
+      segment(0xee, ascii("Nope")),
+      segment(0xdb, [0x10, 1, 2]),
+      segment(0xc4, [0x10, 1]),
+      segment(0xc4, [0x10, 0, 2, ...new Array(14).fill(0), 5]),
+      segment(0xc0, [8, 0, 1, 0, 1, 3]),
+      segment(0xda, [3, 1]),
+      segment(0xef, []),
+      segment(0x02, [7]),
+      segment(0xf1, []),
+      [0xff, 0x01],
+    ),
+  );
+  const segments = inspection?.segments ?? [];
+
+  expect(inspection?.warnings).toEqual(["EOI marker is missing."]);
+  expect(segments[1].warnings).toEqual([
+    "JFIF header is shorter than 14 bytes.",
+  ]);
+  expect(fieldMap(segments[2])).toEqual({ Data: "01 02 03" });
+  expect(segments[3].description).toBe("Application data");
+  expect(fieldMap(segments[3]).Identifier).toBeUndefined();
+  expect(fieldMap(segments[4]).Data).toBeDefined();
+  expect(segments[5].warnings).toEqual([
+    "2 bytes after the last 8BIM resource.",
+  ]);
+  expect(fieldMap(segments[5])).toEqual({ Resources: "0" });
+  expect(segments[6].warnings[0]).toContain("after the last 8BIM resource");
+  expect(fieldMap(segments[7]).Identifier).toBe("Other");
+  expect(segments[8].description).toBe("Application data");
+  expect(segments[9].warnings).toEqual([
+    "DQT table runs past the end of the segment.",
+  ]);
+  expect(fieldMap(segments[9]).Tables).toBe("none");
+  expect(segments[10].warnings).toEqual([
+    "DHT table header runs past the end of the segment.",
+  ]);
+  expect(segments[11].warnings).toEqual([
+    "DHT symbols run past the end of the segment.",
+  ]);
+  expect(segments[12].warnings).toEqual(["Frame header is truncated."]);
+  expect(segments[13].warnings).toEqual(["Scan header is truncated."]);
+  expect(fieldMap(segments[13])["Entropy-coded data"]).toBe("0 bytes");
+  expect(segments[14].fields).toEqual([]);
+  expect(segments[15]).toMatchObject({ name: "0x02", description: "Reserved" });
+  expect(segments[15].warnings).toEqual(["Reserved marker code."]);
+  expect(fieldMap(segments[15]).Data).toBe("07");
+  expect(segments[16].name).toBe("JPG1");
+  expect(segments[17].name).toBe("TEM");
+
+  expect(
+    inspectJpegSegments(buildJpeg([0xff, 0xe0, 0x00, 0x10]))?.warnings,
+  ).toEqual([
+    "Segment stream is truncated before EOI.",
+    "No SOF (frame header) segment found.",
+  ]);
+  expect(inspectJpegSegments(new Uint8Array([1, 2, 3, 4]))).toBeNull();
+});
+
+test("names every marker class", () => {
+  expect(getJpegMarkerName(0xc2)).toEqual(["SOF2", "Progressive DCT"]);
+  expect(getJpegMarkerName(0xd7)).toEqual(["RST7", "Restart"]);
+  expect(getJpegMarkerName(0xef)).toEqual(["APP15", "Application data"]);
+  expect(getJpegMarkerName(0xc8)).toEqual(["JPG", "Reserved extension"]);
+});
@@ -0,0 +1,242 @@
+import { expect, test } from "vitest";
+import type { JpegCoefficients } from "../src/utils/jpegDct.ts";
+import {
+  DCT_HISTOGRAM_RANGE,
+  __jpegSteganalysisInternals,
+  analyzeJpegSteganalysis,
+  type JpegStegMethod,
+  type JpegSteganalysis,
+} from "../src/utils/jpegSteganalysis.ts";
+
+const { forwardDctBlock, inverseDctBlock, measureBlockiness } =
+  __jpegSteganalysisInternals;
+
+// IJG luminance table at quality 75, natural order.
+const QUALITY_75 = Uint16Array.from(
+  [
+    16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55, 14, 13, 16,
+    24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62, 18, 22, 37, 56, 68, 109,
+    103, 77, 24, 35, 55, 64, 81, 104, 113, 92, 49, 64, 78, 87, 103, 121, 120,
+    101, 72, 92, 95, 98, 112, 100, 103, 99,
+  ].map((value) => Math.max(1, Math.floor((value * 50 + 50) / 100))),
+);
+
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state / 0x1_0000_0000;
+  };
+}
+
+// Textured grayscale cover compressed with QUALITY_75.
+function buildCover(size: number): JpegCoefficients {
+  const random = createRandom(7);
+  const blocksPerLine = size / 8;
+  const coefficients = new Int16Array(blocksPerLine * blocksPerLine * 64);
+  const samples = new Float64Array(64);
+  const transformed = new Float64Array(64);
+
+  for (let row = 0; row < blocksPerLine; row += 1) {
+    for (let column = 0; column < blocksPerLine; column += 1) {
+      for (let y = 0; y < 8; y += 1) {
+        for (let x = 0; x < 8; x += 1) {
+          const px = column * 8 + x;
+          const py = row * 8 + y;
+          samples[y * 8 + x] =
+            50 * Math.sin(px / 9) * Math.cos(py / 13) +
+            20 * Math.sin((px + py) / 4) +
+            (random() - 0.5) * 24;
+        }
+      }
+      forwardDctBlock(samples, transformed);
+      const offset = (row * blocksPerLine + column) * 64;
+      for (let index = 0; index < 64; index += 1) {
+        coefficients[offset + index] = Math.round(
+          transformed[index] / QUALITY_75[index],
+        );
+      }
+    }
+  }
+
+  return {
+    width: size,
+    height: size,
+    precision: 8,
+    isProgressive: false,
+    mcusPerLine: blocksPerLine,
+    mcusPerColumn: blocksPerLine,
+    scanCount: 1,
+    quantizationTables: [QUALITY_75, null, null, null],
+    components: [
+      {
+        id: 1,
+        horizontalSampling: 1,
+        verticalSampling: 1,
+        quantizationTableId: 0,
+        blocksPerLine,
+        blocksPerColumn: blocksPerLine,
+        paddedBlocksPerLine: blocksPerLine,
+        paddedBlocksPerColumn: blocksPerLine,
+        coefficients,
+      },
+    ],
+  };
+}
+
+function withCoefficients(
+  cover: JpegCoefficients,
+  mutate: (coefficients: Int16Array, random: () => number) => void,
+): JpegCoefficients {
+  const coefficients = cover.components[0].coefficients.slice();
+  mutate(coefficients, createRandom(99));
+  return {
+    ...cover,
+    components: [{ ...cover.components[0], coefficients }],
+  };
+}
+
+function detector(analysis: JpegSteganalysis, method: JpegStegMethod) {
+  const result = analysis.detectors.find((entry) => entry.method === method);
+  if (!result) {
+    throw new Error(`missing ${method}`);
+  }
+  return result;
+}
+
+const COVER = buildCover(256);
+const COVER_ANALYSIS = analyzeJpegSteganalysis(COVER);
+
+test("transforms round-trip and blockiness measures block edges", () => {
+  const input = Float64Array.from({ length: 64 }, (_, index) => index % 9);
+  const transformed = new Float64Array(64);
+  const restored = new Float64Array(64);
+  forwardDctBlock(input, transformed);
+  inverseDctBlock(transformed, restored);
+  restored.forEach((value, index) => expect(value).toBeCloseTo(input[index]));
+  // A constant block only has a DC term (8x the mean for the orthonormal DCT).
+  forwardDctBlock(new Float64Array(64).fill(2), transformed);
+  expect(transformed[0]).toBeCloseTo(16);
+  expect(transformed[1]).toBeCloseTo(0);
+
+  const pixels = new Uint8ClampedArray(16 * 16);
+  for (let y = 0; y < 16; y += 1) {
+    pixels.fill(y < 8 ? 0 : 10, y * 16, y * 16 + 8);
+  }
+  expect(measureBlockiness({ pixels, width: 16, height: 16 })).toBeCloseTo(
+    (8 * 10 + 8 * 10) / (16 + 16),
+  );
+  expect(measureBlockiness({ pixels, width: 4, height: 4 })).toBe(0);
+});
+
+test("builds per-frequency histograms with calibrated estimates", () => {
+  expect(COVER_ANALYSIS).toMatchObject({
+    componentId: 1,
+    blockCount: 1024,
+  });
+  expect(COVER_ANALYSIS.histograms).toHaveLength(64);
+  const mode = COVER_ANALYSIS.histograms[1];
+  expect(mode.counts).toHaveLength(DCT_HISTOGRAM_RANGE * 2 + 1);
+  expect(mode.calibratedCounts).toHaveLength(DCT_HISTOGRAM_RANGE * 2 + 1);
+  const total = mode.counts.reduce((sum, count) => sum + count, 0);
+  const calibratedTotal = mode.calibratedCounts!.reduce(
+    (sum, count) => sum + count,
+    0,
+  );
+  expect(calibratedTotal / total).toBeGreaterThan(0.95);
+  expect(calibratedTotal / total).toBeLessThan(1.05);
+  expect(COVER_ANALYSIS.nonzeroAcCount).toBeGreaterThan(0);
+  expect(COVER_ANALYSIS.usableCoefficientCount).toBeGreaterThan(0);
+});
+
+test("keeps cover scores below the detection thresholds", () => {
+  expect(
+    COVER_ANALYSIS.detectors.map((entry) => [entry.method, entry.isLikely]),
+  ).toEqual([
+    ["f5", false],
+    ["outguess", false],
+    ["jsteg", false],
+  ]);
+});
+
+test("detects F5 shrinkage and estimates the modification rate", () => {
+  const stego = withCoefficients(COVER, (coefficients, random) => {
+    coefficients.forEach((value, index) => {
+      if (index % 64 !== 0 && value !== 0 && random() < 0.4) {
+        coefficients[index] = value > 0 ? value - 1 : value + 1;
+      }
+    });
+  });
+  const f5 = detector(analyzeJpegSteganalysis(stego), "f5");
+  expect(f5.isLikely).toBe(true);
+  expect(f5.score).toBeGreaterThan(0.25);
+  expect(f5.score).toBeLessThan(0.55);
+  expect(f5.estimatedBytes).toBeGreaterThan(0);
+  expect(f5.detail).toContain("matrix encoding k=");
+});
+
+test("detects sequential JSteg embedding and its length", () => {
+  const usable = COVER_ANALYSIS.usableCoefficientCount;
+  const stego = withCoefficients(COVER, (coefficients, random) => {
+    let embedded = 0;
+    for (let index = 0; index < coefficients.length; index += 1) {
+      const value = coefficients[index];
+      if (value === 0 || value === 1) {
+        continue;
+      }
+      if (embedded >= usable * 0.6) {
+        break;
+      }
+      coefficients[index] = (value & ~1) | (random() < 0.5 ? 1 : 0);
+      embedded += 1;
+    }
+  });
+
+  const jsteg = detector(analyzeJpegSteganalysis(stego), "jsteg");
+  expect(jsteg.isLikely).toBe(true);
+  // The cumulative statistic lags the end of the message, so allow overshoot.
+  expect(jsteg.estimatedBytes).toBeGreaterThan((usable * 0.5) / 8);
+  expect(jsteg.estimatedBytes).toBeLessThan((usable * 0.8) / 8);
+  expect(detector(COVER_ANALYSIS, "jsteg").estimatedBytes).toBe(0);
+});
+
+test("reports no JSteg embedding when no coefficient is usable", () => {
+  const flat = withCoefficients(COVER, (coefficients) => {
+    coefficients.forEach((value, index) => {
+      coefficients[index] = value & 1;
+    });
+  });
+  const analysis = analyzeJpegSteganalysis(flat);
+  expect(analysis.usableCoefficientCount).toBe(0);
+  const jsteg = detector(analysis, "jsteg");
+  expect(jsteg.score).toBe(0);
+  expect(jsteg.isLikely).toBe(false);
+  expect(jsteg.estimatedBytes).toBe(0);
+  expect(jsteg.detail).not.toContain("NaN");
+});
+
+test("raises the OutGuess score for randomly scattered LSB changes", () => {
+  const stego = withCoefficients(COVER, (coefficients, random) => {
+    coefficients.forEach((value, index) => {
+      if (value !== 0 && value !== 1 && random() < 0.5) {
+        coefficients[index] = value ^ 1;
+      }
+    });
+  });
+  const outGuess = detector(analyzeJpegSteganalysis(stego), "outguess");
+  expect(outGuess.score).toBeGreaterThan(
+    detector(COVER_ANALYSIS, "outguess").score,
+  );
+  expect(outGuess.isLikely).toBe(true);
+});
+
+test("falls back to JSteg only without a quantization table", () => {
+  const progress: number[] = [];
+  const analysis = analyzeJpegSteganalysis(
+    { ...COVER, quantizationTables: [null, null, null, null] },
+    (fraction) => progress.push(fraction),
+  );
+  expect(analysis.detectors.map((entry) => entry.method)).toEqual(["jsteg"]);
+  expect(analysis.histograms[0].calibratedCounts).toBeNull();
+  expect(progress.at(-1)).toBe(1);
+});
@@ -0,0 +1,116 @@
+import { createHash } from "node:crypto";
+import { expect, test } from "vitest";
+import type { KeyedSeedType } from "../src/types";
+import {
+  buildKeyedPixelOrder,
+  createCRandLcg,
+  createJavaRandom,
+  isIntegerSeed,
+} from "../src/utils/keyedPixelOrder.ts";
+import { sha512 } from "../src/utils/sha512.ts";
+
+// Reference shuffles from CPython: random.Random(seed).shuffle(list(range(n))).
+test("python-random matches CPython random.shuffle for int and str seeds", () => {
+  const shuffle = (
+    seed: string,
+    count: number,
+    seedType: KeyedSeedType = "integer",
+  ) =>
+    Array.from(
+      buildKeyedPixelOrder(count, {
+        generator: "python-random",
+        seed,
+        seedType,
+      }),
+    );
+
+  expect(shuffle("42", 12)).toEqual([7, 5, 2, 8, 9, 6, 11, 3, 4, 0, 1, 10]);
+  expect(shuffle("-7", 12)).toEqual([7, 11, 3, 10, 8, 4, 9, 1, 0, 6, 2, 5]);
+  expect(shuffle("1099511627781", 12)).toEqual([
+    3, 5, 2, 9, 6, 7, 1, 10, 0, 4, 11, 8,
+  ]);
+  expect(shuffle("secret", 12, "string")).toEqual([
+    8, 3, 10, 6, 4, 9, 5, 7, 1, 2, 0, 11,
+  ]);
+  // random.seed("42") hashes the text instead of using the integer 42.
+  expect(shuffle("42", 12, "string")).toEqual([
+    2, 5, 6, 8, 3, 9, 10, 0, 1, 4, 11, 7,
+  ]);
+  expect(shuffle("p@ss", 1000, "string").slice(0, 8)).toEqual([
+    427, 320, 31, 523, 985, 978, 486, 325,
+  ]);
+});
+
+test("java-random reproduces java.util.Random output", () => {
+  // new Random(42).nextInt() == -1170105035 and new Random(0).nextInt() ==
+  // -1155484576; next(31) drops the lowest of those 32 bits.
+  expect(createJavaRandom("42", "integer").nextInt(2 ** 31)).toBe(
+    (-1170105035 >>> 0) >>> 1,
+  );
+  expect(createJavaRandom("0", "integer").nextInt(2 ** 31)).toBe(
+    (-1155484576 >>> 0) >>> 1,
+  );
+
+  const seeded = createJavaRandom("42", "integer");
+  const values = Array.from({ length: 5 }, () => seeded.nextInt(10));
+  expect(values).toEqual([0, 3, 8, 4, 0]);
+
+  // String seeds go through String.hashCode(), digits included: "abc"
+  // hashes to 96354 and "1234" to 1509442.
+  expect(createJavaRandom("abc", "string").nextInt(1000)).toBe(
+    createJavaRandom("96354", "integer").nextInt(1000),
+  );
+  expect(createJavaRandom("1234", "string").nextInt(1000)).toBe(
+    createJavaRandom("1509442", "integer").nextInt(1000),
+  );
+  expect(() => createJavaRandom("12a", "integer")).toThrow(
+    'Integer seed "12a" is not a whole number.',
+  );
+});
+
+test("isIntegerSeed accepts signed whole numbers only", () => {
+  expect(isIntegerSeed(" -7 ")).toBe(true);
+  expect(isIntegerSeed("1234")).toBe(true);
+  expect(isIntegerSeed("")).toBe(false);
+  expect(isIntegerSeed("1.5")).toBe(false);
+  expect(isIntegerSeed("secret")).toBe(false);
+});
+
+test("c-rand-lcg follows the classic rand() recurrence", () => {
+  const random = createCRandLcg("1", "integer");
+  expect(random.nextInt(0x8000_0000)).toBe(1103527590);
+  expect(random.nextInt(0x8000_0000)).toBe(377401575);
+  expect(random.nextInt(0x8000_0000)).toBe(662824084);
+});
+
+test("buildKeyedPixelOrder returns a permutation for every generator", () => {
+  for (const generator of [
+    "java-random",
+    "python-random",
+    "c-rand-lcg",
+  ] as const) {
+    const order = buildKeyedPixelOrder(257, {
+      generator,
+      seed: "key",
+      seedType: "string",
+    });
+    expect(new Set(order).size).toBe(257);
+    expect(Math.max(...order)).toBe(256);
+  }
+  expect(
+    buildKeyedPixelOrder(0, {
+      generator: "java-random",
+      seed: "1",
+      seedType: "integer",
+    }),
+  ).toHaveLength(0);
+});
+
+test("sha512 matches node's implementation across block boundaries", () => {
+  for (const length of [0, 3, 111, 112, 128, 300]) {
+    const input = new Uint8Array(length).map((_, index) => (index * 7) & 0xff);
+    expect(Buffer.from(sha512(input)).toString("hex")).toBe(
+      createHash("sha512").update(input).digest("hex"),
+    );
+  }
+});
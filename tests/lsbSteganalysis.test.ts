@@ -0,0 +1,137 @@
+import { expect, test } from "vitest";
+import {
+  __lsbSteganalysisInternals,
+  analyzeLsbSteganalysis,
+  estimateEmbeddedBytes,
+  estimateRsEmbeddingRate,
+  estimateSamplePairEmbeddingRate,
+} from "../src/utils/lsbSteganalysis.ts";
+
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state / 0x1_0000_0000;
+  };
+}
+
+// Smooth gradients with mild noise behave like a natural photograph for the
+// purposes of RS and SPA.
+function buildCover(width: number, height: number, seed = 3): ImageData {
+  const random = createRandom(seed);
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const index = (y * width + x) * 4;
+      const base =
+        96 + 60 * Math.sin(x / 23) + 40 * Math.cos(y / 17) + (x + y) / 8;
+      for (let channel = 0; channel < 3; channel += 1) {
+        const noise = (random() + random() + random() - 1.5) * 6;
+        data[index + channel] = Math.round(base + channel * 12 + noise);
+      }
+      data[index + 3] = 255;
+    }
+  }
+  return { data, width, height } as ImageData;
+}
+
+function embedRandomLsb(image: ImageData, rate: number, seed = 11): void {
+  const random = createRandom(seed);
+  for (let index = 0; index < image.width * image.height; index += 1) {
+    for (let channel = 0; channel < 3; channel += 1) {
+      if (random() < rate) {
+        const offset = index * 4 + channel;
+        image.data[offset] =
+          (image.data[offset] & ~1) | (random() < 0.5 ? 1 : 0);
+      }
+    }
+  }
+}
+
+test("RS and SPA estimate the scattered LSB embedding rate", () => {
+  for (const rate of [0, 0.25, 0.5, 0.8]) {
+    const image = buildCover(256, 256);
+    embedRandomLsb(image, rate);
+
+    const rs = estimateRsEmbeddingRate(image, "g");
+    const spa = estimateSamplePairEmbeddingRate(image, "g");
+
+    expect(rs?.embeddingRate).toBeGreaterThanOrEqual(rate - 0.1);
+    expect(rs?.embeddingRate).toBeLessThanOrEqual(rate + 0.1);
+    expect(spa?.embeddingRate).toBeGreaterThanOrEqual(rate - 0.1);
+    expect(spa?.embeddingRate).toBeLessThanOrEqual(rate + 0.1);
+  }
+});
+
+test("estimateRsEmbeddingRate reports group counts for the flipped image", () => {
+  const image = buildCover(64, 8);
+  const rs = estimateRsEmbeddingRate(image, "r");
+
+  expect(rs?.groupCount).toBe(16 * 8);
+  expect(rs?.original.regular).toBeGreaterThan(rs?.original.singular ?? 0);
+  expect(
+    (rs?.flipped.regular ?? 0) + (rs?.flipped.singular ?? 0),
+  ).toBeGreaterThan(0);
+});
+
+test("flat images resolve to a zero embedding rate", () => {
+  const data = new Uint8ClampedArray(16 * 4 * 4).fill(128);
+  const image = { data, width: 16, height: 4 } as ImageData;
+
+  expect(estimateRsEmbeddingRate(image, "b")?.embeddingRate).toBe(0);
+  expect(estimateSamplePairEmbeddingRate(image, "b")?.embeddingRate).toBe(0);
+});
+
+test("estimators return null when the image is too small to form groups", () => {
+  const image = {
+    data: new Uint8ClampedArray(3 * 4),
+    width: 3,
+    height: 1,
+  } as ImageData;
+  const single = {
+    data: new Uint8ClampedArray(4),
+    width: 1,
+    height: 1,
+  } as ImageData;
+
+  expect(estimateRsEmbeddingRate(image, "r")).toBeNull();
+  expect(estimateSamplePairEmbeddingRate(single, "r")).toBeNull();
+});
+
+test("analyzeLsbSteganalysis covers every requested channel", () => {
+  const image = buildCover(32, 32);
+  const analysis = analyzeLsbSteganalysis(image);
+
+  expect(analysis.pixelCount).toBe(1024);
+  expect(analysis.channels.map((entry) => entry.channel)).toEqual([
+    "r",
+    "g",
+    "b",
+  ]);
+  expect(analysis.channels[0].rs).not.toBeNull();
+  expect(analysis.channels[0].samplePair).not.toBeNull();
+
+  const alphaOnly = analyzeLsbSteganalysis(image, ["a"]);
+  expect(alphaOnly.channels).toHaveLength(1);
+  expect(alphaOnly.channels[0].rs?.embeddingRate).toBe(0);
+});
+
+test("estimateEmbeddedBytes converts a rate into payload bytes", () => {
+  expect(estimateEmbeddedBytes(0.5, 1600)).toBe(100);
+  expect(estimateEmbeddedBytes(1.4, 80)).toBe(10);
+  expect(estimateEmbeddedBytes(Number.NaN, 80)).toBe(0);
+});
+
+test("solveSmallestRoot handles degenerate quadratics", () => {
+  const { solveSmallestRoot, flipNegative, clampRate } =
+    __lsbSteganalysisInternals;
+
+  expect(solveSmallestRoot(1, -3, 2)).toBe(1);
+  expect(solveSmallestRoot(0, 2, -1)).toBe(0.5);
+  expect(solveSmallestRoot(0, 0, 1)).toBeNull();
+  expect(solveSmallestRoot(1, 1, 1)).toBe(-1);
+  expect(solveSmallestRoot(1, 0, 1)).toBeNull();
+  expect(flipNegative(0)).toBe(-1);
+  expect(flipNegative(2)).toBe(1);
+  expect(clampRate(-0.2)).toBe(0);
+});
@@ -0,0 +1,203 @@
+import { deflateRawSync } from "node:zlib";
+import { expect, test } from "vitest";
+import { crc32 } from "../src/utils/crc32.ts";
+import {
+  carveNestedPayloads,
+  sliceNestedPayload,
+} from "../src/utils/nestedCarving.ts";
+
+const PNG = [
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x00, 0x49,
+  0x45, 0x4e, 0x44, 0xae, 0x42, 0x60, 0x82,
+];
+const JPEG = [0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x11, 0x22, 0xff, 0xd9];
+// A JPEG whose APP1 segment carries another JPEG, like an Exif thumbnail.
+const JPEG_WITH_THUMBNAIL = [
+  0xff,
+  0xd8,
+  0xff,
+  0xe1,
+  0x00,
+  JPEG.length + 2,
+  ...JPEG,
+  0xff,
+  0xd9,
+];
+
+function zipLocalHeader(): number[] {
+  return [0x50, 0x4b, 0x03, 0x04, ...new Array<number>(26).fill(0)];
+}
+
+// Two stored entries followed by an empty end-of-central-directory record;
+// without a central directory the ZIP is scanned raw.
+const ZIP = [
+  ...zipLocalHeader(),
+  ...PNG,
+  ...zipLocalHeader(),
+  ...JPEG_WITH_THUMBNAIL,
+  0x50,
+  0x4b,
+  0x05,
+  0x06,
+  ...new Array<number>(18).fill(0),
+];
+const BYTES = new Uint8Array([0xaa, ...ZIP, ...JPEG]);
+
+const summarize = (bytes: Uint8Array, maxDepth: number) =>
+  carveNestedPayloads(bytes, { maxDepth }).map((payload) => [
+    payload.kind,
+    payload.depth,
+    payload.startOffset,
+    payload.isDepthLimited,
+  ]);
+
+test("lists payloads found inside other payloads as children", () => {
+  const zipEnd = 1 + ZIP.length;
+  const thumbnailOffset = 1 + 30 + PNG.length + 30;
+  expect(summarize(BYTES, 2)).toEqual([
+    ["zip", 0, 1, false],
+    ["png", 1, 31, false],
+    ["jpeg", 1, thumbnailOffset, false],
+    ["jpeg", 2, thumbnailOffset + 6, false],
+    ["jpeg", 0, zipEnd, false],
+  ]);
+
+  const payloads = carveNestedPayloads(BYTES, { maxDepth: 2 });
+  expect(payloads[1].parentId).toBe(payloads[0].id);
+  expect(payloads[3].parentId).toBe(payloads[2].id);
+  expect(payloads[4].parentId).toBeNull();
+  expect(payloads[3]).toMatchObject({
+    id: `jpeg|${thumbnailOffset + 6}|${thumbnailOffset + 16}`,
+    endOffset: thumbnailOffset + 16,
+    byteLength: 10,
+  });
+});
+
+test("keeps contained payloads flat below the depth limit", () => {
+  const thumbnailOffset = 1 + 30 + PNG.length + 30;
+  expect(summarize(BYTES, 1)).toEqual([
+    ["zip", 0, 1, false],
+    ["png", 1, 31, false],
+    ["jpeg", 1, thumbnailOffset, true],
+    ["jpeg", 1, thumbnailOffset + 6, false],
+    ["jpeg", 0, 1 + ZIP.length, false],
+  ]);
+
+  // Depth 0 is the plain signature scan, including the second local header.
+  const flat = carveNestedPayloads(BYTES);
+  expect(flat.map((payload) => [payload.kind, payload.depth])).toEqual([
+    ["zip", 0],
+    ["png", 0],
+    ["zip", 0],
+    ["jpeg", 0],
+    ["jpeg", 0],
+    ["jpeg", 0],
+  ]);
+  expect(flat[0].isDepthLimited).toBe(true);
+  expect(carveNestedPayloads(new Uint8Array())).toEqual([]);
+});
+
+function le(value: number, size: number): number[] {
+  return Array.from(
+    { length: size },
+    (_, index) => (value >>> (index * 8)) & 0xff,
+  );
+}
+
+// A ZIP with a real central directory; deflated entries hide their contents
+// from a raw scan.
+function buildZip(
+  entries: { name: string; contents: number[]; crc?: number }[],
+): number[] {
+  const body: number[] = [];
+  const directory: number[] = [];
+  for (const { name, contents, crc } of entries) {
+    const data = Array.from(deflateRawSync(new Uint8Array(contents)));
+    const nameBytes = Array.from(new TextEncoder().encode(name));
+    const common = [
+      ...le(20, 2),
+      ...le(0, 2),
+      ...le(8, 2),
+      ...le(0, 4),
+      ...le(crc ?? crc32(new Uint8Array(contents)), 4),
+      ...le(data.length, 4),
+      ...le(contents.length, 4),
+      ...le(nameBytes.length, 2),
+      ...le(0, 2),
+    ];
+    directory.push(
+      ...le(0x02014b50, 4),
+      ...le(20, 2),
+      ...common,
+      ...le(0, 10),
+      ...le(body.length, 4),
+      ...nameBytes,
+    );
+    body.push(...le(0x04034b50, 4), ...common, ...nameBytes, ...data);
+  }
+  return [
+    ...body,
+    ...directory,
+    ...le(0x06054b50, 4),
+    ...le(0, 4),
+    ...le(entries.length, 2),
+    ...le(entries.length, 2),
+    ...le(directory.length, 4),
+    ...le(body.length, 4),
+    ...le(0, 2),
+  ];
+}
+
+test("carves the extracted entries of ZIPs with a central directory", () => {
+  const zip = buildZip([
+    { name: "notes.txt", contents: Array.from({ length: 40 }, () => 0x41) },
+    { name: "img/a.png", contents: PNG },
+    { name: "img/b.jpg", contents: JPEG_WITH_THUMBNAIL },
+  ]);
+  const bytes = new Uint8Array([0xaa, ...zip]);
+
+  const payloads = carveNestedPayloads(bytes, { maxDepth: 2 });
+  expect(
+    payloads.map((payload) => [
+      payload.kind,
+      payload.depth,
+      payload.startOffset,
+      payload.zipEntry?.name ?? null,
+    ]),
+  ).toEqual([
+    ["zip", 0, 1, null],
+    ["png", 1, 0, "img/a.png"],
+    ["jpeg", 1, 0, "img/b.jpg"],
+    ["jpeg", 2, 6, "img/b.jpg"],
+  ]);
+
+  const [archive, png, jpeg, thumbnail] = payloads;
+  expect(png.parentId).toBe(archive.id);
+  expect(thumbnail.parentId).toBe(jpeg.id);
+  expect(png.id).not.toBe(jpeg.id);
+  expect(Array.from(sliceNestedPayload(bytes, png))).toEqual(PNG);
+  expect(Array.from(sliceNestedPayload(bytes, thumbnail))).toEqual(JPEG);
+  expect(Array.from(sliceNestedPayload(bytes, archive))).toEqual(zip);
+
+  // Entries that fail their CRC check are left out.
+  const damaged = new Uint8Array(
+    buildZip([{ name: "bad.png", contents: PNG, crc: 0 }]),
+  );
+  expect(
+    carveNestedPayloads(damaged, { maxDepth: 2 }).map(
+      (payload) => payload.kind,
+    ),
+  ).toEqual(["zip"]);
+
+  // At depth 0 only the raw local headers match; nothing is extracted.
+  expect(
+    carveNestedPayloads(bytes).map((payload) => [
+      payload.kind,
+      payload.zipEntry,
+    ]),
+  ).toEqual([
+    ["zip", null],
+    ["zip", null],
+    ["zip", null],
+  ]);
+});
@@ -0,0 +1,573 @@
+import { deflateSync } from "node:zlib";
+import { expect, test } from "vitest";
+import { crc32 } from "../src/utils/crc32.ts";
+import {
+  analyzePalette,
+  buildPaletteIndexImageData,
+  decodeGifLzw,
+  decodePaletteImage,
+  type PaletteImage,
+} from "../src/utils/paletteImage.ts";
+
+class MockImageData {
+  public data: Uint8ClampedArray;
+  public width: number;
+  public height: number;
+
+  constructor(data: Uint8ClampedArray, width: number, height: number) {
+    this.data = data;
+    this.width = width;
+    this.height = height;
+  }
+}
+
+globalThis.ImageData = MockImageData as unknown as typeof ImageData;
+
+function latin1(text: string): number[] {
+  return Array.from(text, (character) => character.charCodeAt(0));
+}
+
+function uint16LE(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff];
+}
+
+function uint32LE(value: number): number[] {
+  return [...uint16LE(value & 0xffff), ...uint16LE(value >>> 16)];
+}
+
+function uint32BE(value: number): number[] {
+  return uint32LE(value).reverse();
+}
+
+// GIF-flavoured LZW encoder (code size grows before assigning 2^n, deferred
+// clear at 4096) so the decoder is checked against the same growth rule
+// real encoders use.
+function lzwEncode(indices: number[], minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const output: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeSize = minCodeSize + 1;
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      output.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  const table = new Map<string, number>();
+  let nextCode = clearCode + 2;
+  emit(clearCode);
+  let current = String(indices[0]);
+  let currentCode = indices[0];
+  for (const index of indices.slice(1)) {
+    const key = `${current},${index}`;
+    const existing = table.get(key);
+    if (existing !== undefined) {
+      current = key;
+      currentCode = existing;
+      continue;
+    }
+    emit(currentCode);
+    if (nextCode < 4096) {
+      if (nextCode >= 1 << codeSize) {
+        codeSize += 1;
+      }
+      table.set(key, nextCode);
+      nextCode += 1;
+    }
+    current = String(index);
+    currentCode = index;
+  }
+  emit(currentCode);
+  emit(clearCode + 1);
+  if (bitCount > 0) {
+    output.push(bitBuffer & 0xff);
+  }
+  return output;
+}
+
+function subBlocks(data: number[]): number[] {
+  const output: number[] = [];
+  for (let index = 0; index < data.length; index += 255) {
+    const part = data.slice(index, index + 255);
+    output.push(part.length, ...part);
+  }
+  return [...output, 0x00];
+}
+
+function gifImage(
+  width: number,
+  height: number,
+  indices: number[],
+  packed = 0,
+  localTable: number[] = [],
+): number[] {
+  return [
+    0x2c,
+    0,
+    0,
+    0,
+    0,
+    ...uint16LE(width),
+    ...uint16LE(height),
+    packed,
+    ...localTable,
+    2,
+    ...subBlocks(lzwEncode(indices, 2)),
+  ];
+}
+
+// 4-entry global table; the leading run exercises the KwKwK case and the
+// noisy tail grows the code size.
+const GIF_WIDTH = 16;
+const GIF_HEIGHT = 8;
+const GIF_PIXELS = Array.from({ length: GIF_WIDTH * GIF_HEIGHT }, (_, index) =>
+  index < 40 ? 1 : (index * 7 + (index >> 3)) % 4,
+);
+const GIF_PALETTE = [0, 0, 0, 255, 0, 0, 254, 1, 0, 0, 0, 255];
+const LOCAL_PALETTE = [10, 10, 10, 20, 20, 20, 30, 30, 30, 40, 40, 40];
+
+function interlace(indices: number[], width: number, height: number) {
+  const rows: number[] = [];
+  for (const [start, step] of [
+    [0, 8],
+    [4, 8],
+    [2, 4],
+    [1, 2],
+  ]) {
+    for (let row = start; row < height; row += step) {
+      rows.push(row);
+    }
+  }
+  return rows.flatMap((row) => indices.slice(row * width, (row + 1) * width));
+}
+
+const GIF = new Uint8Array([
+  ...latin1("GIF89a"),
+  ...uint16LE(GIF_WIDTH),
+  ...uint16LE(GIF_HEIGHT),
+  0x81,
+  0,
+  0,
+  ...GIF_PALETTE,
+  ...gifImage(GIF_WIDTH, GIF_HEIGHT, GIF_PIXELS),
+  0x21,
+  0xf9,
+  0x04,
+  0x01,
+  0x00,
+  0x00,
+  0x03,
+  0x00,
+  ...gifImage(
+    GIF_WIDTH,
+    GIF_HEIGHT,
+    interlace(GIF_PIXELS, GIF_WIDTH, GIF_HEIGHT),
+    0xc1,
+    LOCAL_PALETTE,
+  ),
+  0x3b,
+]);
+
+test("decodes GIF frames through LZW, local tables and interlacing", () => {
+  const first = decodePaletteImage(GIF)!;
+  expect(first).toMatchObject({
+    source: "gif",
+    width: GIF_WIDTH,
+    height: GIF_HEIGHT,
+    paletteSize: 4,
+    transparentIndex: null,
+  });
+  expect(Array.from(first.indices)).toEqual(GIF_PIXELS);
+  expect(Array.from(first.palette)).toEqual(GIF_PALETTE);
+
+  const second = decodePaletteImage(GIF, 1)!;
+  expect(Array.from(second.indices)).toEqual(GIF_PIXELS);
+  expect(Array.from(second.palette)).toEqual(LOCAL_PALETTE);
+  expect(second.transparentIndex).toBe(3);
+
+  expect(() => decodePaletteImage(GIF, 2)).toThrow("GIF has no frame 3.");
+  expect(() =>
+    decodePaletteImage(
+      new Uint8Array([
+        ...latin1("GIF89a"),
+        ...[1, 0, 1, 0, 0x80, 0, 0],
+        ...[0, 0, 0, 255, 255, 255],
+        ...[0x2c, 0, 0, 0, 0, 1, 0, 1, 0, 0],
+      ]),
+    ),
+  ).toThrow("GIF frame has no image data.");
+  expect(() =>
+    decodePaletteImage(
+      new Uint8Array([
+        ...latin1("GIF89a"),
+        1,
+        0,
+        1,
+        0,
+        0,
+        0,
+        0,
+        ...gifImage(1, 1, [0]),
+        0x3b,
+      ]),
+    ),
+  ).toThrow("GIF frame has no color table.");
+});
+
+test("stops LZW decoding at truncated data and rejects invalid codes", () => {
+  const encoded = lzwEncode(GIF_PIXELS, 2);
+  const partial = decodeGifLzw(new Uint8Array(encoded.slice(0, 6)), 2, 128);
+  expect(Array.from(partial.slice(0, 8))).toEqual(GIF_PIXELS.slice(0, 8));
+  expect(partial[127]).toBe(0);
+
+  // Clear, then code 6 before any entry has been defined.
+  expect(() => decodeGifLzw(new Uint8Array([0x34]), 2, 4)).toThrow(
+    "Invalid LZW code in GIF image data.",
+  );
+  // Clear, literal 0, then code 7 while the next free code is 6.
+  expect(() => decodeGifLzw(new Uint8Array([0xc4, 0x01]), 2, 4)).toThrow(
+    "Invalid LZW code in GIF image data.",
+  );
+  expect(() => decodeGifLzw(new Uint8Array(), 12, 4)).toThrow(
+    "LZW minimum code size 12 is outside 2-8.",
+  );
+});
+
+function pngChunk(type: string, data: ArrayLike<number> = []): number[] {
+  const body = new Uint8Array([...latin1(type), ...Array.from(data)]);
+  return [...uint32BE(data.length), ...body, ...uint32BE(crc32(body))];
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const distances = [left, up, upLeft].map((value) =>
+    Math.abs(estimate - value),
+  );
+  if (distances[0] <= distances[1] && distances[0] <= distances[2]) {
+    return left;
+  }
+  return distances[1] <= distances[2] ? up : upLeft;
+}
+
+function filterRow(row: number[], previous: number[], filter: number) {
+  return [
+    filter,
+    ...row.map((value, index) => {
+      const left = index > 0 ? row[index - 1] : 0;
+      const up = previous[index] ?? 0;
+      const upLeft = index > 0 ? (previous[index - 1] ?? 0) : 0;
+      const predictors = [
+        0,
+        left,
+        up,
+        (left + up) >> 1,
+        paeth(left, up, upLeft),
+      ];
+      return (value - predictors[filter] + 256) & 0xff;
+    }),
+  ];
+}
+
+function packRow(indices: number[], bitDepth: number): number[] {
+  const row = new Array<number>(Math.ceil((indices.length * bitDepth) / 8));
+  row.fill(0);
+  indices.forEach((value, index) => {
+    const bitOffset = index * bitDepth;
+    row[bitOffset >> 3] |= value << (8 - bitDepth - (bitOffset & 7));
+  });
+  return row;
+}
+
+function indexedPng(
+  width: number,
+  height: number,
+  bitDepth: number,
+  scanlines: number[],
+  interlaced = false,
+  extraChunks: number[][] = [],
+): Uint8Array {
+  return new Uint8Array([
+    0x89,
+    0x50,
+    0x4e,
+    0x47,
+    0x0d,
+    0x0a,
+    0x1a,
+    0x0a,
+    ...pngChunk("IHDR", [
+      ...uint32BE(width),
+      ...uint32BE(height),
+      bitDepth,
+      3,
+      0,
+      0,
+      interlaced ? 1 : 0,
+    ]),
+    ...pngChunk("PLTE", [0, 0, 0, 128, 128, 128, 255, 255, 255, 255, 0, 0]),
+    ...extraChunks.flat(),
+    ...pngChunk("IDAT", Array.from(deflateSync(new Uint8Array(scanlines)))),
+    ...pngChunk("IEND"),
+  ]);
+}
+
+test("unfilters and unpacks indexed-color PNG scanlines", () => {
+  const rows = [
+    [0, 1, 2, 3, 3],
+    [3, 2, 1, 0, 1],
+    [1, 1, 2, 2, 3],
+    [2, 3, 0, 1, 2],
+    [0, 0, 3, 3, 1],
+  ];
+  const scanlines = rows.flatMap((row, index) =>
+    filterRow(
+      packRow(row, 2),
+      index > 0 ? packRow(rows[index - 1], 2) : [],
+      index,
+    ),
+  );
+  const image = decodePaletteImage(
+    indexedPng(5, 5, 2, scanlines, false, [pngChunk("tRNS", [255, 0])]),
+  )!;
+  expect(image).toMatchObject({
+    source: "png",
+    width: 5,
+    height: 5,
+    paletteSize: 4,
+    transparentIndex: 1,
+  });
+  expect(Array.from(image.indices)).toEqual(rows.flat());
+
+  const corrupt = [...scanlines];
+  corrupt[0] = 9;
+  expect(() => decodePaletteImage(indexedPng(5, 5, 2, corrupt))).toThrow(
+    "Unknown PNG filter type 9.",
+  );
+  expect(() =>
+    decodePaletteImage(indexedPng(5, 5, 2, scanlines.slice(0, 10))),
+  ).toThrow("PNG image data is truncated.");
+});
+
+test("reassembles Adam7-interlaced PNG passes", () => {
+  const width = 5;
+  const height = 3;
+  const pixels = Array.from({ length: width * height }, (_, index) => index);
+  const scanlines: number[] = [];
+  for (const [xStart, yStart, xStep, yStep] of [
+    [0, 0, 8, 8],
+    [4, 0, 8, 8],
+    [0, 4, 4, 8],
+    [2, 0, 4, 4],
+    [0, 2, 2, 4],
+    [1, 0, 2, 2],
+    [0, 1, 1, 2],
+  ]) {
+    for (let y = yStart; y < height; y += yStep) {
+      const row: number[] = [];
+      for (let x = xStart; x < width; x += xStep) {
+        row.push(pixels[y * width + x]);
+      }
+      if (row.length > 0) {
+        scanlines.push(0, ...row);
+      }
+    }
+  }
+
+  const image = decodePaletteImage(
+    indexedPng(width, height, 8, scanlines, true),
+  )!;
+  expect(Array.from(image.indices)).toEqual(pixels);
+  expect(image.transparentIndex).toBeNull();
+});
+
+test("rejects non-indexed and malformed PNG headers", () => {
+  const truecolor = indexedPng(1, 1, 8, [0, 0]);
+  truecolor[25] = 2;
+  expect(decodePaletteImage(truecolor)).toBeNull();
+
+  const sixteenBit = indexedPng(1, 1, 8, [0, 0]);
+  sixteenBit[24] = 16;
+  expect(() => decodePaletteImage(sixteenBit)).toThrow(
+    "Invalid bit depth 16 for indexed-color PNG.",
+  );
+  expect(() =>
+    decodePaletteImage(
+      new Uint8Array([
+        0x89,
+        0x50,
+        0x4e,
+        0x47,
+        0x0d,
+        0x0a,
+        0x1a,
+        0x0a,
+        ...pngChunk("IEND"),
+      ]),
+    ),
+  ).toThrow("PNG has no IHDR chunk.");
+});
+
+function bmp(
+  headerLength: number,
+  width: number,
+  height: number,
+  bitsPerPixel: number,
+  palette: number[],
+  rows: number[][],
+  compression = 0,
+): Uint8Array {
+  const pixelOffset = 14 + headerLength + palette.length;
+  const header =
+    headerLength === 12
+      ? [
+          ...uint32LE(12),
+          ...uint16LE(width),
+          ...uint16LE(height),
+          ...uint16LE(1),
+          ...uint16LE(bitsPerPixel),
+        ]
+      : [
+          ...uint32LE(headerLength),
+          ...uint32LE(width),
+          ...uint32LE(height),
+          ...uint16LE(1),
+          ...uint16LE(bitsPerPixel),
+          ...uint32LE(compression),
+          ...new Array<number>(headerLength - 20).fill(0),
+        ];
+  const pixels = rows.flat();
+  return new Uint8Array([
+    0x42,
+    0x4d,
+    ...uint32LE(pixelOffset + pixels.length),
+    0,
+    0,
+    0,
+    0,
+    ...uint32LE(pixelOffset),
+    ...header,
+    ...palette,
+    ...pixels,
+  ]);
+}
+
+test("reads bottom-up, top-down and core-header palettized BMPs", () => {
+  // 8 bpp, bottom-up, rows padded to 4 bytes.
+  const bottomUp = decodePaletteImage(
+    bmp(
+      40,
+      3,
+      2,
+      8,
+      Array.from({ length: 256 }, (_, index) => [index, 0, 255 - index, 0])
+        .flat()
+        .slice(0, 1024),
+      [
+        [4, 5, 6, 0],
+        [1, 2, 3, 0],
+      ],
+    ),
+  )!;
+  expect(bottomUp).toMatchObject({ source: "bmp", width: 3, height: 2 });
+  expect(bottomUp.paletteSize).toBe(256);
+  expect(Array.from(bottomUp.indices)).toEqual([1, 2, 3, 4, 5, 6]);
+  // BGRX -> RGB.
+  expect(Array.from(bottomUp.palette.slice(3, 6))).toEqual([254, 0, 1]);
+
+  const topDown = decodePaletteImage(
+    bmp(40, 3, -2, 4, new Array<number>(64).fill(7), [
+      [0x12, 0x30, 0, 0],
+      [0xf0, 0xa0, 0, 0],
+    ]),
+  )!;
+  expect(topDown.height).toBe(2);
+  expect(Array.from(topDown.indices)).toEqual([1, 2, 3, 15, 0, 10]);
+
+  const core = decodePaletteImage(
+    bmp(
+      12,
+      10,
+      1,
+      1,
+      [0, 0, 0, 255, 255, 255],
+      [[0b10110000, 0b01000000, 0, 0]],
+    ),
+  )!;
+  expect(core.paletteSize).toBe(2);
+  expect(Array.from(core.palette)).toEqual([0, 0, 0, 255, 255, 255]);
+  expect(Array.from(core.indices)).toEqual([1, 0, 1, 1, 0, 0, 0, 0, 0, 1]);
+});
+
+test("reports unsupported and truncated BMPs", () => {
+  expect(decodePaletteImage(bmp(40, 1, 1, 24, [], [[0, 0, 0, 0]]))).toBeNull();
+  expect(() =>
+    decodePaletteImage(bmp(40, 1, 1, 8, [], [[0, 0, 0, 0]], 1)),
+  ).toThrow("RLE-compressed BMP palettes are not supported.");
+  expect(() => decodePaletteImage(bmp(40, 1, 1, 2, [], []))).toThrow(
+    "Invalid BMP bit depth 2.",
+  );
+  expect(() => decodePaletteImage(bmp(40, 1, 1, 1, [0, 0, 0, 0], []))).toThrow(
+    "BMP color table is truncated.",
+  );
+  expect(() =>
+    decodePaletteImage(bmp(40, 1, 1, 1, new Array<number>(8).fill(0), [])),
+  ).toThrow("BMP pixel data is truncated.");
+  expect(() => decodePaletteImage(bmp(40, 0, 1, 8, [], []))).toThrow(
+    "Image has no pixels.",
+  );
+  expect(() => decodePaletteImage(new Uint8Array([0x42, 0x4d, 0, 0]))).toThrow(
+    "BMP header is truncated.",
+  );
+  expect(decodePaletteImage(new Uint8Array([0xff, 0xd8, 0xff]))).toBeNull();
+});
+
+const SAMPLE: PaletteImage = {
+  source: "gif",
+  width: 3,
+  height: 2,
+  palette: new Uint8Array([
+    200, 200, 200, 0, 0, 0, 203, 201, 199, 100, 100, 100,
+  ]),
+  paletteSize: 4,
+  indices: new Uint8Array([0, 0, 1, 2, 1, 0]),
+  transparentIndex: null,
+};
+
+test("counts usage, sorts by luminance and flags near-duplicate entries", () => {
+  const analysis = analyzePalette(SAMPLE);
+  expect(analysis.entries.map((entry) => entry.count)).toEqual([3, 2, 1, 0]);
+  expect(analysis.usedCount).toBe(3);
+  expect(analysis.luminanceOrder).toEqual([1, 3, 0, 2]);
+  expect(analysis.nearDuplicates).toHaveLength(1);
+  expect(analysis.nearDuplicates[0]).toMatchObject({ first: 0, second: 2 });
+  expect(analysis.nearDuplicates[0].distance).toBeCloseTo(Math.hypot(3, 1, 1));
+  expect(analysis.isNearDuplicateListTruncated).toBe(false);
+
+  const gray = analyzePalette({
+    ...SAMPLE,
+    palette: new Uint8Array(256 * 3).fill(9),
+    paletteSize: 256,
+  });
+  expect(gray.nearDuplicates).toHaveLength(256);
+  expect(gray.isNearDuplicateListTruncated).toBe(true);
+});
+
+test("renders indices or luminance ranks as grayscale ImageData", () => {
+  const { luminanceOrder } = analyzePalette(SAMPLE);
+  const byIndex = buildPaletteIndexImageData(SAMPLE, "index");
+  expect(Array.from(byIndex.data.slice(8, 12))).toEqual([1, 1, 1, 255]);
+  expect([byIndex.width, byIndex.height]).toEqual([3, 2]);
+
+  const byRank = buildPaletteIndexImageData(
+    SAMPLE,
+    "luminance",
+    luminanceOrder,
+  );
+  const reds = Array.from(byRank.data).filter((_, index) => index % 4 === 0);
+  expect(reds).toEqual([2, 2, 0, 3, 0, 2]);
+});
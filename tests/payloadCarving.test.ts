@@ -1,4 +1,6 @@
+import { deflateRawSync } from "node:zlib";
 import { expect, test } from "vitest";
+import { crc32 } from "../src/utils/crc32.ts";
 import {
   __payloadCarvingInternals,
   detectCarvedPayloads,
@@ -695,3 +697,461 @@ test("internals cover remaining format boundary branches", () => {
   );
   expect(__payloadCarvingInternals.findZipEnd(zipNoHeader, 0)).toBeNull();
 });
+
+// Little helpers for the archive, executable and media fixtures below.
+function concatBytes(...parts: ArrayLike<number>[]): Uint8Array {
+  const bytes = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+function ascii(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function fieldBytes(
+  value: number,
+  length: number,
+  isLittleEndian = true,
+): number[] {
+  const output: number[] = [];
+  for (let index = 0; index < length; index += 1) {
+    output.push(Math.floor(value / 2 ** (8 * index)) & 0xff);
+  }
+  return isLittleEndian ? output : output.reverse();
+}
+
+function putField(
+  bytes: Uint8Array,
+  offset: number,
+  value: number,
+  length: number,
+  isLittleEndian = true,
+): void {
+  bytes.set(fieldBytes(value, length, isLittleEndian), offset);
+}
+
+function expectCarved(
+  bytes: Uint8Array,
+  kind: CarvedPayload["kind"],
+  startOffset: number,
+  endOffset: number,
+): void {
+  const payload = detectCarvedPayloads(bytes).find(
+    (candidate) =>
+      candidate.kind === kind && candidate.startOffset === startOffset,
+  );
+  expect(payload, kind).toBeDefined();
+  expect(payload?.endOffset, kind).toBe(endOffset);
+  expect(payload?.confidence, kind).toBe("high");
+}
+
+const JUNK = new Uint8Array(6).fill(0xee);
+
+function buildSevenZipBytes(): Uint8Array {
+  const header = new Uint8Array(32);
+  header.set([0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c, 0x00, 0x04]);
+  putField(header, 12, 10, 8);
+  putField(header, 20, 6, 8);
+  putField(header, 8, crc32(header, 12, 32), 4);
+  return concatBytes(header, new Uint8Array(16).fill(0x5a));
+}
+
+function buildRar4Bytes(): Uint8Array {
+  const mainHeader = [0, 0, 0x73, 0, 0, 13, 0, 0, 0, 0, 0, 0, 0];
+  const fileHeader = new Uint8Array(32);
+  fileHeader.set([0, 0, 0x74, 0x00, 0x80, 32, 0, 5, 0, 0, 0]);
+  const endHeader = [0, 0, 0x7b, 0x00, 0x40, 7, 0];
+  return concatBytes(
+    [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07, 0x00],
+    mainHeader,
+    fileHeader,
+    [1, 2, 3, 4, 5],
+    endHeader,
+  );
+}
+
+function buildRar5Bytes(): Uint8Array {
+  return concatBytes(
+    [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07, 0x01, 0x00],
+    [0, 0, 0, 0, 3, 1, 0, 0],
+    [0, 0, 0, 0, 6, 2, 0x03, 0, 0xc8, 0x01, 0],
+    new Uint8Array(200).fill(0x33),
+    [0, 0, 0, 0, 3, 5, 0, 0],
+  );
+}
+
+function buildGzipBytes(): Uint8Array {
+  const data = ascii("gzip payload ".repeat(8));
+  return concatBytes(
+    [0x1f, 0x8b, 0x08, 0x1e, 0, 0, 0, 0, 0, 0xff],
+    [2, 0, 0x41, 0x42],
+    ascii("a.txt\0c\0"),
+    [0, 0],
+    deflateRawSync(data),
+    fieldBytes(crc32(data), 4),
+    fieldBytes(data.length, 4),
+  );
+}
+
+// A bzip2 stream whose end-of-stream marker starts three bits into a byte.
+function buildUnalignedBzip2Bytes(): Uint8Array {
+  const bits = [0, 0, 0];
+  for (const value of [0x17, 0x72, 0x45, 0x38, 0x50, 0x90, 1, 2, 3, 4]) {
+    for (let bit = 7; bit >= 0; bit -= 1) {
+      bits.push((value >> bit) & 1);
+    }
+  }
+  const packed = new Uint8Array(Math.ceil(bits.length / 8));
+  bits.forEach((bit, index) => {
+    packed[index >> 3] |= bit << (7 - (index & 7));
+  });
+  return concatBytes(
+    ascii("BZh9"),
+    [0x31, 0x41, 0x59, 0x26, 0x53, 0x59],
+    packed,
+  );
+}
+
+function buildXzBytes(): Uint8Array {
+  const header = new Uint8Array(12);
+  header.set([0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00, 0x00, 0x01]);
+  putField(header, 8, crc32(header, 6, 8), 4);
+  const footer = new Uint8Array(12);
+  footer.set([0, 0, 0, 0, 1, 0, 0, 0, 0x00, 0x01, 0x59, 0x5a]);
+  putField(footer, 0, crc32(footer, 4, 10), 4);
+  return concatBytes(header, new Uint8Array(8).fill(0x10), footer);
+}
+
+function buildTarHeader(name: string, size: number): Uint8Array {
+  const header = new Uint8Array(512);
+  header.set(ascii(name));
+  header.set(ascii(`${size.toString(8).padStart(11, "0")}\0`), 124);
+  header.set(ascii("ustar\u000000"), 257);
+  header.fill(0x20, 148, 156);
+  const sum = header.reduce((total, value) => total + value, 0);
+  header.set(ascii(`${sum.toString(8).padStart(6, "0")}\0 `), 148);
+  return header;
+}
+
+function buildTarBytes(withEndBlocks: boolean): Uint8Array {
+  return concatBytes(
+    buildTarHeader("a.txt", 5),
+    concatBytes(ascii("hello"), new Uint8Array(507)),
+    buildTarHeader("empty", 0),
+    new Uint8Array(withEndBlocks ? 1024 : 0),
+  );
+}
+
+function buildElf64Bytes(): Uint8Array {
+  const bytes = new Uint8Array(412);
+  bytes.set([0x7f, 0x45, 0x4c, 0x46, 2, 1, 1]);
+  putField(bytes, 32, 64, 8);
+  putField(bytes, 40, 200, 8);
+  putField(bytes, 54, 56, 2);
+  putField(bytes, 56, 1, 2);
+  putField(bytes, 58, 64, 2);
+  putField(bytes, 60, 3, 2);
+  putField(bytes, 64 + 32, 150, 8);
+  // Section 1 holds bytes; section 2 is SHT_NOBITS and takes no file space.
+  putField(bytes, 264 + 4, 1, 4);
+  putField(bytes, 264 + 24, 392, 8);
+  putField(bytes, 264 + 32, 20, 8);
+  putField(bytes, 328 + 4, 8, 4);
+  putField(bytes, 328 + 24, 412, 8);
+  putField(bytes, 328 + 32, 1000, 8);
+  return bytes;
+}
+
+function buildElf32BigEndianBytes(): Uint8Array {
+  const bytes = new Uint8Array(100);
+  bytes.set([0x7f, 0x45, 0x4c, 0x46, 1, 2, 1]);
+  putField(bytes, 28, 52, 4, false);
+  putField(bytes, 42, 32, 2, false);
+  putField(bytes, 44, 1, 2, false);
+  putField(bytes, 52 + 16, 100, 4, false);
+  return bytes;
+}
+
+function buildPeBytes(): Uint8Array {
+  const bytes = new Uint8Array(0x420);
+  bytes.set([0x4d, 0x5a]);
+  putField(bytes, 0x3c, 0x40, 4);
+  bytes.set([0x50, 0x45, 0, 0], 0x40);
+  putField(bytes, 0x46, 1, 2);
+  putField(bytes, 0x54, 224, 2);
+  const optionalHeader = 0x58;
+  putField(bytes, optionalHeader, 0x10b, 2);
+  putField(bytes, optionalHeader + 60, 0x200, 4);
+  putField(bytes, optionalHeader + 92, 16, 4);
+  putField(bytes, optionalHeader + 96 + 32, 0x400, 4);
+  putField(bytes, optionalHeader + 96 + 36, 0x20, 4);
+  const section = optionalHeader + 224;
+  putField(bytes, section + 16, 0x200, 4);
+  putField(bytes, section + 20, 0x200, 4);
+  return bytes;
+}
+
+function buildMachOBytes(): Uint8Array {
+  const bytes = new Uint8Array(350);
+  bytes.set([0xcf, 0xfa, 0xed, 0xfe]);
+  putField(bytes, 16, 2, 4);
+  putField(bytes, 20, 88, 4);
+  putField(bytes, 32, 0x19, 4);
+  putField(bytes, 36, 72, 4);
+  putField(bytes, 32 + 48, 300, 8);
+  putField(bytes, 104, 0x1d, 4);
+  putField(bytes, 108, 16, 4);
+  putField(bytes, 112, 300, 4);
+  putField(bytes, 116, 50, 4);
+  return bytes;
+}
+
+function buildFatMachOBytes(): Uint8Array {
+  const header = new Uint8Array(64);
+  header.set([0xca, 0xfe, 0xba, 0xbe]);
+  putField(header, 4, 1, 4, false);
+  putField(header, 16, 64, 4, false);
+  putField(header, 20, 350, 4, false);
+  return concatBytes(header, buildMachOBytes());
+}
+
+function buildClassBytes(): Uint8Array {
+  return concatBytes(
+    [0xca, 0xfe, 0xba, 0xbe, 0, 0, 0, 52],
+    [0, 5],
+    [1, 0, 2, 0x48, 0x69],
+    [7, 0, 1],
+    [5, 0, 0, 0, 0, 0, 0, 0, 1],
+    [0, 0x21, 0, 2, 0, 0, 0, 1, 0, 2],
+    [0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 0, 0, 2, 9, 9],
+    [0, 0],
+    [0, 1, 0, 1, 0, 0, 0, 3, 7, 7, 7],
+  );
+}
+
+function buildOggBytes(): Uint8Array {
+  const page = (headerType: number, lacing: number[]) => {
+    const header = new Uint8Array(27);
+    header.set(ascii("OggS"));
+    header[5] = headerType;
+    header[26] = lacing.length;
+    const bodyLength = lacing.reduce((total, value) => total + value, 0);
+    return concatBytes(header, lacing, new Uint8Array(bodyLength).fill(0x44));
+  };
+  return concatBytes(page(2, [255, 10]), page(4, [5]));
+}
+
+function buildMp3Bytes(): Uint8Array {
+  // MPEG-1 layer III, MPEG-2 layer III, MPEG-1 layer I and MPEG-1 layer II.
+  const frame = (header: number[], length: number) =>
+    concatBytes(header, new Uint8Array(length - 4));
+  return concatBytes(
+    [0x49, 0x44, 0x33, 3, 0, 0, 0, 0, 0, 10],
+    new Uint8Array(10).fill(0x20),
+    frame([0xff, 0xfb, 0x90, 0x00], 417),
+    frame([0xff, 0xf3, 0x80, 0x00], 208),
+    frame([0xff, 0xff, 0x10, 0x00], 32),
+    frame([0xff, 0xfd, 0x10, 0x00], 104),
+    ascii("TAG"),
+    new Uint8Array(125),
+  );
+}
+
+function msbCrc(bytes: Uint8Array, polynomial: number, width: number): number {
+  const topBit = 1 << (width - 1);
+  let crc = 0;
+  for (const value of bytes) {
+    crc ^= value << (width - 8);
+    for (let bit = 0; bit < 8; bit += 1) {
+      crc = crc & topBit ? (crc << 1) ^ polynomial : crc << 1;
+    }
+    crc &= (1 << width) - 1;
+  }
+  return crc;
+}
+
+function buildFlacFrame(header: number[], body: number[]): Uint8Array {
+  const headerBytes = new Uint8Array(header);
+  const withCrc8 = concatBytes(
+    headerBytes,
+    [msbCrc(headerBytes, 0x07, 8)],
+    body,
+  );
+  return concatBytes(
+    withCrc8,
+    fieldBytes(msbCrc(withCrc8, 0x8005, 16), 2, false),
+  );
+}
+
+function buildFlacBytes(): Uint8Array {
+  const body = new Array<number>(10).fill(0x11);
+  return concatBytes(
+    ascii("fLaC"),
+    [0x00, 0, 0, 34],
+    new Uint8Array(34),
+    [0x84, 0, 0, 4, 1, 2, 3, 4],
+    buildFlacFrame([0xff, 0xf8, 0x69, 0x08, 0x00, 0x0f], body),
+    buildFlacFrame(
+      [0xff, 0xf8, 0x7c, 0x08, 0xc2, 0x80, 0x00, 0x0f, 0x10],
+      [0x21, 0x22],
+    ),
+    buildFlacFrame([0xff, 0xf9, 0x1d, 0x08, 0x02, 0x00, 0x10], body),
+  );
+}
+
+function buildSqliteBytes(pageCount: number, validFor: number): Uint8Array {
+  const bytes = new Uint8Array(512 * 3);
+  bytes.set(ascii("SQLite format 3\0"));
+  putField(bytes, 16, 512, 2, false);
+  putField(bytes, 24, 7, 4, false);
+  putField(bytes, 28, pageCount, 4, false);
+  putField(bytes, 92, validFor, 4, false);
+  return bytes;
+}
+
+function buildIcoBytes(): Uint8Array {
+  const bytes = new Uint8Array(62);
+  bytes.set([0, 0, 1, 0, 1, 0, 16, 16, 0, 0, 1, 0, 32, 0]);
+  putField(bytes, 14, 40, 4);
+  putField(bytes, 18, 22, 4);
+  return bytes;
+}
+
+test("detectCarvedPayloads finds archive ends", () => {
+  const cases: Array<[CarvedPayload["kind"], Uint8Array]> = [
+    ["7z", buildSevenZipBytes()],
+    ["rar", buildRar4Bytes()],
+    ["rar", buildRar5Bytes()],
+    ["gzip", buildGzipBytes()],
+    [
+      "bzip2",
+      concatBytes(
+        ascii("BZh9"),
+        [0x17, 0x72, 0x45, 0x38, 0x50, 0x90, 0, 0, 0, 0],
+      ),
+    ],
+    ["bzip2", buildUnalignedBzip2Bytes()],
+    ["xz", buildXzBytes()],
+    ["tar", buildTarBytes(true)],
+  ];
+  for (const [kind, payload] of cases) {
+    expectCarved(concatBytes(JUNK, payload, JUNK), kind, 6, 6 + payload.length);
+  }
+
+  // Without end-of-archive blocks a tar ends after its last valid entry.
+  const unterminatedTar = buildTarBytes(false);
+  expectCarved(
+    concatBytes(unterminatedTar, new Uint8Array(512).fill(0xee)),
+    "tar",
+    0,
+    unterminatedTar.length,
+  );
+});
+
+test("detectCarvedPayloads finds executable and class file ends", () => {
+  const cases: Array<[CarvedPayload["kind"], Uint8Array]> = [
+    ["elf", buildElf64Bytes()],
+    ["elf", buildElf32BigEndianBytes()],
+    ["pe", buildPeBytes()],
+    ["macho", buildMachOBytes()],
+    ["macho", buildFatMachOBytes()],
+    ["class", buildClassBytes()],
+  ];
+  for (const [kind, payload] of cases) {
+    expectCarved(concatBytes(JUNK, payload, JUNK), kind, 6, 6 + payload.length);
+  }
+});
+
+test("detectCarvedPayloads finds media, database, icon and armor ends", () => {
+  const wav = concatBytes(
+    ascii("RIFF"),
+    [15, 0, 0, 0],
+    ascii("WAVEdata"),
+    [3, 0, 0, 0, 1, 2, 3, 0],
+  );
+  const avi = concatBytes(ascii("RIFF"), [4, 0, 0, 0], ascii("AVI "));
+  const pem = ascii(
+    "-----BEGIN CERTIFICATE-----\nMIIB\n-----END CERTIFICATE-----\r\n",
+  );
+  const pgp = ascii(
+    "-----BEGIN PGP MESSAGE-----\n\nabc\n-----END PGP MESSAGE-----",
+  );
+  const cases: Array<[CarvedPayload["kind"], Uint8Array]> = [
+    ["wav", wav],
+    ["riff", avi],
+    ["ogg", buildOggBytes()],
+    ["mp3", buildMp3Bytes()],
+    ["flac", buildFlacBytes()],
+    ["sqlite", buildSqliteBytes(3, 7)],
+    ["ico", buildIcoBytes()],
+    ["pem", pem],
+    ["pgp", pgp],
+  ];
+  for (const [kind, payload] of cases) {
+    expectCarved(concatBytes(JUNK, payload, JUNK), kind, 6, 6 + payload.length);
+  }
+});
+
+test("truncated archives and executables fall back to low confidence", () => {
+  const cases: Array<[CarvedPayload["kind"], Uint8Array]> = [
+    ["7z", buildSevenZipBytes()],
+    ["rar", buildRar4Bytes()],
+    ["rar", buildRar5Bytes()],
+    ["gzip", buildGzipBytes()],
+    ["bzip2", buildUnalignedBzip2Bytes()],
+    ["xz", buildXzBytes()],
+    ["elf", buildElf64Bytes()],
+    ["elf", buildElf32BigEndianBytes()],
+    ["pe", buildPeBytes()],
+    ["macho", buildMachOBytes()],
+    ["macho", buildFatMachOBytes()],
+    ["class", buildClassBytes()],
+    ["sqlite", buildSqliteBytes(3, 7)],
+    ["pem", ascii("-----BEGIN KEY-----\nAA\n-----END KEY-----")],
+  ];
+  for (const [kind, payload] of cases) {
+    for (let length = 1; length < payload.length; length += 1) {
+      const carved = detectCarvedPayloads(payload.subarray(0, length)).find(
+        (candidate) => candidate.kind === kind && candidate.startOffset === 0,
+      );
+      expect(carved?.confidence ?? "low", `${kind} at ${length}`).toBe("low");
+    }
+  }
+});
+
+test("media walkers stop at the last complete unit", () => {
+  const ogg = buildOggBytes();
+  expectCarved(ogg.subarray(0, ogg.length - 1), "ogg", 0, 294);
+
+  const mp3 = buildMp3Bytes();
+  expectCarved(mp3.subarray(0, 20 + 417 + 100), "mp3", 0, 20 + 417);
+  const tagOnly = detectCarvedPayloads(mp3.subarray(0, 20));
+  expect(findPayload(tagOnly, "mp3")?.confidence).toBe("low");
+
+  const flac = buildFlacBytes();
+  const lastFrameStart = flac.length - 20;
+  expect(
+    findPayload(detectCarvedPayloads(flac.subarray(0, lastFrameStart)), "flac")
+      ?.endOffset,
+  ).toBe(lastFrameStart);
+
+  const corruptGzip = buildGzipBytes();
+  corruptGzip[corruptGzip.length - 1] ^= 0xff;
+  expect(
+    findPayload(detectCarvedPayloads(corruptGzip), "gzip")?.confidence,
+  ).toBe("low");
+
+  const staleSqlite = detectCarvedPayloads(buildSqliteBytes(3, 6));
+  expect(findPayload(staleSqlite, "sqlite")?.confidence).toBe("low");
+
+  const badIco = buildIcoBytes();
+  badIco[9] = 1;
+  expect(findPayload(detectCarvedPayloads(badIco), "ico")).toBeUndefined();
+});
@@ -0,0 +1,305 @@
+import { deflateSync } from "node:zlib";
+import { expect, test } from "vitest";
+import { crc32 } from "../src/utils/crc32.ts";
+import {
+  inspectPngChunks,
+  parsePngTextChunk,
+  readPngTextChunks,
+  walkPngChunks,
+  type PngChunk,
+} from "../src/utils/pngChunks.ts";
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function latin1(text: string): number[] {
+  return Array.from(text, (character) => character.charCodeAt(0));
+}
+
+function chunk(type: string, data: ArrayLike<number> = []): number[] {
+  const body = new Uint8Array([...latin1(type), ...Array.from(data)]);
+  const crc = crc32(body);
+  const length = data.length;
+  return [
+    (length >>> 24) & 0xff,
+    (length >>> 16) & 0xff,
+    (length >>> 8) & 0xff,
+    length & 0xff,
+    ...body,
+    (crc >>> 24) & 0xff,
+    (crc >>> 16) & 0xff,
+    (crc >>> 8) & 0xff,
+    crc & 0xff,
+  ];
+}
+
+function ihdr(colorType: number): number[] {
+  return chunk("IHDR", [0, 0, 0, 2, 0, 0, 0, 1, 8, colorType, 0, 0, 1]);
+}
+
+function png(...chunks: number[][]): Uint8Array {
+  return new Uint8Array([...SIGNATURE, ...chunks.flat()]);
+}
+
+function fieldMap(entry: PngChunk): Record<string, string> {
+  return Object.fromEntries(
+    entry.fields.map((field) => [field.label, field.value]),
+  );
+}
+
+const IDAT = chunk("IDAT", Array.from(deflateSync(new Uint8Array(7))));
+
+test("walks chunks up to IEND and flags truncation", () => {
+  const bytes = png(ihdr(2), IDAT, chunk("IEND"));
+  const walk = walkPngChunks(new Uint8Array([...bytes, 0xff, 0xfe]));
+  expect(walk?.chunks.map((entry) => entry.type)).toEqual([
+    "IHDR",
+    "IDAT",
+    "IEND",
+  ]);
+  expect(walk?.iendEndOffset).toBe(bytes.length);
+  expect(walk?.isTruncated).toBe(false);
+
+  expect(walkPngChunks(bytes.slice(0, bytes.length - 3))).toMatchObject({
+    iendEndOffset: null,
+    isTruncated: true,
+  });
+  expect(walkPngChunks(bytes.slice(0, 33 + 5))).toMatchObject({
+    iendEndOffset: null,
+    isTruncated: true,
+  });
+  expect(walkPngChunks(bytes.slice(0, 33))).toMatchObject({
+    iendEndOffset: null,
+    isTruncated: false,
+  });
+  expect(walkPngChunks(new Uint8Array([0xff, 0xd8, 0xff]))).toBeNull();
+  expect(inspectPngChunks(new Uint8Array([0x89]))).toBeNull();
+});
+
+test("decodes header, palette, transparency and text chunks", () => {
+  const zText = [
+    ...latin1("Comment"),
+    0,
+    0,
+    ...deflateSync(new TextEncoder().encode("compressed secret")),
+  ];
+  const iText = [
+    ...latin1("Title"),
+    0,
+    1,
+    0,
+    ...latin1("en"),
+    0,
+    ...new TextEncoder().encode("Titel"),
+    0,
+    ...deflateSync(new TextEncoder().encode("überschrift")),
+  ];
+  const iccProfile = deflateSync(new Uint8Array(128));
+  const inspection = inspectPngChunks(
+    png(
+      ihdr(3),
+      chunk("gAMA", [0, 0, 0xb1, 0x8f]),
+      chunk("iCCP", [...latin1("sRGB"), 0, 0, ...iccProfile]),
+      chunk("PLTE", [0, 0, 0, 255, 255, 255]),
+      chunk("tRNS", [0, 255]),
+      chunk("tEXt", [...latin1("Author"), 0, ...latin1("Alice")]),
+      chunk("zTXt", zText),
+      chunk("iTXt", iText),
+      chunk("iTXt", [...latin1("Plain"), 0, 0, 0, 0, 0, ...latin1("flag{x}")]),
+      chunk("eXIf", [0x4d, 0x4d, 0, 0x2a]),
+      IDAT,
+      chunk("IEND"),
+    ),
+  );
+
+  expect(inspection?.warnings).toEqual([]);
+  const chunks = inspection?.chunks ?? [];
+  expect(chunks.every((entry) => entry.isCrcValid)).toBe(true);
+  expect(fieldMap(chunks[0])).toMatchObject({
+    Width: "2",
+    Height: "1",
+    "Color type": "3 (Indexed-color)",
+    Interlace: "1 (Adam7)",
+  });
+  expect(fieldMap(chunks[1]).Gamma).toBe("45455 (0.45455)");
+  expect(fieldMap(chunks[2])).toMatchObject({
+    "Profile name": "sRGB",
+    "Profile size": "128 bytes",
+  });
+  expect(fieldMap(chunks[3])).toEqual({ Entries: "2" });
+  expect(fieldMap(chunks[4])).toMatchObject({
+    "Alpha entries": "2",
+    "Non-opaque entries": "1",
+  });
+  expect(fieldMap(chunks[5])).toEqual({ Keyword: "Author", Text: "Alice" });
+  expect(fieldMap(chunks[6])).toMatchObject({
+    Keyword: "Comment",
+    Text: "compressed secret",
+  });
+  expect(fieldMap(chunks[7])).toMatchObject({
+    Keyword: "Title",
+    Compressed: "yes",
+    Language: "en",
+    "Translated keyword": "Titel",
+    Text: "überschrift",
+  });
+  expect(fieldMap(chunks[8])).toMatchObject({
+    Compressed: "no",
+    Language: "(none)",
+    Text: "flag{x}",
+  });
+  expect(fieldMap(chunks[9])["Byte order"]).toBe("MM (big-endian)");
+  expect(chunks[10].fields).toEqual([]);
+  expect(chunks[1]).toMatchObject({
+    isAncillary: true,
+    isPrivate: false,
+    isSafeToCopy: false,
+  });
+  expect(chunks[0].isAncillary).toBe(false);
+});
+
+test("decodes tRNS for grayscale and truecolor images", () => {
+  const gray = inspectPngChunks(
+    png(ihdr(0), chunk("tRNS", [0x01, 0x02]), IDAT, chunk("IEND")),
+  );
+  expect(fieldMap(gray!.chunks[1])).toEqual({ "Transparent gray": "258" });
+
+  const rgb = inspectPngChunks(
+    png(
+      ihdr(2),
+      chunk("PLTE", [1, 2, 3]),
+      chunk("tRNS", [0, 1, 0, 2, 0, 3]),
+      chunk("tRNS", [9]),
+      IDAT,
+      chunk("IEND"),
+    ),
+  );
+  expect(fieldMap(rgb!.chunks[1]).Note).toContain("Suggested palette");
+  expect(fieldMap(rgb!.chunks[2])).toEqual({ "Transparent RGB": "1, 2, 3" });
+  expect(fieldMap(rgb!.chunks[3])).toEqual({ Bytes: "09" });
+  expect(rgb!.chunks[3].warnings).toEqual(["Duplicate tRNS chunk (#2)."]);
+});
+
+test("reports CRC mismatches, private chunks and structural problems", () => {
+  const badCrc = chunk("tEXt", [...latin1("k"), 0, ...latin1("v")]);
+  badCrc[badCrc.length - 1] ^= 0xff;
+  const privateChunk = chunk("prVt", new Array(40).fill(0xab));
+
+  const inspection = inspectPngChunks(
+    png(
+      chunk("gAMA", [1, 2]),
+      ihdr(6),
+      IDAT,
+      badCrc,
+      privateChunk,
+      IDAT,
+      chunk("zTXt", [...latin1("bad"), 0, 0, 1, 2, 3]),
+      chunk("zTXt", [...latin1("nomethod"), 0]),
+      chunk("tEXt", latin1("no separator")),
+      chunk("iTXt", latin1("broken")),
+      chunk("iCCP", latin1("unterminated")),
+      chunk("iCCP", [...latin1("x"), 0, 0, 1, 2]),
+      chunk("eXIf", [0, 0]),
+      chunk("IHDR", [0]),
+      chunk("PLTE", [1, 2]),
+      chunk("a1b2", []),
+      chunk("IEND", [0]),
+    ),
+  );
+  const chunks = inspection?.chunks ?? [];
+
+  expect(inspection?.warnings).toEqual(["1 chunk has a CRC mismatch."]);
+  expect(chunks[0].warnings).toContain("First chunk is not IHDR.");
+  expect(chunks[0].warnings).toContain("gAMA should be 4 bytes, found 2.");
+  expect(chunks[3].isCrcValid).toBe(false);
+  expect(chunks[3].storedCrc).not.toBe(chunks[3].computedCrc);
+  expect(chunks[4]).toMatchObject({ isPrivate: true, isSafeToCopy: true });
+  expect(fieldMap(chunks[4]).Data).toMatch(/^ab ab .* …$/);
+  expect(chunks[5].warnings[0]).toContain("not consecutive");
+  expect(fieldMap(chunks[6]).Text).toContain("Could not inflate");
+  expect(chunks[7].warnings).toEqual([
+    "zTXt keyword or compression method is missing.",
+  ]);
+  expect(fieldMap(chunks[8])).toEqual({ Raw: "no separator" });
+  expect(chunks[9].warnings).toEqual(["iTXt header fields are incomplete."]);
+  expect(chunks[10].warnings).toEqual([
+    "iCCP profile name is not null-terminated.",
+  ]);
+  expect(chunks[11].warnings[0]).toBe("Duplicate iCCP chunk (#2).");
+  expect(chunks[11].warnings[1]).toContain("could not be inflated");
+  expect(fieldMap(chunks[12])["Byte order"]).toBe("unknown");
+  expect(chunks[12].warnings).toEqual([
+    "eXIf does not start with a TIFF byte-order mark.",
+  ]);
+  expect(chunks[13].warnings).toEqual([
+    "Duplicate IHDR chunk (#2).",
+    "IHDR should be 13 bytes, found 1.",
+  ]);
+  expect(chunks[14].warnings).toContain("PLTE length is not a multiple of 3.");
+  expect(chunks[15].warnings).toEqual([
+    "Chunk type contains non-letter bytes.",
+  ]);
+  expect(chunks[15].fields).toEqual([]);
+  expect(chunks[16].warnings).toEqual(["IEND should be empty, found 1 bytes."]);
+});
+
+test("summarizes missing IDAT/IEND and truncated streams", () => {
+  expect(inspectPngChunks(png(ihdr(2)))?.warnings).toEqual([
+    "No IDAT chunk found.",
+    "IEND chunk is missing.",
+  ]);
+
+  const truncated = png(ihdr(2), IDAT, chunk("IEND"));
+  expect(
+    inspectPngChunks(truncated.slice(0, truncated.length - 4))?.warnings,
+  ).toEqual(["Chunk stream is truncated before IEND."]);
+});
+
+test("clips very long text values", () => {
+  const longText = "A".repeat(5_000);
+  const inspection = inspectPngChunks(
+    png(
+      ihdr(2),
+      chunk("tEXt", [...latin1("Blob"), 0, ...latin1(longText)]),
+      IDAT,
+      chunk("IEND"),
+    ),
+  );
+  const text = fieldMap(inspection!.chunks[1]).Text;
+  expect(text.startsWith("A".repeat(2_000))).toBe(true);
+  expect(text).toContain("(5,000 characters)");
+});
+
+test("reads inflated text chunks for metadata display", () => {
+  const bytes = png(
+    ihdr(2),
+    chunk("tEXt", [...latin1("Author"), 0, ...latin1("Alice")]),
+    chunk("zTXt", [
+      ...latin1("Secret"),
+      0,
+      0,
+      ...deflateSync(new TextEncoder().encode("hidden")),
+    ]),
+    chunk("iTXt", latin1("broken")),
+    IDAT,
+    chunk("IEND"),
+  );
+
+  expect(readPngTextChunks(bytes)).toEqual([
+    expect.objectContaining({ type: "tEXt", keyword: "Author", text: "Alice" }),
+    expect.objectContaining({
+      type: "zTXt",
+      keyword: "Secret",
+      text: "hidden",
+      compressionMethod: 0,
+      isCompressed: true,
+      error: null,
+    }),
+  ]);
+  expect(readPngTextChunks(new Uint8Array([1, 2, 3]))).toEqual([]);
+  expect(
+    parsePngTextChunk("iTXt", new Uint8Array([...latin1("k"), 0, 1])),
+  ).toBeNull();
+  expect(
+    parsePngTextChunk("zTXt", new Uint8Array([...latin1("k"), 0, 0, 9, 9])),
+  ).toMatchObject({ text: "", error: expect.stringContaining("inflate") });
+});
@@ -0,0 +1,156 @@
+import { expect, test } from "vitest";
+import { walkTiffLayout } from "../src/utils/tiffLayout.ts";
+
+interface Entry {
+  tag: number;
+  type: number;
+  count: number;
+  value: number;
+}
+
+// Writes a TIFF from IFD descriptions; each IFD gets its entries and the
+// offset of the next IFD.
+class TiffBuilder {
+  public bytes: Uint8Array;
+  private view: DataView;
+
+  constructor(
+    length: number,
+    private readonly isLittleEndian: boolean,
+    firstIfdOffset: number,
+  ) {
+    this.bytes = new Uint8Array(length);
+    this.view = new DataView(this.bytes.buffer);
+    this.bytes.set(isLittleEndian ? [0x49, 0x49] : [0x4d, 0x4d]);
+    this.view.setUint16(2, 42, isLittleEndian);
+    this.view.setUint32(4, firstIfdOffset, isLittleEndian);
+  }
+
+  ifd(offset: number, entries: Entry[], nextIfdOffset = 0): this {
+    this.view.setUint16(offset, entries.length, this.isLittleEndian);
+    entries.forEach((entry, index) => {
+      const base = offset + 2 + index * 12;
+      this.view.setUint16(base, entry.tag, this.isLittleEndian);
+      this.view.setUint16(base + 2, entry.type, this.isLittleEndian);
+      this.view.setUint32(base + 4, entry.count, this.isLittleEndian);
+      if (entry.type === 3 && entry.count === 1) {
+        this.view.setUint16(base + 8, entry.value, this.isLittleEndian);
+      } else {
+        this.view.setUint32(base + 8, entry.value, this.isLittleEndian);
+      }
+    });
+    this.view.setUint32(
+      offset + 2 + entries.length * 12,
+      nextIfdOffset,
+      this.isLittleEndian,
+    );
+    return this;
+  }
+
+  longs(offset: number, values: number[]): this {
+    values.forEach((value, index) =>
+      this.view.setUint32(offset + index * 4, value, this.isLittleEndian),
+    );
+    return this;
+  }
+}
+
+test("maps IFDs, out-of-line values, strips and sub-IFDs", () => {
+  // IFD0 at 8 (4 entries, 54 bytes) -> strip offset/count arrays at 62/70,
+  // strips at 78 and 88, Exif IFD at 100, IFD1 at 120 with a thumbnail.
+  const tiff = new TiffBuilder(160, false, 8)
+    .ifd(
+      8,
+      [
+        { tag: 273, type: 4, count: 2, value: 62 },
+        { tag: 279, type: 4, count: 2, value: 70 },
+        { tag: 305, type: 2, count: 4, value: 0x41424300 },
+        { tag: 34665, type: 4, count: 1, value: 100 },
+      ],
+      120,
+    )
+    .longs(62, [78, 88])
+    .longs(70, [10, 12])
+    .ifd(100, [{ tag: 36864, type: 7, count: 4, value: 0x30323330 }])
+    .ifd(120, [
+      { tag: 513, type: 4, count: 1, value: 150 },
+      { tag: 514, type: 4, count: 1, value: 10 },
+    ]);
+
+  const layout = walkTiffLayout(tiff.bytes)!;
+  expect(layout.isLittleEndian).toBe(false);
+  expect(layout.isTruncated).toBe(false);
+  expect(layout.endOffset).toBe(160);
+  expect(
+    layout.regions.map((region) => [
+      region.kind,
+      region.label,
+      region.offset,
+      region.endOffset,
+    ]),
+  ).toEqual([
+    ["header", "Header", 0, 8],
+    ["ifd", "IFD0", 8, 62],
+    ["value", "Tag 273 value", 62, 70],
+    ["value", "Tag 279 value", 70, 78],
+    ["image-data", "Strip 0", 78, 88],
+    ["image-data", "Strip 1", 88, 100],
+    ["ifd", "Exif IFD", 100, 118],
+    ["ifd", "IFD1", 120, 150],
+    ["image-data", "JPEG thumbnail", 150, 160],
+  ]);
+});
+
+test("handles embedded offsets, tiles and IFD loops", () => {
+  const tiff = new TiffBuilder(48, true, 8).ifd(
+    8,
+    [
+      { tag: 324, type: 3, count: 1, value: 38 },
+      { tag: 325, type: 3, count: 1, value: 6 },
+    ],
+    8,
+  );
+  const embedded = new Uint8Array([0xee, 0xee, ...tiff.bytes]);
+
+  const layout = walkTiffLayout(embedded, 2)!;
+  expect(layout.isLittleEndian).toBe(true);
+  expect(layout.regions.at(-1)).toEqual({
+    kind: "image-data",
+    offset: 40,
+    endOffset: 46,
+    label: "Tile",
+  });
+  expect(layout.endOffset).toBe(46);
+  expect(layout.regions.filter((region) => region.kind === "ifd")).toHaveLength(
+    1,
+  );
+});
+
+test("flags references past the end and rejects other headers", () => {
+  const tiff = new TiffBuilder(60, true, 8).ifd(8, [
+    { tag: 273, type: 4, count: 1, value: 36 },
+    { tag: 279, type: 4, count: 1, value: 100 },
+    { tag: 270, type: 2, count: 20, value: 200 },
+  ]);
+  const layout = walkTiffLayout(tiff.bytes)!;
+  expect(layout.isTruncated).toBe(true);
+  expect(layout.regions.map((region) => region.kind)).toEqual([
+    "header",
+    "ifd",
+  ]);
+
+  expect(
+    walkTiffLayout(new TiffBuilder(12, true, 100).bytes)?.isTruncated,
+  ).toBe(true);
+  expect(walkTiffLayout(new TiffBuilder(12, true, 8).bytes)?.isTruncated).toBe(
+    true,
+  );
+
+  const bigTiff = new TiffBuilder(16, true, 8).bytes;
+  bigTiff[2] = 43;
+  expect(walkTiffLayout(bigTiff)).toBeNull();
+  expect(
+    walkTiffLayout(new Uint8Array([0x42, 0x4d, 0, 0, 0, 0, 0, 0])),
+  ).toBeNull();
+  expect(walkTiffLayout(new Uint8Array([0x49, 0x49]))).toBeNull();
+});
@@ -134,6 +134,23 @@ test("extractTrailingData returns null for truncated PNG chunk", () => {
   expect(extractTrailingData(source, "image/png")).toBeNull();
 });
 
+test("extractTrailingData starts at a signature after prepended data", () => {
+  const png = buildPngBytes([0x01, 0x02]);
+  const prefixed = new Uint8Array([0xaa, 0xbb, 0xcc, ...png]);
+  expect(extractTrailingData(prefixed, "image/png")?.containerEndOffset).toBe(
+    prefixed.length - 2,
+  );
+
+  // Past offset 0 a JPEG needs SOI followed by a marker.
+  const jpeg = buildJpegBytes([0x33]);
+  expect(
+    extractTrailingData(
+      new Uint8Array([0x00, 0xff, 0xd8, 0x00, ...jpeg]),
+      "image/jpeg",
+    )?.containerEndOffset,
+  ).toBe(4 + jpeg.length - 1);
+});
+
 test("extractTrailingData handles JPEG with stuffed marker bytes", () => {
   const source = new Uint8Array([
     0xff,
@@ -250,7 +267,7 @@ test("extractTrailingData returns null when JPEG has no EOI marker", () => {
   expect(extractTrailingData(source, "image/jpeg")).toBeNull();
 });
 
-test("extractTrailingData returns null for unsupported format", () => {
+test("extractTrailingData returns null when bytes do not match the format", () => {
   const source = buildPngBytes([0x01]);
   expect(extractTrailingData(source, "image/gif" as never)).toBeNull();
 });
@@ -280,3 +297,137 @@ test("extractTrailingData returns null when PNG has no IEND chunk", () => {
   ]);
   expect(extractTrailingData(source, "image/png")).toBeNull();
 });
+
+test("extractTrailingData finds bytes after the GIF trailer", () => {
+  const source = new Uint8Array([
+    0x47, 0x49, 0x46, 0x38, 0x39, 0x61, 0x01, 0x00, 0x01, 0x00, 0x00, 0x00,
+    0x00, 0x3b, 0xca, 0xfe,
+  ]);
+  const trailing = extractTrailingData(source, "image/gif");
+
+  expect(trailing?.containerEndOffset).toBe(14);
+  expect(Array.from(trailing?.bytes ?? [])).toEqual([0xca, 0xfe]);
+  expect(extractTrailingData(source.slice(0, 13), "image/gif")).toBeNull();
+});
+
+test("extractTrailingData uses the RIFF size and pad byte for WebP", () => {
+  const riff = (size: number, trailing: number[]) =>
+    new Uint8Array([
+      0x52,
+      0x49,
+      0x46,
+      0x46,
+      size,
+      0x00,
+      0x00,
+      0x00,
+      0x57,
+      0x45,
+      0x42,
+      0x50,
+      ...new Array<number>(size - 4).fill(0),
+      ...trailing,
+    ]);
+
+  expect(
+    extractTrailingData(riff(9, [0x00, 0x11, 0x22]), "image/webp")
+      ?.containerEndOffset,
+  ).toBe(18);
+  expect(extractTrailingData(riff(10, []), "image/webp")).toBeNull();
+  expect(extractTrailingData(riff(10, [0x01]), "image/webp")?.byteLength).toBe(
+    1,
+  );
+  const oversized = riff(10, []);
+  oversized[4] = 0x40;
+  expect(extractTrailingData(oversized, "image/webp")).toBeNull();
+  expect(extractTrailingData(buildPngBytes([1]), "image/webp")).toBeNull();
+});
+
+function buildBmpBytes(
+  declaredSize: number,
+  trailing: number[] = [],
+  compression = 0,
+  sizeImage = 0,
+): Uint8Array {
+  // 2x2 24-bit BMP: 14-byte file header, 40-byte info header, 2 rows of 8.
+  const bytes = new Uint8Array(14 + 40 + 16 + trailing.length);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x42, 0x4d]);
+  view.setUint32(2, declaredSize, true);
+  view.setUint32(10, 54, true);
+  view.setUint32(14, 40, true);
+  view.setInt32(18, 2, true);
+  view.setInt32(22, -2, true);
+  view.setUint16(28, 24, true);
+  view.setUint32(30, compression, true);
+  view.setUint32(34, sizeImage, true);
+  bytes.set(trailing, 70);
+  return bytes;
+}
+
+test("extractTrailingData finds the end of BMP pixel data", () => {
+  expect(
+    extractTrailingData(buildBmpBytes(70, [0xaa, 0xbb]), "image/bmp")
+      ?.containerEndOffset,
+  ).toBe(70);
+  // A zero or stale declared size falls back to the pixel array.
+  expect(
+    extractTrailingData(buildBmpBytes(0, [0xaa]), "image/bmp")?.bytes,
+  ).toEqual(new Uint8Array([0xaa]));
+  expect(
+    extractTrailingData(buildBmpBytes(71, [0xaa]), "image/bmp"),
+  ).toBeNull();
+  // Compressed pixel data is sized by biSizeImage.
+  expect(
+    extractTrailingData(buildBmpBytes(0, [1, 2, 3, 4], 1, 12), "image/bmp")
+      ?.containerEndOffset,
+  ).toBe(66);
+  expect(
+    extractTrailingData(buildBmpBytes(0, [], 0).slice(0, 60), "image/bmp"),
+  ).toBeNull();
+
+  // 2x2 1-bit BMP with a 12-byte core header and 2-entry RGB palette.
+  const core = new Uint8Array(14 + 12 + 6 + 8 + 1);
+  core.set([0x42, 0x4d]);
+  core[10] = 32;
+  core.set([12, 0, 0, 0, 2, 0, 2, 0, 1, 0, 1, 0], 14);
+  expect(extractTrailingData(core, "image/bmp")?.containerEndOffset).toBe(40);
+});
+
+test("extractTrailingData includes a BMP V5 color profile", () => {
+  const bytes = new Uint8Array(14 + 124 + 4 + 8 + 2);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x42, 0x4d]);
+  view.setUint32(10, 14 + 124, true);
+  view.setUint32(14, 124, true);
+  view.setInt32(18, 1, true);
+  view.setInt32(22, 1, true);
+  view.setUint16(28, 32, true);
+  view.setUint32(14 + 112, 124 + 4, true);
+  view.setUint32(14 + 116, 8, true);
+
+  expect(extractTrailingData(bytes, "image/bmp")?.containerEndOffset).toBe(150);
+  expect(extractTrailingData(bytes.slice(0, 40), "image/bmp")).toBeNull();
+});
+
+test("extractTrailingData finds bytes after the last TIFF strip", () => {
+  const bytes = new Uint8Array(8 + 2 + 24 + 4 + 6 + 3);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x49, 0x49, 0x2a, 0x00]);
+  view.setUint32(4, 8, true);
+  view.setUint16(8, 2, true);
+  // StripOffsets = 38, StripByteCounts = 6 (both SHORT, inline).
+  view.setUint16(10, 273, true);
+  view.setUint16(12, 3, true);
+  view.setUint32(14, 1, true);
+  view.setUint16(18, 38, true);
+  view.setUint16(22, 279, true);
+  view.setUint16(24, 3, true);
+  view.setUint32(26, 1, true);
+  view.setUint16(30, 6, true);
+
+  const trailing = extractTrailingData(bytes, "image/tiff");
+  expect(trailing?.containerEndOffset).toBe(44);
+  expect(trailing?.byteLength).toBe(3);
+  expect(extractTrailingData(bytes.slice(0, 40), "image/tiff")).toBeNull();
+});
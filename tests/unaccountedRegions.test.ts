@@ -0,0 +1,210 @@
+import { expect, test } from "vitest";
+import { crc32 } from "../src/utils/crc32.ts";
+import { findUnaccountedRegions } from "../src/utils/unaccountedRegions.ts";
+
+function latin1(text: string): number[] {
+  return Array.from(text, (character) => character.charCodeAt(0));
+}
+
+function uint32BE(value: number): number[] {
+  return [
+    value >>> 24,
+    (value >>> 16) & 0xff,
+    (value >>> 8) & 0xff,
+    value & 0xff,
+  ];
+}
+
+function uint32LE(value: number): number[] {
+  return uint32BE(value).reverse();
+}
+
+function pngChunk(type: string, data: number[] = []): number[] {
+  const body = [...latin1(type), ...data];
+  return [
+    ...uint32BE(data.length),
+    ...body,
+    ...uint32BE(crc32(new Uint8Array(body))),
+  ];
+}
+
+const spans = (
+  bytes: Uint8Array,
+  format: Parameters<typeof findUnaccountedRegions>[1],
+) =>
+  findUnaccountedRegions(bytes, format).map((region) => [
+    region.kind,
+    region.offset,
+    region.endOffset,
+  ]);
+
+test("finds prepended bytes and gaps between PNG chunks", () => {
+  const bytes = new Uint8Array([
+    ...latin1("MZ!"),
+    0x89,
+    0x50,
+    0x4e,
+    0x47,
+    0x0d,
+    0x0a,
+    0x1a,
+    0x0a,
+    ...pngChunk("IHDR", [0, 0, 0, 1, 0, 0, 0, 1, 8, 0, 0, 0, 0]),
+    0xde,
+    0xad,
+    0xbe,
+    0xef,
+    0x01,
+    ...pngChunk("IDAT", [1, 2, 3]),
+    ...pngChunk("IEND"),
+    0x99,
+  ]);
+
+  const regions = findUnaccountedRegions(bytes, "image/png");
+  expect(regions).toEqual([
+    {
+      kind: "leading",
+      offset: 0,
+      endOffset: 3,
+      byteLength: 3,
+      description: "Bytes before the PNG signature",
+    },
+    {
+      kind: "gap",
+      offset: 36,
+      endOffset: 41,
+      byteLength: 5,
+      description: "Bytes between PNG chunks that do not form a chunk",
+    },
+  ]);
+
+  // Junk that never resynchronizes is left to the trailing data view.
+  expect(spans(bytes.slice(3, 41), "image/png")).toEqual([]);
+  expect(
+    spans(
+      new Uint8Array([...bytes.slice(3, 41), ...new Array(12).fill(0)]),
+      "image/png",
+    ),
+  ).toEqual([]);
+  expect(spans(new Uint8Array([1, 2, 3]), "image/png")).toEqual([]);
+});
+
+test("reports JPEG slack before the first scan but not fill bytes", () => {
+  const bytes = new Uint8Array([
+    0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x11, 0x22, 0x12, 0x34, 0xff, 0xff,
+    0xdb, 0x00, 0x02, 0xff, 0xff, 0xda, 0x00, 0x02, 0x55, 0x66, 0xff, 0xd9,
+  ]);
+  expect(spans(bytes, "image/jpeg")).toEqual([["gap", 8, 11]]);
+});
+
+test("flags odd RIFF padding and chunk slack in WebP", () => {
+  const bytes = new Uint8Array([
+    ...latin1("RIFF"),
+    ...uint32LE(4 + 8 + 3 + 1 + 8 + 2 + 5),
+    ...latin1("WEBP"),
+    ...latin1("VP8L"),
+    ...uint32LE(3),
+    1,
+    2,
+    3,
+    0x07,
+    ...latin1("EXIF"),
+    ...uint32LE(2),
+    4,
+    5,
+    ...latin1("junk!"),
+    0x08,
+  ]);
+
+  expect(findUnaccountedRegions(bytes, "image/webp")).toEqual([
+    {
+      kind: "padding",
+      offset: 23,
+      endOffset: 24,
+      byteLength: 1,
+      description: "Non-zero pad byte after the VP8L chunk",
+    },
+    {
+      kind: "gap",
+      offset: 34,
+      endOffset: 39,
+      byteLength: 5,
+      description: "RIFF body bytes that do not form a complete chunk",
+    },
+    {
+      kind: "padding",
+      offset: 39,
+      endOffset: 40,
+      byteLength: 1,
+      description: "Non-zero pad byte after the RIFF body",
+    },
+  ]);
+
+  // A chunk that overruns the RIFF body leaves the rest unaccounted.
+  bytes[28] = 100;
+  expect(spans(bytes, "image/webp")).toEqual([
+    ["padding", 23, 24],
+    ["gap", 24, 39],
+    ["padding", 39, 40],
+  ]);
+});
+
+test("lists unreferenced TIFF and BMP ranges", () => {
+  // IFD at 16 with strip offset/count entries; the strip at 47 leaves one
+  // zero alignment byte at 46, which is not reported.
+  const tiff = new Uint8Array(51);
+  const tiffView = new DataView(tiff.buffer);
+  tiff.set(latin1("II*\0"));
+  tiffView.setUint32(4, 16, true);
+  tiff.set(latin1("hidden"), 8);
+  tiffView.setUint16(16, 2, true);
+  tiffView.setUint16(18, 273, true);
+  tiffView.setUint16(20, 4, true);
+  tiffView.setUint32(22, 1, true);
+  tiffView.setUint32(26, 47, true);
+  tiffView.setUint16(30, 279, true);
+  tiffView.setUint16(32, 4, true);
+  tiffView.setUint32(34, 1, true);
+  tiffView.setUint32(38, 4, true);
+  expect(spans(tiff, "image/tiff")).toEqual([["gap", 8, 16]]);
+
+  // 8-bit 2x2 BMP: color table ends at 62, pixels start at 70 and the
+  // declared size leaves two bytes after them.
+  const bmp = new Uint8Array(80);
+  const bmpView = new DataView(bmp.buffer);
+  bmp.set(latin1("BM"));
+  bmpView.setUint32(2, 80, true);
+  bmpView.setUint32(10, 70, true);
+  bmpView.setUint32(14, 40, true);
+  bmpView.setInt32(18, 2, true);
+  bmpView.setInt32(22, 2, true);
+  bmpView.setUint16(28, 8, true);
+  bmpView.setUint32(46, 2, true);
+  expect(spans(bmp, "image/bmp")).toEqual([
+    ["gap", 62, 70],
+    ["gap", 78, 80],
+  ]);
+});
+
+test("only reports leading data for GIF and unknown layouts", () => {
+  const gif = new Uint8Array([
+    0x00,
+    ...latin1("GIF89a"),
+    1,
+    0,
+    1,
+    0,
+    0,
+    0,
+    0,
+    0x3b,
+  ]);
+  expect(spans(gif, "image/gif")).toEqual([["leading", 0, 1]]);
+  expect(spans(new Uint8Array(20), "image/tiff")).toEqual([]);
+  expect(
+    spans(new Uint8Array([...latin1("II*\0"), 0, 0, 0, 0]), "image/tiff"),
+  ).toEqual([]);
+  expect(spans(new Uint8Array(latin1("BM")), "image/bmp")).toEqual([]);
+  expect(spans(new Uint8Array(latin1("RIFF")), "image/webp")).toEqual([]);
+  expect(spans(new Uint8Array([0xff, 0xd8]), "image/jpeg")).toEqual([]);
+});
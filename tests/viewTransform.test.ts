@@ -0,0 +1,74 @@
+import { expect, test } from "vitest";
+import {
+  randomMapColor,
+  transformViewImageData,
+} from "../src/utils/viewTransform.ts";
+
+class MockImageData {
+  public data: Uint8ClampedArray;
+  public width: number;
+  public height: number;
+
+  constructor(data: Uint8ClampedArray, width: number, height: number) {
+    this.data = data;
+    this.width = width;
+    this.height = height;
+  }
+}
+
+globalThis.ImageData = MockImageData as unknown as typeof ImageData;
+
+function image(pixels: number[], width: number, height: number): ImageData {
+  return new ImageData(new Uint8ClampedArray(pixels), width, height);
+}
+
+const PIXELS = image([220, 180, 50, 128, 10, 20, 30, 255], 2, 1);
+
+test("applies the per-channel view filters", () => {
+  const view = (mode: Parameters<typeof transformViewImageData>[1]) =>
+    Array.from(transformViewImageData(PIXELS, mode, 0).data);
+
+  expect(view("original")).toEqual([220, 180, 50, 128, 10, 20, 30, 255]);
+  expect(transformViewImageData(PIXELS, "original", 0).data).not.toBe(
+    PIXELS.data,
+  );
+  expect(view("xor")).toEqual([35, 75, 205, 128, 245, 235, 225, 255]);
+  expect(view("high-contrast")).toEqual([255, 255, 255, 128, 0, 0, 0, 255]);
+  expect(view("grayscale")).toEqual([177, 177, 177, 128, 18, 18, 18, 255]);
+  expect(view("red-channel")).toEqual([220, 0, 0, 128, 10, 0, 0, 255]);
+  expect(view("green-channel")).toEqual([0, 180, 0, 128, 0, 20, 0, 255]);
+  expect(view("blue-channel")).toEqual([0, 0, 50, 128, 0, 0, 30, 255]);
+});
+
+test("random colors give distinct values distinct colors in every channel", () => {
+  const pixels = Array.from({ length: 256 }, (_, value) => [
+    value,
+    value,
+    value,
+    255,
+  ]).flat();
+  const output = transformViewImageData(
+    image(pixels, 256, 1),
+    "random-colors",
+    0x2545f491,
+  ).data;
+
+  const colors = new Set<number>();
+  const channels = [new Set<number>(), new Set<number>(), new Set<number>()];
+  for (let index = 0; index < output.length; index += 4) {
+    colors.add(
+      (output[index] << 16) | (output[index + 1] << 8) | output[index + 2],
+    );
+    channels.forEach((values, channel) => values.add(output[index + channel]));
+    expect(output[index + 3]).toBe(255);
+  }
+  expect(colors.size).toBe(256);
+  // A channel stuck at one value (e.g. red saturating at 255) would leave
+  // only a handful of levels.
+  for (const values of channels) {
+    expect(values.size).toBeGreaterThan(128);
+  }
+
+  expect(randomMapColor(1, 0)).not.toBe(randomMapColor(2, 0));
+  expect(randomMapColor(1, 0)).not.toBe(randomMapColor(1, 7));
+});
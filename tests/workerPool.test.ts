@@ -0,0 +1,192 @@
+import { expect, test } from "vitest";
+import {
+  createAbortError,
+  createWorkerPool,
+  isAbortError,
+  type WorkerLike,
+  type WorkerReplyMessage,
+  type WorkerTaskMessage,
+} from "../src/utils/workerPool.ts";
+
+class FakeWorker implements WorkerLike {
+  public onmessage: ((event: MessageEvent) => void) | null = null;
+  public onerror: ((event: ErrorEvent) => void) | null = null;
+  public posted: WorkerTaskMessage<string>[] = [];
+  public transfers: Transferable[][] = [];
+  public terminated = false;
+
+  postMessage(message: unknown, transfer: Transferable[] = []): void {
+    this.posted.push(message as WorkerTaskMessage<string>);
+    this.transfers.push(transfer);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  reply(message: WorkerReplyMessage<string>): void {
+    this.onmessage?.({ data: message } as MessageEvent);
+  }
+
+  lastTaskId(): number {
+    return this.posted[this.posted.length - 1].id;
+  }
+}
+
+function createFakePool(size: number) {
+  const workers: FakeWorker[] = [];
+  const pool = createWorkerPool<string, string>(() => {
+    const worker = new FakeWorker();
+    workers.push(worker);
+    return worker;
+  }, size);
+  return { pool, workers };
+}
+
+test("dispatches to idle workers and queues the rest", async () => {
+  const { pool, workers } = createFakePool(2);
+  expect(workers).toHaveLength(2);
+
+  const first = pool.run("a");
+  const second = pool.run("b");
+  const third = pool.run("c");
+
+  expect(workers[0].posted.map((message) => message.request)).toEqual(["a"]);
+  expect(workers[1].posted.map((message) => message.request)).toEqual(["b"]);
+
+  workers[0].reply({
+    id: workers[0].lastTaskId(),
+    type: "result",
+    result: "A",
+  });
+  await expect(first).resolves.toBe("A");
+  expect(workers[0].posted.map((message) => message.request)).toEqual([
+    "a",
+    "c",
+  ]);
+
+  workers[1].reply({
+    id: workers[1].lastTaskId(),
+    type: "result",
+    result: "B",
+  });
+  workers[0].reply({
+    id: workers[0].lastTaskId(),
+    type: "result",
+    result: "C",
+  });
+  await expect(second).resolves.toBe("B");
+  await expect(third).resolves.toBe("C");
+});
+
+test("forwards progress and transfer lists, ignores stale replies", async () => {
+  const { pool, workers } = createFakePool(1);
+  const progress: number[] = [];
+  const buffer = new ArrayBuffer(4);
+  const task = pool.run("a", {
+    onProgress: (fraction) => progress.push(fraction),
+    transfer: [buffer],
+  });
+
+  const id = workers[0].lastTaskId();
+  expect(workers[0].transfers[0]).toEqual([buffer]);
+  workers[0].reply({ id: id + 100, type: "progress", progress: 0.9 });
+  workers[0].reply({ id, type: "progress", progress: 0.25 });
+  workers[0].reply({ id, type: "progress", progress: 0.5 });
+  workers[0].reply({ id, type: "result", result: "done" });
+  workers[0].reply({ id, type: "progress", progress: 1 });
+
+  await expect(task).resolves.toBe("done");
+  expect(progress).toEqual([0.25, 0.5]);
+});
+
+test("rejects on worker error replies and replaces crashed workers", async () => {
+  const { pool, workers } = createFakePool(1);
+
+  const failed = pool.run("a");
+  workers[0].reply({
+    id: workers[0].lastTaskId(),
+    type: "error",
+    message: "bad input",
+  });
+  await expect(failed).rejects.toThrow("bad input");
+
+  const crashed = pool.run("b");
+  const preventDefault = () => undefined;
+  workers[0].onerror?.({ message: "", preventDefault } as ErrorEvent);
+  await expect(crashed).rejects.toThrow("Worker task failed.");
+  expect(workers[0].terminated).toBe(true);
+  expect(workers).toHaveLength(2);
+
+  const next = pool.run("c");
+  workers[1].reply({
+    id: workers[1].lastTaskId(),
+    type: "result",
+    result: "C",
+  });
+  await expect(next).resolves.toBe("C");
+});
+
+test("aborting a queued task drops it without touching the worker", async () => {
+  const { pool, workers } = createFakePool(1);
+  const running = pool.run("a");
+  const controller = new AbortController();
+  const queued = pool.run("b", { signal: controller.signal });
+
+  controller.abort();
+  await expect(queued).rejects.toSatisfy(isAbortError);
+  expect(workers[0].terminated).toBe(false);
+
+  workers[0].reply({
+    id: workers[0].lastTaskId(),
+    type: "result",
+    result: "A",
+  });
+  await expect(running).resolves.toBe("A");
+  expect(workers[0].posted.map((message) => message.request)).toEqual(["a"]);
+});
+
+test("aborting a running task terminates and replaces its worker", async () => {
+  const { pool, workers } = createFakePool(1);
+  const controller = new AbortController();
+  const running = pool.run("a", { signal: controller.signal });
+  const queued = pool.run("b");
+
+  controller.abort();
+  await expect(running).rejects.toSatisfy(isAbortError);
+  expect(workers[0].terminated).toBe(true);
+  expect(workers).toHaveLength(2);
+  expect(workers[1].posted.map((message) => message.request)).toEqual(["b"]);
+
+  workers[1].reply({
+    id: workers[1].lastTaskId(),
+    type: "result",
+    result: "B",
+  });
+  await expect(queued).resolves.toBe("B");
+});
+
+test("rejects pre-aborted signals and runs after dispose", async () => {
+  const { pool, workers } = createFakePool(0);
+  expect(workers).toHaveLength(1);
+
+  const controller = new AbortController();
+  controller.abort();
+  await expect(pool.run("a", { signal: controller.signal })).rejects.toSatisfy(
+    isAbortError,
+  );
+
+  const running = pool.run("b");
+  const queued = pool.run("c");
+  pool.dispose();
+  await expect(running).rejects.toSatisfy(isAbortError);
+  await expect(queued).rejects.toSatisfy(isAbortError);
+  expect(workers[0].terminated).toBe(true);
+  await expect(pool.run("d")).rejects.toThrow("disposed");
+});
+
+test("identifies abort errors", () => {
+  expect(isAbortError(createAbortError())).toBe(true);
+  expect(isAbortError(new Error("AbortError"))).toBe(false);
+  expect(isAbortError(null)).toBe(false);
+});
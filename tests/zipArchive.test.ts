@@ -0,0 +1,264 @@
+import { deflateRawSync } from "node:zlib";
+import { expect, test } from "vitest";
+import { crc32 } from "../src/utils/crc32.ts";
+import { extractZipEntry, listZipEntries } from "../src/utils/zipArchive.ts";
+
+interface EntrySpec {
+  name: string;
+  contents: Uint8Array;
+  method?: number;
+  flags?: number;
+  // Replaces the stored data (e.g. for encrypted or unsupported methods).
+  data?: Uint8Array;
+  extra?: number[];
+  zip64?: boolean;
+}
+
+function u16(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff];
+}
+
+function u32(value: number): number[] {
+  return [...u16(value & 0xffff), ...u16(Math.floor(value / 0x10000))];
+}
+
+function u64(value: number): number[] {
+  return [...u32(value % 0x100000000), ...u32(Math.floor(value / 0x100000000))];
+}
+
+// Writes local headers, data, the central directory and the end records.
+// offsetBias is added to every stored offset, as in a ZIP that had bytes in
+// front of it when it was written.
+function buildZip(
+  specs: EntrySpec[],
+  options: { comment?: string; offsetBias?: number; zip64?: boolean } = {},
+): Uint8Array {
+  const bias = options.offsetBias ?? 0;
+  const body: number[] = [];
+  const directory: number[] = [];
+  for (const spec of specs) {
+    const method = spec.method ?? 0;
+    const data =
+      spec.data ??
+      (method === 8 ? deflateRawSync(spec.contents) : spec.contents);
+    const name = new TextEncoder().encode(spec.name);
+    const crc = crc32(spec.contents);
+    const localOffset = body.length;
+    const sizes = spec.zip64
+      ? [...u32(0xffffffff), ...u32(0xffffffff)]
+      : [...u32(data.length), ...u32(spec.contents.length)];
+    const extra = spec.zip64
+      ? [
+          ...u16(0x0001),
+          ...u16(24),
+          ...u64(spec.contents.length),
+          ...u64(data.length),
+          ...u64(localOffset + bias),
+        ]
+      : (spec.extra ?? []);
+    const common = [
+      ...u16(20),
+      ...u16(spec.flags ?? 0),
+      ...u16(method),
+      ...u32(0),
+      ...u32(crc),
+      ...sizes,
+      ...u16(name.length),
+      ...u16(extra.length),
+    ];
+    body.push(...u32(0x04034b50), ...common, ...name, ...extra, ...data);
+    directory.push(
+      ...u32(0x02014b50),
+      ...u16(20),
+      ...common,
+      ...u16(0),
+      ...u16(0),
+      ...u16(0),
+      ...u32(0),
+      ...u32(spec.zip64 ? 0xffffffff : localOffset + bias),
+      ...name,
+      ...extra,
+    );
+  }
+
+  const comment = new TextEncoder().encode(options.comment ?? "");
+  const directoryOffset = body.length + bias;
+  const zip64Records = options.zip64
+    ? [
+        ...u32(0x06064b50),
+        ...u64(44),
+        ...u16(45),
+        ...u16(45),
+        ...u32(0),
+        ...u32(0),
+        ...u64(specs.length),
+        ...u64(specs.length),
+        ...u64(directory.length),
+        ...u64(directoryOffset),
+        ...u32(0x07064b50),
+        ...u32(0),
+        ...u64(body.length + directory.length + bias),
+        ...u32(1),
+      ]
+    : [];
+  return new Uint8Array([
+    ...body,
+    ...directory,
+    ...zip64Records,
+    ...u32(0x06054b50),
+    ...u16(0),
+    ...u16(0),
+    ...u16(options.zip64 ? 0xffff : specs.length),
+    ...u16(options.zip64 ? 0xffff : specs.length),
+    ...u32(directory.length),
+    ...u32(options.zip64 ? 0xffffffff : directoryOffset),
+    ...u16(comment.length),
+    ...comment,
+  ]);
+}
+
+const TEXT = new TextEncoder().encode("PixelScope ZIP entry ".repeat(20));
+
+test("lists entries and extracts stored and deflated data", () => {
+  const zip = buildZip(
+    [
+      { name: "docs/", contents: new Uint8Array(0) },
+      { name: "docs/plain.txt", contents: TEXT },
+      { name: "docs/packed.txt", contents: TEXT, method: 8 },
+      { name: "héllo.txt", contents: TEXT.subarray(0, 5), flags: 0x0800 },
+    ],
+    { comment: "archive note" },
+  );
+
+  const archive = listZipEntries(zip)!;
+  expect(archive.comment).toBe("archive note");
+  expect(archive.isZip64).toBe(false);
+  expect(archive.isTruncated).toBe(false);
+  expect(archive.declaredEntryCount).toBe(4);
+  expect(
+    archive.entries.map((entry) => [
+      entry.name,
+      entry.isDirectory,
+      entry.methodName,
+      entry.encryption,
+      entry.isExtractable,
+    ]),
+  ).toEqual([
+    ["docs/", true, "Stored", "none", true],
+    ["docs/plain.txt", false, "Stored", "none", true],
+    ["docs/packed.txt", false, "Deflate", "none", true],
+    ["héllo.txt", false, "Stored", "none", true],
+  ]);
+
+  const packed = archive.entries[2];
+  expect(packed.uncompressedSize).toBe(TEXT.length);
+  expect(packed.compressedSize).toBeLessThan(TEXT.length);
+  expect(packed.crc32).toBe(crc32(TEXT));
+  expect(extractZipEntry(zip, packed)).toEqual(TEXT);
+  expect(extractZipEntry(zip, archive.entries[1])).toEqual(TEXT);
+  expect(extractZipEntry(zip, archive.entries[0])).toHaveLength(0);
+});
+
+test("detects ZipCrypto, AES and strong encryption", () => {
+  const aesExtra = [
+    ...u16(0x9901),
+    ...u16(7),
+    ...u16(2),
+    0x41,
+    0x45,
+    3,
+    ...u16(8),
+  ];
+  const zip = buildZip([
+    { name: "legacy.bin", contents: TEXT, flags: 0x01 },
+    {
+      name: "aes.bin",
+      contents: TEXT,
+      flags: 0x01,
+      method: 99,
+      data: new Uint8Array(40),
+      extra: aesExtra,
+    },
+    { name: "strong.bin", contents: TEXT, flags: 0x41 },
+    {
+      name: "lzma.bin",
+      contents: TEXT,
+      method: 14,
+      data: new Uint8Array(12),
+    },
+  ]);
+
+  const entries = listZipEntries(zip)!.entries;
+  expect(
+    entries.map((entry) => [
+      entry.encryption,
+      entry.aesKeyBits,
+      entry.methodName,
+      entry.isExtractable,
+    ]),
+  ).toEqual([
+    ["zipcrypto", null, "Stored", false],
+    ["aes", 256, "Deflate", false],
+    ["strong", null, "Stored", false],
+    ["none", null, "LZMA", false],
+  ]);
+  expect(() => extractZipEntry(zip, entries[1])).toThrow(
+    "aes.bin is encrypted.",
+  );
+  expect(() => extractZipEntry(zip, entries[3])).toThrow(
+    "LZMA compression is not supported for lzma.bin.",
+  );
+});
+
+test("relocates shifted offsets and reads ZIP64 records", () => {
+  const shifted = buildZip([{ name: "a.txt", contents: TEXT, method: 8 }], {
+    offsetBias: 300,
+  });
+  const shiftedEntry = listZipEntries(shifted)!.entries[0];
+  expect(shiftedEntry.localHeaderOffset).toBe(0);
+  expect(extractZipEntry(shifted, shiftedEntry)).toEqual(TEXT);
+
+  const zip64 = buildZip(
+    [
+      { name: "small.txt", contents: TEXT.subarray(0, 9) },
+      { name: "big.txt", contents: TEXT, method: 8, zip64: true },
+    ],
+    { zip64: true },
+  );
+  const archive = listZipEntries(zip64)!;
+  expect(archive.isZip64).toBe(true);
+  expect(archive.declaredEntryCount).toBe(2);
+  const big = archive.entries[1];
+  expect(big.uncompressedSize).toBe(TEXT.length);
+  expect(extractZipEntry(zip64, big)).toEqual(TEXT);
+});
+
+test("reports truncated directories and damaged entries", () => {
+  const zip = buildZip([
+    { name: "one.txt", contents: TEXT },
+    { name: "two.txt", contents: TEXT },
+  ]);
+  // Claim a third entry that is not there.
+  const overCounted = zip.slice();
+  overCounted.set(u16(3), overCounted.length - 12);
+  overCounted.set(u16(3), overCounted.length - 14);
+  const archive = listZipEntries(overCounted)!;
+  expect(archive.isTruncated).toBe(true);
+  expect(archive.entries).toHaveLength(2);
+
+  const corrupted = zip.slice();
+  corrupted[40] ^= 0xff;
+  const entry = listZipEntries(corrupted)!.entries[0];
+  expect(() => extractZipEntry(corrupted, entry)).toThrow(
+    "CRC-32 check failed for one.txt.",
+  );
+  expect(() =>
+    extractZipEntry(corrupted, { ...entry, localHeaderOffset: 5 }),
+  ).toThrow("Local header for one.txt is missing.");
+  expect(() =>
+    extractZipEntry(corrupted, { ...entry, compressedSize: 1 << 20 }),
+  ).toThrow("Data for one.txt is truncated.");
+
+  expect(listZipEntries(zip.subarray(0, zip.length - 30))).toBeNull();
+  expect(listZipEntries(new Uint8Array([0x50, 0x4b, 0x05, 0x06]))).toBeNull();
+});